@@ -0,0 +1,8 @@
+ALTER TABLE "payments" ADD COLUMN "gateway" varchar(30);--> statement-breakpoint
+ALTER TABLE "payments" ADD COLUMN "payment_link_id" varchar(100);--> statement-breakpoint
+ALTER TABLE "payments" ADD COLUMN "payment_link_url" text;--> statement-breakpoint
+ALTER TABLE "payments" ADD COLUMN "attempts" integer DEFAULT 0;--> statement-breakpoint
+ALTER TABLE "payments" ADD COLUMN "last_attempt_at" timestamp;--> statement-breakpoint
+ALTER TABLE "payments" ADD COLUMN "expires_at" timestamp;--> statement-breakpoint
+ALTER TABLE "payments" ADD COLUMN "paid_at" timestamp;--> statement-breakpoint
+CREATE INDEX "payments_link_idx" ON "payments" USING btree ("payment_link_id");
\ No newline at end of file
@@ -0,0 +1,32 @@
+CREATE TABLE "invoices" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"invoice_number" varchar(20) NOT NULL,
+	"owner_whatsapp_id" varchar(20) NOT NULL,
+	"financial_year" varchar(7) NOT NULL,
+	"sequence" integer NOT NULL,
+	"session_id" varchar(50) NOT NULL,
+	"user_whatsapp" varchar(20) NOT NULL,
+	"station_id" integer NOT NULL,
+	"supplier_name" varchar(200) NOT NULL,
+	"supplier_gstin" varchar(20),
+	"supplier_address" text,
+	"customer_name" varchar(100),
+	"line_items" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"taxable_amount" numeric(10, 2) NOT NULL,
+	"discount_amount" numeric(10, 2) DEFAULT '0',
+	"tax_rate" numeric(5, 2) NOT NULL,
+	"cgst_amount" numeric(10, 2) DEFAULT '0',
+	"sgst_amount" numeric(10, 2) DEFAULT '0',
+	"total_amount" numeric(10, 2) NOT NULL,
+	"access_token" varchar(64) NOT NULL,
+	"issued_at" timestamp DEFAULT now(),
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "invoices_session_id_unique" UNIQUE("session_id"),
+	CONSTRAINT "invoices_access_token_unique" UNIQUE("access_token"),
+	CONSTRAINT "invoices_owner_sequence_unique" UNIQUE("owner_whatsapp_id","financial_year","sequence")
+);
+--> statement-breakpoint
+ALTER TABLE "invoices" ADD CONSTRAINT "invoices_session_id_charging_sessions_session_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."charging_sessions"("session_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "invoices" ADD CONSTRAINT "invoices_user_whatsapp_users_whatsapp_id_fk" FOREIGN KEY ("user_whatsapp") REFERENCES "public"."users"("whatsapp_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "invoices" ADD CONSTRAINT "invoices_station_id_charging_stations_id_fk" FOREIGN KEY ("station_id") REFERENCES "public"."charging_stations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "invoices_user_idx" ON "invoices" USING btree ("user_whatsapp");
\ No newline at end of file
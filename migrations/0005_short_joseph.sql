@@ -0,0 +1,18 @@
+CREATE TABLE "station_tariffs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"station_id" integer NOT NULL,
+	"energy_price_per_kwh" numeric(6, 2),
+	"time_of_use_bands" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"session_fee" numeric(6, 2) DEFAULT '5.00' NOT NULL,
+	"session_fee_percent" numeric(5, 2) DEFAULT '5.00' NOT NULL,
+	"idle_fee_per_minute" numeric(6, 2) DEFAULT '0' NOT NULL,
+	"minimum_bill" numeric(8, 2) DEFAULT '0' NOT NULL,
+	"tax_rate" numeric(5, 2) DEFAULT '18.00' NOT NULL,
+	"is_active" boolean DEFAULT true,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "station_tariffs_station_id_unique" UNIQUE("station_id")
+);
+--> statement-breakpoint
+ALTER TABLE "charging_sessions" ADD COLUMN "bill_breakdown" jsonb;--> statement-breakpoint
+ALTER TABLE "station_tariffs" ADD CONSTRAINT "station_tariffs_station_id_charging_stations_id_fk" FOREIGN KEY ("station_id") REFERENCES "public"."charging_stations"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,31 @@
+CREATE TABLE "wallet_ledger_entries" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"transaction_id" varchar(50) NOT NULL,
+	"account" varchar(30) NOT NULL,
+	"user_whatsapp" varchar(20),
+	"debit" numeric(10, 2) DEFAULT '0' NOT NULL,
+	"credit" numeric(10, 2) DEFAULT '0' NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "wallet_transactions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"transaction_id" varchar(50) NOT NULL,
+	"user_whatsapp" varchar(20) NOT NULL,
+	"type" varchar(30) NOT NULL,
+	"amount" numeric(10, 2) NOT NULL,
+	"reference" varchar(100) NOT NULL,
+	"description" text,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "wallet_transactions_transaction_id_unique" UNIQUE("transaction_id"),
+	CONSTRAINT "wallet_transactions_type_reference" UNIQUE("type","reference")
+);
+--> statement-breakpoint
+ALTER TABLE "payments" ALTER COLUMN "session_id" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "payments" ALTER COLUMN "station_id" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "payments" ADD COLUMN "purpose" varchar(20) DEFAULT 'session' NOT NULL;--> statement-breakpoint
+ALTER TABLE "wallet_ledger_entries" ADD CONSTRAINT "wallet_ledger_entries_transaction_id_wallet_transactions_transaction_id_fk" FOREIGN KEY ("transaction_id") REFERENCES "public"."wallet_transactions"("transaction_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "wallet_transactions" ADD CONSTRAINT "wallet_transactions_user_whatsapp_users_whatsapp_id_fk" FOREIGN KEY ("user_whatsapp") REFERENCES "public"."users"("whatsapp_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "wallet_entries_account_user_idx" ON "wallet_ledger_entries" USING btree ("account","user_whatsapp");--> statement-breakpoint
+CREATE INDEX "wallet_entries_transaction_idx" ON "wallet_ledger_entries" USING btree ("transaction_id");--> statement-breakpoint
+CREATE INDEX "wallet_transactions_user_idx" ON "wallet_transactions" USING btree ("user_whatsapp");
\ No newline at end of file
@@ -0,0 +1,39 @@
+CREATE TABLE "promo_codes" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"code" varchar(30) NOT NULL,
+	"description" text,
+	"discount_type" varchar(20) NOT NULL,
+	"discount_value" numeric(8, 2) NOT NULL,
+	"max_discount" numeric(8, 2),
+	"min_bill_amount" numeric(8, 2) DEFAULT '0',
+	"max_redemptions" integer,
+	"max_redemptions_per_user" integer DEFAULT 1,
+	"valid_from" timestamp,
+	"valid_until" timestamp,
+	"station_id" integer,
+	"owner_whatsapp_id" varchar(20),
+	"first_session_only" boolean DEFAULT false,
+	"is_active" boolean DEFAULT true,
+	"created_by" varchar(20),
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "promo_codes_code_unique" UNIQUE("code")
+);
+--> statement-breakpoint
+CREATE TABLE "promo_redemptions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"promo_code_id" integer NOT NULL,
+	"user_whatsapp" varchar(20) NOT NULL,
+	"session_id" varchar(50),
+	"status" varchar(20) DEFAULT 'pending' NOT NULL,
+	"discount_amount" numeric(8, 2),
+	"created_at" timestamp DEFAULT now(),
+	"applied_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "promo_codes" ADD CONSTRAINT "promo_codes_station_id_charging_stations_id_fk" FOREIGN KEY ("station_id") REFERENCES "public"."charging_stations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "promo_redemptions" ADD CONSTRAINT "promo_redemptions_promo_code_id_promo_codes_id_fk" FOREIGN KEY ("promo_code_id") REFERENCES "public"."promo_codes"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "promo_redemptions" ADD CONSTRAINT "promo_redemptions_user_whatsapp_users_whatsapp_id_fk" FOREIGN KEY ("user_whatsapp") REFERENCES "public"."users"("whatsapp_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "promo_redemptions" ADD CONSTRAINT "promo_redemptions_session_id_charging_sessions_session_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."charging_sessions"("session_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "promo_redemptions_promo_idx" ON "promo_redemptions" USING btree ("promo_code_id");--> statement-breakpoint
+CREATE INDEX "promo_redemptions_user_idx" ON "promo_redemptions" USING btree ("user_whatsapp","status");
\ No newline at end of file
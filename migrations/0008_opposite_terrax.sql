@@ -0,0 +1,35 @@
+CREATE TABLE "settlements" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"settlement_number" varchar(30) NOT NULL,
+	"owner_whatsapp_id" varchar(20) NOT NULL,
+	"period_start" timestamp NOT NULL,
+	"period_end" timestamp NOT NULL,
+	"session_count" integer DEFAULT 0 NOT NULL,
+	"gross_amount" numeric(12, 2) NOT NULL,
+	"refund_amount" numeric(12, 2) DEFAULT '0' NOT NULL,
+	"adjustment_amount" numeric(12, 2) DEFAULT '0' NOT NULL,
+	"platform_fee_rate" numeric(5, 2) NOT NULL,
+	"platform_fee" numeric(12, 2) NOT NULL,
+	"platform_fee_tax" numeric(12, 2) DEFAULT '0' NOT NULL,
+	"net_payable" numeric(12, 2) NOT NULL,
+	"line_items" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"status" varchar(20) DEFAULT 'pending' NOT NULL,
+	"carried_forward_to" varchar(30),
+	"account_holder_name" varchar(100),
+	"bank_account_last4" varchar(4),
+	"ifsc_code" varchar(15),
+	"payout_reference" varchar(100),
+	"payout_failure_reason" text,
+	"paid_at" timestamp,
+	"access_token" varchar(64) NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "settlements_settlement_number_unique" UNIQUE("settlement_number"),
+	CONSTRAINT "settlements_access_token_unique" UNIQUE("access_token"),
+	CONSTRAINT "settlements_owner_period" UNIQUE("owner_whatsapp_id","period_start")
+);
+--> statement-breakpoint
+ALTER TABLE "payments" ADD COLUMN "settlement_number" varchar(30);--> statement-breakpoint
+ALTER TABLE "payments" ADD COLUMN "settled_refund_amount" numeric(10, 2) DEFAULT '0' NOT NULL;--> statement-breakpoint
+CREATE INDEX "settlements_owner_idx" ON "settlements" USING btree ("owner_whatsapp_id","status");--> statement-breakpoint
+CREATE INDEX "payments_settlement_idx" ON "payments" USING btree ("settlement_number");
\ No newline at end of file
@@ -0,0 +1,5 @@
+ALTER TABLE "charging_sessions" ADD COLUMN "idle_started_at" timestamp;--> statement-breakpoint
+ALTER TABLE "charging_sessions" ADD COLUMN "idle_ended_at" timestamp;--> statement-breakpoint
+ALTER TABLE "charging_sessions" ADD COLUMN "idle_minutes" integer DEFAULT 0;--> statement-breakpoint
+ALTER TABLE "charging_sessions" ADD COLUMN "idle_end_reason" varchar(30);--> statement-breakpoint
+ALTER TABLE "station_tariffs" ADD COLUMN "idle_grace_minutes" integer DEFAULT 15 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE "owner_staff" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"owner_whatsapp_id" varchar(20) NOT NULL,
+	"staff_whatsapp_id" varchar(20) NOT NULL,
+	"name" varchar(100),
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "owner_staff_owner_member" UNIQUE("owner_whatsapp_id","staff_whatsapp_id")
+);
+--> statement-breakpoint
+ALTER TABLE "station_owners" ADD COLUMN "subscription_reminder_stage" varchar(20);--> statement-breakpoint
+CREATE INDEX "owner_staff_owner_idx" ON "owner_staff" USING btree ("owner_whatsapp_id");
\ No newline at end of file
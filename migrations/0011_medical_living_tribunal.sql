@@ -0,0 +1,21 @@
+CREATE TABLE "reservations" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"reservation_number" varchar(30) NOT NULL,
+	"user_whatsapp" varchar(20) NOT NULL,
+	"station_id" integer NOT NULL,
+	"slot_start" timestamp NOT NULL,
+	"slot_end" timestamp NOT NULL,
+	"status" varchar(20) DEFAULT 'booked' NOT NULL,
+	"reminder_sent_at" timestamp,
+	"checked_in_at" timestamp,
+	"cancelled_at" timestamp,
+	"released_at" timestamp,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "reservations_reservation_number_unique" UNIQUE("reservation_number")
+);
+--> statement-breakpoint
+ALTER TABLE "reservations" ADD CONSTRAINT "reservations_user_whatsapp_users_whatsapp_id_fk" FOREIGN KEY ("user_whatsapp") REFERENCES "public"."users"("whatsapp_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "reservations" ADD CONSTRAINT "reservations_station_id_charging_stations_id_fk" FOREIGN KEY ("station_id") REFERENCES "public"."charging_stations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "reservations_station_slot_idx" ON "reservations" USING btree ("station_id","status","slot_start");--> statement-breakpoint
+CREATE INDEX "reservations_user_status_idx" ON "reservations" USING btree ("user_whatsapp","status");
\ No newline at end of file
@@ -0,0 +1,30 @@
+CREATE TABLE "station_ports" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"station_id" integer NOT NULL,
+	"port_number" integer NOT NULL,
+	"connector_type" varchar(20) NOT NULL,
+	"max_power_kw" integer DEFAULT 50 NOT NULL,
+	"status" varchar(20) DEFAULT 'available' NOT NULL,
+	"current_session_id" varchar(50),
+	"status_changed_at" timestamp DEFAULT now(),
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "station_ports_station_port" UNIQUE("station_id","port_number")
+);
+--> statement-breakpoint
+ALTER TABLE "charging_sessions" ADD COLUMN "port_id" integer;--> statement-breakpoint
+ALTER TABLE "station_ports" ADD CONSTRAINT "station_ports_station_id_charging_stations_id_fk" FOREIGN KEY ("station_id") REFERENCES "public"."charging_stations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "station_ports_station_status_idx" ON "station_ports" USING btree ("station_id","status");--> statement-breakpoint
+CREATE INDEX "station_ports_session_idx" ON "station_ports" USING btree ("current_session_id");--> statement-breakpoint
+ALTER TABLE "charging_sessions" ADD CONSTRAINT "charging_sessions_port_id_station_ports_id_fk" FOREIGN KEY ("port_id") REFERENCES "public"."station_ports"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+INSERT INTO "station_ports" ("station_id", "port_number", "connector_type", "max_power_kw")
+SELECT s."id", n,
+	COALESCE(
+		CASE WHEN jsonb_typeof(s."connector_types") = 'array' AND jsonb_array_length(s."connector_types") > 0
+			THEN s."connector_types"->>((n - 1) % jsonb_array_length(s."connector_types"))
+		END,
+		'Type2'
+	),
+	s."max_power_kw"
+FROM "charging_stations" s, generate_series(1, GREATEST(s."total_ports", 1)) AS n
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,19 @@
+CREATE TABLE "reliability_events" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_whatsapp" varchar(20) NOT NULL,
+	"event_type" varchar(20) NOT NULL,
+	"source" varchar(20) NOT NULL,
+	"reference" varchar(60) NOT NULL,
+	"score_delta" integer NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "reliability_events_type_reference" UNIQUE("event_type","reference")
+);
+--> statement-breakpoint
+ALTER TABLE "queues" ADD COLUMN "priority" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "reservations" ADD COLUMN "deposit_amount" numeric(10, 2);--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "reliability_score" integer DEFAULT 100 NOT NULL;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "no_show_count" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "late_cancel_count" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "reservation_cooldown_until" timestamp;--> statement-breakpoint
+ALTER TABLE "reliability_events" ADD CONSTRAINT "reliability_events_user_whatsapp_users_whatsapp_id_fk" FOREIGN KEY ("user_whatsapp") REFERENCES "public"."users"("whatsapp_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "reliability_events_user_idx" ON "reliability_events" USING btree ("user_whatsapp","created_at");
\ No newline at end of file
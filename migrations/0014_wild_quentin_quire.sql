@@ -0,0 +1,6 @@
+ALTER TABLE "charging_stations" ADD COLUMN "priority_policy" jsonb;--> statement-breakpoint
+ALTER TABLE "queues" ADD COLUMN "priority_reason" varchar(20);--> statement-breakpoint
+ALTER TABLE "queues" ADD COLUMN "times_overtaken" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "accessibility_needs" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "fleet_priority" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "low_battery_claimed_at" timestamp;
\ No newline at end of file
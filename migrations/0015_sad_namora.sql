@@ -0,0 +1,23 @@
+CREATE TABLE "queue_swap_offers" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"station_id" integer NOT NULL,
+	"from_user_whatsapp" varchar(20) NOT NULL,
+	"to_user_whatsapp" varchar(20) NOT NULL,
+	"from_queue_id" integer NOT NULL,
+	"to_queue_id" integer NOT NULL,
+	"from_position" integer NOT NULL,
+	"to_position" integer NOT NULL,
+	"status" varchar(20) DEFAULT 'pending' NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"responded_at" timestamp,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "queue_swap_offers" ADD CONSTRAINT "queue_swap_offers_station_id_charging_stations_id_fk" FOREIGN KEY ("station_id") REFERENCES "public"."charging_stations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "queue_swap_offers" ADD CONSTRAINT "queue_swap_offers_from_user_whatsapp_users_whatsapp_id_fk" FOREIGN KEY ("from_user_whatsapp") REFERENCES "public"."users"("whatsapp_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "queue_swap_offers" ADD CONSTRAINT "queue_swap_offers_to_user_whatsapp_users_whatsapp_id_fk" FOREIGN KEY ("to_user_whatsapp") REFERENCES "public"."users"("whatsapp_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "queue_swap_offers" ADD CONSTRAINT "queue_swap_offers_from_queue_id_queues_id_fk" FOREIGN KEY ("from_queue_id") REFERENCES "public"."queues"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "queue_swap_offers" ADD CONSTRAINT "queue_swap_offers_to_queue_id_queues_id_fk" FOREIGN KEY ("to_queue_id") REFERENCES "public"."queues"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "queue_swap_offers_to_user_idx" ON "queue_swap_offers" USING btree ("to_user_whatsapp","status");--> statement-breakpoint
+CREATE INDEX "queue_swap_offers_status_expiry_idx" ON "queue_swap_offers" USING btree ("status","expires_at");
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TABLE "queue_waitlist" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"station_id" integer NOT NULL,
+	"user_whatsapp" varchar(20) NOT NULL,
+	"status" varchar(20) DEFAULT 'waiting' NOT NULL,
+	"notified_at" timestamp,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "queue_waitlist" ADD CONSTRAINT "queue_waitlist_station_id_charging_stations_id_fk" FOREIGN KEY ("station_id") REFERENCES "public"."charging_stations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "queue_waitlist" ADD CONSTRAINT "queue_waitlist_user_whatsapp_users_whatsapp_id_fk" FOREIGN KEY ("user_whatsapp") REFERENCES "public"."users"("whatsapp_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "queue_waitlist_station_status_idx" ON "queue_waitlist" USING btree ("station_id","status");--> statement-breakpoint
+CREATE INDEX "queue_waitlist_user_status_idx" ON "queue_waitlist" USING btree ("user_whatsapp","status");
\ No newline at end of file
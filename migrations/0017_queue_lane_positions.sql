@@ -0,0 +1,19 @@
+-- Close any gaps or duplicates left by unlocked queue writes before enforcing unique positions
+UPDATE "queues" q
+SET "position" = ranked.new_position, "updated_at" = now()
+FROM (
+	SELECT "id", ROW_NUMBER() OVER (
+		PARTITION BY "station_id", "requested_connector_type"
+		ORDER BY "position", "joined_at", "id"
+	) AS new_position
+	FROM "queues"
+	WHERE "status" IN ('waiting', 'reserved')
+) ranked
+WHERE q."id" = ranked."id"
+AND q."position" <> ranked.new_position;--> statement-breakpoint
+-- One active entry per (station, lane, position). Deferred so statements that shift a
+-- whole lane or swap two drivers are checked once, at commit.
+ALTER TABLE "queues" ADD CONSTRAINT "queues_active_lane_position_excl"
+	EXCLUDE USING btree ("station_id" WITH =, (COALESCE("requested_connector_type", '')) WITH =, "position" WITH =)
+	WHERE ("status" IN ('waiting', 'reserved'))
+	DEFERRABLE INITIALLY DEFERRED;
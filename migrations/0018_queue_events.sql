@@ -0,0 +1,27 @@
+CREATE TABLE "queue_events" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"station_id" integer NOT NULL,
+	"queue_id" integer,
+	"user_whatsapp" varchar(20) NOT NULL,
+	"event_type" varchar(20) NOT NULL,
+	"lane" varchar(20),
+	"from_position" integer,
+	"to_position" integer,
+	"reason" varchar(30),
+	"actor_type" varchar(20) NOT NULL,
+	"actor_whatsapp_id" varchar(20),
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "queue_events" ADD CONSTRAINT "queue_events_station_id_charging_stations_id_fk" FOREIGN KEY ("station_id") REFERENCES "public"."charging_stations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "queue_events" ADD CONSTRAINT "queue_events_queue_id_queues_id_fk" FOREIGN KEY ("queue_id") REFERENCES "public"."queues"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "queue_events_station_created_idx" ON "queue_events" USING btree ("station_id","created_at");--> statement-breakpoint
+CREATE INDEX "queue_events_user_created_idx" ON "queue_events" USING btree ("user_whatsapp","created_at");--> statement-breakpoint
+-- Events are never rewritten - updates are rejected outright
+CREATE FUNCTION "queue_events_reject_update"() RETURNS trigger AS $$
+BEGIN
+	RAISE EXCEPTION 'queue_events is append-only';
+END;
+$$ LANGUAGE plpgsql;--> statement-breakpoint
+CREATE TRIGGER "queue_events_append_only" BEFORE UPDATE ON "queue_events"
+	FOR EACH ROW EXECUTE FUNCTION "queue_events_reject_update"();
@@ -0,0 +1,52 @@
+CREATE TABLE "fleet_accounts" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"manager_whatsapp_id" varchar(20) NOT NULL,
+	"consolidated_billing" boolean DEFAULT true NOT NULL,
+	"status" varchar(20) DEFAULT 'active' NOT NULL,
+	"created_by" varchar(20),
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "fleet_accounts_manager_whatsapp_id_unique" UNIQUE("manager_whatsapp_id")
+);
+--> statement-breakpoint
+CREATE TABLE "fleet_invoices" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"invoice_number" varchar(30) NOT NULL,
+	"fleet_account_id" integer NOT NULL,
+	"period_start" timestamp NOT NULL,
+	"period_end" timestamp NOT NULL,
+	"session_count" integer DEFAULT 0 NOT NULL,
+	"energy_kwh" numeric(12, 3) DEFAULT '0' NOT NULL,
+	"total_amount" numeric(12, 2) NOT NULL,
+	"line_items" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"status" varchar(20) DEFAULT 'issued' NOT NULL,
+	"payment_id" varchar(100),
+	"paid_at" timestamp,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "fleet_invoices_invoice_number_unique" UNIQUE("invoice_number")
+);
+--> statement-breakpoint
+CREATE TABLE "fleet_vehicles" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"fleet_account_id" integer NOT NULL,
+	"driver_whatsapp" varchar(20) NOT NULL,
+	"vehicle_label" varchar(30),
+	"status" varchar(20) DEFAULT 'active' NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "fleet_vehicles_driver_whatsapp_unique" UNIQUE("driver_whatsapp")
+);
+--> statement-breakpoint
+ALTER TABLE "payments" ADD COLUMN "fleet_account_id" integer;--> statement-breakpoint
+ALTER TABLE "payments" ADD COLUMN "fleet_invoice_number" varchar(30);--> statement-breakpoint
+ALTER TABLE "fleet_accounts" ADD CONSTRAINT "fleet_accounts_manager_whatsapp_id_users_whatsapp_id_fk" FOREIGN KEY ("manager_whatsapp_id") REFERENCES "public"."users"("whatsapp_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "fleet_invoices" ADD CONSTRAINT "fleet_invoices_fleet_account_id_fleet_accounts_id_fk" FOREIGN KEY ("fleet_account_id") REFERENCES "public"."fleet_accounts"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "fleet_vehicles" ADD CONSTRAINT "fleet_vehicles_fleet_account_id_fleet_accounts_id_fk" FOREIGN KEY ("fleet_account_id") REFERENCES "public"."fleet_accounts"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "fleet_vehicles" ADD CONSTRAINT "fleet_vehicles_driver_whatsapp_users_whatsapp_id_fk" FOREIGN KEY ("driver_whatsapp") REFERENCES "public"."users"("whatsapp_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "fleet_invoices_fleet_status_idx" ON "fleet_invoices" USING btree ("fleet_account_id","status");--> statement-breakpoint
+CREATE INDEX "fleet_vehicles_fleet_status_idx" ON "fleet_vehicles" USING btree ("fleet_account_id","status");--> statement-breakpoint
+ALTER TABLE "payments" ADD CONSTRAINT "payments_fleet_account_id_fleet_accounts_id_fk" FOREIGN KEY ("fleet_account_id") REFERENCES "public"."fleet_accounts"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "payments_fleet_idx" ON "payments" USING btree ("fleet_account_id","status");--> statement-breakpoint
+CREATE INDEX "payments_fleet_invoice_idx" ON "payments" USING btree ("fleet_invoice_number");
\ No newline at end of file
@@ -0,0 +1,23 @@
+CREATE TABLE "charge_points" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"charge_point_id" varchar(48) NOT NULL,
+	"station_id" integer NOT NULL,
+	"vendor" varchar(20),
+	"model" varchar(20),
+	"serial_number" varchar(25),
+	"firmware_version" varchar(50),
+	"last_boot_at" timestamp,
+	"last_heartbeat_at" timestamp,
+	"created_by" varchar(20),
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "charge_points_charge_point_id_unique" UNIQUE("charge_point_id")
+);
+--> statement-breakpoint
+ALTER TABLE "charging_sessions" ADD COLUMN "meter_source" varchar(10) DEFAULT 'photo' NOT NULL;--> statement-breakpoint
+ALTER TABLE "station_ports" ADD COLUMN "charge_point_id" varchar(48);--> statement-breakpoint
+ALTER TABLE "station_ports" ADD COLUMN "connector_id" integer;--> statement-breakpoint
+ALTER TABLE "charge_points" ADD CONSTRAINT "charge_points_station_id_charging_stations_id_fk" FOREIGN KEY ("station_id") REFERENCES "public"."charging_stations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "charge_points_station_idx" ON "charge_points" USING btree ("station_id");--> statement-breakpoint
+ALTER TABLE "station_ports" ADD CONSTRAINT "station_ports_charge_point_id_charge_points_charge_point_id_fk" FOREIGN KEY ("charge_point_id") REFERENCES "public"."charge_points"("charge_point_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "station_ports" ADD CONSTRAINT "station_ports_charge_point_connector" UNIQUE("charge_point_id","connector_id");
\ No newline at end of file
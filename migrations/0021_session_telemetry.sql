@@ -0,0 +1,14 @@
+CREATE TABLE "session_meter_samples" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"session_id" varchar(50) NOT NULL,
+	"energy_kwh" numeric(10, 3) NOT NULL,
+	"power_kw" numeric(8, 2),
+	"soc_percent" integer,
+	"source" varchar(10) NOT NULL,
+	"sampled_at" timestamp NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "progress_update_minutes" integer DEFAULT 15 NOT NULL;--> statement-breakpoint
+ALTER TABLE "session_meter_samples" ADD CONSTRAINT "session_meter_samples_session_id_charging_sessions_session_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."charging_sessions"("session_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "session_meter_samples_session_sampled_idx" ON "session_meter_samples" USING btree ("session_id","sampled_at");
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "charging_sessions" ADD COLUMN "target_type" varchar(10);--> statement-breakpoint
+ALTER TABLE "charging_sessions" ADD COLUMN "target_value" numeric(10, 2);--> statement-breakpoint
+ALTER TABLE "charging_sessions" ADD COLUMN "target_alerted_at" timestamp;--> statement-breakpoint
+ALTER TABLE "charging_sessions" ADD COLUMN "target_reached_at" timestamp;
\ No newline at end of file
@@ -0,0 +1,24 @@
+CREATE TABLE "issue_reports" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"station_id" integer NOT NULL,
+	"session_id" varchar(50),
+	"port_number" integer,
+	"user_whatsapp" varchar(20) NOT NULL,
+	"category" varchar(30) NOT NULL,
+	"description" text,
+	"photo_media_id" varchar(100),
+	"status" varchar(20) DEFAULT 'open' NOT NULL,
+	"port_maintenance_triggered" boolean DEFAULT false NOT NULL,
+	"acknowledged_at" timestamp,
+	"resolved_at" timestamp,
+	"resolved_by" varchar(20),
+	"resolution_note" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "issue_reports" ADD CONSTRAINT "issue_reports_station_id_charging_stations_id_fk" FOREIGN KEY ("station_id") REFERENCES "public"."charging_stations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "issue_reports" ADD CONSTRAINT "issue_reports_session_id_charging_sessions_session_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."charging_sessions"("session_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "issue_reports_station_status_idx" ON "issue_reports" USING btree ("station_id","status");--> statement-breakpoint
+CREATE INDEX "issue_reports_port_created_idx" ON "issue_reports" USING btree ("station_id","port_number","created_at");--> statement-breakpoint
+CREATE INDEX "issue_reports_user_idx" ON "issue_reports" USING btree ("user_whatsapp");
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE "payment_links" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"payment_id" varchar(100) NOT NULL,
+	"link_id" varchar(100) NOT NULL,
+	"gateway" varchar(30) NOT NULL,
+	"cancelled_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "payment_links_link_id_unique" UNIQUE("link_id")
+);
+--> statement-breakpoint
+ALTER TABLE "payment_links" ADD CONSTRAINT "payment_links_payment_id_payments_payment_id_fk" FOREIGN KEY ("payment_id") REFERENCES "public"."payments"("payment_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "payment_links_payment_idx" ON "payment_links" USING btree ("payment_id");--> statement-breakpoint
+INSERT INTO "payment_links" ("payment_id", "link_id", "gateway", "created_at")
+SELECT "payment_id", "payment_link_id", COALESCE("gateway", 'unknown'), COALESCE("last_attempt_at", "created_at", now())
+FROM "payments"
+WHERE "payment_link_id" IS NOT NULL
+ON CONFLICT ("link_id") DO NOTHING;
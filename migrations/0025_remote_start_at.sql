@@ -0,0 +1,3 @@
+ALTER TABLE "charging_sessions" ADD COLUMN "remote_start_at" timestamp;--> statement-breakpoint
+-- Sessions already waiting on a remote start when this ships fall back on the next sweep
+UPDATE "charging_sessions" SET "remote_start_at" = "updated_at" WHERE "status" = 'initiated' AND "meter_source" = 'ocpp';
\ No newline at end of file
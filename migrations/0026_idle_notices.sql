@@ -0,0 +1,15 @@
+ALTER TABLE "charging_sessions" ADD COLUMN "idle_warning_sent_at" timestamp;--> statement-breakpoint
+ALTER TABLE "charging_sessions" ADD COLUMN "idle_fee_notice_sent_at" timestamp;--> statement-breakpoint
+-- Idle periods open at deploy already had their due notices sent by the old in-process timers
+UPDATE "charging_sessions" s
+SET "idle_warning_sent_at" = now(),
+	"idle_fee_notice_sent_at" = CASE WHEN s."idle_started_at" + make_interval(mins => g."grace") <= now() THEN now() END
+FROM (
+	SELECT cs."id", COALESCE(t."idle_grace_minutes", 15) AS "grace"
+	FROM "charging_sessions" cs
+	LEFT JOIN "station_tariffs" t ON t."station_id" = cs."station_id"
+) g
+WHERE g."id" = s."id"
+	AND s."idle_started_at" IS NOT NULL
+	AND s."idle_ended_at" IS NULL
+	AND s."idle_started_at" + make_interval(mins => GREATEST(g."grace" - 5, 0)) <= now();
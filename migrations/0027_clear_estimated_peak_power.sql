@@ -0,0 +1,6 @@
+-- Completed sessions had peak power raised to the whole-session average - recompute it from real samples only
+UPDATE "charging_sessions" s
+SET "peak_power_kw" = (
+	SELECT MAX(m."power_kw") FROM "session_meter_samples" m WHERE m."session_id" = s."session_id"
+)
+WHERE s."peak_power_kw" IS NOT NULL;
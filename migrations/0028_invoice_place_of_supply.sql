@@ -0,0 +1,2 @@
+ALTER TABLE "invoices" ADD COLUMN "igst_amount" numeric(10, 2) DEFAULT '0';--> statement-breakpoint
+ALTER TABLE "invoices" ADD COLUMN "place_of_supply" varchar(60);
\ No newline at end of file
@@ -122,7 +122,101 @@ const envSchema = z.object({
       const num = Number(val);
       return isNaN(num) ? false : num;
     })
-    .default('false')
+    .default('false'),
+
+  // Payment Gateway Settings (Optional)
+  PAYMENT_GATEWAY: z.enum(['fake', 'razorpay']).default('fake'),
+  RAZORPAY_KEY_ID: z.string().optional(),
+  RAZORPAY_KEY_SECRET: z.string().optional(),
+  RAZORPAY_WEBHOOK_SECRET: z.string().optional(),
+  FAKE_GATEWAY_SECRET: z.string().default('sharaspot-dev-gateway-secret'),
+  PAYMENT_UPI_VPA: z.string().default('sharaspot@upi'),
+  PAYMENT_CALLBACK_BASE_URL: z.string().default('http://localhost:3000'),
+
+  PAYMENT_LINK_EXPIRY_MINUTES: z.string()
+    .transform((val) => Number(val) || 30)
+    .default('30'),
+
+  PAYMENT_MAX_ATTEMPTS: z.string()
+    .transform((val) => Number(val) || 3)
+    .default('3'),
+
+  // Owner settlements - platform commission on collected session revenue
+  SETTLEMENT_PLATFORM_FEE_PERCENT: z.string()
+    .transform((val) => {
+      const num = Number(val);
+      return isNaN(num) || num < 0 || num > 100 ? 10 : num;
+    })
+    .default('10'),
+
+  // Driver reliability - score starts at 100, penalties kick in below each threshold
+  RELIABILITY_NO_SHOW_PENALTY: z.string()
+    .transform((val) => Number(val) || 20)
+    .default('20'),
+
+  RELIABILITY_LATE_CANCEL_PENALTY: z.string()
+    .transform((val) => Number(val) || 10)
+    .default('10'),
+
+  RELIABILITY_COMPLETION_CREDIT: z.string()
+    .transform((val) => Number(val) || 5)
+    .default('5'),
+
+  // Cancelling an advance booking this close to the slot counts as late
+  RELIABILITY_LATE_CANCEL_MINUTES: z.string()
+    .transform((val) => Number(val) || 60)
+    .default('60'),
+
+  RELIABILITY_LOW_PRIORITY_BELOW: z.string()
+    .transform((val) => Number(val) || 70)
+    .default('70'),
+
+  RELIABILITY_DEPOSIT_BELOW: z.string()
+    .transform((val) => Number(val) || 60)
+    .default('60'),
+
+  RELIABILITY_DEPOSIT_AMOUNT: z.string()
+    .transform((val) => Number(val) || 100)
+    .default('100'),
+
+  RELIABILITY_COOLDOWN_BELOW: z.string()
+    .transform((val) => Number(val) || 50)
+    .default('50'),
+
+  RELIABILITY_COOLDOWN_HOURS: z.string()
+    .transform((val) => Number(val) || 24)
+    .default('24'),
+
+  // Admin API access (refunds etc.)
+  ADMIN_API_KEY: z.string().min(16).optional(),
+
+  // OCPP chargers - Basic auth password for /ocpp/<chargePointId>; required in production, unset in dev accepts any registered charger
+  OCPP_AUTH_KEY: z.string().min(16).optional(),
+
+  OCPP_HEARTBEAT_INTERVAL: z.string()
+    .transform((val) => Number(val) || 300) // Seconds
+    .default('300')
+}).superRefine((vars, ctx) => {
+  if (vars.NODE_ENV !== 'production') return;
+
+  // Production takes real money - never start on the self-signing dev gateway
+  if (vars.PAYMENT_GATEWAY !== 'razorpay') {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['PAYMENT_GATEWAY'],
+      message: 'must be "razorpay" in production',
+    });
+  }
+  for (const key of ['RAZORPAY_KEY_ID', 'RAZORPAY_KEY_SECRET', 'RAZORPAY_WEBHOOK_SECRET'] as const) {
+    if (!vars[key]) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [key], message: 'is required in production' });
+    }
+  }
+
+  // Chargers can start and stop billed sessions - never accept them without a password
+  if (!vars.OCPP_AUTH_KEY) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['OCPP_AUTH_KEY'], message: 'is required in production' });
+  }
 });
 
 // ===============================================
@@ -240,6 +334,33 @@ export const getBackgroundJobConfig = () => ({
   cleanupInterval: env.CLEANUP_INTERVAL
 });
 
+export const getPaymentConfig = () => ({
+  gateway: env.PAYMENT_GATEWAY,
+  razorpay: {
+    keyId: env.RAZORPAY_KEY_ID,
+    keySecret: env.RAZORPAY_KEY_SECRET,
+    webhookSecret: env.RAZORPAY_WEBHOOK_SECRET
+  },
+  fakeGatewaySecret: env.FAKE_GATEWAY_SECRET,
+  upiVpa: env.PAYMENT_UPI_VPA,
+  callbackBaseUrl: env.PAYMENT_CALLBACK_BASE_URL,
+  linkExpiryMinutes: env.PAYMENT_LINK_EXPIRY_MINUTES,
+  maxAttempts: env.PAYMENT_MAX_ATTEMPTS,
+  settlementFeePercent: env.SETTLEMENT_PLATFORM_FEE_PERCENT
+});
+
+export const getReliabilityConfig = () => ({
+  noShowPenalty: env.RELIABILITY_NO_SHOW_PENALTY,
+  lateCancelPenalty: env.RELIABILITY_LATE_CANCEL_PENALTY,
+  completionCredit: env.RELIABILITY_COMPLETION_CREDIT,
+  lateCancelMinutes: env.RELIABILITY_LATE_CANCEL_MINUTES,
+  lowPriorityBelow: env.RELIABILITY_LOW_PRIORITY_BELOW,
+  depositBelow: env.RELIABILITY_DEPOSIT_BELOW,
+  depositAmount: env.RELIABILITY_DEPOSIT_AMOUNT,
+  cooldownBelow: env.RELIABILITY_COOLDOWN_BELOW,
+  cooldownHours: env.RELIABILITY_COOLDOWN_HOURS
+});
+
 // ===============================================
 // CONFIGURATION SUMMARY
 // ===============================================
@@ -262,7 +383,8 @@ export const getConfigSummary = () => {
     features: {
       queueScheduler: env.ENABLE_QUEUE_SCHEDULER,
       requestLogging: env.ENABLE_REQUEST_LOGGING,
-      compression: env.ENABLE_COMPRESSION
+      compression: env.ENABLE_COMPRESSION,
+      paymentGateway: env.PAYMENT_GATEWAY
     },
     logging: {
       level: env.LOG_LEVEL
@@ -5,6 +5,10 @@ import { queueService } from '../services/queue';
 import { sessionService } from '../services/session';
 import { notificationService } from '../services/notification';
 import { photoVerificationService } from '../services/photo-verification';
+import { tariffService } from '../services/tariff';
+import { ocppService, type OcppCallResult, type RemoteTransactionResponse } from '../services/ocpp';
+import { walletController } from './wallet';
+import { queueOverflowController } from './queue-overflow';
 import { logger } from '../utils/logger';
 import { db } from '../config/database';
 import { chargingStations, chargingSessions } from '../db/schema';
@@ -399,12 +403,19 @@ async handleChargingStart(whatsappId: string, stationId: number): Promise<void>
       return;
     }
 
+    // Heads-up only - a short wallet falls back to a payment link at the end
+    await walletController.warnIfLowBalance(whatsappId, stationId);
+
     const session = await sessionService.startSession(whatsappId, stationId, reservedQueue.id);
     if (!session) {
       await this.handleSessionStartFailure(whatsappId, stationId);
       return;
     }
 
+    if (session.meterSource === 'ocpp' && session.status === 'initiated') {
+      await this.startChargerRemotely(whatsappId, session.id);
+    }
+
     // ❌ PROBLEM: This might fail silently if queue service has issues
     await queueService.startCharging(whatsappId, stationId).catch(err =>
       logger.warn('Failed to update queue status', { whatsappId, stationId, err })
@@ -442,6 +453,23 @@ async handleChargingStart(whatsappId: string, stationId: number): Promise<void>
         return;
       }
 
+      // Networked chargers stop remotely; their StopTransaction bills and releases the queue
+      if (activeSession.meterSource === 'ocpp' && activeSession.status === 'active') {
+        const result = await sessionService.requestChargerStop(activeSession.id);
+        if (result.payload?.status === 'Accepted') {
+          await whatsappService.sendTextMessage(
+            whatsappId,
+            `🛑 *Stopping Your Charge*\n\n` +
+            `The charger is ending the session now.\n` +
+            `🧾 Your bill follows from the charger's final meter reading.`
+          );
+          return;
+        }
+
+        await this.explainChargerFailure(whatsappId, result, 'stop');
+        await sessionService.switchToPhotoMetering(activeSession.id);
+      }
+
       const success = await sessionService.stopSession(whatsappId, stationId);
       if (!success) {
         await this.sendError(whatsappId, 'Failed to stop session');
@@ -508,7 +536,7 @@ async handleChargingStart(whatsappId: string, stationId: number): Promise<void>
         `📈 *Meter Readings:*\n` +
         `Start: ${session.startMeterReading} kWh\n` +
         `End: ${session.endMeterReading} kWh\n` +
-        `Payment processing...\n` 
+        `💳 Payment link coming up...\n` 
       );
     } catch (error) {
       logger.error('Failed to send session summary', { whatsappId, error });
@@ -540,13 +568,14 @@ async handleChargingStart(whatsappId: string, stationId: number): Promise<void>
 
   private async handleQueueBooking(whatsappId: string, station: ProcessedStation, user: any): Promise<void> {
   const queueStats = await queueService.getQueueStats(station.id);
+  const estimatedCost = await this.estimateCost(station, user);
   await whatsappService.sendTextMessage(
     whatsappId,
     `*Join Queue at ${station.name}?*\n\n` +
     `📊 *People in queue:* ${queueStats.totalInQueue}\n` +
     `⏱️ *Avg. wait time:* ${queueStats.averageWaitTime} min\n` +
     `💰 *Rate:* ${station.priceDisplay}\n` +
-    `💵 *Estimated cost:* ~₹${this.estimateCost(station, user)}\n\n` +
+    `💵 *Estimated cost:* ~₹${estimatedCost}\n\n` +
     `_Tap “Yes” to confirm or “No” to cancel._`
   );
 
@@ -555,8 +584,8 @@ async handleChargingStart(whatsappId: string, stationId: number): Promise<void>
       '🎯 *Proceed?*',
       [
         { id: `join_queue_${station.id}`, title: '📋 Join Queue' },
-        { id: `find_alternatives_${station.id}`, title: '🔍 Alternatives' },
-        { id: `get_directions_${station.id}`, title: '🗺️ Directions' }
+        { id: `reserve_days_${station.id}`, title: '📅 Book Later' },
+        { id: `find_alternatives_${station.id}`, title: '🔍 Alternatives' }
       ]
     ), 2000);
   }
@@ -590,13 +619,14 @@ async handleChargingStart(whatsappId: string, stationId: number): Promise<void>
   // SUCCESS & FAILURE HANDLERS
   // ===============================================
   private async showInstantBookingSuccess(whatsappId: string, station: ProcessedStation, user: any): Promise<void> {
+  const estimatedCost = await this.estimateCost(station, user);
   await whatsappService.sendTextMessage(
     whatsappId,
     `*Slot Reserved!*\n\n` +
     `*Location:* ${station.name}\n` +
     `*Reserved for:* 15 minutes\n` +
     `*Rate:* ${station.priceDisplay}\n` +
-    `*Estimated cost:* ~₹${this.estimateCost(station, user)}\n\n` +
+    `*Estimated cost:* ~₹${estimatedCost}\n\n` +
     `*Please arrive within 15 minutes to secure your slot!*`
   );
     setTimeout(() => whatsappService.sendButtonMessage(
@@ -619,7 +649,8 @@ async handleChargingStart(whatsappId: string, stationId: number): Promise<void>
   whatsappId,
   `*Joined Queue Successfully!*\n\n` +
   `Location: ${queuePosition.stationName}\n` +
-  `Position: #${queuePosition.position}\n` +
+  `Position: #${queuePosition.position}` +
+  `${queuePosition.connectorType ? ` (${queuePosition.connectorType} line)` : ''}\n` +
   `Estimated wait: ~${queuePosition.estimatedWaitMinutes} min\n` +
   `Live updates enabled${waitAdvice}`
 );
@@ -651,19 +682,7 @@ async handleChargingStart(whatsappId: string, stationId: number): Promise<void>
   }
 
   private async handleQueueJoinFailure(whatsappId: string, station: ProcessedStation): Promise<void> {
-    await whatsappService.sendTextMessage(
-      whatsappId,
-      `❌ *Queue Full*\nUnable to join queue at ${station.name}.\n🔍 Find alternatives?`
-    );
-    setTimeout(() => whatsappService.sendButtonMessage(
-      whatsappId,
-      '🎯 *Options:*',
-      [
-        { id: `find_alternatives_${station.id}`, title: '🔍 Alternatives' },
-        { id: 'find_nearby_stations', title: '🗺️ Nearby' },
-        { id: 'new_search', title: '🆕 Search' }
-      ]
-    ), 2000);
+    await queueOverflowController.showOverflowOptions(whatsappId, station.id, station.name);
   }
 
   /**
@@ -1249,10 +1268,56 @@ private async handleNoValidReservation(whatsappId: string, stationId: number): P
     return str.charAt(0).toUpperCase() + str.slice(1);
   }
 
-  private estimateCost(station: ProcessedStation, user: any): string {
-    const basePrice = Number(station.pricePerKwh) || 12;
+  private async estimateCost(station: ProcessedStation, user: any): Promise<string> {
     const estimatedKwh = user.connectorType === 'CCS2' ? 25 : 15;
-    return (basePrice * estimatedKwh).toFixed(0);
+    const quote = await tariffService.quote(station.id, estimatedKwh);
+    return quote.total.toFixed(0);
+  }
+
+  // ===============================================
+  // REMOTE CHARGER CONTROL
+  // ===============================================
+  /**
+   * Start a networked charger from chat - any failure drops the session back to photo metering
+   */
+  private async startChargerRemotely(whatsappId: string, sessionId: string): Promise<void> {
+    await whatsappService.sendTextMessage(whatsappId, '📡 *Contacting the charger...*\nPlug in your vehicle if you haven\'t already.');
+
+    const { portNumber, result } = await ocppService.remoteStartSession(sessionId);
+    if (result.payload?.status !== 'Accepted') {
+      await this.explainChargerFailure(whatsappId, result, 'start');
+      await sessionService.fallBackToPhotoStart(sessionId);
+      return;
+    }
+
+    await whatsappService.sendTextMessage(
+      whatsappId,
+      `✅ *Charger Ready at Port ${portNumber}*\n\n` +
+      `⚡ Charging begins as soon as the charger confirms.\n` +
+      `📊 Energy is read straight from the charger - no photos needed.`
+    );
+  }
+
+  private async explainChargerFailure(
+    whatsappId: string,
+    result: OcppCallResult<RemoteTransactionResponse>,
+    action: 'start' | 'stop'
+  ): Promise<void> {
+    let reason: string;
+    if (result.error === 'offline') {
+      reason = '📡 The charger is offline right now.';
+    } else if (result.error === 'timeout') {
+      reason = '⌛ The charger didn\'t respond in time.';
+    } else if (result.payload?.status === 'Rejected') {
+      reason = action === 'start'
+        ? '🔌 The charger refused to start - check the cable is firmly connected.'
+        : '🔌 The charger couldn\'t stop the session remotely.';
+    } else {
+      reason = '⚠️ The charger reported an error.';
+    }
+
+    logger.warn(`Remote ${action} failed`, { whatsappId, result });
+    await whatsappService.sendTextMessage(whatsappId, `${reason}\n📸 We'll use meter photos instead.`);
   }
 
   // ===============================================
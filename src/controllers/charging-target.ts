@@ -0,0 +1,84 @@
+// src/controllers/charging-target.ts - DRIVER-CHOSEN STOP TARGETS FOR A CHARGING SESSION
+import { whatsappService } from '../services/whatsapp';
+import { chargingTargetService, type ChargingTarget, type TargetType } from '../services/charging-target';
+import { logger } from '../utils/logger';
+
+// ===============================================
+// CHARGING TARGET CONTROLLER
+// ===============================================
+
+export class ChargingTargetController {
+  /**
+   * "target 300" (₹) / "target 20 kwh" / "target 80%" / "target off"
+   */
+  async handleTargetCommand(whatsappId: string, text: string): Promise<void> {
+    const input = text.trim().replace(/^target\s*/i, '');
+
+    if (!input) {
+      await whatsappService.sendTextMessage(
+        whatsappId,
+        `🎯 *Charging Target*\n\n` +
+        `Tell us when to stop and we'll end the session for you:\n` +
+        `• "target 300" – up to ₹300\n` +
+        `• "target 20 kwh" – add 20 kWh\n` +
+        `• "target 80%" – stop at 80% battery (networked chargers)\n` +
+        `• "target off" – no target`
+      );
+      return;
+    }
+
+    if (input.toLowerCase() === 'off') {
+      await this.applyTarget(whatsappId, null);
+      return;
+    }
+
+    const target = chargingTargetService.parseTarget(input);
+    if (!target) {
+      await whatsappService.sendTextMessage(
+        whatsappId,
+        '❌ Couldn\'t read that target. Try "target 300", "target 20 kwh" or "target 80%".'
+      );
+      return;
+    }
+
+    await this.applyTarget(whatsappId, target);
+  }
+
+  /**
+   * Quick-pick buttons: target_<type>_<value>_<stationId>
+   */
+  async handleButton(whatsappId: string, buttonId: string): Promise<void> {
+    const [, type, value, stationId] = buttonId.split('_');
+    const target: ChargingTarget = { type: type as TargetType, value: parseFloat(value) };
+
+    if (!['kwh', 'amount', 'soc'].includes(type) || isNaN(target.value) || isNaN(parseInt(stationId, 10))) {
+      logger.warn('Malformed target button', { whatsappId, buttonId });
+      return;
+    }
+
+    await this.applyTarget(whatsappId, target, parseInt(stationId, 10));
+  }
+
+  private async applyTarget(whatsappId: string, target: ChargingTarget | null, stationId?: number): Promise<void> {
+    try {
+      const result = await chargingTargetService.setTarget(whatsappId, target, stationId);
+      if (!result.success) {
+        await whatsappService.sendTextMessage(whatsappId, `❌ ${result.error}`);
+        return;
+      }
+
+      await whatsappService.sendTextMessage(
+        whatsappId,
+        target
+          ? `✅ *Target Set: ${chargingTargetService.formatTarget(target)}*\n\n` +
+            `We'll warn you when you're close and stop charging once it's reached.`
+          : '✅ Target removed - charging continues until you stop it.'
+      );
+    } catch (error) {
+      logger.error('Failed to set charging target', { whatsappId, target, error });
+      await whatsappService.sendTextMessage(whatsappId, '❌ Could not set your target. Please try again.');
+    }
+  }
+}
+
+export const chargingTargetController = new ChargingTargetController();
@@ -0,0 +1,230 @@
+// src/controllers/fleet.ts - FLEET MANAGER COMMANDS & ADMIN FLEET SETUP
+import { Request, Response } from 'express';
+import { whatsappService } from '../services/whatsapp';
+import { fleetService, type FleetOverview, type FleetVehicleStatus } from '../services/fleet';
+import { reservationService } from '../services/reservation';
+import { logger } from '../utils/logger';
+import { isAdminRequest } from '../utils/admin-auth';
+
+// ===============================================
+// FLEET CONTROLLER
+// ===============================================
+
+export class FleetController {
+  /**
+   * "fleet", "fleet add <number> [vehicle]", "fleet remove <number>",
+   * "fleet book <count> <station IDs> [today|tomorrow] <HH:MM>", "fleet invoice"
+   */
+  async handleFleetCommand(whatsappId: string, text: string): Promise<void> {
+    try {
+      const [, action, ...args] = text.trim().split(/\s+/);
+
+      const fleet = await fleetService.getFleetForManager(whatsappId);
+      if (!fleet) {
+        const driverFleet = await fleetService.getFleetForDriver(whatsappId);
+        await whatsappService.sendTextMessage(
+          whatsappId,
+          driverFleet
+            ? `🚚 You drive for *${driverFleet.name}*. Fleet commands are for the fleet manager.`
+            : '🚚 Fleet accounts let operators book and pay for several vehicles together. Contact SharaSpot support to set one up.'
+        );
+        return;
+      }
+
+      switch (action?.toLowerCase()) {
+        case 'add':
+          await this.handleAdd(whatsappId, args);
+          return;
+        case 'remove':
+          await this.handleRemove(whatsappId, args);
+          return;
+        case 'book':
+          await this.handleBulkBooking(whatsappId, args);
+          return;
+        case 'invoice':
+          await this.handleInvoice(whatsappId, fleet.id);
+          return;
+        default:
+          await this.showOverview(whatsappId);
+      }
+    } catch (error) {
+      logger.error('Fleet command failed', { whatsappId, text, error });
+      await whatsappService.sendTextMessage(whatsappId, '❌ Something went wrong. Please try again.');
+    }
+  }
+
+  /**
+   * Open a fleet account - admin API key
+   */
+  async createFleet(req: Request, res: Response): Promise<void> {
+    const { name, managerWhatsappId, actorWhatsappId, consolidatedBilling } = req.body ?? {};
+
+    if (!isAdminRequest(req) || !actorWhatsappId) {
+      res.status(401).json({ success: false, message: 'Unauthorized' });
+      return;
+    }
+
+    if (typeof name !== 'string' || typeof managerWhatsappId !== 'string') {
+      res.status(400).json({ success: false, message: 'name and managerWhatsappId are required' });
+      return;
+    }
+
+    try {
+      const result = await fleetService.createFleet(
+        name,
+        managerWhatsappId.replace(/\D/g, ''),
+        String(actorWhatsappId),
+        consolidatedBilling !== false
+      );
+      res.status(result.success ? 201 : 422).json(result);
+    } catch (error) {
+      logger.error('Fleet creation request failed', { managerWhatsappId, error });
+      res.status(500).json({ success: false, message: 'Fleet creation failed' });
+    }
+  }
+
+  // ===============================================
+  // COMMANDS
+  // ===============================================
+
+  private async handleAdd(whatsappId: string, args: string[]): Promise<void> {
+    const [number, ...labelParts] = args;
+    const driverWhatsapp = number?.replace(/\D/g, '');
+    if (!driverWhatsapp) {
+      await whatsappService.sendTextMessage(whatsappId, '➕ Use "fleet add <number> [vehicle]", e.g. "fleet add 919876543210 KA01AB1234".');
+      return;
+    }
+
+    const result = await fleetService.addVehicle(whatsappId, driverWhatsapp, labelParts.join(' '));
+    await whatsappService.sendTextMessage(
+      whatsappId,
+      result.success ? `✅ Added ${driverWhatsapp} to your fleet.` : `❌ ${result.error}`
+    );
+  }
+
+  private async handleRemove(whatsappId: string, args: string[]): Promise<void> {
+    const driverWhatsapp = args[0]?.replace(/\D/g, '');
+    const removed = driverWhatsapp ? await fleetService.removeVehicle(whatsappId, driverWhatsapp) : false;
+    await whatsappService.sendTextMessage(
+      whatsappId,
+      removed ? `✅ Removed ${driverWhatsapp} from your fleet.` : '❌ That number is not in your fleet.'
+    );
+  }
+
+  private async handleBulkBooking(whatsappId: string, args: string[]): Promise<void> {
+    const request = this.parseBulkBooking(args);
+    if (!request) {
+      await whatsappService.sendTextMessage(
+        whatsappId,
+        '📅 *Fleet Booking*\n\n' +
+        'Use "fleet book <vehicles> <station IDs> [today|tomorrow] <HH:MM>", e.g.\n' +
+        '"fleet book 4 12,15 tomorrow 18:30"\n\n' +
+        'Slots start on the hour or half hour. Stations are filled in the order given.'
+      );
+      return;
+    }
+
+    const { success, error, result } = await fleetService.bulkBook(whatsappId, request);
+    if (!success || !result) {
+      await whatsappService.sendTextMessage(whatsappId, `❌ ${error}`);
+      return;
+    }
+
+    const lines = result.booked.map(({ vehicle, reservation, stationName }) =>
+      `✅ ${vehicle.vehicleLabel || vehicle.driverWhatsapp} → ${stationName} (${reservation.reservationNumber})`
+    );
+    const skipped = result.skipped.map(({ vehicle, reason }) => `⚠️ ${vehicle.vehicleLabel || vehicle.driverWhatsapp}: ${reason}`);
+
+    await whatsappService.sendTextMessage(
+      whatsappId,
+      `📅 *Fleet Booking – ${result.booked.length}/${request.count} booked*\n` +
+      `🕐 ${reservationService.formatSlot({ slotStart: request.slotStart, slotEnd: result.booked[0]?.reservation.slotEnd ?? request.slotStart })}\n\n` +
+      (lines.length ? lines.join('\n') : 'No slots could be booked.') +
+      (skipped.length ? `\n\n${skipped.join('\n')}` : '') +
+      (result.shortfall > 0 ? `\n\n🔌 ${result.shortfall} more need a slot - try another time or add a station.` : '') +
+      (lines.length ? '\n\n📲 Each driver has been sent their booking.' : '')
+    );
+  }
+
+  private async handleInvoice(whatsappId: string, fleetId: number): Promise<void> {
+    const invoice = await fleetService.issueInvoice(fleetId);
+    await whatsappService.sendTextMessage(
+      whatsappId,
+      invoice
+        ? `🧾 *Invoice ${invoice.invoiceNumber}*\n\n` +
+          `⚡ ${invoice.sessionCount} sessions • ${parseFloat(invoice.energyKwh).toFixed(1)} kWh\n` +
+          `💰 ₹${parseFloat(invoice.totalAmount).toFixed(2)}\n\n` +
+          (invoice.paymentId ? '👉 Payment link sent in a separate message.' : '⚠️ The payment link could not be sent - we will retry.')
+        : 'ℹ️ No uninvoiced sessions right now.'
+    );
+  }
+
+  private async showOverview(whatsappId: string): Promise<void> {
+    const overview = await fleetService.getOverview(whatsappId);
+    if (!overview) {
+      await whatsappService.sendTextMessage(whatsappId, '❌ Could not load your fleet. Please try again.');
+      return;
+    }
+
+    await whatsappService.sendTextMessage(whatsappId, this.formatOverview(overview));
+  }
+
+  // ===============================================
+  // HELPERS
+  // ===============================================
+
+  private parseBulkBooking(args: string[]): { count: number; stationIds: number[]; slotStart: Date } | null {
+    const match = args.join(' ').toLowerCase().match(/^(\d+)\s+([\d,#\s]+?)\s+(?:(today|tomorrow)\s+)?(\d{1,2}):(00|30)$/);
+    if (!match) return null;
+
+    const stationIds = [...new Set(match[2].split(/[,\s]+/).map(id => parseInt(id.replace('#', ''), 10)).filter(id => id > 0))];
+    const hours = parseInt(match[4], 10);
+    if (stationIds.length === 0 || hours > 23) return null;
+
+    const day = new Date(Date.now() + (match[3] === 'tomorrow' ? 24 * 60 * 60 * 1000 : 0));
+    const dayStart = reservationService.parseDayKey(reservationService.getDayKey(day));
+    if (!dayStart) return null;
+
+    return {
+      count: parseInt(match[1], 10),
+      stationIds,
+      slotStart: new Date(dayStart.getTime() + (hours * 60 + parseInt(match[5], 10)) * 60 * 1000),
+    };
+  }
+
+  private formatOverview({ fleet, vehicles, unbilledSessions, unbilledAmount, lastInvoice }: FleetOverview): string {
+    const lines = vehicles.map(status =>
+      `🚗 *${status.vehicle.vehicleLabel || status.driverName || 'Vehicle'}* • ${status.vehicle.driverWhatsapp}\n` +
+      `   ${this.formatVehicleStatus(status)}`
+    );
+
+    return `🚚 *${fleet.name}* – ${vehicles.length} vehicle${vehicles.length === 1 ? '' : 's'}\n\n` +
+      (lines.length ? lines.join('\n') : 'No vehicles yet.') +
+      (fleet.consolidatedBilling
+        ? `\n\n🧾 *Billing*\n` +
+          `Uninvoiced: ₹${unbilledAmount.toFixed(2)} across ${unbilledSessions} session${unbilledSessions === 1 ? '' : 's'}\n` +
+          (lastInvoice ? `Last invoice: ${lastInvoice.invoiceNumber} • ₹${parseFloat(lastInvoice.totalAmount).toFixed(2)} • ${lastInvoice.status}\n` : '')
+        : '') +
+      '\n\n➕ "fleet add <number> [vehicle]"  ➖ "fleet remove <number>"\n' +
+      '📅 "fleet book 4 12,15 tomorrow 18:30"' +
+      (fleet.consolidatedBilling ? '  🧾 "fleet invoice"' : '');
+  }
+
+  private formatVehicleStatus({ queue, session, nextBooking }: FleetVehicleStatus): string {
+    if (session) {
+      return `⚡ Charging at ${session.stationName}` +
+        (session.startedAt ? ` since ${reservationService.formatTime(session.startedAt)}` : '');
+    }
+    if (queue) {
+      return queue.status === 'reserved'
+        ? `🎫 Charger held at ${queue.stationName}`
+        : `📋 #${queue.position} in queue at ${queue.stationName}`;
+    }
+    if (nextBooking) {
+      return `📅 Booked at ${nextBooking.stationName}, ${reservationService.formatSlot(nextBooking.reservation)}`;
+    }
+    return '💤 Nothing booked';
+  }
+}
+
+export const fleetController = new FleetController();
@@ -0,0 +1,37 @@
+// src/controllers/invoice.ts - INVOICE PDF DOWNLOADS
+import { Request, Response } from 'express';
+import { logger } from '../utils/logger';
+import { invoiceService } from '../services/invoice';
+
+// ===============================================
+// INVOICE CONTROLLER
+// ===============================================
+
+export class InvoiceController {
+  /**
+   * Serve the invoice PDF - the unguessable access token is the credential
+   */
+  async downloadInvoice(req: Request, res: Response): Promise<void> {
+    try {
+      const invoice = await invoiceService.getInvoiceByToken(req.params.token);
+      if (!invoice) {
+        res.status(404).json({ error: 'Invoice not found' });
+        return;
+      }
+
+      const pdf = invoiceService.renderInvoicePdf(invoice);
+
+      res.set({
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `inline; filename="${invoiceService.getFileName(invoice)}"`,
+        'Cache-Control': 'private, no-store',
+      });
+      res.send(pdf);
+    } catch (error) {
+      logger.error('Invoice download failed', { error });
+      res.status(500).json({ error: 'Could not generate invoice' });
+    }
+  }
+}
+
+export const invoiceController = new InvoiceController();
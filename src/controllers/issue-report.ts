@@ -0,0 +1,232 @@
+// src/controllers/issue-report.ts - DRIVER "REPORT ISSUE" FLOW & TICKET STATUS
+import { whatsappService } from '../services/whatsapp';
+import { issueReportService, ISSUE_CATEGORIES, type IssueCategory } from '../services/issue-report';
+import { logger } from '../utils/logger';
+
+// ===============================================
+// TYPES & CONSTANTS
+// ===============================================
+
+interface PendingDetails {
+  reportId: number;
+  hasDescription: boolean;
+  hasPhoto: boolean;
+  expiresAt: number;
+}
+
+// How long after picking a category we treat the driver's next text/photo as ticket details
+const DETAILS_WINDOW_MS = 10 * 60 * 1000;
+
+const STATUS_ICONS: Record<string, string> = {
+  open: '🟠 Open',
+  acknowledged: '👀 Acknowledged',
+  resolved: '✅ Resolved',
+  dismissed: '📋 Closed',
+};
+
+// ===============================================
+// ISSUE REPORT CONTROLLER
+// ===============================================
+
+export class IssueReportController {
+  private readonly pendingDetails = new Map<string, PendingDetails>();
+
+  /**
+   * "report" - about the current/latest session, "report <station ID>" - any station
+   */
+  async handleReportCommand(whatsappId: string, cleanText: string): Promise<void> {
+    try {
+      const stationArg = cleanText.replace(/^report(\s+issue)?/, '').trim().replace(/^#/, '');
+      let stationId = stationArg ? parseInt(stationArg, 10) : NaN;
+
+      if (stationArg && isNaN(stationId)) {
+        await whatsappService.sendTextMessage(whatsappId, '❓ Use "report" during or after a session, or "report <station ID>".');
+        return;
+      }
+
+      if (isNaN(stationId)) {
+        const context = await issueReportService.findReportContext(whatsappId);
+        if (!context) {
+          await whatsappService.sendTextMessage(
+            whatsappId,
+            '⚠️ *Report an Issue*\n\nNo recent session found. Send "report <station ID>" to report a problem at a station.'
+          );
+          return;
+        }
+        stationId = context.stationId;
+      }
+
+      const stationName = await issueReportService.getStationName(stationId);
+      if (!stationName) {
+        await whatsappService.sendTextMessage(whatsappId, `❌ Station #${stationId} not found.`);
+        return;
+      }
+
+      const rows = (Object.keys(ISSUE_CATEGORIES) as IssueCategory[]).map(category => ({
+        id: `issue_cat_${stationId}_${category}`,
+        title: ISSUE_CATEGORIES[category].label,
+        description: ISSUE_CATEGORIES[category].description,
+      }));
+
+      await whatsappService.sendListMessage(
+        whatsappId,
+        `⚠️ *What went wrong at ${stationName}?*\n\nPick the closest match - you can add a photo and details next.`,
+        'Choose Issue',
+        [{ title: 'Issue type', rows }],
+        '⚠️ Report Issue'
+      );
+    } catch (error) {
+      logger.error('Failed to start issue report', { whatsappId, cleanText, error });
+      await whatsappService.sendTextMessage(whatsappId, '❌ Could not start your report. Please try again.');
+    }
+  }
+
+  /**
+   * Category list rows: issue_cat_<stationId>_<category>
+   */
+  async handleCategorySelection(whatsappId: string, listId: string): Promise<void> {
+    const match = listId.match(/^issue_cat_(\d+)_([a-z_]+)$/);
+    if (!match || !issueReportService.isCategory(match[2])) {
+      logger.warn('Malformed issue category selection', { whatsappId, listId });
+      return;
+    }
+
+    const stationId = parseInt(match[1], 10);
+    const category = match[2];
+
+    try {
+      const context = await issueReportService.findReportContext(whatsappId, stationId);
+      const result = await issueReportService.createReport({
+        userWhatsapp: whatsappId,
+        stationId,
+        category,
+        sessionId: context?.sessionId,
+        portNumber: context?.portNumber,
+      });
+
+      if (!result.success || !result.report) {
+        await whatsappService.sendTextMessage(whatsappId, `ℹ️ ${result.error || 'Could not create your report.'}`);
+        return;
+      }
+
+      const reportId = result.report.id;
+      this.pendingDetails.set(whatsappId, {
+        reportId,
+        hasDescription: false,
+        hasPhoto: false,
+        expiresAt: Date.now() + DETAILS_WINDOW_MS,
+      });
+
+      await whatsappService.sendButtonMessage(
+        whatsappId,
+        `🎫 *Ticket #${reportId} Created*\n\n` +
+        `The station owner has been alerted.\n\n` +
+        `📸 Send a photo and/or a short description to help them fix it, or tap Skip.`,
+        [{ id: `issue_skip_${reportId}`, title: '⏭️ Skip' }],
+        '⚠️ Issue Reported'
+      );
+    } catch (error) {
+      logger.error('Failed to create issue report', { whatsappId, listId, error });
+      await whatsappService.sendTextMessage(whatsappId, '❌ Could not create your report. Please try again.');
+    }
+  }
+
+  /**
+   * Whether the driver's next message of this type belongs to a ticket they just opened
+   */
+  isAwaitingDetails(whatsappId: string, type: 'text' | 'image'): boolean {
+    const pending = this.pendingDetails.get(whatsappId);
+    if (!pending) return false;
+
+    if (pending.expiresAt < Date.now()) {
+      this.pendingDetails.delete(whatsappId);
+      return false;
+    }
+    return type === 'image' ? !pending.hasPhoto : !pending.hasDescription;
+  }
+
+  async handleDetails(whatsappId: string, details: { text?: string; imageId?: string }): Promise<void> {
+    const pending = this.pendingDetails.get(whatsappId);
+    if (!pending) return;
+
+    const text = details.text?.trim();
+    if (text && ['skip', 'cancel', 'done'].includes(text.toLowerCase())) {
+      await this.finishDetails(whatsappId, pending.reportId);
+      return;
+    }
+
+    const saved = await issueReportService.addDetails(pending.reportId, {
+      description: text || undefined,
+      photoMediaId: details.imageId,
+    });
+    if (!saved) {
+      this.pendingDetails.delete(whatsappId);
+      await whatsappService.sendTextMessage(whatsappId, `ℹ️ Ticket #${pending.reportId} is already closed.`);
+      return;
+    }
+
+    if (details.imageId) pending.hasPhoto = true;
+    if (text) pending.hasDescription = true;
+
+    if (pending.hasPhoto && pending.hasDescription) {
+      await this.finishDetails(whatsappId, pending.reportId);
+      return;
+    }
+
+    await whatsappService.sendButtonMessage(
+      whatsappId,
+      `✅ Added to ticket #${pending.reportId}.\n\n` +
+      (pending.hasPhoto ? 'Add a short description too, or tap Done.' : 'Add a photo too, or tap Done.'),
+      [{ id: `issue_skip_${pending.reportId}`, title: '✅ Done' }]
+    );
+  }
+
+  /**
+   * issue_skip_<reportId> - the driver has nothing (more) to add
+   */
+  async handleButton(whatsappId: string, buttonId: string): Promise<void> {
+    const reportId = parseInt(buttonId.replace('issue_skip_', ''), 10);
+    if (isNaN(reportId)) {
+      logger.warn('Malformed issue button', { whatsappId, buttonId });
+      return;
+    }
+    await this.finishDetails(whatsappId, reportId);
+  }
+
+  /**
+   * "issues" - the driver's recent tickets
+   */
+  async showMyIssues(whatsappId: string): Promise<void> {
+    try {
+      const reports = await issueReportService.getUserIssues(whatsappId);
+      if (reports.length === 0) {
+        await whatsappService.sendTextMessage(
+          whatsappId,
+          '🎫 *Your Tickets*\n\nNo reported issues. Something wrong at a station? Send "report".'
+        );
+        return;
+      }
+
+      const lines = reports.map(report =>
+        `*#${report.id}* • ${ISSUE_CATEGORIES[report.category as IssueCategory]?.label ?? report.category}\n` +
+        `   Station #${report.stationId} • ${STATUS_ICONS[report.status] || report.status}` +
+        (report.resolutionNote ? `\n   📝 ${report.resolutionNote}` : '')
+      );
+
+      await whatsappService.sendTextMessage(whatsappId, `🎫 *Your Tickets*\n\n${lines.join('\n\n')}`);
+    } catch (error) {
+      logger.error('Failed to show driver issues', { whatsappId, error });
+      await whatsappService.sendTextMessage(whatsappId, '❌ Could not load your tickets. Please try again.');
+    }
+  }
+
+  private async finishDetails(whatsappId: string, reportId: number): Promise<void> {
+    this.pendingDetails.delete(whatsappId);
+    await whatsappService.sendTextMessage(
+      whatsappId,
+      `🙏 Thanks - we'll message you when ticket #${reportId} is updated. Send "issues" to check on it.`
+    );
+  }
+}
+
+export const issueReportController = new IssueReportController();
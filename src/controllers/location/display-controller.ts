@@ -74,7 +74,8 @@ export class LocationDisplayController {
         pricePerKwh,
         isAvailable,
         estimatedWaitMinutes,
-        matchScore
+        matchScore,
+        nextPriceChange
       } = station;
 
       // Status indicator
@@ -105,6 +106,7 @@ export class LocationDisplayController {
         `${distance}km away\n\n` +
         `${connectorDisplay}\n` +
         `${maxPowerKw}kW • ₹${pricePerKwh}/kWh\n` +
+        this.formatPriceHint(pricePerKwh, nextPriceChange) +
         `${availablePorts}/${totalPorts} ports ${statusText}\n\n` +
         `Match Score: ${matchScore}%`;
 
@@ -119,6 +121,27 @@ export class LocationDisplayController {
     }
   }
 
+  /**
+   * Time-of-use hint, e.g. "price drops to ₹8/kWh at 10 PM"
+   */
+  private formatPriceHint(
+    currentPrice: number,
+    nextChange?: { pricePerKwh: number; at: Date | string }
+  ): string {
+    if (!nextChange) return '';
+
+    const at = new Date(nextChange.at).toLocaleTimeString('en-IN', {
+      timeZone: 'Asia/Kolkata',
+      hour: 'numeric',
+      minute: '2-digit',
+      hour12: true,
+    }).replace(':00', '').toUpperCase();
+
+    return nextChange.pricePerKwh < currentPrice
+      ? `💡 Price drops to ₹${nextChange.pricePerKwh}/kWh at ${at}\n`
+      : `⏰ Price rises to ₹${nextChange.pricePerKwh}/kWh at ${at}\n`;
+  }
+
   /**
    * Show navigation options
    */
@@ -0,0 +1,51 @@
+// src/controllers/ocpp.ts - ADMIN CHARGE POINT REGISTRATION
+import { Request, Response } from 'express';
+import { logger } from '../utils/logger';
+import { isAdminRequest } from '../utils/admin-auth';
+import { ocppService, type ConnectorMapping } from '../services/ocpp';
+
+// ===============================================
+// OCPP CONTROLLER
+// ===============================================
+
+export class OcppController {
+  /**
+   * Register a networked charger at a station - admin API key. Body:
+   * { chargePointId, actorWhatsappId, connectors?: [{ connectorId, portNumber }] }
+   */
+  async registerChargePoint(req: Request, res: Response): Promise<void> {
+    const { chargePointId, actorWhatsappId, connectors } = req.body ?? {};
+
+    if (!isAdminRequest(req) || !actorWhatsappId) {
+      res.status(401).json({ success: false, message: 'Unauthorized' });
+      return;
+    }
+
+    const stationId = parseInt(req.params.stationId, 10);
+    if (isNaN(stationId) || typeof chargePointId !== 'string') {
+      res.status(400).json({ success: false, message: 'stationId must be a number and chargePointId is required' });
+      return;
+    }
+
+    if (connectors !== undefined && !this.isConnectorList(connectors)) {
+      res.status(400).json({ success: false, message: 'connectors must be a list of { connectorId, portNumber }' });
+      return;
+    }
+
+    try {
+      const result = await ocppService.registerChargePoint(stationId, chargePointId.trim(), String(actorWhatsappId), connectors);
+      res.status(result.success ? 201 : 422).json(result);
+    } catch (error) {
+      logger.error('Charge point registration request failed', { stationId, chargePointId, error });
+      res.status(500).json({ success: false, message: 'Charge point registration failed' });
+    }
+  }
+
+  private isConnectorList(value: unknown): value is ConnectorMapping[] {
+    return Array.isArray(value) && value.every(item =>
+      Number.isInteger(item?.connectorId) && Number.isInteger(item?.portNumber)
+    );
+  }
+}
+
+export const ocppController = new OcppController();
@@ -6,6 +6,12 @@ import { ownerAuthService } from '../services/owner-auth-service';
 import { logger } from '../utils/logger';
 import { validateWhatsAppId } from '../utils/validation';
 import { parseOwnerButtonId } from '../utils/owner-button-parser';
+import { refundService } from '../services/payment';
+import { settlementService } from '../services/settlement';
+import { subscriptionService } from '../services/subscription';
+import { queuePriorityService, type PriorityPolicy, type PriorityTier } from '../services/queue-priority';
+import { queueHistoryService } from '../services/queue-history';
+import { ISSUE_CATEGORIES, type IssueCategory } from '../services/issue-report';
 
 enum OwnerFlowState {
   AUTH_REQUIRED = 'auth_required',
@@ -131,6 +137,92 @@ export class OwnerWebhookController {
       return;
     }
 
+    // Refunds take arguments: "refund <payment or session ID> [amount] <reason>"
+    if (cleanText === 'refund' || cleanText.startsWith('refund ')) {
+      if (!context.isAuthenticated) {
+        await this.showOwnerAuthentication(whatsappId);
+        return;
+      }
+      await refundService.handleRefundCommand(whatsappId, 'owner', text);
+      return;
+    }
+
+    // Statement download: "settlement <number>"
+    if (cleanText.startsWith('settlement ')) {
+      if (!context.isAuthenticated) {
+        await this.showOwnerAuthentication(whatsappId);
+        return;
+      }
+      await settlementService.handleStatementCommand(whatsappId, text);
+      return;
+    }
+
+    // Analytics window: "analytics <days>" - clamped to the plan
+    const analyticsMatch = cleanText.match(/^analytics\s+(\d+)/);
+    if (analyticsMatch) {
+      await this.showOwnerAnalytics(whatsappId, parseInt(analyticsMatch[1], 10));
+      return;
+    }
+
+    // Station on/off: "toggle <station ID>"
+    const toggleMatch = cleanText.match(/^toggle\s+#?(\d+)$/);
+    if (toggleMatch) {
+      await this.toggleStation(whatsappId, parseInt(toggleMatch[1], 10));
+      return;
+    }
+
+    // Ports: "ports <station ID>", "port <station ID> <port number> on|off"
+    const portsMatch = cleanText.match(/^ports\s+#?(\d+)$/);
+    if (portsMatch) {
+      await this.showStationPorts(whatsappId, parseInt(portsMatch[1], 10));
+      return;
+    }
+    const portMatch = cleanText.match(/^port\s+#?(\d+)\s+(\d+)\s+(on|off)$/);
+    if (portMatch) {
+      await this.setPortOnline(whatsappId, parseInt(portMatch[1], 10), parseInt(portMatch[2], 10), portMatch[3] === 'on');
+      return;
+    }
+
+    // Issue tickets: "issues <station ID>", "issue <ticket ID> ack|resolve|dismiss [note]"
+    const issuesMatch = cleanText.match(/^issues\s+#?(\d+)$/);
+    if (issuesMatch) {
+      await this.showStationIssues(whatsappId, parseInt(issuesMatch[1], 10));
+      return;
+    }
+    const issueMatch = text.trim().match(/^issue\s+#?(\d+)\s+(ack|resolve|dismiss)\b\s*(.*)$/i);
+    if (issueMatch) {
+      await this.updateIssue(whatsappId, parseInt(issueMatch[1], 10), issueMatch[2].toLowerCase(), issueMatch[3].trim());
+      return;
+    }
+
+    // Queue priority: "priority <station ID>", "priority <station ID> battery|accessibility|fleet on|off",
+    // "priority <station ID> cap <n>"
+    const priorityMatch = cleanText.match(/^priority\s+#?(\d+)(?:\s+(battery|accessibility|fleet|cap)\s+(on|off|\d+))?$/);
+    if (priorityMatch) {
+      await this.handlePriorityPolicy(whatsappId, parseInt(priorityMatch[1], 10), priorityMatch[2], priorityMatch[3]);
+      return;
+    }
+
+    // Queue history: "timeline <station ID>", "timeline <station ID> <HH:MM>" - the queue as it stood then
+    const timelineMatch = cleanText.match(/^timeline\s+#?(\d+)(?:\s+(\d{1,2}):(\d{2}))?$/);
+    if (timelineMatch) {
+      const at = timelineMatch[2]
+        ? this.lastClockTime(parseInt(timelineMatch[2], 10), parseInt(timelineMatch[3], 10))
+        : undefined;
+      await this.showQueueTimeline(whatsappId, parseInt(timelineMatch[1], 10), at);
+      return;
+    }
+
+    // Staff seats: "staff", "staff add <number> [name]", "staff remove <number>"
+    if (cleanText === 'staff' || cleanText.startsWith('staff ')) {
+      if (!context.isAuthenticated) {
+        await this.showOwnerAuthentication(whatsappId);
+        return;
+      }
+      await subscriptionService.handleStaffCommand(whatsappId, text);
+      return;
+    }
+
     // Handle other commands
     const commands: Record<string, () => Promise<void>> = {
       'help': () => this.showOwnerHelp(whatsappId),
@@ -138,7 +230,11 @@ export class OwnerWebhookController {
       'stations': () => this.showStationManagement(whatsappId),
       'profile': () => this.showOwnerProfile(whatsappId),
       'analytics': () => this.showOwnerAnalytics(whatsappId),
-      'settings': () => this.showOwnerSettings(whatsappId)
+      'settings': () => this.showOwnerSettings(whatsappId),
+      'settlements': () => this.showOwnerSettlements(whatsappId),
+      'payouts': () => this.showOwnerSettlements(whatsappId),
+      'plan': () => this.showOwnerPlan(whatsappId),
+      'subscription': () => this.showOwnerPlan(whatsappId)
     };
 
     const commandHandler = commands[cleanText];
@@ -182,6 +278,9 @@ export class OwnerWebhookController {
       case 'settings':
         await this.showOwnerSettings(whatsappId);
         break;
+      case 'settlements':
+        await this.showOwnerSettlements(whatsappId);
+        break;
       case 'main_menu':
       case 'menu':
         await this.showOwnerMainMenu(whatsappId);
@@ -264,14 +363,18 @@ export class OwnerWebhookController {
       return;
     }
 
-    const ownerProfile = await ownerService.getOwnerProfile(whatsappId);
+    const [ownerProfile, plan] = await Promise.all([
+      ownerService.getOwnerProfile(whatsappId),
+      subscriptionService.getOwnerPlan(whatsappId)
+    ]);
 
     await whatsappService.sendTextMessage(
       whatsappId,
       `🏢 *Welcome ${ownerProfile?.name || 'Owner'}*\n\n` +
       `Quick Stats:\n` +
       `• Stations: ${ownerProfile?.totalStations || 0}\n` +
-      `• Status: ${ownerProfile?.isActive ? '🟢 Active' : '🔴 Inactive'}\n\n` +
+      `• Status: ${ownerProfile?.isActive ? '🟢 Active' : '🔴 Inactive'}\n` +
+      `• Plan: ${plan.isLapsed ? '⚠️ Expired - Basic features (type "plan")' : plan.limits.label}\n\n` +
       `What would you like to manage?`
     );
 
@@ -291,8 +394,8 @@ export class OwnerWebhookController {
           whatsappId,
           '⚙️ More Options',
           [
+            { id: 'owner_settlements', title: '🏦 Settlements' },
             { id: 'owner_settings', title: '⚙️ Settings' },
-            { id: 'owner_help_menu', title: '❓ Help' },
             { id: 'exit_owner_mode', title: '🚪 Exit' }
           ]
         );
@@ -300,23 +403,306 @@ export class OwnerWebhookController {
     }, 1500);
   }
 
-  // Placeholder methods (existing functionality)
   private async showStationManagement(whatsappId: string): Promise<void> {
-    await whatsappService.sendTextMessage(whatsappId, '🔌 Station Management - Coming soon');
+    const context = this.getOwnerContext(whatsappId);
+    if (!context?.isAuthenticated) {
+      await this.showOwnerAuthentication(whatsappId);
+      return;
+    }
+
+    const [stations, plan] = await Promise.all([
+      ownerStationService.getOwnerStations(whatsappId),
+      subscriptionService.getOwnerPlan(whatsappId)
+    ]);
+
+    if (stations.length === 0) {
+      await whatsappService.sendTextMessage(whatsappId, '🔌 *My Stations*\n\nNo stations registered yet.');
+      return;
+    }
+
+    const lines = stations.map(station =>
+      `${station.isLocked ? '🔒' : station.isActive ? '🟢' : '🔴'} *#${station.id} ${station.name}*\n` +
+      (station.isLocked
+        ? '   Not manageable on your plan'
+        : `   ${station.availableSlots}/${station.totalSlots} free • Queue ${station.queueLength} • Today ₹${station.todayRevenue}`)
+    );
+    const lockedCount = stations.filter(station => station.isLocked).length;
+
+    await whatsappService.sendTextMessage(
+      whatsappId,
+      `🔌 *My Stations (${stations.length})*\n\n${lines.join('\n\n')}\n\n` +
+      (lockedCount > 0
+        ? `🔒 ${plan.limits.label} covers ${plan.limits.maxStations} station${plan.limits.maxStations === 1 ? '' : 's'} - ` +
+          `locked stations stay live for drivers. Type "plan" to upgrade.\n\n`
+        : '') +
+      '💡 "toggle <station ID>" to switch a station on/off\n' +
+      '🔌 "ports <station ID>" to see each charger'
+    );
+  }
+
+  private async showStationPorts(whatsappId: string, stationId: number): Promise<void> {
+    const context = this.getOwnerContext(whatsappId);
+    if (!context?.isAuthenticated) {
+      await this.showOwnerAuthentication(whatsappId);
+      return;
+    }
+
+    const ports = await ownerStationService.getStationPorts(stationId, whatsappId);
+    if (!ports) {
+      await this.sendOwnerError(whatsappId, `Station #${stationId} not found or beyond your plan's station limit.`);
+      return;
+    }
+
+    const statusIcons: Record<string, string> = {
+      available: '🟢 Free',
+      occupied: '🔵 In use',
+      offline: '⚫ Offline',
+      faulted: '🔴 Fault',
+      maintenance: '🛠️ Maintenance'
+    };
+
+    const lines = ports.map(port =>
+      `*Port ${port.portNumber}* • ${port.connectorType} • ${port.maxPowerKw} kW\n` +
+      `   ${statusIcons[port.status] || port.status}`
+    );
+
+    await whatsappService.sendTextMessage(
+      whatsappId,
+      `🔌 *Ports at #${stationId}*\n\n${lines.join('\n\n')}\n\n` +
+      `💡 "port ${stationId} <number> off" to take a port out of service, "on" to bring it back`
+    );
+  }
+
+  private async setPortOnline(whatsappId: string, stationId: number, portNumber: number, online: boolean): Promise<void> {
+    const context = this.getOwnerContext(whatsappId);
+    if (!context?.isAuthenticated) {
+      await this.showOwnerAuthentication(whatsappId);
+      return;
+    }
+
+    const result = await ownerStationService.setPortOnline(stationId, portNumber, online, whatsappId);
+    if (!result.success) {
+      await this.sendOwnerError(whatsappId, result.error || 'Could not update the port.');
+      return;
+    }
+
+    await whatsappService.sendTextMessage(
+      whatsappId,
+      `${online ? '🟢' : '⚫'} Port ${portNumber} at #${stationId} is now ${online ? 'in service' : 'offline'}.`
+    );
+  }
+
+  private async showStationIssues(whatsappId: string, stationId: number): Promise<void> {
+    const context = this.getOwnerContext(whatsappId);
+    if (!context?.isAuthenticated) {
+      await this.showOwnerAuthentication(whatsappId);
+      return;
+    }
+
+    const issues = await ownerStationService.getStationIssues(stationId, whatsappId);
+    if (!issues) {
+      await this.sendOwnerError(whatsappId, `Station #${stationId} not found or beyond your plan's station limit.`);
+      return;
+    }
+
+    if (issues.length === 0) {
+      await whatsappService.sendTextMessage(whatsappId, `✅ *No open issues at #${stationId}*`);
+      return;
+    }
+
+    const lines = issues.map(issue =>
+      `*#${issue.id}* • ${ISSUE_CATEGORIES[issue.category as IssueCategory]?.label ?? issue.category}` +
+      (issue.portNumber ? ` • Port ${issue.portNumber}` : '') + '\n' +
+      `   ${issue.status === 'acknowledged' ? '👀 Acknowledged' : '🟠 Open'} • ${issue.createdAt.toLocaleString()}` +
+      (issue.description ? `\n   📝 ${issue.description}` : '') +
+      (issue.portMaintenanceTriggered ? '\n   🛠️ Port put into maintenance' : '')
+    );
+
+    await whatsappService.sendTextMessage(
+      whatsappId,
+      `⚠️ *Open Issues at #${stationId}*\n\n${lines.join('\n\n')}\n\n` +
+      `💡 "issue <ticket ID> resolve <note>" once fixed - ports in maintenance come back when their tickets are closed`
+    );
+  }
+
+  private async updateIssue(whatsappId: string, reportId: number, action: string, note: string): Promise<void> {
+    const context = this.getOwnerContext(whatsappId);
+    if (!context?.isAuthenticated) {
+      await this.showOwnerAuthentication(whatsappId);
+      return;
+    }
+
+    const status = action === 'ack' ? 'acknowledged' : action === 'resolve' ? 'resolved' : 'dismissed';
+    const result = await ownerStationService.updateIssueStatus(reportId, status, whatsappId, note || undefined);
+    if (!result.success) {
+      await this.sendOwnerError(whatsappId, result.error || 'Could not update the ticket.');
+      return;
+    }
+
+    await whatsappService.sendTextMessage(
+      whatsappId,
+      `🎫 Ticket #${reportId} ${status}. The driver has been notified.`
+    );
   }
 
+  private async handlePriorityPolicy(whatsappId: string, stationId: number, setting?: string, value?: string): Promise<void> {
+    const context = this.getOwnerContext(whatsappId);
+    if (!context?.isAuthenticated) {
+      await this.showOwnerAuthentication(whatsappId);
+      return;
+    }
+
+    let policy: PriorityPolicy | null;
+    if (!setting || !value) {
+      policy = await ownerStationService.getPriorityPolicy(stationId, whatsappId);
+    } else if (setting === 'cap') {
+      if (!/^\d+$/.test(value)) {
+        await this.sendOwnerError(whatsappId, 'Use "priority <station ID> cap <number>".');
+        return;
+      }
+      policy = await ownerStationService.updatePriorityPolicy(stationId, { maxOvertakes: parseInt(value, 10) }, whatsappId);
+    } else {
+      const tier: PriorityTier = setting === 'battery' ? 'low_battery' : setting as PriorityTier;
+      if (!queuePriorityService.isPriorityTier(tier) || (value !== 'on' && value !== 'off')) {
+        await this.sendOwnerError(whatsappId, 'Use "priority <station ID> battery|accessibility|fleet on|off".');
+        return;
+      }
+      policy = await ownerStationService.updatePriorityPolicy(stationId, { [tier]: value === 'on' }, whatsappId);
+    }
+
+    if (!policy) {
+      await this.sendOwnerError(whatsappId, `Station #${stationId} not found or beyond your plan's station limit.`);
+      return;
+    }
+
+    await whatsappService.sendTextMessage(
+      whatsappId,
+      `⚖️ *Queue Priority at #${stationId}*\n\n${queuePriorityService.formatPolicy(policy)}\n\n` +
+      `💡 "priority ${stationId} battery off" to switch a tier off, "priority ${stationId} cap 3" to change the cap`
+    );
+  }
+
+  private async showQueueTimeline(whatsappId: string, stationId: number, at?: Date | null): Promise<void> {
+    const context = this.getOwnerContext(whatsappId);
+    if (!context?.isAuthenticated) {
+      await this.showOwnerAuthentication(whatsappId);
+      return;
+    }
+
+    if (at === null) {
+      await this.sendOwnerError(whatsappId, 'Use "timeline <station ID> <HH:MM>" with a 24-hour time, e.g. "timeline 12 18:30".');
+      return;
+    }
+
+    const timeline = await ownerStationService.getQueueTimeline(stationId, whatsappId, at);
+    if (!timeline) {
+      await this.sendOwnerError(whatsappId, `Station #${stationId} not found or beyond your plan's station limit.`);
+      return;
+    }
+
+    const label = at
+      ? at.toLocaleString('en-IN', { day: 'numeric', month: 'short', hour: 'numeric', minute: '2-digit', hour12: true, timeZone: 'Asia/Kolkata' })
+      : 'now';
+
+    await whatsappService.sendTextMessage(
+      whatsappId,
+      `🧾 *Queue History at #${stationId}*\n\n` +
+      `*Queue at ${label}:*\n${queueHistoryService.formatReplay(timeline.queue)}\n\n` +
+      `*Activity before that:*\n${queueHistoryService.formatTimeline(timeline.events)}\n\n` +
+      `💡 "timeline ${stationId} 18:30" to see the queue at another time today`
+    );
+  }
+
+  /**
+   * Most recent occurrence of an IST wall-clock time - today, or yesterday if that's still ahead.
+   * Null for an impossible time.
+   */
+  private lastClockTime(hours: number, minutes: number): Date | null {
+    if (hours > 23 || minutes > 59) return null;
+
+    const istOffsetMs = 5.5 * 60 * 60 * 1000;
+    const istNow = new Date(Date.now() + istOffsetMs);
+    const at = new Date(Date.UTC(istNow.getUTCFullYear(), istNow.getUTCMonth(), istNow.getUTCDate(), hours, minutes) - istOffsetMs);
+    return at.getTime() > Date.now() ? new Date(at.getTime() - 24 * 60 * 60 * 1000) : at;
+  }
+
+  private async toggleStation(whatsappId: string, stationId: number): Promise<void> {
+    const context = this.getOwnerContext(whatsappId);
+    if (!context?.isAuthenticated) {
+      await this.showOwnerAuthentication(whatsappId);
+      return;
+    }
+
+    const station = await ownerStationService.getStationDetails(stationId, whatsappId);
+    if (!station) {
+      await this.sendOwnerError(whatsappId, `Station #${stationId} not found.`);
+      return;
+    }
+    if (station.isLocked) {
+      await this.sendOwnerError(whatsappId, `Station #${stationId} is beyond your plan's station limit. Type "plan" for details.`);
+      return;
+    }
+
+    const toggled = await ownerStationService.toggleStationStatus(stationId, whatsappId);
+    await whatsappService.sendTextMessage(
+      whatsappId,
+      toggled
+        ? `${station.isActive ? '🔴' : '🟢'} *${station.name}* is now ${station.isActive ? 'offline' : 'live'}.`
+        : '❌ Could not update the station. Please try again.'
+    );
+  }
+
+  // Placeholder methods (existing functionality)
+
   private async showOwnerProfile(whatsappId: string): Promise<void> {
     await whatsappService.sendTextMessage(whatsappId, '👤 Owner Profile - Coming soon');
   }
 
-  private async showOwnerAnalytics(whatsappId: string): Promise<void> {
-    await whatsappService.sendTextMessage(whatsappId, '📊 Analytics - Coming soon');
+  private async showOwnerAnalytics(whatsappId: string, requestedDays = 7): Promise<void> {
+    const context = this.getOwnerContext(whatsappId);
+    if (!context?.isAuthenticated) {
+      await this.showOwnerAuthentication(whatsappId);
+      return;
+    }
+
+    const analytics = await ownerStationService.getOwnerAnalytics(whatsappId, requestedDays);
+
+    await whatsappService.sendTextMessage(
+      whatsappId,
+      `📊 *Analytics - ${analytics.days === 1 ? 'Today' : `Last ${analytics.days} Days`}*\n\n` +
+      `🔌 Stations: ${analytics.stationCount}\n` +
+      `⚡ Sessions: ${analytics.sessions}\n` +
+      `💰 Revenue: ₹${analytics.revenue}\n` +
+      `🔋 Energy: ${analytics.energy} kWh\n` +
+      `⏱️ Avg session: ${analytics.averageSessionDuration} min` +
+      (analytics.days < analytics.requestedDays
+        ? `\n\n🔒 ${analytics.planLabel} includes ${analytics.days === 1 ? 'today only' : `${analytics.days} days`} of history. Type "plan" to upgrade.`
+        : '\n\n💡 "analytics <days>" for a different window')
+    );
   }
 
   private async showOwnerSettings(whatsappId: string): Promise<void> {
     await whatsappService.sendTextMessage(whatsappId, '⚙️ Settings - Coming soon');
   }
 
+  private async showOwnerSettlements(whatsappId: string): Promise<void> {
+    const context = this.getOwnerContext(whatsappId);
+    if (!context?.isAuthenticated) {
+      await this.showOwnerAuthentication(whatsappId);
+      return;
+    }
+    await settlementService.showOwnerSettlements(whatsappId);
+  }
+
+  private async showOwnerPlan(whatsappId: string): Promise<void> {
+    const context = this.getOwnerContext(whatsappId);
+    if (!context?.isAuthenticated) {
+      await this.showOwnerAuthentication(whatsappId);
+      return;
+    }
+    await subscriptionService.showPlan(whatsappId);
+  }
+
   private async showOwnerHelp(whatsappId: string): Promise<void> {
     await whatsappService.sendTextMessage(
       whatsappId,
@@ -324,7 +710,19 @@ export class OwnerWebhookController {
       'Available commands:\n' +
       '• "menu" - Main dashboard\n' +
       '• "stations" - Manage stations\n' +
+      '• "toggle <station ID>" - Switch a station on/off\n' +
+      '• "ports <station ID>" - Charger-level status\n' +
+      '• "issues <station ID>" - Open driver-reported problems\n' +
+      '• "issue <ticket ID> ack|resolve|dismiss [note]" - Update a ticket\n' +
+      '• "priority <station ID>" - Queue priority rules\n' +
+      '• "timeline <station ID> [HH:MM]" - Queue history for disputes\n' +
+      '• "analytics [days]" - Sessions & revenue\n' +
       '• "profile" - View profile\n' +
+      '• "refund <payment ID> [amount] <reason>" - Refund a session\n' +
+      '• "settlements" - Pending & paid payouts\n' +
+      '• "settlement <number>" - Statement PDF + CSV\n' +
+      '• "plan" - Subscription & limits\n' +
+      '• "staff" - Manage staff seats\n' +
       '• "help" - This help\n' +
       '• "exit" - Leave owner mode'
     );
@@ -0,0 +1,118 @@
+// src/controllers/payment.ts - PAYMENT GATEWAY CALLBACK ENDPOINTS
+import { Request, Response } from 'express';
+import { env } from '../config/env';
+import { logger } from '../utils/logger';
+import { isAdminRequest } from '../utils/admin-auth';
+import { paymentService, refundService } from '../services/payment';
+import { ownerAuthService } from '../services/owner-auth-service';
+
+// ===============================================
+// PAYMENT CONTROLLER
+// ===============================================
+
+export class PaymentController {
+  /**
+   * Gateway server-to-server callback - signature verified against raw body
+   */
+  async handleCallback(req: Request, res: Response): Promise<void> {
+    const gatewayName = req.params.gateway;
+
+    try {
+      const gateway = paymentService.getGateway();
+      const signature = (req.get(gateway.signatureHeader) || '').trim();
+      const rawBody = (req as Request & { rawBody?: string }).rawBody ?? JSON.stringify(req.body ?? {});
+
+      const result = await paymentService.handleGatewayCallback(gatewayName, rawBody, signature);
+
+      res.status(result.httpStatus).json({
+        success: result.ok,
+        message: result.message,
+        paymentId: result.paymentId,
+      });
+    } catch (error) {
+      logger.error('Payment callback processing failed', {
+        gateway: gatewayName,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      // 500 makes the gateway redeliver the event later
+      res.status(500).json({ success: false, message: 'Callback processing failed' });
+    }
+  }
+
+  /**
+   * Fake gateway checkout page - completes payment without a real provider
+   */
+  async simulateFakeCheckout(req: Request, res: Response): Promise<void> {
+    if (env.NODE_ENV === 'production') {
+      res.status(404).json({ error: 'Endpoint not found' });
+      return;
+    }
+
+    try {
+      const status = req.query.status === 'failed' ? 'failed' : 'paid';
+      const result = await paymentService.simulateFakePayment(req.params.linkId, status);
+
+      res.status(result.httpStatus).json({
+        success: result.ok,
+        message: result.message,
+        paymentId: result.paymentId,
+      });
+    } catch (error) {
+      logger.error('Fake checkout failed', { linkId: req.params.linkId, error });
+      res.status(500).json({ success: false, message: 'Checkout failed' });
+    }
+  }
+
+  /**
+   * Issue a full or partial refund - owner bearer token or admin API key
+   */
+  async createRefund(req: Request, res: Response): Promise<void> {
+    const { paymentId, sessionId, amount, reason, actorWhatsappId } = req.body ?? {};
+
+    let actor: { whatsappId: string; type: 'admin' | 'owner' } | null = null;
+    const bearer = (req.get('authorization') || '').replace(/^Bearer\s+/i, '').trim();
+
+    if (isAdminRequest(req) && actorWhatsappId) {
+      actor = { whatsappId: String(actorWhatsappId), type: 'admin' };
+    } else if (bearer) {
+      const ownerWhatsappId = await ownerAuthService.getWhatsAppIdFromToken(bearer);
+      if (ownerWhatsappId) {
+        actor = { whatsappId: ownerWhatsappId, type: 'owner' };
+      }
+    }
+
+    if (!actor) {
+      res.status(401).json({ success: false, message: 'Unauthorized' });
+      return;
+    }
+
+    if ((!paymentId && !sessionId) || !reason || (amount !== undefined && typeof amount !== 'number')) {
+      res.status(400).json({
+        success: false,
+        message: 'paymentId or sessionId, and reason are required; amount must be a number',
+      });
+      return;
+    }
+
+    try {
+      const outcome = await refundService.refundPayment({
+        paymentId,
+        sessionId,
+        amount,
+        reason: String(reason),
+        actorWhatsappId: actor.whatsappId,
+        actorType: actor.type,
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent'),
+        endpoint: req.originalUrl,
+      });
+
+      res.status(outcome.success ? 200 : 422).json(outcome);
+    } catch (error) {
+      logger.error('Refund request failed', { paymentId, sessionId, error });
+      res.status(500).json({ success: false, message: 'Refund failed' });
+    }
+  }
+}
+
+export const paymentController = new PaymentController();
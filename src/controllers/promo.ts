@@ -0,0 +1,77 @@
+// src/controllers/promo.ts - PROMO CODE ADMIN ENDPOINTS
+import { Request, Response } from 'express';
+import { logger } from '../utils/logger';
+import { isAdminRequest } from '../utils/admin-auth';
+import { promoService, type PromoActor } from '../services/promo';
+import { ownerAuthService } from '../services/owner-auth-service';
+
+// ===============================================
+// PROMO CONTROLLER
+// ===============================================
+
+export class PromoController {
+  /**
+   * Create a promo code - owner bearer token or admin API key
+   */
+  async createPromoCode(req: Request, res: Response): Promise<void> {
+    const body = req.body ?? {};
+
+    let actor: PromoActor | null = null;
+    const bearer = (req.get('authorization') || '').replace(/^Bearer\s+/i, '').trim();
+
+    if (isAdminRequest(req) && body.actorWhatsappId) {
+      actor = { whatsappId: String(body.actorWhatsappId), type: 'admin' };
+    } else if (bearer) {
+      const ownerWhatsappId = await ownerAuthService.getWhatsAppIdFromToken(bearer);
+      if (ownerWhatsappId) {
+        actor = { whatsappId: ownerWhatsappId, type: 'owner' };
+      }
+    }
+
+    if (!actor) {
+      res.status(401).json({ success: false, message: 'Unauthorized' });
+      return;
+    }
+
+    const validFrom = body.validFrom ? new Date(body.validFrom) : undefined;
+    const validUntil = body.validUntil ? new Date(body.validUntil) : undefined;
+    const numbers = ['discountValue', 'maxDiscount', 'minBillAmount', 'maxRedemptions', 'maxRedemptionsPerUser', 'stationId'];
+
+    if (
+      typeof body.code !== 'string' ||
+      numbers.some(field => body[field] !== undefined && typeof body[field] !== 'number') ||
+      (validFrom && isNaN(validFrom.getTime())) ||
+      (validUntil && isNaN(validUntil.getTime()))
+    ) {
+      res.status(400).json({
+        success: false,
+        message: 'code, discountType and discountValue are required; amounts must be numbers and dates ISO strings',
+      });
+      return;
+    }
+
+    try {
+      const result = await promoService.createPromoCode({
+        code: body.code,
+        description: body.description,
+        discountType: body.discountType,
+        discountValue: body.discountValue,
+        maxDiscount: body.maxDiscount,
+        minBillAmount: body.minBillAmount,
+        maxRedemptions: body.maxRedemptions,
+        maxRedemptionsPerUser: body.maxRedemptionsPerUser,
+        validFrom,
+        validUntil,
+        stationId: body.stationId,
+        firstSessionOnly: body.firstSessionOnly === true,
+      }, actor);
+
+      res.status(result.success ? 201 : 422).json(result);
+    } catch (error) {
+      logger.error('Promo code request failed', { code: body.code, error });
+      res.status(500).json({ success: false, message: 'Promo code creation failed' });
+    }
+  }
+}
+
+export const promoController = new PromoController();
@@ -0,0 +1,53 @@
+// src/controllers/queue-history.ts - ADMIN QUEUE TIMELINE & REPLAY ENDPOINT
+import { Request, Response } from 'express';
+import { logger } from '../utils/logger';
+import { isAdminRequest } from '../utils/admin-auth';
+import { queueHistoryService } from '../services/queue-history';
+
+// ===============================================
+// QUEUE HISTORY CONTROLLER
+// ===============================================
+
+export class QueueHistoryController {
+  /**
+   * A station's queue events between `since` and `until` (ISO times, default the last
+   * 24 hours), plus the queue replayed from events as it stood at `until` - admin API key
+   */
+  async getStationTimeline(req: Request, res: Response): Promise<void> {
+    if (!isAdminRequest(req)) {
+      res.status(401).json({ success: false, message: 'Unauthorized' });
+      return;
+    }
+
+    const stationId = parseInt(req.params.stationId, 10);
+    const until = req.query.until ? new Date(String(req.query.until)) : new Date();
+    const since = req.query.since
+      ? new Date(String(req.query.since))
+      : new Date(until.getTime() - 24 * 60 * 60 * 1000);
+    const limit = req.query.limit ? parseInt(String(req.query.limit), 10) : undefined;
+
+    if (isNaN(stationId) || isNaN(since.getTime()) || isNaN(until.getTime()) || (limit !== undefined && !(limit > 0))) {
+      res.status(400).json({ success: false, message: 'stationId must be a number, since/until ISO times and limit positive' });
+      return;
+    }
+
+    try {
+      const [events, queue] = await Promise.all([
+        queueHistoryService.getTimeline(stationId, { since, until, limit }),
+        queueHistoryService.replay(stationId, until),
+      ]);
+
+      if (!queue) {
+        res.status(500).json({ success: false, message: 'Could not replay queue events' });
+        return;
+      }
+
+      res.status(200).json({ success: true, stationId, since, until, events, queue });
+    } catch (error) {
+      logger.error('Queue timeline request failed', { stationId, error });
+      res.status(500).json({ success: false, message: 'Could not load queue timeline' });
+    }
+  }
+}
+
+export const queueHistoryController = new QueueHistoryController();
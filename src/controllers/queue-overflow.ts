@@ -0,0 +1,109 @@
+// src/controllers/queue-overflow.ts - FULL-QUEUE ALTERNATIVES & WAITLIST OVER WHATSAPP
+import { whatsappService } from '../services/whatsapp';
+import { queueOverflowService, type OverflowAlternative } from '../services/queue-overflow';
+import { logger } from '../utils/logger';
+
+// ===============================================
+// QUEUE OVERFLOW CONTROLLER
+// ===============================================
+
+export class QueueOverflowController {
+  /**
+   * Full queue - offer nearby stations that get the driver charging sooner,
+   * or a waitlist spot at this one
+   */
+  async showOverflowOptions(whatsappId: string, stationId: number, stationName: string): Promise<void> {
+    try {
+      const options = await queueOverflowService.findAlternatives(whatsappId, stationId);
+      const alternatives = options?.alternatives ?? [];
+      const header = `❌ *Queue Full*\n\n📍 ${stationName} can't take more drivers right now` +
+        (options ? ` (~${options.fullWaitMinutes} min wait).` : '.');
+
+      if (alternatives.length === 0) {
+        await whatsappService.sendButtonMessage(
+          whatsappId,
+          `${header}\n\nNo nearby station would get you charging sooner. Want us to tell you when a spot opens here?`,
+          [
+            { id: `waitlist_join_${stationId}`, title: '🔔 Join Waitlist' },
+            { id: `reserve_days_${stationId}`, title: '📅 Book Later' },
+            { id: 'find_nearby_stations', title: '🗺️ Nearby' },
+          ],
+          '🎯 Options'
+        );
+        return;
+      }
+
+      await whatsappService.sendListMessage(
+        whatsappId,
+        `${header}\n\n` +
+        `🔀 *Shorter waits nearby:*\n` +
+        alternatives.map((alternative, index) => this.formatAlternative(alternative, index)).join('\n') +
+        `\n\nTap one to join its queue, or wait for a spot here.`,
+        'See Options',
+        [
+          {
+            title: 'Join There',
+            rows: alternatives.map(({ station, totalMinutes }) => ({
+              id: `join_queue_${station.id}`,
+              title: station.name,
+              description: `Charging in ~${totalMinutes} min • ${station.distance} km away`,
+            })),
+          },
+          {
+            title: 'Stay Here',
+            rows: [
+              { id: `waitlist_join_${stationId}`, title: '🔔 Join Waitlist', description: "We'll message you when a spot opens" },
+              { id: `reserve_days_${stationId}`, title: '📅 Book Later', description: 'Reserve a slot for another time' },
+            ],
+          },
+        ],
+        '🔀 Queue Full'
+      );
+    } catch (error) {
+      logger.error('Failed to show overflow options', { whatsappId, stationId, error });
+      await whatsappService.sendTextMessage(
+        whatsappId,
+        `❌ *Queue Full*\nUnable to join queue at ${stationName}. Type "find" to search other stations.`
+      );
+    }
+  }
+
+  /**
+   * Buttons and list rows: waitlist_join_<stationId>, waitlist_leave_<stationId>
+   */
+  async handleWaitlistAction(whatsappId: string, actionId: string): Promise<void> {
+    const [, action, rawId] = actionId.split('_');
+    const stationId = parseInt(rawId, 10);
+
+    if (!stationId || isNaN(stationId)) {
+      await whatsappService.sendTextMessage(whatsappId, '❓ Unknown waitlist option.');
+      return;
+    }
+
+    if (action === 'join') {
+      const result = await queueOverflowService.joinWaitlist(whatsappId, stationId);
+      await whatsappService.sendTextMessage(
+        whatsappId,
+        result.success
+          ? `🔔 *On the Waitlist*\n\n🎯 You're #${result.place} in line for a queue spot.\n` +
+            `We'll message you as soon as one opens - no need to keep checking.`
+          : `❌ ${result.error}`
+      );
+    } else if (action === 'leave') {
+      const left = await queueOverflowService.leaveWaitlist(whatsappId, stationId);
+      await whatsappService.sendTextMessage(
+        whatsappId,
+        left ? "👍 You've left the waitlist." : 'ℹ️ You are not on this waitlist any more.'
+      );
+    } else {
+      await whatsappService.sendTextMessage(whatsappId, '❓ Unknown waitlist option.');
+    }
+  }
+
+  private formatAlternative({ station, travelMinutes }: OverflowAlternative, index: number): string {
+    return `${index + 1}. *${station.name}* – ${station.distance} km\n` +
+      `   🚗 ~${travelMinutes} min drive • ⏱️ ${station.estimatedWaitMinutes > 0 ? `~${station.estimatedWaitMinutes} min wait` : 'no wait'}`;
+  }
+}
+
+export const queueOverflowController = new QueueOverflowController();
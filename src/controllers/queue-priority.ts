@@ -0,0 +1,93 @@
+// src/controllers/queue-priority.ts - DRIVER PRIORITY DECLARATIONS (CRITICAL BATTERY, ACCESSIBILITY)
+import { whatsappService } from '../services/whatsapp';
+import { queueService } from '../services/queue';
+import {
+  queuePriorityService,
+  TIER_PRIORITY,
+  TIER_LABELS,
+  CRITICAL_BATTERY_PERCENT,
+} from '../services/queue-priority';
+import { logger } from '../utils/logger';
+
+// ===============================================
+// QUEUE PRIORITY CONTROLLER
+// ===============================================
+
+export class QueuePriorityController {
+  /**
+   * "battery <percent>" - critical battery while waiting moves the driver up
+   */
+  async handleBatteryCommand(whatsappId: string, text: string): Promise<void> {
+    try {
+      const percent = parseInt(text.replace(/\D/g, ''), 10);
+      if (isNaN(percent) || percent < 0 || percent > 100) {
+        await whatsappService.sendTextMessage(
+          whatsappId,
+          `🪫 *Critical Battery*\n\nWaiting in a queue with less than ${CRITICAL_BATTERY_PERCENT}% charge? ` +
+          `Type "battery <percent>", e.g. "battery 7", and we'll move you up where the station allows it.`
+        );
+        return;
+      }
+
+      const waiting = (await queueService.getUserQueueStatus(whatsappId)).find(queue => queue.status === 'waiting');
+      if (!waiting) {
+        await whatsappService.sendTextMessage(whatsappId, '📋 You are not waiting in any queue right now.');
+        return;
+      }
+
+      const claim = await queuePriorityService.claimLowBattery(whatsappId, waiting.stationId, percent);
+      if (!claim.allowed) {
+        await whatsappService.sendTextMessage(whatsappId, `ℹ️ ${claim.error}`);
+        return;
+      }
+
+      const move = await queueService.applyPriority(whatsappId, waiting.stationId, 'low_battery', TIER_PRIORITY.low_battery);
+      if (!move) {
+        await whatsappService.sendTextMessage(whatsappId, '❌ Could not update your queue position. Please try again.');
+        return;
+      }
+
+      await whatsappService.sendTextMessage(
+        whatsappId,
+        `${TIER_LABELS.low_battery} *priority applied*\n\n` +
+        `📍 ${waiting.stationName || 'Your station'}\n` +
+        (move.newPosition < move.oldPosition
+          ? `🎯 Position: #${move.oldPosition} → #${move.newPosition}\n`
+          : `🎯 Position: #${move.newPosition} (drivers ahead can't be moved further)\n`) +
+        `⏱️ Estimated wait: ${move.estimatedWaitMinutes} minutes\n\n` +
+        `💡 Drivers moved back have been told why.`
+      );
+    } catch (error) {
+      logger.error('Battery priority command failed', { whatsappId, error });
+      await whatsappService.sendTextMessage(whatsappId, '❌ Something went wrong. Please try again.');
+    }
+  }
+
+  /**
+   * "accessibility on|off" - standing priority on future joins where stations allow it
+   */
+  async handleAccessibilityCommand(whatsappId: string, text: string): Promise<void> {
+    const setting = text.trim().split(/\s+/)[1];
+    if (setting !== 'on' && setting !== 'off') {
+      await whatsappService.sendTextMessage(
+        whatsappId,
+        `${TIER_LABELS.accessibility} *Priority*\n\n` +
+        `Need step-free access or extra time at the charger? Type "accessibility on" and stations that offer it ` +
+        `will place you ahead when you join their queue. "accessibility off" turns it off.`
+      );
+      return;
+    }
+
+    const updated = await queuePriorityService.setAccessibilityNeeds(whatsappId, setting === 'on');
+    await whatsappService.sendTextMessage(
+      whatsappId,
+      !updated
+        ? '❌ Could not update your profile. Please try again.'
+        : setting === 'on'
+          ? `✅ ${TIER_LABELS.accessibility} priority is on for your next queue joins.`
+          : '✅ Accessibility priority turned off.'
+    );
+  }
+}
+
+export const queuePriorityController = new QueuePriorityController();
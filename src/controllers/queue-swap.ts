@@ -0,0 +1,133 @@
+// src/controllers/queue-swap.ts - DRIVER-TO-DRIVER QUEUE SPOT SWAPS OVER WHATSAPP
+import { whatsappService } from '../services/whatsapp';
+import { queueService, type QueuePosition } from '../services/queue';
+import { queueSwapService, SWAP_OFFER_MINUTES } from '../services/queue-swap';
+import { logger } from '../utils/logger';
+
+// ===============================================
+// QUEUE SWAP CONTROLLER
+// ===============================================
+
+export class QueueSwapController {
+  /**
+   * "swap" - running late, offer my place to the driver right behind me
+   */
+  async handleSwapCommand(whatsappId: string): Promise<void> {
+    try {
+      const waiting = (await queueService.getUserQueueStatus(whatsappId)).find(queue => queue.status === 'waiting');
+      if (!waiting) {
+        await whatsappService.sendTextMessage(whatsappId, '📋 You are not waiting in any queue right now.');
+        return;
+      }
+
+      const result = await queueSwapService.offerSwap(whatsappId, waiting.stationId);
+      if (!result.success || !result.offer) {
+        await whatsappService.sendTextMessage(whatsappId, `ℹ️ ${result.error}`);
+        return;
+      }
+
+      const { offer } = result;
+      const stationName = waiting.stationName || 'your station';
+
+      await whatsappService.sendButtonMessage(
+        offer.toUserWhatsapp,
+        `🔁 *Swap Offer*\n\n` +
+        `The driver ahead of you at *${stationName}* is running late and offers you their place.\n\n` +
+        `🎯 Position: #${offer.toPosition} → #${offer.fromPosition}\n` +
+        `⏳ Offer expires in ${SWAP_OFFER_MINUTES} minutes`,
+        [
+          { id: `swap_accept_${offer.id}`, title: '✅ Take the Spot' },
+          { id: `swap_decline_${offer.id}`, title: '❌ No Thanks' },
+        ],
+        '🔁 Queue Swap'
+      );
+
+      await whatsappService.sendTextMessage(
+        whatsappId,
+        `🔁 *Swap Offered*\n\n` +
+        `📍 ${stationName}\n` +
+        `We asked the driver at #${offer.toPosition} if they want your place (#${offer.fromPosition}).\n\n` +
+        `⏳ They have ${SWAP_OFFER_MINUTES} minutes to answer - you keep your spot until then.`
+      );
+    } catch (error) {
+      logger.error('Swap command failed', { whatsappId, error });
+      await whatsappService.sendTextMessage(whatsappId, '❌ Something went wrong. Please try again.');
+    }
+  }
+
+  /**
+   * Buttons: swap_accept_<offerId>, swap_decline_<offerId>
+   */
+  async handleButton(whatsappId: string, buttonId: string): Promise<void> {
+    try {
+      const [, action, rawId] = buttonId.split('_');
+      const offerId = parseInt(rawId, 10);
+
+      if (!offerId || isNaN(offerId)) {
+        await whatsappService.sendTextMessage(whatsappId, '❓ Unknown swap option.');
+        return;
+      }
+
+      if (action === 'accept') {
+        await this.handleAccept(whatsappId, offerId);
+      } else if (action === 'decline') {
+        await this.handleDecline(whatsappId, offerId);
+      } else {
+        await whatsappService.sendTextMessage(whatsappId, '❓ Unknown swap option.');
+      }
+    } catch (error) {
+      logger.error('Swap button failed', { whatsappId, buttonId, error });
+      await whatsappService.sendTextMessage(whatsappId, '❌ Something went wrong with the swap. Please try again.');
+    }
+  }
+
+  private async handleAccept(whatsappId: string, offerId: number): Promise<void> {
+    const result = await queueSwapService.acceptSwap(whatsappId, offerId);
+
+    if (!result.success) {
+      await whatsappService.sendTextMessage(whatsappId, `ℹ️ ${result.error}`);
+      if (result.offer?.status === 'failed') {
+        await whatsappService.sendTextMessage(
+          result.offer.fromUserWhatsapp,
+          '🔁 Your swap offer could not go through because the queue moved - your place is unchanged.'
+        );
+      }
+      return;
+    }
+
+    await whatsappService.sendTextMessage(whatsappId, this.formatSwapped('🎉 *Spot Swapped*', result.accepter));
+    if (result.offer) {
+      await whatsappService.sendTextMessage(
+        result.offer.fromUserWhatsapp,
+        this.formatSwapped('🔁 *Swap Accepted*\n\nThe driver behind you took your place.', result.offerer)
+      );
+    }
+  }
+
+  private async handleDecline(whatsappId: string, offerId: number): Promise<void> {
+    const declined = await queueSwapService.declineSwap(whatsappId, offerId);
+    if (!declined) {
+      await whatsappService.sendTextMessage(whatsappId, 'ℹ️ This swap offer is no longer open.');
+      return;
+    }
+
+    await whatsappService.sendTextMessage(whatsappId, '👍 Got it - you keep your current place.');
+    await whatsappService.sendTextMessage(
+      declined.fromUserWhatsapp,
+      '🔁 *Swap Declined*\n\nThe driver behind you prefers to keep their place - yours is unchanged.'
+    );
+  }
+
+  private formatSwapped(title: string, position: QueuePosition | null | undefined): string {
+    if (!position) {
+      return `${title}\n\n💡 We'll message you when it's your turn.`;
+    }
+
+    return `${title}\n\n` +
+      `📍 ${position.stationName || 'Your station'}\n` +
+      `🎯 New position: #${position.position}\n` +
+      `⏱️ Estimated wait: ${position.estimatedWaitMinutes} minutes`;
+  }
+}
+
+export const queueSwapController = new QueueSwapController();
@@ -0,0 +1,301 @@
+// src/controllers/reservation.ts - ADVANCE BOOKING CHAT FLOW
+import { whatsappService } from '../services/whatsapp';
+import {
+  reservationService,
+  MAX_ADVANCE_DAYS,
+  CHECK_IN_EARLY_MINUTES,
+  NO_SHOW_GRACE_MINUTES,
+} from '../services/reservation';
+import { logger } from '../utils/logger';
+
+// Parts of the day offered after picking a date - [label, fromHour, toHour]
+const DAY_PERIODS: Array<[string, number, number]> = [
+  ['🌙 Early (12–6 am)', 0, 6],
+  ['🌅 Morning (6–12)', 6, 12],
+  ['☀️ Afternoon (12–5 pm)', 12, 17],
+  ['🌆 Evening (5 pm–12)', 17, 24],
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ===============================================
+// RESERVATION CONTROLLER
+// ===============================================
+
+export class ReservationController {
+  /**
+   * Buttons: reserve_days_<stationId>, reserve_checkin_<number>, reserve_cancel_<number>
+   */
+  async handleButton(whatsappId: string, buttonId: string): Promise<void> {
+    try {
+      if (buttonId.startsWith('reserve_days_')) {
+        await this.showBookingDays(whatsappId, parseInt(buttonId.replace('reserve_days_', ''), 10));
+      } else if (buttonId.startsWith('reserve_checkin_')) {
+        await this.handleCheckIn(whatsappId, buttonId.replace('reserve_checkin_', ''));
+      } else if (buttonId.startsWith('reserve_cancel_')) {
+        await this.handleCancel(whatsappId, buttonId.replace('reserve_cancel_', ''));
+      } else {
+        await this.handleList(whatsappId, buttonId);
+      }
+    } catch (error) {
+      logger.error('Reservation button failed', { whatsappId, buttonId, error });
+      await whatsappService.sendTextMessage(whatsappId, '❌ Something went wrong with your booking. Please try again.');
+    }
+  }
+
+  /**
+   * Lists: reserve_day_<stationId>_<YYYYMMDD>, reserve_period_<stationId>_<YYYYMMDD>_<fromHour>,
+   * reserve_slot_<stationId>_<epochMinutes>
+   */
+  async handleList(whatsappId: string, listId: string): Promise<void> {
+    const [, kind, ...params] = listId.split('_');
+    const stationId = parseInt(params[0], 10);
+
+    if (!stationId || isNaN(stationId)) {
+      await whatsappService.sendTextMessage(whatsappId, '❓ Unknown booking option. Please try again.');
+      return;
+    }
+
+    switch (kind) {
+      case 'day':
+        await this.showDayPeriods(whatsappId, stationId, params[1]);
+        break;
+      case 'period':
+        await this.showPeriodSlots(whatsappId, stationId, params[1], parseInt(params[2], 10));
+        break;
+      case 'slot':
+        await this.confirmSlot(whatsappId, stationId, new Date(parseInt(params[1], 10) * 60 * 1000));
+        break;
+      default:
+        await whatsappService.sendTextMessage(whatsappId, '❓ Unknown booking option. Please try again.');
+    }
+  }
+
+  /**
+   * "schedule <station ID>" - start a booking for a later time
+   */
+  async handleScheduleCommand(whatsappId: string, text: string): Promise<void> {
+    const stationId = parseInt(text.replace(/\D/g, ''), 10);
+    if (!stationId) {
+      await whatsappService.sendTextMessage(
+        whatsappId,
+        '📅 *Book a Later Slot*\n\nType "schedule <station ID>", e.g. "schedule 12", or tap "📅 Book Later" on a station.'
+      );
+      return;
+    }
+    await this.showBookingDays(whatsappId, stationId);
+  }
+
+  async showBookingDays(whatsappId: string, stationId: number): Promise<void> {
+    const stationName = await reservationService.getStationName(stationId);
+    const rows = Array.from({ length: MAX_ADVANCE_DAYS }, (_, offset) => {
+      const day = new Date(Date.now() + offset * DAY_MS);
+      const label = offset === 0 ? 'Today' : offset === 1 ? 'Tomorrow' : day.toLocaleDateString('en-IN', {
+        weekday: 'long', timeZone: 'Asia/Kolkata',
+      });
+      return {
+        id: `reserve_day_${stationId}_${reservationService.getDayKey(day)}`,
+        title: label,
+        description: day.toLocaleDateString('en-IN', { day: 'numeric', month: 'short', timeZone: 'Asia/Kolkata' }),
+      };
+    });
+
+    await whatsappService.sendListMessage(
+      whatsappId,
+      `📅 *Book a slot at ${stationName}*\n\nPick a day - you can book up to ${MAX_ADVANCE_DAYS} days ahead.`,
+      'Choose Day',
+      [{ title: 'Days', rows }],
+      '📅 Advance Booking'
+    );
+  }
+
+  private async showDayPeriods(whatsappId: string, stationId: number, dayKey: string): Promise<void> {
+    const slots = await reservationService.getAvailableSlots(stationId, dayKey, 0, 24, whatsappId);
+    if (slots.length === 0) {
+      await this.sendNoSlots(whatsappId, stationId, 'No free slots that day.');
+      return;
+    }
+
+    const rows = DAY_PERIODS
+      .map(([label, fromHour, toHour]) => ({
+        label,
+        fromHour,
+        free: slots.filter(slot => {
+          const hour = reservationService.getIstHour(slot.start);
+          return hour >= fromHour && hour < toHour;
+        }).length,
+      }))
+      .filter(period => period.free > 0)
+      .map(period => ({
+        id: `reserve_period_${stationId}_${dayKey}_${period.fromHour}`,
+        title: period.label,
+        description: `${period.free} start time${period.free === 1 ? '' : 's'} available`,
+      }));
+
+    await whatsappService.sendListMessage(
+      whatsappId,
+      '🕐 *What time suits you?*',
+      'Choose Time',
+      [{ title: 'Time of day', rows }]
+    );
+  }
+
+  private async showPeriodSlots(whatsappId: string, stationId: number, dayKey: string, fromHour: number): Promise<void> {
+    const period = DAY_PERIODS.find(([, from]) => from === fromHour);
+    if (!period) {
+      await whatsappService.sendTextMessage(whatsappId, '❓ Unknown time range. Please try again.');
+      return;
+    }
+
+    const slots = (await reservationService.getAvailableSlots(stationId, dayKey, period[1], period[2], whatsappId)).slice(0, 10);
+    if (slots.length === 0) {
+      await this.sendNoSlots(whatsappId, stationId, 'Those slots were just taken.');
+      return;
+    }
+
+    await whatsappService.sendListMessage(
+      whatsappId,
+      `🕐 *Pick your slot*\n\nEach slot holds a charger for ${Math.round((slots[0].end.getTime() - slots[0].start.getTime()) / 60000)} minutes.`,
+      'Choose Slot',
+      [{
+        title: 'Available slots',
+        rows: slots.map(slot => ({
+          id: `reserve_slot_${stationId}_${Math.round(slot.start.getTime() / 60000)}`,
+          title: `${reservationService.formatTime(slot.start)}–${reservationService.formatTime(slot.end)}`,
+          description: `${slot.freePorts} charger${slot.freePorts === 1 ? '' : 's'} free`,
+        })),
+      }]
+    );
+  }
+
+  private async confirmSlot(whatsappId: string, stationId: number, slotStart: Date): Promise<void> {
+    const result = await reservationService.bookSlot(whatsappId, stationId, slotStart);
+    if (!result.success || !result.reservation) {
+      await this.sendNoSlots(whatsappId, stationId, result.error || 'Booking failed.');
+      return;
+    }
+
+    const reservation = result.reservation;
+    const stationName = await reservationService.getStationName(stationId);
+
+    await whatsappService.sendTextMessage(
+      whatsappId,
+      `✅ *Slot Booked!*\n\n` +
+      `📍 *${stationName}*\n` +
+      `🕐 ${reservationService.formatSlot(reservation)}\n` +
+      `🔖 ${reservation.reservationNumber}\n` +
+      (reservation.depositAmount
+        ? `🔒 ₹${parseFloat(reservation.depositAmount)} deposit held - returned when you check in\n`
+        : '') +
+      `\n⏰ We'll remind you before your slot.\n` +
+      `✅ Check in from ${CHECK_IN_EARLY_MINUTES} min before the start.\n` +
+      `⌛ Not checked in ${NO_SHOW_GRACE_MINUTES} min after the start? The charger is released.\n\n` +
+      `📋 Type "bookings" to see all your bookings.`
+    );
+
+    setTimeout(() => whatsappService.sendButtonMessage(
+      whatsappId,
+      '📱 *Manage Booking:*',
+      [
+        { id: `reserve_cancel_${reservation.reservationNumber}`, title: '❌ Cancel Booking' },
+        { id: `get_directions_${stationId}`, title: '🗺️ Directions' },
+      ]
+    ), 1500);
+  }
+
+  /**
+   * "bookings" - upcoming advance bookings
+   */
+  async showMyBookings(whatsappId: string): Promise<void> {
+    try {
+      const bookings = await reservationService.getUpcomingReservations(whatsappId);
+      if (bookings.length === 0) {
+        await whatsappService.sendTextMessage(
+          whatsappId,
+          '📅 *My Bookings*\n\nNo upcoming bookings.\n\n💡 Tap "📅 Book Later" on a station or type "schedule <station ID>".'
+        );
+        return;
+      }
+
+      const lines = await Promise.all(bookings.map(async (booking, index) =>
+        `*${index + 1}. ${await reservationService.getStationName(booking.stationId)}*\n` +
+        `   🕐 ${reservationService.formatSlot(booking)}\n` +
+        `   🔖 ${booking.reservationNumber}`
+      ));
+
+      await whatsappService.sendTextMessage(whatsappId, `📅 *My Bookings*\n\n${lines.join('\n\n')}`);
+
+      setTimeout(() => whatsappService.sendButtonMessage(
+        whatsappId,
+        '❌ Cancel a booking?',
+        bookings.slice(0, 3).map((booking, index) => ({
+          id: `reserve_cancel_${booking.reservationNumber}`,
+          title: `❌ Cancel #${index + 1}`,
+        }))
+      ), 1500);
+    } catch (error) {
+      logger.error('Failed to show bookings', { whatsappId, error });
+      await whatsappService.sendTextMessage(whatsappId, '❌ Could not load your bookings. Please try again.');
+    }
+  }
+
+  private async handleCheckIn(whatsappId: string, reservationNumber: string): Promise<void> {
+    const result = await reservationService.checkIn(whatsappId, reservationNumber);
+    if (!result.success || !result.reservation) {
+      await whatsappService.sendTextMessage(whatsappId, `❌ ${result.error || 'Check-in failed.'}`);
+      return;
+    }
+
+    const stationId = result.reservation.stationId;
+    if (result.waiting) {
+      await whatsappService.sendButtonMessage(
+        whatsappId,
+        `✅ *Checked In!*\n\nEvery compatible charger is still in use - you're first in line ` +
+        `and we'll message you the moment one frees up.`,
+        [{ id: `cancel_queue_${stationId}`, title: '❌ Cancel' }],
+        '📅 Booking'
+      );
+      return;
+    }
+
+    await whatsappService.sendButtonMessage(
+      whatsappId,
+      `✅ *Checked In!*\n\nA charger is held for you until ` +
+      `${reservationService.formatTime(new Date(result.reservation.slotStart.getTime() + NO_SHOW_GRACE_MINUTES * 60 * 1000))}.\n\n` +
+      `Plug in and tap "Start Charging".`,
+      [
+        { id: `start_charging_${stationId}`, title: '⚡ Start Charging' },
+        { id: `cancel_queue_${stationId}`, title: '❌ Cancel' },
+      ],
+      '📅 Booking'
+    );
+  }
+
+  private async handleCancel(whatsappId: string, reservationNumber: string): Promise<void> {
+    const cancelled = await reservationService.cancelReservation(whatsappId, reservationNumber);
+    if (!cancelled) {
+      await whatsappService.sendTextMessage(whatsappId, '❌ That booking is no longer active.');
+      return;
+    }
+
+    await whatsappService.sendTextMessage(
+      whatsappId,
+      `✅ *Booking Cancelled*\n\n🔖 ${reservationNumber}\nThe slot is free for other drivers.` +
+      (cancelled.late ? `\n\n⚠️ Cancelled close to the slot - this counts as a late cancellation.` : '') +
+      (cancelled.depositKept > 0 ? `\n🔒 Your ₹${cancelled.depositKept} deposit was kept.` : '')
+    );
+  }
+
+  private async sendNoSlots(whatsappId: string, stationId: number, reason: string): Promise<void> {
+    await whatsappService.sendButtonMessage(
+      whatsappId,
+      `😕 ${reason}\n\nTry another day or time.`,
+      [
+        { id: `reserve_days_${stationId}`, title: '📅 Other Days' },
+        { id: `join_queue_${stationId}`, title: '📋 Join Queue Now' },
+      ]
+    );
+  }
+}
+
+export const reservationController = new ReservationController();
@@ -0,0 +1,59 @@
+// src/controllers/session-telemetry.ts - DRIVER CONTROLS FOR LIVE CHARGING PROGRESS UPDATES
+import { whatsappService } from '../services/whatsapp';
+import {
+  sessionTelemetryService,
+  MIN_PROGRESS_MINUTES,
+  MAX_PROGRESS_MINUTES,
+} from '../services/session-telemetry';
+import { logger } from '../utils/logger';
+
+// ===============================================
+// SESSION TELEMETRY CONTROLLER
+// ===============================================
+
+export class SessionTelemetryController {
+  /**
+   * "updates <minutes>" / "updates off" - how often progress arrives while charging
+   */
+  async handleUpdatesCommand(whatsappId: string, text: string): Promise<void> {
+    try {
+      const setting = text.trim().split(/\s+/)[1];
+
+      if (!setting) {
+        const minutes = await sessionTelemetryService.getProgressCadence(whatsappId);
+        await whatsappService.sendTextMessage(
+          whatsappId,
+          `📊 *Charging Updates*\n\n` +
+          (minutes ? `You get progress every ${minutes} min while charging` : 'Progress updates are off') +
+          ` - energy so far, cost so far and time to your target.\n\n` +
+          `Type "updates <minutes>" (${MIN_PROGRESS_MINUTES}-${MAX_PROGRESS_MINUTES}), e.g. "updates 10", or "updates off".`
+        );
+        return;
+      }
+
+      const minutes = setting === 'off' ? 0 : parseInt(setting, 10);
+      if (isNaN(minutes) || (minutes !== 0 && (minutes < MIN_PROGRESS_MINUTES || minutes > MAX_PROGRESS_MINUTES))) {
+        await whatsappService.sendTextMessage(
+          whatsappId,
+          `❌ Choose between ${MIN_PROGRESS_MINUTES} and ${MAX_PROGRESS_MINUTES} minutes, e.g. "updates 10", or "updates off".`
+        );
+        return;
+      }
+
+      const updated = await sessionTelemetryService.setProgressCadence(whatsappId, minutes);
+      await whatsappService.sendTextMessage(
+        whatsappId,
+        !updated
+          ? '❌ Could not update your settings. Please try again.'
+          : minutes === 0
+            ? '🔕 Charging progress updates turned off.'
+            : `✅ You'll get charging progress every ${minutes} min.`
+      );
+    } catch (error) {
+      logger.error('Updates command failed', { whatsappId, error });
+      await whatsappService.sendTextMessage(whatsappId, '❌ Could not update your settings. Please try again.');
+    }
+  }
+}
+
+export const sessionTelemetryController = new SessionTelemetryController();
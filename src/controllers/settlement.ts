@@ -0,0 +1,113 @@
+// src/controllers/settlement.ts - SETTLEMENT STATEMENTS & PAYOUT ENDPOINTS
+import { Request, Response } from 'express';
+import { logger } from '../utils/logger';
+import { isAdminRequest } from '../utils/admin-auth';
+import { settlementService, type PayoutStatus } from '../services/settlement';
+import { subscriptionService } from '../services/subscription';
+
+const PAYOUT_STATUSES: PayoutStatus[] = ['processing', 'paid', 'failed'];
+
+// ===============================================
+// SETTLEMENT CONTROLLER
+// ===============================================
+
+export class SettlementController {
+  /**
+   * Serve the statement as PDF or CSV - the unguessable access token is the credential
+   */
+  async downloadStatement(req: Request, res: Response): Promise<void> {
+    const format = req.params.format;
+    if (format !== 'pdf' && format !== 'csv') {
+      res.status(404).json({ error: 'Statement not found' });
+      return;
+    }
+
+    try {
+      const settlement = await settlementService.getSettlementByToken(req.params.token);
+      if (!settlement) {
+        res.status(404).json({ error: 'Statement not found' });
+        return;
+      }
+
+      if (!await subscriptionService.canExport(settlement.ownerWhatsappId, format)) {
+        res.status(403).json({ error: `${format.toUpperCase()} statements are not included in your plan` });
+        return;
+      }
+
+      res.set({
+        'Content-Type': format === 'pdf' ? 'application/pdf' : 'text/csv; charset=utf-8',
+        'Content-Disposition': `${format === 'pdf' ? 'inline' : 'attachment'}; filename="${settlementService.getFileName(settlement, format)}"`,
+        'Cache-Control': 'private, no-store',
+      });
+      res.send(format === 'pdf'
+        ? settlementService.renderStatementPdf(settlement)
+        : settlementService.renderStatementCsv(settlement));
+    } catch (error) {
+      logger.error('Statement download failed', { format, error });
+      res.status(500).json({ error: 'Could not generate statement' });
+    }
+  }
+
+  /**
+   * Generate statements for the last complete week - admin API key
+   */
+  async runSettlements(req: Request, res: Response): Promise<void> {
+    if (!isAdminRequest(req)) {
+      res.status(401).json({ success: false, message: 'Unauthorized' });
+      return;
+    }
+
+    try {
+      const generated = await settlementService.runDueSettlements();
+      res.status(200).json({
+        success: true,
+        generated: generated.map(settlement => ({
+          settlementNumber: settlement.settlementNumber,
+          ownerWhatsappId: settlement.ownerWhatsappId,
+          netPayable: settlement.netPayable,
+          status: settlement.status,
+        })),
+      });
+    } catch (error) {
+      logger.error('Settlement run request failed', { error });
+      res.status(500).json({ success: false, message: 'Settlement run failed' });
+    }
+  }
+
+  /**
+   * Record payout progress for a settlement - admin API key
+   */
+  async updatePayout(req: Request, res: Response): Promise<void> {
+    const { status, payoutReference, failureReason, actorWhatsappId } = req.body ?? {};
+
+    if (!isAdminRequest(req) || !actorWhatsappId) {
+      res.status(401).json({ success: false, message: 'Unauthorized' });
+      return;
+    }
+
+    if (!PAYOUT_STATUSES.includes(status)) {
+      res.status(400).json({ success: false, message: `status must be one of ${PAYOUT_STATUSES.join(', ')}` });
+      return;
+    }
+
+    try {
+      const result = await settlementService.updatePayoutStatus({
+        settlementNumber: req.params.settlementNumber,
+        status,
+        payoutReference: payoutReference ? String(payoutReference) : undefined,
+        failureReason: failureReason ? String(failureReason) : undefined,
+        actorWhatsappId: String(actorWhatsappId),
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent'),
+        endpoint: req.originalUrl,
+      });
+
+      res.status(result.success ? 200 : 422).json(result);
+    } catch (error) {
+      logger.error('Payout update request failed', { settlementNumber: req.params.settlementNumber, error });
+      res.status(500).json({ success: false, message: 'Payout update failed' });
+    }
+  }
+}
+
+export const settlementController = new SettlementController();
@@ -0,0 +1,51 @@
+// src/controllers/subscription.ts - OWNER SUBSCRIPTION ADMIN ENDPOINTS
+import { Request, Response } from 'express';
+import { logger } from '../utils/logger';
+import { isAdminRequest } from '../utils/admin-auth';
+import { subscriptionService, PLAN_LIMITS } from '../services/subscription';
+
+// ===============================================
+// SUBSCRIPTION CONTROLLER
+// ===============================================
+
+export class SubscriptionController {
+  /**
+   * Set or renew an owner's plan - admin API key
+   */
+  async renewSubscription(req: Request, res: Response): Promise<void> {
+    const { plan, expiresAt, actorWhatsappId } = req.body ?? {};
+
+    if (!isAdminRequest(req) || !actorWhatsappId) {
+      res.status(401).json({ success: false, message: 'Unauthorized' });
+      return;
+    }
+
+    const expiry = expiresAt ? new Date(expiresAt) : null;
+    if (!subscriptionService.isPlanTier(plan) || !expiry || isNaN(expiry.getTime())) {
+      res.status(400).json({
+        success: false,
+        message: `plan must be one of ${Object.keys(PLAN_LIMITS).join(', ')} and expiresAt an ISO date`,
+      });
+      return;
+    }
+
+    try {
+      const result = await subscriptionService.renewSubscription({
+        ownerWhatsappId: req.params.whatsappId,
+        tier: plan,
+        expiresAt: expiry,
+        actorWhatsappId: String(actorWhatsappId),
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent'),
+        endpoint: req.originalUrl,
+      });
+
+      res.status(result.success ? 200 : 422).json(result);
+    } catch (error) {
+      logger.error('Subscription renewal request failed', { ownerWhatsappId: req.params.whatsappId, error });
+      res.status(500).json({ success: false, message: 'Subscription renewal failed' });
+    }
+  }
+}
+
+export const subscriptionController = new SubscriptionController();
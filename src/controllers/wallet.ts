@@ -0,0 +1,144 @@
+// src/controllers/wallet.ts - WALLET CHAT COMMANDS & TOP-UPS
+import { whatsappService } from '../services/whatsapp';
+import { walletService } from '../services/wallet';
+import { paymentService } from '../services/payment';
+import { tariffService } from '../services/tariff';
+import { userService } from '../services/userService';
+import { logger } from '../utils/logger';
+
+// Quick top-up amounts offered as buttons (INR)
+const QUICK_TOPUPS = [200, 500, 1000];
+
+const TRANSACTION_LABELS: Record<string, string> = {
+  topup: '➕ Top-up',
+  session_payment: '⚡ Charging',
+  refund: '↩️ Refund',
+  deposit_hold: '🔒 Booking deposit',
+  deposit_release: '🔓 Deposit returned',
+  deposit_forfeit: '⚠️ Deposit kept',
+};
+
+// Types that take money out of the balance; a kept deposit already left it when held
+const BALANCE_SIGNS: Record<string, string> = {
+  session_payment: '-',
+  deposit_hold: '-',
+  deposit_forfeit: '',
+};
+
+// ===============================================
+// WALLET CONTROLLER
+// ===============================================
+
+export class WalletController {
+  /**
+   * "wallet" - balance, recent transactions and top-up buttons
+   */
+  async showWallet(whatsappId: string): Promise<void> {
+    try {
+      const [balance, recent] = await Promise.all([
+        walletService.getBalance(whatsappId),
+        walletService.getRecentTransactions(whatsappId),
+      ]);
+
+      const history = recent.length > 0
+        ? recent.map(tx => {
+          const sign = BALANCE_SIGNS[tx.type] ?? '+';
+          const date = (tx.createdAt || new Date()).toLocaleDateString('en-IN', {
+            timeZone: 'Asia/Kolkata',
+            day: '2-digit',
+            month: 'short',
+          });
+          return `${TRANSACTION_LABELS[tx.type] || tx.type} ${sign}₹${parseFloat(tx.amount).toFixed(2)} • ${date}`;
+        }).join('\n')
+        : 'No transactions yet';
+
+      await whatsappService.sendTextMessage(
+        whatsappId,
+        `👛 *Your Wallet*\n\n` +
+        `💰 *Balance:* ₹${balance.toFixed(2)}\n\n` +
+        `*Recent Activity*\n${history}\n\n` +
+        `💡 Sessions are paid from your wallet automatically when the balance covers the bill.\n` +
+        `Type "topup <amount>" for a custom amount.`
+      );
+
+      setTimeout(() => whatsappService.sendButtonMessage(
+        whatsappId,
+        '➕ *Add Money*',
+        QUICK_TOPUPS.map(amount => ({ id: `wallet_topup_${amount}`, title: `₹${amount}` })),
+        '👛 Wallet Top-up'
+      ), 1000);
+
+    } catch (error) {
+      logger.error('Failed to show wallet', { whatsappId, error });
+      await whatsappService.sendTextMessage(whatsappId, '❌ Could not load your wallet. Please try again.');
+    }
+  }
+
+  /**
+   * "topup 500" / "wallet topup 500"
+   */
+  async handleTopUpCommand(whatsappId: string, text: string): Promise<void> {
+    const match = text.match(/(\d+(?:\.\d{1,2})?)/);
+    if (!match) {
+      await whatsappService.sendTextMessage(
+        whatsappId,
+        '👛 *Wallet Top-up*\n\nFormat: topup <amount>\nExample: topup 500'
+      );
+      return;
+    }
+
+    await this.startTopUp(whatsappId, parseFloat(match[1]));
+  }
+
+  async handleWalletButton(whatsappId: string, buttonId: string): Promise<void> {
+    const amount = parseInt(buttonId.replace('wallet_topup_', ''), 10);
+    if (isNaN(amount)) {
+      await this.showWallet(whatsappId);
+      return;
+    }
+    await this.startTopUp(whatsappId, amount);
+  }
+
+  private async startTopUp(whatsappId: string, amount: number): Promise<void> {
+    const result = await paymentService.requestWalletTopUp(whatsappId, amount);
+    if (!result.success) {
+      await whatsappService.sendTextMessage(whatsappId, `❌ ${result.error}`);
+    }
+  }
+
+  // ===============================================
+  // LOW BALANCE WARNING
+  // ===============================================
+
+  /**
+   * Warn wallet users whose balance won't cover a typical session at this station
+   */
+  async warnIfLowBalance(whatsappId: string, stationId: number): Promise<void> {
+    try {
+      if (!(await walletService.hasWallet(whatsappId))) return;
+
+      const user = await userService.getUserByWhatsAppId(whatsappId);
+      const estimatedKwh = user?.connectorType === 'CCS2' ? 25 : 15;
+
+      const [balance, quote] = await Promise.all([
+        walletService.getBalance(whatsappId),
+        tariffService.quote(stationId, estimatedKwh),
+      ]);
+
+      if (balance >= quote.total) return;
+
+      await whatsappService.sendTextMessage(
+        whatsappId,
+        `⚠️ *Low Wallet Balance*\n\n` +
+        `👛 *Balance:* ₹${balance.toFixed(2)}\n` +
+        `💵 *Typical session here:* ~₹${quote.total.toFixed(0)}\n\n` +
+        `If the balance doesn't cover the bill you'll get a UPI payment link instead.\n` +
+        `Type "topup <amount>" to add money now.`
+      );
+    } catch (error) {
+      logger.warn('Low balance check failed', { whatsappId, stationId, error });
+    }
+  }
+}
+
+export const walletController = new WalletController();
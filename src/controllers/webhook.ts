@@ -13,6 +13,19 @@ import { bookingController } from './booking';
 import { queueWebhookController } from './queue-webhook';
 import { webhookLocationController } from './location/webhook-location';
 import { photoVerificationService } from '../services/photo-verification';
+import { refundService } from '../services/payment';
+import { invoiceService } from '../services/invoice';
+import { walletController } from './wallet';
+import { promoService } from '../services/promo';
+import { reservationController } from './reservation';
+import { queuePriorityController } from './queue-priority';
+import { queueSwapController } from './queue-swap';
+import { queueOverflowController } from './queue-overflow';
+import { fleetController } from './fleet';
+import { sessionTelemetryController } from './session-telemetry';
+import { chargingTargetController } from './charging-target';
+import { issueReportController } from './issue-report';
+import { idleFeeService } from '../services/idle-fee';
 import { WhatsAppWebhook, WhatsAppMessage } from '../types/whatsapp';
 import { parseButtonId, ButtonParseResult } from '../utils/button-parser';
 import { validateWhatsAppId } from '../utils/validation';
@@ -207,15 +220,27 @@ export class WebhookController {
     const verificationState = photoVerificationService.getVerificationState(whatsappId);
     if (verificationState) {
       logger.info('🔍 User in verification flow', { whatsappId, hasImage: !!message.image });
+      // An optional check-in only takes readings - anything else is a normal message
+      const isReading = verificationState.type !== 'checkin' || /^\d+(\.\d+)?$/.test((message.text?.body || '').trim());
       if (message.image) {
         await this.handleVerificationPhoto(whatsappId, message, verificationState);
         return;
-      } else if (message.type === 'text') {
+      } else if (message.type === 'text' && isReading) {
         await this.handleManualVerificationEntry(whatsappId, message.text?.body || '');
         return;
       }
     }
 
+    // Photo or description for an issue ticket the driver just opened
+    if (message.image && issueReportController.isAwaitingDetails(whatsappId, 'image')) {
+      await issueReportController.handleDetails(whatsappId, { imageId: message.image.id, text: message.image.caption });
+      return;
+    }
+    if (message.type === 'text' && issueReportController.isAwaitingDetails(whatsappId, 'text')) {
+      await issueReportController.handleDetails(whatsappId, { text: message.text?.body || '' });
+      return;
+    }
+
     // ✅ Route by message type
     switch (message.type) {
       case 'text':
@@ -270,6 +295,8 @@ export class WebhookController {
       await photoVerificationService.handleStartPhoto(whatsappId, imageBuffer);
     } else if (state.type === 'end') {
       await photoVerificationService.handleEndPhoto(whatsappId, imageBuffer);
+    } else if (state.type === 'checkin') {
+      await photoVerificationService.handleCheckInPhoto(whatsappId, imageBuffer);
     } else {
       logger.error('Unknown verification type', { whatsappId, type: state.type });
       await whatsappService.sendTextMessage(
@@ -546,6 +573,41 @@ export class WebhookController {
       return;
     }
 
+    if (buttonId.startsWith('wallet_topup_')) {
+      await walletController.handleWalletButton(whatsappId, buttonId);
+      return;
+    }
+
+    if (buttonId.startsWith('idle_moved_')) {
+      await idleFeeService.handleVehicleMoved(whatsappId, buttonId);
+      return;
+    }
+
+    if (buttonId.startsWith('reserve_')) {
+      await reservationController.handleButton(whatsappId, buttonId);
+      return;
+    }
+
+    if (buttonId.startsWith('swap_')) {
+      await queueSwapController.handleButton(whatsappId, buttonId);
+      return;
+    }
+
+    if (buttonId.startsWith('waitlist_')) {
+      await queueOverflowController.handleWaitlistAction(whatsappId, buttonId);
+      return;
+    }
+
+    if (buttonId.startsWith('target_')) {
+      await chargingTargetController.handleButton(whatsappId, buttonId);
+      return;
+    }
+
+    if (buttonId.startsWith('issue_skip_')) {
+      await issueReportController.handleButton(whatsappId, buttonId);
+      return;
+    }
+
     // ✅ ADD THIS - Check for SESSION buttons
     if (this.isSessionButton(buttonId)) {
       await queueWebhookController.handleQueueButton(whatsappId, buttonId, title);
@@ -579,6 +641,22 @@ export class WebhookController {
       return;
     }
 
+    if (listId.startsWith('reserve_')) {
+      // Button handler covers list rows too, plus reserve_days_ offered from list menus
+      await reservationController.handleButton(whatsappId, listId);
+      return;
+    }
+
+    if (listId.startsWith('waitlist_')) {
+      await queueOverflowController.handleWaitlistAction(whatsappId, listId);
+      return;
+    }
+
+    if (listId.startsWith('issue_cat_')) {
+      await issueReportController.handleCategorySelection(whatsappId, listId);
+      return;
+    }
+
     // Handle the missing method call
     if (this.isLocationList(listId)) {
       await this.handleLocationList(whatsappId, listId, parsed);
@@ -704,12 +782,45 @@ export class WebhookController {
       'route': () => this.handleGetDirections(whatsappId),
       'profile': () => profileService.showProfileSummary(whatsappId),
       'preferences': () => preferenceController.startPreferenceGathering(whatsappId),
-      'settings': () => preferenceController.startPreferenceGathering(whatsappId)
+      'settings': () => preferenceController.startPreferenceGathering(whatsappId),
+      'invoice': () => invoiceService.handleDownloadCommand(whatsappId, originalText),
+      'invoices': () => invoiceService.handleDownloadCommand(whatsappId, originalText),
+      'download invoice': () => invoiceService.handleDownloadCommand(whatsappId, originalText),
+      'wallet': () => walletController.showWallet(whatsappId),
+      'balance': () => walletController.showWallet(whatsappId),
+      'bookings': () => reservationController.showMyBookings(whatsappId),
+      'my bookings': () => reservationController.showMyBookings(whatsappId),
+      'swap': () => queueSwapController.handleSwapCommand(whatsappId),
+      'issues': () => issueReportController.showMyIssues(whatsappId),
+      'my issues': () => issueReportController.showMyIssues(whatsappId)
     };
 
     const handler = commands[cleanText];
     if (handler) {
       await handler();
+    } else if (cleanText.startsWith('download invoice ') || cleanText.startsWith('invoice ')) {
+      await invoiceService.handleDownloadCommand(whatsappId, originalText);
+    } else if (cleanText === 'schedule' || cleanText.startsWith('schedule ')) {
+      await reservationController.handleScheduleCommand(whatsappId, cleanText);
+    } else if (cleanText === 'battery' || cleanText.startsWith('battery ')) {
+      await queuePriorityController.handleBatteryCommand(whatsappId, cleanText);
+    } else if (cleanText === 'accessibility' || cleanText.startsWith('accessibility ')) {
+      await queuePriorityController.handleAccessibilityCommand(whatsappId, cleanText);
+    } else if (cleanText === 'fleet' || cleanText.startsWith('fleet ')) {
+      await fleetController.handleFleetCommand(whatsappId, originalText);
+    } else if (cleanText === 'target' || cleanText.startsWith('target ')) {
+      await chargingTargetController.handleTargetCommand(whatsappId, originalText);
+    } else if (cleanText === 'report' || cleanText.startsWith('report ')) {
+      await issueReportController.handleReportCommand(whatsappId, cleanText);
+    } else if (cleanText === 'updates' || cleanText.startsWith('updates ')) {
+      await sessionTelemetryController.handleUpdatesCommand(whatsappId, cleanText);
+    } else if (cleanText === 'promo' || cleanText.startsWith('promo ')) {
+      await promoService.handlePromoCommand(whatsappId, originalText);
+    } else if (cleanText.startsWith('topup') || cleanText.startsWith('wallet topup')) {
+      await walletController.handleTopUpCommand(whatsappId, cleanText);
+    } else if (cleanText === 'refund' || cleanText.startsWith('refund ')) {
+      // Admin refunds - access is checked against the admins table
+      await refundService.handleRefundCommand(whatsappId, 'admin', originalText);
     } else {
       // Check if it looks like an address
       if (this.looksLikeAddress(originalText)) {
@@ -893,6 +1004,20 @@ private async showHelp(whatsappId: string): Promise<void> {
     `• "directions" – Get navigation\n` +
     `• "profile" – View your EV profile\n` +
     `• "preferences" – Update settings\n` +
+    `• "download invoice" – Get your latest tax invoice\n` +
+    `• "wallet" – Balance & recent transactions\n` +
+    `• "topup 500" – Add money to your wallet\n` +
+    `• "promo CODE" – Apply a promo code to your bill\n` +
+    `• "schedule 12" – Book a later slot at station 12\n` +
+    `• "bookings" – Your upcoming bookings\n` +
+    `• "battery 7" – Critical battery? Move up the queue\n` +
+    `• "accessibility on" – Accessibility priority when queueing\n` +
+    `• "swap" – Running late? Offer your spot to the driver behind you\n` +
+    `• "fleet" – Fleet managers: your vehicles, bookings & billing\n` +
+    `• "updates 10" – Charging progress every 10 min ("updates off" to stop)\n` +
+    `• "target 300" – Stop at ₹300 (or "target 20 kwh", "target 80%")\n` +
+    `• "report" – Report a problem with a charger or payment\n` +
+    `• "issues" – Status of your reported problems\n` +
     `• "help" – Show this menu\n` +
     `• "owner" – Access owner portal\n\n` +
     `*How to Find Stations*\n` +
@@ -37,6 +37,8 @@ export const users = pgTable('users', {
   timezone: varchar('timezone', { length: 50 }).default('Asia/Kolkata'),
 
   notificationsEnabled: boolean('notifications_enabled').default(true),
+  // Minutes between live charging progress messages - 0 turns them off
+  progressUpdateMinutes: integer('progress_update_minutes').notNull().default(15),
   smsNotifications: boolean('sms_notifications').default(false),
   emailNotifications: boolean('email_notifications').default(false),
   email: varchar('email', { length: 150 }),
@@ -46,6 +48,17 @@ export const users = pgTable('users', {
   totalEnergyConsumed: decimal('total_energy_consumed', { precision: 10, scale: 3 }).default('0'),
   lastActivityAt: timestamp('last_activity_at').defaultNow(),
 
+  // Reliability - 0-100, penalties apply below configured thresholds
+  reliabilityScore: integer('reliability_score').notNull().default(100),
+  noShowCount: integer('no_show_count').notNull().default(0),
+  lateCancelCount: integer('late_cancel_count').notNull().default(0),
+  reservationCooldownUntil: timestamp('reservation_cooldown_until'),
+
+  // Queue priority - accessibility is self-declared, fleet is set when linked to a fleet account
+  accessibilityNeeds: boolean('accessibility_needs').notNull().default(false),
+  fleetPriority: boolean('fleet_priority').notNull().default(false),
+  lowBatteryClaimedAt: timestamp('low_battery_claimed_at'),
+
   createdAt: timestamp('created_at').defaultNow(),
   updatedAt: timestamp('updated_at').defaultNow(),
 }, (table) => ({
@@ -84,6 +97,7 @@ export const chargingStations = pgTable('charging_stations', {
   currentQueueLength: integer('current_queue_length').default(0),
   maxQueueLength: integer('max_queue_length').default(10),
   averageSessionMinutes: integer('average_session_minutes').default(30),
+  priorityPolicy: jsonb('priority_policy'), // Owner overrides of the queue priority defaults
 
   operatingHours: jsonb('operating_hours').default(sql`'{"monday":"24/7","tuesday":"24/7","wednesday":"24/7","thursday":"24/7","friday":"24/7","saturday":"24/7","sunday":"24/7"}'::jsonb`),
   amenities: jsonb('amenities').default(sql`'[]'::jsonb`),
@@ -116,7 +130,60 @@ export const chargingStations = pgTable('charging_stations', {
   ratingIdx: index('stations_rating_idx').on(table.averageRating),
 }));
 
+// ==================== OCPP CHARGE POINTS ====================
+// Networked chargers speaking OCPP 1.6J - registered up front, identified by the last
+// segment of the WebSocket URL they connect to
+export const chargePoints = pgTable('charge_points', {
+  id: serial('id').primaryKey(),
+  chargePointId: varchar('charge_point_id', { length: 48 }).notNull().unique(),
+  stationId: integer('station_id').notNull().references(() => chargingStations.id),
+
+  // Reported by the charger in BootNotification
+  vendor: varchar('vendor', { length: 20 }),
+  model: varchar('model', { length: 20 }),
+  serialNumber: varchar('serial_number', { length: 25 }),
+  firmwareVersion: varchar('firmware_version', { length: 50 }),
+
+  lastBootAt: timestamp('last_boot_at'),
+  lastHeartbeatAt: timestamp('last_heartbeat_at'),
+
+  createdBy: varchar('created_by', { length: 20 }),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => ({
+  stationIdx: index('charge_points_station_idx').on(table.stationId),
+}));
+
+// ==================== STATION PORTS ====================
+// One row per physical connector; the station's port counters are derived from these
+export const stationPorts = pgTable('station_ports', {
+  id: serial('id').primaryKey(),
+  stationId: integer('station_id').notNull().references(() => chargingStations.id),
+  portNumber: integer('port_number').notNull(),
+  connectorType: varchar('connector_type', { length: 20 }).notNull(),
+  maxPowerKw: integer('max_power_kw').notNull().default(50),
+
+  // available | occupied | offline | faulted | maintenance
+  status: varchar('status', { length: 20 }).notNull().default('available'),
+  currentSessionId: varchar('current_session_id', { length: 50 }),
+  statusChangedAt: timestamp('status_changed_at').defaultNow(),
+
+  // Set for ports on a networked charger - the OCPP connector this port answers to
+  chargePointId: varchar('charge_point_id', { length: 48 }).references(() => chargePoints.chargePointId),
+  connectorId: integer('connector_id'),
+
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => ({
+  stationStatusIdx: index('station_ports_station_status_idx').on(table.stationId, table.status),
+  sessionIdx: index('station_ports_session_idx').on(table.currentSessionId),
+  stationPortUnique: unique('station_ports_station_port').on(table.stationId, table.portNumber),
+  chargePointConnectorUnique: unique('station_ports_charge_point_connector').on(table.chargePointId, table.connectorId),
+}));
+
 // ==================== QUEUES ====================
+// Active entries hold unique positions per (station, lane) - a deferred exclusion constraint
+// added in migration 0017, since drizzle can't declare one
 export const queues = pgTable('queues', {
   id: serial('id').primaryKey(),
   stationId: integer('station_id').notNull().references(() => chargingStations.id),
@@ -132,6 +199,9 @@ export const queues = pgTable('queues', {
   notificationsSent: integer('notifications_sent').default(0),
 
   requestedConnectorType: varchar('requested_connector_type', { length: 20 }),
+  priority: integer('priority').notNull().default(0), // Higher goes first within a lane
+  priorityReason: varchar('priority_reason', { length: 20 }), // low_battery | accessibility | fleet | low_reliability
+  timesOvertaken: integer('times_overtaken').notNull().default(0), // Fairness cap on priority jumps
   requestedMaxPower: integer('requested_max_power'),
   estimatedSessionMinutes: integer('estimated_session_minutes'),
 
@@ -151,6 +221,119 @@ export const queues = pgTable('queues', {
   userStationUnique: unique('queues_user_station_active').on(table.userWhatsapp, table.stationId),
 }));
 
+// ==================== QUEUE SWAP OFFERS ====================
+// A waiting driver offers their place to the next driver in the lane; positions are captured to detect a moved queue
+export const queueSwapOffers = pgTable('queue_swap_offers', {
+  id: serial('id').primaryKey(),
+  stationId: integer('station_id').notNull().references(() => chargingStations.id),
+
+  fromUserWhatsapp: varchar('from_user_whatsapp', { length: 20 }).notNull().references(() => users.whatsappId),
+  toUserWhatsapp: varchar('to_user_whatsapp', { length: 20 }).notNull().references(() => users.whatsappId),
+  fromQueueId: integer('from_queue_id').notNull().references(() => queues.id),
+  toQueueId: integer('to_queue_id').notNull().references(() => queues.id),
+  fromPosition: integer('from_position').notNull(),
+  toPosition: integer('to_position').notNull(),
+
+  // pending | accepted | declined | expired | failed
+  status: varchar('status', { length: 20 }).notNull().default('pending'),
+  expiresAt: timestamp('expires_at').notNull(),
+  respondedAt: timestamp('responded_at'),
+
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => ({
+  toUserStatusIdx: index('queue_swap_offers_to_user_idx').on(table.toUserWhatsapp, table.status),
+  statusExpiryIdx: index('queue_swap_offers_status_expiry_idx').on(table.status, table.expiresAt),
+}));
+
+// ==================== QUEUE WAITLIST ====================
+// Drivers turned away by a full queue; the oldest are told first when a spot opens
+export const queueWaitlist = pgTable('queue_waitlist', {
+  id: serial('id').primaryKey(),
+  stationId: integer('station_id').notNull().references(() => chargingStations.id),
+  userWhatsapp: varchar('user_whatsapp', { length: 20 }).notNull().references(() => users.whatsappId),
+
+  // waiting | notified | joined | cancelled | expired
+  status: varchar('status', { length: 20 }).notNull().default('waiting'),
+  notifiedAt: timestamp('notified_at'),
+
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => ({
+  stationStatusIdx: index('queue_waitlist_station_status_idx').on(table.stationId, table.status),
+  userStatusIdx: index('queue_waitlist_user_status_idx').on(table.userWhatsapp, table.status),
+}));
+
+// ==================== QUEUE EVENTS ====================
+// Append-only history of every queue transition, written in the same locked statement as the
+// change itself (a trigger from migration 0018 rejects updates). Replaying a station's events
+// rebuilds its queue at any point in time.
+export const queueEvents = pgTable('queue_events', {
+  id: serial('id').primaryKey(),
+  stationId: integer('station_id').notNull().references(() => chargingStations.id),
+  queueId: integer('queue_id').references(() => queues.id),
+  userWhatsapp: varchar('user_whatsapp', { length: 20 }).notNull(),
+
+  // joined | moved | reserved | promoted | started | completed | cancelled | expired
+  eventType: varchar('event_type', { length: 20 }).notNull(),
+  lane: varchar('lane', { length: 20 }), // Requested connector - null is the any-connector lane
+  fromPosition: integer('from_position'),
+  toPosition: integer('to_position'),
+  reason: varchar('reason', { length: 30 }), // overtaken | gap_closed | swap | rebalance | priority tier...
+
+  // user | system | owner | admin
+  actorType: varchar('actor_type', { length: 20 }).notNull(),
+  actorWhatsappId: varchar('actor_whatsapp_id', { length: 20 }),
+
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  stationCreatedIdx: index('queue_events_station_created_idx').on(table.stationId, table.createdAt),
+  userCreatedIdx: index('queue_events_user_created_idx').on(table.userWhatsapp, table.createdAt),
+}));
+
+// ==================== SLOT RESERVATIONS ====================
+// Advance bookings for a future time slot; checking in admits the driver into the live queue
+export const reservations = pgTable('reservations', {
+  id: serial('id').primaryKey(),
+  reservationNumber: varchar('reservation_number', { length: 30 }).notNull().unique(),
+  userWhatsapp: varchar('user_whatsapp', { length: 20 }).notNull().references(() => users.whatsappId),
+  stationId: integer('station_id').notNull().references(() => chargingStations.id),
+
+  slotStart: timestamp('slot_start').notNull(),
+  slotEnd: timestamp('slot_end').notNull(),
+
+  // booked | checked_in | cancelled | no_show
+  status: varchar('status', { length: 20 }).notNull().default('booked'),
+
+  reminderSentAt: timestamp('reminder_sent_at'),
+  checkedInAt: timestamp('checked_in_at'),
+  cancelledAt: timestamp('cancelled_at'),
+  releasedAt: timestamp('released_at'),     // No-show auto release
+
+  depositAmount: decimal('deposit_amount', { precision: 10, scale: 2 }), // Held from the wallet for low-reliability drivers
+
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => ({
+  stationSlotIdx: index('reservations_station_slot_idx').on(table.stationId, table.status, table.slotStart),
+  userStatusIdx: index('reservations_user_status_idx').on(table.userWhatsapp, table.status),
+}));
+
+// ==================== RELIABILITY EVENTS ====================
+// One row per no-show, late cancellation or completed session; reference makes recording idempotent
+export const reliabilityEvents = pgTable('reliability_events', {
+  id: serial('id').primaryKey(),
+  userWhatsapp: varchar('user_whatsapp', { length: 20 }).notNull().references(() => users.whatsappId),
+  eventType: varchar('event_type', { length: 20 }).notNull(), // no_show | late_cancel | completed
+  source: varchar('source', { length: 20 }).notNull(),        // queue | reservation | session
+  reference: varchar('reference', { length: 60 }).notNull(),
+  scoreDelta: integer('score_delta').notNull(),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => ({
+  userCreatedIdx: index('reliability_events_user_idx').on(table.userWhatsapp, table.createdAt),
+  typeReferenceUnique: unique('reliability_events_type_reference').on(table.eventType, table.reference),
+}));
+
 // ==================== CHARGING SESSIONS (WITH VERIFICATION COLUMNS) ====================
 export const chargingSessions = pgTable('charging_sessions', {
   id: serial('id').primaryKey(),
@@ -167,11 +350,23 @@ export const chargingSessions = pgTable('charging_sessions', {
   endedAt: timestamp('ended_at'),
   duration: integer('duration'),
 
+  // 🅿️ Idle time - from end photo request until the bay is freed
+  idleStartedAt: timestamp('idle_started_at'),
+  idleEndedAt: timestamp('idle_ended_at'),
+  idleMinutes: integer('idle_minutes').default(0), // Billable minutes after grace
+  idleEndReason: varchar('idle_end_reason', { length: 30 }),
+  idleWarningSentAt: timestamp('idle_warning_sent_at'),
+  idleFeeNoticeSentAt: timestamp('idle_fee_notice_sent_at'),
+
   // 🔌 Meter readings (kWh) - ✅ ADDED MISSING COLUMNS
   startMeterReading: decimal('start_meter_reading', { precision: 10, scale: 3 }),
   endMeterReading: decimal('end_meter_reading', { precision: 10, scale: 3 }),
   energyDelivered: decimal('energy_delivered', { precision: 10, scale: 3 }),
 
+  // 📡 photo (driver photographs the display) | ocpp (the charger reports its meter)
+  meterSource: varchar('meter_source', { length: 10 }).notNull().default('photo'),
+  remoteStartAt: timestamp('remote_start_at'), // Charger accepted RemoteStartTransaction, StartTransaction still due
+
   // 🔍 Verification - ✅ ADDED ALL MISSING VERIFICATION COLUMNS
   verificationStatus: varchar('verification_status', { length: 30 }).default('pending'),
   startVerificationAttempts: integer('start_verification_attempts').default(0),
@@ -183,17 +378,25 @@ export const chargingSessions = pgTable('charging_sessions', {
   validationWarnings: jsonb('validation_warnings').default(sql`'[]'::jsonb`),
 
   // ⚡ Charging
+  portId: integer('port_id').references(() => stationPorts.id),
   connectorUsed: varchar('connector_used', { length: 20 }),
   maxPowerUsed: integer('max_power_used'),
   peakPowerKw: decimal('peak_power_kw', { precision: 6, scale: 2 }),
   averagePowerKw: decimal('average_power_kw', { precision: 6, scale: 2 }),
 
+  // 🎯 Driver's stop target - kwh (energy added) | amount (₹ bill) | soc (battery %)
+  targetType: varchar('target_type', { length: 10 }),
+  targetValue: decimal('target_value', { precision: 10, scale: 2 }),
+  targetAlertedAt: timestamp('target_alerted_at'), // 90% heads-up sent
+  targetReachedAt: timestamp('target_reached_at'), // Stop triggered
+
   // 💰 Billing
   totalCost: decimal('total_cost', { precision: 10, scale: 2 }),
   ratePerKwh: decimal('rate_per_kwh', { precision: 5, scale: 2 }),
   baseCharge: decimal('base_charge', { precision: 6, scale: 2 }).default('0'),
   taxAmount: decimal('tax_amount', { precision: 6, scale: 2 }).default('0'),
   discountAmount: decimal('discount_amount', { precision: 6, scale: 2 }).default('0'),
+  billBreakdown: jsonb('bill_breakdown'),
 
   paymentStatus: varchar('payment_status', { length: 20 }).default('pending'),
 
@@ -220,6 +423,77 @@ export const chargingSessions = pgTable('charging_sessions', {
   startedAtIdx: index('sessions_started_at_idx').on(table.startedAt),
 }));
 
+// ==================== SESSION METER SAMPLES ====================
+// Readings taken during a session - the charger's MeterValues, or a driver's photo check-in.
+// Energy is delivered so far in this session, not the meter's lifetime register.
+export const sessionMeterSamples = pgTable('session_meter_samples', {
+  id: serial('id').primaryKey(),
+  sessionId: varchar('session_id', { length: 50 }).notNull().references(() => chargingSessions.sessionId),
+
+  energyKwh: decimal('energy_kwh', { precision: 10, scale: 3 }).notNull(),
+  powerKw: decimal('power_kw', { precision: 8, scale: 2 }),
+  socPercent: integer('soc_percent'),
+  source: varchar('source', { length: 10 }).notNull(), // ocpp | photo
+
+  sampledAt: timestamp('sampled_at').notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  sessionSampledIdx: index('session_meter_samples_session_sampled_idx').on(table.sessionId, table.sampledAt),
+}));
+
+// ==================== ISSUE REPORTS ====================
+// Driver-reported problems - a ticket the station owner acknowledges and resolves.
+// Repeated hardware reports on one port take it out of service.
+export const issueReports = pgTable('issue_reports', {
+  id: serial('id').primaryKey(),
+  stationId: integer('station_id').notNull().references(() => chargingStations.id),
+  sessionId: varchar('session_id', { length: 50 }).references(() => chargingSessions.sessionId),
+  portNumber: integer('port_number'),
+  userWhatsapp: varchar('user_whatsapp', { length: 20 }).notNull(),
+
+  // charger_not_starting | slow_charging | damaged_cable | payment | station_closed
+  category: varchar('category', { length: 30 }).notNull(),
+  description: text('description'),
+  photoMediaId: varchar('photo_media_id', { length: 100 }), // WhatsApp media ID - the image isn't stored
+
+  // open | acknowledged | resolved | dismissed
+  status: varchar('status', { length: 20 }).notNull().default('open'),
+  portMaintenanceTriggered: boolean('port_maintenance_triggered').notNull().default(false),
+  acknowledgedAt: timestamp('acknowledged_at'),
+  resolvedAt: timestamp('resolved_at'),
+  resolvedBy: varchar('resolved_by', { length: 20 }),
+  resolutionNote: text('resolution_note'),
+
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => ({
+  stationStatusIdx: index('issue_reports_station_status_idx').on(table.stationId, table.status),
+  portCreatedIdx: index('issue_reports_port_created_idx').on(table.stationId, table.portNumber, table.createdAt),
+  userIdx: index('issue_reports_user_idx').on(table.userWhatsapp),
+}));
+
+// ==================== STATION TARIFFS ====================
+export const stationTariffs = pgTable('station_tariffs', {
+  id: serial('id').primaryKey(),
+  stationId: integer('station_id').notNull().unique().references(() => chargingStations.id),
+
+  // Falls back to the station's pricePerKwh when not set
+  energyPricePerKwh: decimal('energy_price_per_kwh', { precision: 6, scale: 2 }),
+  timeOfUseBands: jsonb('time_of_use_bands').notNull().default(sql`'[]'::jsonb`),
+
+  // Session fee: flat amount or percent of energy cost, whichever is higher
+  sessionFee: decimal('session_fee', { precision: 6, scale: 2 }).notNull().default('5.00'),
+  sessionFeePercent: decimal('session_fee_percent', { precision: 5, scale: 2 }).notNull().default('5.00'),
+  idleFeePerMinute: decimal('idle_fee_per_minute', { precision: 6, scale: 2 }).notNull().default('0'),
+  idleGraceMinutes: integer('idle_grace_minutes').notNull().default(15),
+  minimumBill: decimal('minimum_bill', { precision: 8, scale: 2 }).notNull().default('0'),
+  taxRate: decimal('tax_rate', { precision: 5, scale: 2 }).notNull().default('18.00'),
+
+  isActive: boolean('is_active').default(true),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+});
+
 // ==================== STATION OWNERS ====================
 export const stationOwners = pgTable('station_owners', {
   id: serial('id').primaryKey(),
@@ -256,6 +530,7 @@ export const stationOwners = pgTable('station_owners', {
   permissions: jsonb('permissions').notNull().default(sql`'["manage_own_stations"]'::jsonb`),
   subscriptionPlan: varchar('subscription_plan', { length: 30 }).default('basic'),
   subscriptionExpiry: timestamp('subscription_expiry'),
+  subscriptionReminderStage: varchar('subscription_reminder_stage', { length: 20 }), // 7d | 1d | lapsed - reset on renewal
 
   createdAt: timestamp('created_at').defaultNow(),
   updatedAt: timestamp('updated_at').defaultNow(),
@@ -264,6 +539,75 @@ export const stationOwners = pgTable('station_owners', {
   verificationIdx: index('owners_verification_idx').on(table.isVerified, table.kycStatus),
 }));
 
+// ==================== OWNER STAFF ====================
+// Seats are capped by the owner's plan; members past the cap are suspended (oldest seats win), not deleted
+export const ownerStaff = pgTable('owner_staff', {
+  id: serial('id').primaryKey(),
+  ownerWhatsappId: varchar('owner_whatsapp_id', { length: 20 }).notNull(),
+  staffWhatsappId: varchar('staff_whatsapp_id', { length: 20 }).notNull(),
+  name: varchar('name', { length: 100 }),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => ({
+  ownerIdx: index('owner_staff_owner_idx').on(table.ownerWhatsappId),
+  ownerStaffUnique: unique('owner_staff_owner_member').on(table.ownerWhatsappId, table.staffWhatsappId),
+}));
+
+// ==================== FLEET ACCOUNTS ====================
+// Fleet operators: a manager books and is billed for a set of driver numbers
+export const fleetAccounts = pgTable('fleet_accounts', {
+  id: serial('id').primaryKey(),
+  name: varchar('name', { length: 100 }).notNull(),
+  managerWhatsappId: varchar('manager_whatsapp_id', { length: 20 }).notNull().unique().references(() => users.whatsappId),
+
+  // Sessions go on a periodic fleet invoice instead of the driver paying each one
+  consolidatedBilling: boolean('consolidated_billing').notNull().default(true),
+  // active | suspended
+  status: varchar('status', { length: 20 }).notNull().default('active'),
+
+  createdBy: varchar('created_by', { length: 20 }),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+});
+
+// One row per driver - removing and re-adding reuses it, so a driver is in at most one fleet
+export const fleetVehicles = pgTable('fleet_vehicles', {
+  id: serial('id').primaryKey(),
+  fleetAccountId: integer('fleet_account_id').notNull().references(() => fleetAccounts.id),
+  driverWhatsapp: varchar('driver_whatsapp', { length: 20 }).notNull().unique().references(() => users.whatsappId),
+  vehicleLabel: varchar('vehicle_label', { length: 30 }), // Registration or fleet number
+
+  // active | removed
+  status: varchar('status', { length: 20 }).notNull().default('active'),
+
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => ({
+  fleetStatusIdx: index('fleet_vehicles_fleet_status_idx').on(table.fleetAccountId, table.status),
+}));
+
+export const fleetInvoices = pgTable('fleet_invoices', {
+  id: serial('id').primaryKey(),
+  invoiceNumber: varchar('invoice_number', { length: 30 }).notNull().unique(),
+  fleetAccountId: integer('fleet_account_id').notNull().references(() => fleetAccounts.id),
+  periodStart: timestamp('period_start').notNull(),
+  periodEnd: timestamp('period_end').notNull(),
+
+  sessionCount: integer('session_count').notNull().default(0),
+  energyKwh: decimal('energy_kwh', { precision: 12, scale: 3 }).notNull().default('0'),
+  totalAmount: decimal('total_amount', { precision: 12, scale: 2 }).notNull(),
+  lineItems: jsonb('line_items').notNull().default(sql`'[]'::jsonb`),
+
+  // issued | paid | expired
+  status: varchar('status', { length: 20 }).notNull().default('issued'),
+  paymentId: varchar('payment_id', { length: 100 }), // The consolidated payment collecting this invoice
+  paidAt: timestamp('paid_at'),
+
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => ({
+  fleetStatusIdx: index('fleet_invoices_fleet_status_idx').on(table.fleetAccountId, table.status),
+}));
+
 // ==================== ADMINS ====================
 export const admins = pgTable('admins', {
   id: serial('id').primaryKey(),
@@ -360,9 +704,10 @@ export const notifications = pgTable('notifications', {
 export const payments = pgTable('payments', {
   id: serial('id').primaryKey(),
   paymentId: varchar('payment_id', { length: 100 }).notNull().unique(),
-  sessionId: varchar('session_id', { length: 50 }).notNull().references(() => chargingSessions.sessionId),
+  purpose: varchar('purpose', { length: 20 }).notNull().default('session'), // session | wallet_topup | fleet_invoice
+  sessionId: varchar('session_id', { length: 50 }).references(() => chargingSessions.sessionId),
   userWhatsapp: varchar('user_whatsapp', { length: 20 }).notNull().references(() => users.whatsappId),
-  stationId: integer('station_id').notNull().references(() => chargingStations.id),
+  stationId: integer('station_id').references(() => chargingStations.id),
 
   amount: decimal('amount', { precision: 10, scale: 2 }).notNull(),
   currency: varchar('currency', { length: 10 }).default('INR'),
@@ -372,15 +717,161 @@ export const payments = pgTable('payments', {
   gatewayTransactionId: varchar('gateway_transaction_id', { length: 100 }),
   gatewayResponse: jsonb('gateway_response'),
 
+  // Payment link collection
+  gateway: varchar('gateway', { length: 30 }),
+  paymentLinkId: varchar('payment_link_id', { length: 100 }),
+  paymentLinkUrl: text('payment_link_url'),
+  attempts: integer('attempts').default(0),
+  lastAttemptAt: timestamp('last_attempt_at'),
+  expiresAt: timestamp('expires_at'),
+  paidAt: timestamp('paid_at'),
+
   refundAmount: decimal('refund_amount', { precision: 10, scale: 2 }).default('0'),
   refundReason: text('refund_reason'),
   refundedAt: timestamp('refunded_at'),
 
+  // Owner settlement - refunds after settling are deducted from the next one
+  settlementNumber: varchar('settlement_number', { length: 30 }),
+  settledRefundAmount: decimal('settled_refund_amount', { precision: 10, scale: 2 }).notNull().default('0'),
+
+  // Fleet billing - sessions 'billed_to_fleet' wait for an invoice; the fleet_invoice payment collects it
+  fleetAccountId: integer('fleet_account_id').references(() => fleetAccounts.id),
+  fleetInvoiceNumber: varchar('fleet_invoice_number', { length: 30 }),
+
   createdAt: timestamp('created_at').defaultNow(),
   updatedAt: timestamp('updated_at').defaultNow(),
 }, (table) => ({
   sessionIdIdx: index('payments_session_id_idx').on(table.sessionId),
+  fleetIdx: index('payments_fleet_idx').on(table.fleetAccountId, table.status),
+  fleetInvoiceIdx: index('payments_fleet_invoice_idx').on(table.fleetInvoiceNumber),
+  settlementIdx: index('payments_settlement_idx').on(table.settlementNumber),
   statusIdx: index('payments_status_idx').on(table.status),
+  linkIdx: index('payments_link_idx').on(table.paymentLinkId),
+}));
+
+// Every link issued for a payment - a superseded link can still be paid, and its callback must find the payment
+export const paymentLinks = pgTable('payment_links', {
+  id: serial('id').primaryKey(),
+  paymentId: varchar('payment_id', { length: 100 }).notNull().references(() => payments.paymentId),
+  linkId: varchar('link_id', { length: 100 }).notNull().unique(),
+  gateway: varchar('gateway', { length: 30 }).notNull(),
+  cancelledAt: timestamp('cancelled_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  paymentIdx: index('payment_links_payment_idx').on(table.paymentId),
+}));
+
+// ==================== OWNER SETTLEMENTS ====================
+export const settlements = pgTable('settlements', {
+  id: serial('id').primaryKey(),
+  settlementNumber: varchar('settlement_number', { length: 30 }).notNull().unique(),
+  ownerWhatsappId: varchar('owner_whatsapp_id', { length: 20 }).notNull(),
+  periodStart: timestamp('period_start').notNull(),
+  periodEnd: timestamp('period_end').notNull(),
+
+  sessionCount: integer('session_count').notNull().default(0),
+  grossAmount: decimal('gross_amount', { precision: 12, scale: 2 }).notNull(),
+  refundAmount: decimal('refund_amount', { precision: 12, scale: 2 }).notNull().default('0'),
+  adjustmentAmount: decimal('adjustment_amount', { precision: 12, scale: 2 }).notNull().default('0'), // Carried-forward balances
+  platformFeeRate: decimal('platform_fee_rate', { precision: 5, scale: 2 }).notNull(),
+  platformFee: decimal('platform_fee', { precision: 12, scale: 2 }).notNull(),
+  platformFeeTax: decimal('platform_fee_tax', { precision: 12, scale: 2 }).notNull().default('0'),
+  netPayable: decimal('net_payable', { precision: 12, scale: 2 }).notNull(),
+  lineItems: jsonb('line_items').notNull().default(sql`'[]'::jsonb`),
+
+  // pending | processing | paid | failed | carried_forward
+  status: varchar('status', { length: 20 }).notNull().default('pending'),
+  carriedForwardTo: varchar('carried_forward_to', { length: 30 }),
+
+  // Bank details at the time of settlement
+  accountHolderName: varchar('account_holder_name', { length: 100 }),
+  bankAccountLast4: varchar('bank_account_last4', { length: 4 }),
+  ifscCode: varchar('ifsc_code', { length: 15 }),
+
+  payoutReference: varchar('payout_reference', { length: 100 }),
+  payoutFailureReason: text('payout_failure_reason'),
+  paidAt: timestamp('paid_at'),
+
+  accessToken: varchar('access_token', { length: 64 }).notNull().unique(),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => ({
+  ownerIdx: index('settlements_owner_idx').on(table.ownerWhatsappId, table.status),
+  ownerPeriodUnique: unique('settlements_owner_period').on(table.ownerWhatsappId, table.periodStart),
+}));
+
+// ==================== WALLET ====================
+// Append-only double-entry ledger: every transaction posts balanced entries
+export const walletTransactions = pgTable('wallet_transactions', {
+  id: serial('id').primaryKey(),
+  transactionId: varchar('transaction_id', { length: 50 }).notNull().unique(),
+  userWhatsapp: varchar('user_whatsapp', { length: 20 }).notNull().references(() => users.whatsappId),
+  type: varchar('type', { length: 30 }).notNull(), // topup | session_payment | refund | deposit_hold | deposit_release | deposit_forfeit
+  amount: decimal('amount', { precision: 10, scale: 2 }).notNull(),
+  reference: varchar('reference', { length: 100 }).notNull(),
+  description: text('description'),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => ({
+  userIdx: index('wallet_transactions_user_idx').on(table.userWhatsapp),
+  referenceUnique: unique('wallet_transactions_type_reference').on(table.type, table.reference),
+}));
+
+export const walletLedgerEntries = pgTable('wallet_ledger_entries', {
+  id: serial('id').primaryKey(),
+  transactionId: varchar('transaction_id', { length: 50 }).notNull().references(() => walletTransactions.transactionId),
+  account: varchar('account', { length: 30 }).notNull(), // user_wallet | gateway_clearing | session_revenue | reservation_deposits | penalty_revenue
+  userWhatsapp: varchar('user_whatsapp', { length: 20 }),
+  debit: decimal('debit', { precision: 10, scale: 2 }).notNull().default('0'),
+  credit: decimal('credit', { precision: 10, scale: 2 }).notNull().default('0'),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => ({
+  accountUserIdx: index('wallet_entries_account_user_idx').on(table.account, table.userWhatsapp),
+  transactionIdx: index('wallet_entries_transaction_idx').on(table.transactionId),
+}));
+
+// ==================== PROMO CODES ====================
+export const promoCodes = pgTable('promo_codes', {
+  id: serial('id').primaryKey(),
+  code: varchar('code', { length: 30 }).notNull().unique(), // Stored upper-case
+  description: text('description'),
+
+  discountType: varchar('discount_type', { length: 20 }).notNull(), // percentage | flat
+  discountValue: decimal('discount_value', { precision: 8, scale: 2 }).notNull(),
+  maxDiscount: decimal('max_discount', { precision: 8, scale: 2 }), // Cap for percentage codes
+  minBillAmount: decimal('min_bill_amount', { precision: 8, scale: 2 }).default('0'),
+
+  // Usage caps - null means unlimited
+  maxRedemptions: integer('max_redemptions'),
+  maxRedemptionsPerUser: integer('max_redemptions_per_user').default(1),
+
+  validFrom: timestamp('valid_from'),
+  validUntil: timestamp('valid_until'),
+
+  // Scope - null means every station
+  stationId: integer('station_id').references(() => chargingStations.id),
+  ownerWhatsappId: varchar('owner_whatsapp_id', { length: 20 }),
+  firstSessionOnly: boolean('first_session_only').default(false),
+
+  isActive: boolean('is_active').default(true),
+  createdBy: varchar('created_by', { length: 20 }),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+});
+
+export const promoRedemptions = pgTable('promo_redemptions', {
+  id: serial('id').primaryKey(),
+  promoCodeId: integer('promo_code_id').notNull().references(() => promoCodes.id),
+  userWhatsapp: varchar('user_whatsapp', { length: 20 }).notNull().references(() => users.whatsappId),
+  sessionId: varchar('session_id', { length: 50 }).references(() => chargingSessions.sessionId),
+
+  status: varchar('status', { length: 20 }).notNull().default('pending'), // pending | applied | released | expired
+  discountAmount: decimal('discount_amount', { precision: 8, scale: 2 }),
+
+  createdAt: timestamp('created_at').defaultNow(),
+  appliedAt: timestamp('applied_at'),
+}, (table) => ({
+  promoIdx: index('promo_redemptions_promo_idx').on(table.promoCodeId),
+  userIdx: index('promo_redemptions_user_idx').on(table.userWhatsapp, table.status),
 }));
 
 // ==================== AUDIT LOGS ====================
@@ -403,6 +894,42 @@ export const auditLogs = pgTable('audit_logs', {
   actionIdx: index('audit_action_idx').on(table.action),
 }));
 
+// ==================== INVOICES ====================
+export const invoices = pgTable('invoices', {
+  id: serial('id').primaryKey(),
+  invoiceNumber: varchar('invoice_number', { length: 20 }).notNull(),
+  ownerWhatsappId: varchar('owner_whatsapp_id', { length: 20 }).notNull(),
+  financialYear: varchar('financial_year', { length: 7 }).notNull(),
+  sequence: integer('sequence').notNull(),
+
+  sessionId: varchar('session_id', { length: 50 }).notNull().unique().references(() => chargingSessions.sessionId),
+  userWhatsapp: varchar('user_whatsapp', { length: 20 }).notNull().references(() => users.whatsappId),
+  stationId: integer('station_id').notNull().references(() => chargingStations.id),
+
+  // Supplier & customer snapshot at time of issue
+  supplierName: varchar('supplier_name', { length: 200 }).notNull(),
+  supplierGstin: varchar('supplier_gstin', { length: 20 }),
+  supplierAddress: text('supplier_address'),
+  customerName: varchar('customer_name', { length: 100 }),
+
+  lineItems: jsonb('line_items').notNull().default(sql`'[]'::jsonb`),
+  taxableAmount: decimal('taxable_amount', { precision: 10, scale: 2 }).notNull(),
+  discountAmount: decimal('discount_amount', { precision: 10, scale: 2 }).default('0'),
+  taxRate: decimal('tax_rate', { precision: 5, scale: 2 }).notNull(),
+  cgstAmount: decimal('cgst_amount', { precision: 10, scale: 2 }).default('0'),
+  sgstAmount: decimal('sgst_amount', { precision: 10, scale: 2 }).default('0'),
+  igstAmount: decimal('igst_amount', { precision: 10, scale: 2 }).default('0'), // Inter-state supplies
+  placeOfSupply: varchar('place_of_supply', { length: 60 }), // "Tamil Nadu (33)"
+  totalAmount: decimal('total_amount', { precision: 10, scale: 2 }).notNull(),
+
+  accessToken: varchar('access_token', { length: 64 }).notNull().unique(),
+  issuedAt: timestamp('issued_at').defaultNow(),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => ({
+  ownerSequenceUnique: unique('invoices_owner_sequence_unique').on(table.ownerWhatsappId, table.financialYear, table.sequence),
+  userIdx: index('invoices_user_idx').on(table.userWhatsapp),
+}));
+
 // ==================== RELATIONS ====================
 export const usersRelations = relations(users, ({ many }) => ({
   queues: many(queues),
@@ -416,12 +943,20 @@ export const stationsRelations = relations(chargingStations, ({ many, one }) =>
   queues: many(queues),
   sessions: many(chargingSessions),
   payments: many(payments),
+  ports: many(stationPorts),
   owner: one(stationOwners, {
     fields: [chargingStations.ownerWhatsappId],
     references: [stationOwners.whatsappId],
   }),
 }));
 
+export const stationPortsRelations = relations(stationPorts, ({ one }) => ({
+  station: one(chargingStations, {
+    fields: [stationPorts.stationId],
+    references: [chargingStations.id],
+  }),
+}));
+
 export const queuesRelations = relations(queues, ({ one, many }) => ({
   station: one(chargingStations, {
     fields: [queues.stationId],
@@ -497,4 +1032,29 @@ export type NewNotification = typeof notifications.$inferInsert;
 export type Payment = typeof payments.$inferSelect;
 export type NewPayment = typeof payments.$inferInsert;
 export type AuditLog = typeof auditLogs.$inferSelect;
-export type NewAuditLog = typeof auditLogs.$inferInsert;
\ No newline at end of file
+export type NewAuditLog = typeof auditLogs.$inferInsert;
+export type StationTariff = typeof stationTariffs.$inferSelect;
+export type NewStationTariff = typeof stationTariffs.$inferInsert;
+export type WalletTransaction = typeof walletTransactions.$inferSelect;
+export type NewWalletTransaction = typeof walletTransactions.$inferInsert;
+export type WalletLedgerEntry = typeof walletLedgerEntries.$inferSelect;
+export type StationPort = typeof stationPorts.$inferSelect;
+export type SessionMeterSample = typeof sessionMeterSamples.$inferSelect;
+export type IssueReport = typeof issueReports.$inferSelect;
+export type ChargePoint = typeof chargePoints.$inferSelect;
+export type Reservation = typeof reservations.$inferSelect;
+export type ReliabilityEvent = typeof reliabilityEvents.$inferSelect;
+export type QueueSwapOffer = typeof queueSwapOffers.$inferSelect;
+export type QueueWaitlistEntry = typeof queueWaitlist.$inferSelect;
+export type QueueEvent = typeof queueEvents.$inferSelect;
+export type FleetAccount = typeof fleetAccounts.$inferSelect;
+export type FleetVehicle = typeof fleetVehicles.$inferSelect;
+export type FleetInvoice = typeof fleetInvoices.$inferSelect;
+export type Settlement = typeof settlements.$inferSelect;
+export type OwnerStaff = typeof ownerStaff.$inferSelect;
+export type NewSettlement = typeof settlements.$inferInsert;
+export type PromoCode = typeof promoCodes.$inferSelect;
+export type NewPromoCode = typeof promoCodes.$inferInsert;
+export type PromoRedemption = typeof promoRedemptions.$inferSelect;
+export type Invoice = typeof invoices.$inferSelect;
+export type NewInvoice = typeof invoices.$inferInsert;
\ No newline at end of file
@@ -5,6 +5,15 @@ import helmet from 'helmet';
 import { env } from './config/env';
 import { logger } from './utils/logger';
 import { webhookController } from './controllers/webhook';
+import { paymentController } from './controllers/payment';
+import { invoiceController } from './controllers/invoice';
+import { promoController } from './controllers/promo';
+import { settlementController } from './controllers/settlement';
+import { subscriptionController } from './controllers/subscription';
+import { queueHistoryController } from './controllers/queue-history';
+import { fleetController } from './controllers/fleet';
+import { ocppController } from './controllers/ocpp';
+import { ocppService } from './services/ocpp';
 import { queueScheduler } from './utils/queue-scheduler';
 import { initializeDatabase } from './db/connection';
 
@@ -58,6 +67,10 @@ app.use(
     limit: '5mb',
     strict: true,
     type: ['application/json', 'text/plain'],
+    // Keep raw payload for gateway signature verification
+    verify: (req, _res, buf) => {
+      (req as Request & { rawBody?: string }).rawBody = buf.toString('utf8');
+    },
   })
 );
 
@@ -124,6 +137,7 @@ app.use((req: Request, res: Response, next: NextFunction) => {
   const shouldLog =
     env.NODE_ENV === 'development' ||
     req.path.startsWith('/webhook') ||
+    req.path.startsWith('/payments') ||
     req.path === '/health' ||
     req.path === '/';
 
@@ -159,6 +173,9 @@ app.get('/', (_req: Request, res: Response) => {
     endpoints: {
       health: '/health',
       webhook: '/webhook',
+      payments: '/payments/callback/:gateway',
+      invoices: '/invoices/:token.pdf',
+      settlements: '/settlements/:token.:format',
       api: '/api/v1',
     },
   });
@@ -211,6 +228,54 @@ app.get('/health', async (_req: Request, res: Response) => {
 app.get('/webhook', webhookController.verifyWebhook.bind(webhookController));
 app.post('/webhook', webhookController.handleWebhook.bind(webhookController));
 
+// ===============================================
+// PAYMENT GATEWAY ENDPOINTS
+// ===============================================
+
+app.post('/payments/callback/:gateway', paymentController.handleCallback.bind(paymentController));
+app.get('/payments/fake/:linkId', paymentController.simulateFakeCheckout.bind(paymentController));
+app.post('/api/v1/refunds', paymentController.createRefund.bind(paymentController));
+app.post('/api/v1/promo-codes', promoController.createPromoCode.bind(promoController));
+
+// ===============================================
+// INVOICE DOWNLOADS
+// ===============================================
+
+app.get('/invoices/:token.pdf', invoiceController.downloadInvoice.bind(invoiceController));
+
+// ===============================================
+// OWNER SETTLEMENTS
+// ===============================================
+
+app.get('/settlements/:token.:format', settlementController.downloadStatement.bind(settlementController));
+app.post('/api/v1/settlements/run', settlementController.runSettlements.bind(settlementController));
+app.post('/api/v1/settlements/:settlementNumber/payout', settlementController.updatePayout.bind(settlementController));
+
+// ===============================================
+// OWNER SUBSCRIPTIONS
+// ===============================================
+
+app.post('/api/v1/owners/:whatsappId/subscription', subscriptionController.renewSubscription.bind(subscriptionController));
+
+// ===============================================
+// QUEUE HISTORY
+// ===============================================
+
+app.get('/api/v1/stations/:stationId/queue-timeline', queueHistoryController.getStationTimeline.bind(queueHistoryController));
+
+// ===============================================
+// FLEET ACCOUNTS
+// ===============================================
+
+app.post('/api/v1/fleets', fleetController.createFleet.bind(fleetController));
+
+// ===============================================
+// OCPP CHARGE POINTS
+// ===============================================
+
+// Chargers themselves connect over WebSocket at /ocpp/:chargePointId - see ServerManager.start
+app.post('/api/v1/stations/:stationId/charge-points', ocppController.registerChargePoint.bind(ocppController));
+
 // ===============================================
 // API ROUTES (Future expansion ready)
 // ===============================================
@@ -291,11 +356,13 @@ class ServerManager {
           port,
           environment: env.NODE_ENV,
           webhookUrl: `http://localhost:${port}/webhook`,
+          ocppUrl: `ws://localhost:${port}/ocpp/:chargePointId`,
           healthUrl: `http://localhost:${port}/health`,
           processId: process.pid,
           nodeVersion: process.version,
         });
       });
+      ocppService.attach(this.server);
       await this.startBackgroundServices();
       this.setupGracefulShutdown();
     } catch (error) {
@@ -345,6 +412,8 @@ class ServerManager {
       }, 30_000);
 
       try {
+        ocppService.close();
+
         if (this.server) {
           await new Promise<void>((resolve, reject) => {
             this.server!.close((err) => {
@@ -0,0 +1,313 @@
+// src/scripts/ocpp-simulator.ts - LOCAL OCPP 1.6J CHARGE POINT FOR EXERCISING THE CENTRAL SYSTEM
+// Usage: npm run test:ocpp -- <chargePointId> [--url ws://localhost:3000] [--connectors 2]
+//        [--power 7.4] [--key <OCPP_AUTH_KEY>] [--unplugged]
+// Register the charger first (POST /api/v1/stations/:stationId/charge-points). Standalone on
+// purpose - it needs no database or bot config, only a running server to talk to.
+import { randomUUID } from 'crypto';
+import { createInterface } from 'readline';
+import WebSocket from 'ws';
+import {
+  MessageType,
+  OCPP_SUBPROTOCOL,
+  type BootNotificationResponse,
+  type ChargePointStatus,
+  type OcppFrame,
+  type RemoteStartTransactionRequest,
+  type RemoteStopTransactionRequest,
+  type StartTransactionResponse,
+  type StopReason,
+} from '../services/ocpp/types';
+
+interface SimulatedConnector {
+  id: number;
+  status: ChargePointStatus;
+  plugged: boolean;
+  transactionId: number | null;
+  meterTimer: NodeJS.Timeout | null;
+  // Lifetime energy register in Wh, as a real meter keeps it
+  meterWh: number;
+  soc: number;
+}
+
+const METER_INTERVAL_MS = 10 * 1000;
+const CALL_TIMEOUT_MS = 30 * 1000;
+
+// ===============================================
+// ARGUMENTS
+// ===============================================
+
+function readOption(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index > 0 ? process.argv[index + 1] : undefined;
+}
+
+const chargePointId = process.argv[2];
+if (!chargePointId || chargePointId.startsWith('--')) {
+  console.error('Usage: ocpp-simulator <chargePointId> [--url ws://localhost:3000] [--connectors 2] [--power 7.4] [--key <key>] [--unplugged]');
+  process.exit(1);
+}
+
+const baseUrl = (readOption('url') || `ws://localhost:${process.env.PORT || 3000}`).replace(/\/$/, '');
+const connectorCount = Math.max(1, parseInt(readOption('connectors') || '2', 10));
+const powerKw = Math.max(0.1, parseFloat(readOption('power') || '7.4'));
+const authKey = readOption('key') || process.env.OCPP_AUTH_KEY;
+
+const connectors: SimulatedConnector[] = Array.from({ length: connectorCount }, (_, i) => ({
+  id: i + 1,
+  status: 'Available',
+  plugged: !process.argv.includes('--unplugged'),
+  transactionId: null,
+  meterTimer: null,
+  meterWh: 1_000_000 + Math.floor(Math.random() * 100_000),
+  soc: 20 + Math.floor(Math.random() * 30),
+}));
+
+let heartbeatTimer: NodeJS.Timeout | null = null;
+const pending = new Map<string, { resolve: (payload: any) => void; timer: NodeJS.Timeout }>();
+
+// ===============================================
+// RPC
+// ===============================================
+
+const socket = new WebSocket(`${baseUrl}/ocpp/${encodeURIComponent(chargePointId)}`, OCPP_SUBPROTOCOL, {
+  headers: authKey ? { Authorization: `Basic ${Buffer.from(`${chargePointId}:${authKey}`).toString('base64')}` } : {},
+});
+
+function call<T>(action: string, payload: object): Promise<T | null> {
+  return new Promise(resolve => {
+    const messageId = randomUUID();
+    const timer = setTimeout(() => {
+      pending.delete(messageId);
+      console.log(`⌛ ${action} got no answer`);
+      resolve(null);
+    }, CALL_TIMEOUT_MS);
+
+    pending.set(messageId, { resolve, timer });
+    socket.send(JSON.stringify([MessageType.Call, messageId, action, payload]));
+    console.log(`→ ${action}`, JSON.stringify(payload));
+  });
+}
+
+function answer(messageId: string, payload: object): void {
+  socket.send(JSON.stringify([MessageType.CallResult, messageId, payload]));
+}
+
+socket.on('message', data => {
+  const frame = JSON.parse(data.toString()) as OcppFrame;
+  const [type, messageId] = frame;
+
+  if (type === MessageType.Call) {
+    const [, , action, payload] = frame;
+    console.log(`← ${action}`, JSON.stringify(payload));
+    answer(messageId, handleCentralSystemCall(action, payload));
+    return;
+  }
+
+  const waiting = pending.get(messageId);
+  if (!waiting) return;
+  pending.delete(messageId);
+  clearTimeout(waiting.timer);
+
+  if (type === MessageType.CallError) {
+    console.log(`✖ ${frame[2]}: ${frame[3]}`);
+    waiting.resolve(null);
+  } else {
+    console.log('←', JSON.stringify(frame[2]));
+    waiting.resolve(frame[2]);
+  }
+});
+
+// ===============================================
+// CHARGER BEHAVIOUR
+// ===============================================
+
+function handleCentralSystemCall(action: string, payload: object): object {
+  switch (action) {
+    case 'RemoteStartTransaction': {
+      const request = payload as RemoteStartTransactionRequest;
+      const connector = connectors.find(c => c.id === (request.connectorId ?? 1));
+      if (!connector || !connector.plugged || connector.transactionId || connector.status === 'Faulted') {
+        return { status: 'Rejected' };
+      }
+      setImmediate(() => void startTransaction(connector, request.idTag));
+      return { status: 'Accepted' };
+    }
+    case 'RemoteStopTransaction': {
+      const { transactionId } = payload as RemoteStopTransactionRequest;
+      const connector = connectors.find(c => c.transactionId === transactionId);
+      if (!connector) return { status: 'Rejected' };
+      setImmediate(() => void stopTransaction(connector, 'Remote'));
+      return { status: 'Accepted' };
+    }
+    default:
+      return {};
+  }
+}
+
+async function setStatus(connector: SimulatedConnector | { id: 0 }, status: ChargePointStatus, errorCode = 'NoError'): Promise<void> {
+  if ('status' in connector) connector.status = status;
+  await call('StatusNotification', { connectorId: connector.id, errorCode, status, timestamp: new Date().toISOString() });
+}
+
+async function startTransaction(connector: SimulatedConnector, idTag: string): Promise<void> {
+  await setStatus(connector, 'Preparing');
+
+  const response = await call<StartTransactionResponse>('StartTransaction', {
+    connectorId: connector.id,
+    idTag,
+    meterStart: connector.meterWh,
+    timestamp: new Date().toISOString(),
+  });
+
+  if (response?.idTagInfo.status !== 'Accepted') {
+    console.log(`🚫 Connector ${connector.id}: transaction refused`);
+    await setStatus(connector, connector.plugged ? 'Preparing' : 'Available');
+    return;
+  }
+
+  connector.transactionId = response.transactionId;
+  await setStatus(connector, 'Charging');
+
+  connector.meterTimer = setInterval(() => {
+    connector.meterWh += Math.round((powerKw * 1000 * METER_INTERVAL_MS) / (60 * 60 * 1000));
+    connector.soc = Math.min(100, connector.soc + 1);
+    void call('MeterValues', {
+      connectorId: connector.id,
+      transactionId: connector.transactionId,
+      meterValue: [{
+        timestamp: new Date().toISOString(),
+        sampledValue: [
+          { value: String(connector.meterWh), measurand: 'Energy.Active.Import.Register', unit: 'Wh' },
+          { value: (powerKw * 1000).toFixed(0), measurand: 'Power.Active.Import', unit: 'W' },
+          { value: String(connector.soc), measurand: 'SoC', unit: 'Percent' },
+        ],
+      }],
+    });
+  }, METER_INTERVAL_MS);
+}
+
+async function stopTransaction(connector: SimulatedConnector, reason: StopReason): Promise<void> {
+  if (!connector.transactionId) return;
+
+  if (connector.meterTimer) clearInterval(connector.meterTimer);
+  connector.meterTimer = null;
+
+  await call('StopTransaction', {
+    transactionId: connector.transactionId,
+    meterStop: connector.meterWh,
+    timestamp: new Date().toISOString(),
+    reason,
+  });
+  connector.transactionId = null;
+  await setStatus(connector, connector.plugged ? 'Finishing' : 'Available');
+}
+
+// ===============================================
+// CONSOLE COMMANDS
+// ===============================================
+
+const HELP =
+  'Commands: start <connector> [idTag] | stop <connector> | plug <connector> | unplug <connector> |\n' +
+  '          fault <connector> | clear <connector> | status | quit';
+
+async function runCommand(line: string): Promise<void> {
+  const [command, arg, idTag] = line.trim().split(/\s+/);
+  const connector = connectors.find(c => c.id === parseInt(arg || '1', 10));
+
+  if (command === 'status') {
+    connectors.forEach(c => console.log(
+      `#${c.id} ${c.status}${c.plugged ? ' plugged' : ''}${c.transactionId ? ` tx ${c.transactionId}` : ''} ` +
+      `meter ${(c.meterWh / 1000).toFixed(3)} kWh soc ${c.soc}%`
+    ));
+    return;
+  }
+  if (command === 'quit') {
+    shutdown();
+    return;
+  }
+  if (!connector) {
+    console.log(HELP);
+    return;
+  }
+
+  switch (command) {
+    case 'start': {
+      // Local start - the charger asks whether the tag may charge first
+      const tag = idTag || 'LOCAL';
+      const auth = await call<{ idTagInfo: { status: string } }>('Authorize', { idTag: tag });
+      if (auth?.idTagInfo.status === 'Accepted') await startTransaction(connector, tag);
+      return;
+    }
+    case 'stop':
+      await stopTransaction(connector, 'Local');
+      return;
+    case 'plug':
+      connector.plugged = true;
+      await setStatus(connector, 'Preparing');
+      return;
+    case 'unplug':
+      connector.plugged = false;
+      if (connector.transactionId) {
+        await stopTransaction(connector, 'EVDisconnected');
+      } else {
+        await setStatus(connector, 'Available');
+      }
+      return;
+    case 'fault':
+      if (connector.transactionId) await stopTransaction(connector, 'Other');
+      await setStatus(connector, 'Faulted', 'GroundFailure');
+      return;
+    case 'clear':
+      await setStatus(connector, connector.plugged ? 'Preparing' : 'Available');
+      return;
+    default:
+      console.log(HELP);
+  }
+}
+
+// ===============================================
+// LIFECYCLE
+// ===============================================
+
+socket.on('open', async () => {
+  console.log(`🔌 ${chargePointId} connected to ${baseUrl} with ${connectorCount} connector(s) at ${powerKw} kW`);
+
+  const boot = await call<BootNotificationResponse>('BootNotification', {
+    chargePointVendor: 'SharaSpot',
+    chargePointModel: 'Simulator',
+    chargePointSerialNumber: chargePointId.slice(0, 25),
+    firmwareVersion: '1.0.0',
+  });
+  if (boot?.status !== 'Accepted') {
+    console.log('🚫 Boot not accepted');
+    shutdown();
+    return;
+  }
+
+  heartbeatTimer = setInterval(() => void call('Heartbeat', {}), boot.interval * 1000);
+  await setStatus({ id: 0 }, 'Available');
+  for (const connector of connectors) {
+    await setStatus(connector, connector.plugged ? 'Preparing' : 'Available');
+  }
+
+  console.log(HELP);
+  createInterface({ input: process.stdin }).on('line', line => void runCommand(line));
+});
+
+socket.on('unexpected-response', (_, res) => {
+  console.error(`🚫 Connection refused: HTTP ${res.statusCode}`);
+  process.exit(1);
+});
+
+socket.on('error', error => console.error('Socket error:', error.message));
+socket.on('close', () => {
+  console.log('🔌 Disconnected');
+  shutdown();
+});
+
+function shutdown(): void {
+  if (heartbeatTimer) clearInterval(heartbeatTimer);
+  connectors.forEach(c => c.meterTimer && clearInterval(c.meterTimer));
+  socket.terminate();
+  process.exit(0);
+}
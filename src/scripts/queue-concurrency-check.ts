@@ -0,0 +1,109 @@
+// src/scripts/queue-concurrency-check.ts - FIRES CONCURRENT JOINS/LEAVES AT ONE STATION AND CHECKS QUEUE INVARIANTS
+// Creates its own station and drivers and removes them afterwards - still, point it at a
+// disposable database: joins send the usual (failing) WhatsApp notifications.
+import { db } from '../config/database';
+import { chargingStations, queueEvents, queues, queueWaitlist, users } from '../db/schema';
+import { and, eq, inArray, like } from 'drizzle-orm';
+import { queueService } from '../services/queue';
+import { queueHistoryService } from '../services/queue-history';
+import { logger } from '../utils/logger';
+import { findQueueViolations, findReplayMismatch } from '../testing/queue-invariants';
+
+const DRIVERS = 20;
+const MAX_QUEUE_LENGTH = 8;
+const ROUNDS = 10;
+
+const runId = Date.now().toString().slice(-6);
+const driverIds = Array.from({ length: DRIVERS }, (_, i) => `9199${runId}${String(i).padStart(2, '0')}`);
+
+async function checkInvariants(stationId: number, label: string): Promise<string[]> {
+  const active = await db
+    .select({ user: queues.userWhatsapp, lane: queues.requestedConnectorType, position: queues.position })
+    .from(queues)
+    .where(and(eq(queues.stationId, stationId), inArray(queues.status, ['waiting', 'reserved'])));
+
+  return [
+    ...findQueueViolations(active, MAX_QUEUE_LENGTH, label),
+    ...findReplayMismatch(active, await queueHistoryService.replay(stationId), label),
+  ];
+}
+
+async function runQueueConcurrencyCheck(): Promise<void> {
+  logger.info('🧪 Queue concurrency check starting', { runId, drivers: DRIVERS, rounds: ROUNDS });
+
+  await db.insert(users).values(driverIds.map(whatsappId => ({ whatsappId, name: `Concurrency ${whatsappId.slice(-2)}` })));
+
+  const [station] = await db
+    .insert(chargingStations)
+    .values({
+      name: `Concurrency Check ${runId}`,
+      address: 'Queue concurrency check',
+      latitude: '13.08270000',
+      longitude: '80.27070000',
+      connectorTypes: ['CCS2'],
+      // No free charger - nobody gets promoted, so only joins and leaves move positions
+      availablePorts: 0,
+      availableSlots: 0,
+      maxQueueLength: MAX_QUEUE_LENGTH,
+      ownerWhatsappId: driverIds[0],
+      isActive: true,
+      isOpen: true,
+    })
+    .returning({ id: chargingStations.id });
+
+  const failures: string[] = [];
+
+  try {
+    // Everyone at once - exactly the limit gets in, at positions 1..limit
+    const joined = await Promise.all(driverIds.map(id => queueService.joinQueue(id, station.id)));
+    const admitted = joined.filter(Boolean).length;
+    if (admitted !== MAX_QUEUE_LENGTH) {
+      failures.push(`initial burst: ${admitted} joins succeeded, expected ${MAX_QUEUE_LENGTH}`);
+    }
+    failures.push(...await checkInvariants(station.id, 'initial burst'));
+
+    for (let round = 1; round <= ROUNDS; round++) {
+      const queued = new Set(
+        (await db
+          .select({ user: queues.userWhatsapp })
+          .from(queues)
+          .where(and(eq(queues.stationId, station.id), inArray(queues.status, ['waiting', 'reserved']))))
+          .map(row => row.user)
+      );
+
+      // Random half of the queue leaves while everyone else tries to get in
+      const operations = driverIds.map(id =>
+        queued.has(id)
+          ? (Math.random() < 0.5 ? queueService.leaveQueue(id, station.id) : Promise.resolve(true))
+          : queueService.joinQueue(id, station.id)
+      );
+      await Promise.all(operations);
+
+      failures.push(...await checkInvariants(station.id, `round ${round}`));
+    }
+  } finally {
+    await db.delete(queueWaitlist).where(eq(queueWaitlist.stationId, station.id));
+    await db.delete(queueEvents).where(eq(queueEvents.stationId, station.id));
+    await db.delete(queues).where(eq(queues.stationId, station.id));
+    await db.delete(chargingStations).where(eq(chargingStations.id, station.id));
+    await db.delete(users).where(like(users.whatsappId, `9199${runId}%`));
+  }
+
+  if (failures.length > 0) {
+    failures.forEach(failure => logger.error(`❌ ${failure}`));
+    throw new Error(`${failures.length} queue invariant violations`);
+  }
+
+  logger.info('✅ Queue concurrency check passed', { runId, rounds: ROUNDS });
+}
+
+if (require.main === module) {
+  runQueueConcurrencyCheck()
+    .then(() => process.exit(0))
+    .catch(error => {
+      logger.error('❌ Queue concurrency check failed', { error: error instanceof Error ? error.message : error });
+      process.exit(1);
+    });
+}
+
+export { runQueueConcurrencyCheck };
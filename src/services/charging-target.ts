@@ -0,0 +1,416 @@
+// src/services/charging-target.ts - STOP TARGETS (kWh, ₹, BATTERY %), 90% ALERTS & AUTO-STOP
+import { db } from '../config/database';
+import { chargingSessions } from '../db/schema';
+import { eq, and, desc, isNotNull, isNull, inArray, sql } from 'drizzle-orm';
+import { logger } from '../utils/logger';
+import { whatsappService } from './whatsapp';
+import { sessionService } from './session';
+import { sessionTelemetryService } from './session-telemetry';
+import { photoVerificationService } from './photo-verification';
+import { tariffService } from './tariff';
+
+// ===============================================
+// TYPES & CONSTANTS
+// ===============================================
+
+export type TargetType = 'kwh' | 'amount' | 'soc';
+
+export interface ChargingTarget {
+  type: TargetType;
+  value: number;
+}
+
+export interface TargetResult {
+  success: boolean;
+  error?: string;
+  target?: ChargingTarget | null;
+}
+
+export type TargetOutcome = 'none' | 'tracking' | 'alerted' | 'reached';
+
+export const TARGET_LIMITS: Record<TargetType, { min: number; max: number }> = {
+  kwh: { min: 1, max: 200 },
+  amount: { min: 50, max: 20000 },
+  soc: { min: 10, max: 100 },
+};
+
+const TARGET_ALERT_FRACTION = 0.9;
+// Photo-metered sessions with a target are asked for a meter photo this often
+const CHECK_IN_INTERVAL_MS = 15 * 60 * 1000;
+
+type TargetSession = Pick<
+  typeof chargingSessions.$inferSelect,
+  | 'sessionId'
+  | 'userWhatsapp'
+  | 'stationId'
+  | 'status'
+  | 'verificationStatus'
+  | 'meterSource'
+  | 'energyDelivered'
+  | 'startedAt'
+  | 'targetType'
+  | 'targetValue'
+  | 'targetAlertedAt'
+  | 'targetReachedAt'
+>;
+
+// ===============================================
+// CHARGING TARGET SERVICE
+// ===============================================
+
+class ChargingTargetService {
+  private lastCheckInAt = new Map<string, number>();
+
+  /**
+   * "300" / "₹300" / "rs 300" → amount, "20 kwh" → energy, "80%" → battery
+   */
+  parseTarget(text: string): ChargingTarget | null {
+    const input = text.toLowerCase().replace(/,/g, '').trim();
+    const match = input.match(/^(?:₹|rs\.?|inr)?\s*(\d+(?:\.\d+)?)\s*(kwh|units?|%|percent|₹|rs|rupees|inr)?$/);
+    if (!match) return null;
+
+    const value = parseFloat(match[1]);
+    const unit = match[2];
+    const type: TargetType = unit === 'kwh' || unit?.startsWith('unit')
+      ? 'kwh'
+      : unit === '%' || unit === 'percent'
+        ? 'soc'
+        : 'amount';
+
+    return { type, value };
+  }
+
+  formatTarget(target: ChargingTarget): string {
+    switch (target.type) {
+      case 'kwh':
+        return `${target.value} kWh`;
+      case 'amount':
+        return `₹${target.value}`;
+      case 'soc':
+        return `${target.value}%`;
+    }
+  }
+
+  /**
+   * Set or clear (null) the target on the driver's current session
+   */
+  async setTarget(userWhatsapp: string, target: ChargingTarget | null, stationId?: number): Promise<TargetResult> {
+    const session = await this.getCurrentSession(userWhatsapp, stationId);
+    if (!session) {
+      return { success: false, error: 'No charging session in progress. Set a target once your session starts.' };
+    }
+
+    if (target) {
+      const limits = TARGET_LIMITS[target.type];
+      if (target.value < limits.min || target.value > limits.max) {
+        return {
+          success: false,
+          error: `Pick a target between ${this.formatTarget({ type: target.type, value: limits.min })} and ` +
+            `${this.formatTarget({ type: target.type, value: limits.max })}.`,
+        };
+      }
+
+      // Meter photos show energy, not the car's battery
+      if (target.type === 'soc' && session.meterSource !== 'ocpp') {
+        return {
+          success: false,
+          error: 'Battery % targets need a networked charger that reads your battery. Try a kWh or ₹ target here.',
+        };
+      }
+    }
+
+    if (session.verificationStatus === 'awaiting_end_photo' || session.verificationStatus === 'awaiting_charger_stop') {
+      return { success: false, error: 'This session is already stopping.' };
+    }
+
+    await db
+      .update(chargingSessions)
+      .set({
+        targetType: target?.type ?? null,
+        targetValue: target ? target.value.toFixed(2) : null,
+        targetAlertedAt: null,
+        targetReachedAt: null,
+        updatedAt: new Date(),
+      })
+      .where(eq(chargingSessions.sessionId, session.sessionId));
+
+    this.lastCheckInAt.delete(session.sessionId);
+    logger.info('🎯 Charging target set', { userWhatsapp, sessionId: session.sessionId, target });
+
+    // A target below what's already delivered stops straight away
+    if (target && session.status === 'active') {
+      await this.evaluateSession(session.sessionId);
+    }
+    return { success: true, target };
+  }
+
+  async getTarget(sessionId: string): Promise<ChargingTarget | null> {
+    const [session] = await db
+      .select({ targetType: chargingSessions.targetType, targetValue: chargingSessions.targetValue })
+      .from(chargingSessions)
+      .where(eq(chargingSessions.sessionId, sessionId))
+      .limit(1);
+    return session ? this.toTarget(session) : null;
+  }
+
+  /**
+   * Offer quick targets once charging is underway - typed targets work any time
+   */
+  async promptForTarget(userWhatsapp: string, stationId: number, meterSource: 'photo' | 'ocpp'): Promise<void> {
+    const buttons = meterSource === 'ocpp'
+      ? [
+          { id: `target_soc_80_${stationId}`, title: '🔋 Stop at 80%' },
+          { id: `target_kwh_20_${stationId}`, title: '⚡ Add 20 kWh' },
+          { id: `target_amount_500_${stationId}`, title: '💰 Up to ₹500' },
+        ]
+      : [
+          { id: `target_kwh_10_${stationId}`, title: '⚡ Add 10 kWh' },
+          { id: `target_kwh_20_${stationId}`, title: '⚡ Add 20 kWh' },
+          { id: `target_amount_500_${stationId}`, title: '💰 Up to ₹500' },
+        ];
+
+    await whatsappService.sendButtonMessage(
+      userWhatsapp,
+      `🎯 *Set a Charging Target?*\n\n` +
+      `We'll stop for you when it's reached and warn you at ${TARGET_ALERT_FRACTION * 100}%.\n` +
+      `Or type your own: "target 300" (₹), "target 15 kwh"` +
+      (meterSource === 'ocpp' ? ` or "target 90%"` : '') + '.',
+      buttons,
+      '🎯 Target'
+    );
+  }
+
+  // ===============================================
+  // TRACKING
+  // ===============================================
+
+  /**
+   * Compare the session's latest reading with its target - warns at 90%, stops at 100%.
+   * Runs after every meter sample and from the session monitor.
+   */
+  async evaluateSession(sessionId: string): Promise<TargetOutcome> {
+    try {
+      const session = await this.getSession(sessionId);
+      const target = session ? this.toTarget(session) : null;
+      if (
+        !session ||
+        !target ||
+        session.status !== 'active' ||
+        session.targetReachedAt ||
+        session.verificationStatus === 'awaiting_end_photo' ||
+        session.verificationStatus === 'awaiting_charger_stop'
+      ) {
+        return 'none';
+      }
+
+      const current = await this.measure(session, target.type);
+      if (current === null) return 'tracking';
+
+      if (current >= target.value) {
+        return (await this.handleTargetReached(session, target, current)) ? 'reached' : 'none';
+      }
+
+      if (current >= target.value * TARGET_ALERT_FRACTION && !session.targetAlertedAt) {
+        const [claimed] = await db
+          .update(chargingSessions)
+          .set({ targetAlertedAt: new Date() })
+          .where(and(eq(chargingSessions.sessionId, sessionId), isNull(chargingSessions.targetAlertedAt)))
+          .returning({ id: chargingSessions.id });
+
+        if (claimed) {
+          await whatsappService.sendTextMessage(
+            session.userWhatsapp,
+            `🎯 *Almost There!*\n\n` +
+            `${this.formatProgress(target.type, current)} of your ${this.formatTarget(target)} target.\n` +
+            `We'll stop charging when it's reached.\n\n` +
+            `💡 Type "target off" to keep charging.`
+          );
+          return 'alerted';
+        }
+      }
+
+      return 'tracking';
+    } catch (error) {
+      logger.error('Failed to evaluate charging target', { sessionId, error });
+      return 'none';
+    }
+  }
+
+  /**
+   * Claim the stop once, then end the session the usual way - a remote stop on networked
+   * chargers, the END photo otherwise. A stop that fails gives the claim back so the next
+   * reading or monitor run tries again.
+   */
+  private async handleTargetReached(session: TargetSession, target: ChargingTarget, current: number): Promise<boolean> {
+    const [claimed] = await db
+      .update(chargingSessions)
+      .set({ targetReachedAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(chargingSessions.sessionId, session.sessionId), isNull(chargingSessions.targetReachedAt)))
+      .returning({ id: chargingSessions.id });
+    if (!claimed) return false;
+
+    const stopped = await sessionService.stopSession(session.userWhatsapp, session.stationId);
+    if (!stopped) {
+      logger.warn('Target reached but the session could not be stopped, will retry', { sessionId: session.sessionId });
+      await db
+        .update(chargingSessions)
+        .set({ targetReachedAt: null, updatedAt: new Date() })
+        .where(and(eq(chargingSessions.sessionId, session.sessionId), eq(chargingSessions.status, 'active')));
+      return false;
+    }
+
+    logger.info('🎯 Charging target reached', { sessionId: session.sessionId, target, current });
+    await whatsappService.sendTextMessage(
+      session.userWhatsapp,
+      `🎯 *Target Reached!*\n\n` +
+      `${this.formatProgress(target.type, current)} - your ${this.formatTarget(target)} target.\n` +
+      (session.meterSource === 'ocpp'
+        ? `🛑 Stopping the charger for you now.`
+        : `🛑 Please stop the charger and send the final reading.`)
+    );
+    return true;
+  }
+
+  private async measure(session: TargetSession, type: TargetType): Promise<number | null> {
+    const energyKwh = parseFloat(session.energyDelivered || '0');
+
+    switch (type) {
+      case 'kwh':
+        return energyKwh;
+      case 'amount': {
+        const tariff = await tariffService.getStationTariff(session.stationId);
+        const startTime = session.startedAt ?? new Date();
+        return tariffService.calculateBill(tariff, { energyKwh, startTime, endTime: new Date() }).total;
+      }
+      case 'soc':
+        return sessionTelemetryService.getLatestSoc(session.sessionId);
+    }
+  }
+
+  // ===============================================
+  // SCHEDULER
+  // ===============================================
+
+  /**
+   * Photo-metered sessions have no live data - ask for a meter photo every so often
+   */
+  async requestDueCheckIns(): Promise<void> {
+    const sessions = await db
+      .select({
+        sessionId: chargingSessions.sessionId,
+        userWhatsapp: chargingSessions.userWhatsapp,
+        stationId: chargingSessions.stationId,
+        startedAt: chargingSessions.startedAt,
+        targetType: chargingSessions.targetType,
+        targetValue: chargingSessions.targetValue,
+      })
+      .from(chargingSessions)
+      .where(
+        and(
+          eq(chargingSessions.status, 'active'),
+          eq(chargingSessions.meterSource, 'photo'),
+          isNotNull(chargingSessions.targetType),
+          isNotNull(chargingSessions.startedAt),
+          isNull(chargingSessions.targetReachedAt),
+          sql`COALESCE(${chargingSessions.verificationStatus}, '') NOT IN ('awaiting_end_photo', 'awaiting_charger_stop')`
+        )
+      );
+
+    const now = Date.now();
+    const live = new Set(sessions.map(s => s.sessionId));
+    for (const sessionId of this.lastCheckInAt.keys()) {
+      if (!live.has(sessionId)) this.lastCheckInAt.delete(sessionId);
+    }
+
+    for (const session of sessions) {
+      const lastAsked = this.lastCheckInAt.get(session.sessionId) ?? session.startedAt!.getTime();
+      const target = this.toTarget(session);
+      if (!target || now - lastAsked < CHECK_IN_INTERVAL_MS) continue;
+      // Never talk over a reading the driver is already giving us
+      if (photoVerificationService.isInVerificationFlow(session.userWhatsapp)) continue;
+
+      try {
+        await photoVerificationService.initiateCheckIn(
+          session.userWhatsapp,
+          session.sessionId,
+          session.stationId,
+          this.formatTarget(target)
+        );
+        this.lastCheckInAt.set(session.sessionId, now);
+      } catch (error) {
+        logger.error('Failed to request check-in', { sessionId: session.sessionId, error });
+      }
+    }
+  }
+
+  // ===============================================
+  // HELPERS
+  // ===============================================
+
+  /**
+   * The driver's initiated or active session - at one station when given
+   */
+  private async getCurrentSession(userWhatsapp: string, stationId?: number): Promise<TargetSession | null> {
+    const [session] = await db
+      .select(this.sessionColumns())
+      .from(chargingSessions)
+      .where(
+        and(
+          eq(chargingSessions.userWhatsapp, userWhatsapp),
+          inArray(chargingSessions.status, ['initiated', 'active']),
+          stationId !== undefined ? eq(chargingSessions.stationId, stationId) : undefined
+        )
+      )
+      .orderBy(desc(chargingSessions.createdAt))
+      .limit(1);
+    return session ?? null;
+  }
+
+  private async getSession(sessionId: string): Promise<TargetSession | null> {
+    const [session] = await db
+      .select(this.sessionColumns())
+      .from(chargingSessions)
+      .where(eq(chargingSessions.sessionId, sessionId))
+      .limit(1);
+    return session ?? null;
+  }
+
+  private sessionColumns() {
+    return {
+      sessionId: chargingSessions.sessionId,
+      userWhatsapp: chargingSessions.userWhatsapp,
+      stationId: chargingSessions.stationId,
+      status: chargingSessions.status,
+      verificationStatus: chargingSessions.verificationStatus,
+      meterSource: chargingSessions.meterSource,
+      energyDelivered: chargingSessions.energyDelivered,
+      startedAt: chargingSessions.startedAt,
+      targetType: chargingSessions.targetType,
+      targetValue: chargingSessions.targetValue,
+      targetAlertedAt: chargingSessions.targetAlertedAt,
+      targetReachedAt: chargingSessions.targetReachedAt,
+    };
+  }
+
+  private toTarget(row: { targetType: string | null; targetValue: string | null }): ChargingTarget | null {
+    if (!row.targetType || !row.targetValue || !(row.targetType in TARGET_LIMITS)) return null;
+    return { type: row.targetType as TargetType, value: parseFloat(row.targetValue) };
+  }
+
+  private formatProgress(type: TargetType, current: number): string {
+    switch (type) {
+      case 'kwh':
+        return `${current.toFixed(2)} kWh charged`;
+      case 'amount':
+        return `₹${current.toFixed(2)} spent`;
+      case 'soc':
+        return `Battery at ${current}%`;
+    }
+  }
+}
+
+// ===============================================
+// SINGLETON EXPORT
+// ===============================================
+
+export const chargingTargetService = new ChargingTargetService();
@@ -0,0 +1,571 @@
+// src/services/fleet.ts - FLEET ACCOUNTS, BULK BOOKING, CONSOLIDATED BILLING & MANAGER VIEW
+import crypto from 'crypto';
+import { db } from '../config/database';
+import {
+  fleetAccounts,
+  fleetVehicles,
+  fleetInvoices,
+  users,
+  queues,
+  chargingSessions,
+  chargingStations,
+  reservations,
+  payments,
+  auditLogs,
+  type FleetAccount,
+  type FleetVehicle,
+  type FleetInvoice,
+  type Reservation,
+} from '../db/schema';
+import { eq, and, asc, desc, inArray, sql } from 'drizzle-orm';
+import { logger } from '../utils/logger';
+import { whatsappService } from './whatsapp';
+import { reservationService } from './reservation';
+import { paymentService } from './payment';
+
+// ===============================================
+// TYPES & CONSTANTS
+// ===============================================
+
+export interface FleetResult {
+  success: boolean;
+  error?: string;
+}
+
+export interface BulkBookingRequest {
+  count: number;
+  stationIds: number[];
+  slotStart: Date;
+}
+
+export interface BulkBookingResult {
+  booked: Array<{ vehicle: FleetVehicle; reservation: Reservation; stationName: string }>;
+  // Drivers who couldn't be booked, and why
+  skipped: Array<{ vehicle: FleetVehicle; reason: string }>;
+  shortfall: number;
+}
+
+export interface FleetVehicleStatus {
+  vehicle: FleetVehicle;
+  driverName: string | null;
+  queue?: { stationName: string; status: string; position: number };
+  session?: { stationName: string; startedAt: Date | null };
+  nextBooking?: { stationName: string; reservation: Reservation };
+}
+
+export interface FleetOverview {
+  fleet: FleetAccount;
+  vehicles: FleetVehicleStatus[];
+  unbilledSessions: number;
+  unbilledAmount: number;
+  lastInvoice: FleetInvoice | null;
+}
+
+const MAX_BULK_BOOKING = 20;
+const MAX_FLEET_VEHICLES = 200;
+// Unbilled sessions are invoiced once the oldest is this old
+const BILLING_CYCLE_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ===============================================
+// FLEET SERVICE
+// ===============================================
+
+class FleetService {
+  // ===============================================
+  // ACCOUNTS & VEHICLES
+  // ===============================================
+
+  /**
+   * Open a fleet account - admin only, since fleet drivers can get queue priority
+   */
+  async createFleet(
+    name: string,
+    managerWhatsappId: string,
+    actorWhatsappId: string,
+    consolidatedBilling = true
+  ): Promise<FleetResult & { fleet?: FleetAccount }> {
+    try {
+      const trimmed = name.trim();
+      if (!trimmed || trimmed.length > 100) {
+        return { success: false, error: 'Fleet name must be 1-100 characters' };
+      }
+
+      if (!await this.isRegisteredUser(managerWhatsappId)) {
+        return { success: false, error: 'The manager must message SharaSpot once before a fleet can be set up' };
+      }
+
+      const [fleet] = await db
+        .insert(fleetAccounts)
+        .values({ name: trimmed, managerWhatsappId, consolidatedBilling, createdBy: actorWhatsappId })
+        .onConflictDoNothing({ target: fleetAccounts.managerWhatsappId })
+        .returning();
+
+      if (!fleet) {
+        return { success: false, error: 'That number already manages a fleet' };
+      }
+
+      await db.insert(auditLogs).values({
+        actorWhatsappId,
+        actorType: 'admin',
+        action: 'fleet_created',
+        resourceType: 'fleet_account',
+        resourceId: String(fleet.id),
+        newValues: { name: fleet.name, managerWhatsappId, consolidatedBilling },
+      });
+
+      await whatsappService.sendTextMessage(
+        managerWhatsappId,
+        `🚚 *Fleet Account Ready*\n\n` +
+        `*${fleet.name}* is set up with you as manager.\n\n` +
+        `➕ "fleet add <number> [vehicle]" to add drivers\n` +
+        `📅 "fleet book 3 12 tomorrow 18:30" to book several vehicles at once\n` +
+        `📋 "fleet" to see every vehicle`
+      );
+
+      logger.info('🚚 Fleet account created', { fleetId: fleet.id, managerWhatsappId, actorWhatsappId });
+      return { success: true, fleet };
+    } catch (error) {
+      logger.error('Failed to create fleet account', { managerWhatsappId, error });
+      return { success: false, error: 'Could not create the fleet account' };
+    }
+  }
+
+  async getFleetForManager(managerWhatsappId: string): Promise<FleetAccount | null> {
+    const [fleet] = await db
+      .select()
+      .from(fleetAccounts)
+      .where(and(eq(fleetAccounts.managerWhatsappId, managerWhatsappId), eq(fleetAccounts.status, 'active')))
+      .limit(1);
+    return fleet ?? null;
+  }
+
+  /**
+   * The active fleet a driver is linked to, if any
+   */
+  async getFleetForDriver(driverWhatsapp: string): Promise<FleetAccount | null> {
+    const [row] = await db
+      .select({ fleet: fleetAccounts })
+      .from(fleetVehicles)
+      .innerJoin(fleetAccounts, eq(fleetVehicles.fleetAccountId, fleetAccounts.id))
+      .where(
+        and(
+          eq(fleetVehicles.driverWhatsapp, driverWhatsapp),
+          eq(fleetVehicles.status, 'active'),
+          eq(fleetAccounts.status, 'active')
+        )
+      )
+      .limit(1);
+    return row?.fleet ?? null;
+  }
+
+  async getVehicles(fleetId: number): Promise<FleetVehicle[]> {
+    return db
+      .select()
+      .from(fleetVehicles)
+      .where(and(eq(fleetVehicles.fleetAccountId, fleetId), eq(fleetVehicles.status, 'active')))
+      .orderBy(asc(fleetVehicles.id));
+  }
+
+  /**
+   * Link a driver to the fleet - fleet drivers get the fleet queue priority tier
+   * at stations that allow it
+   */
+  async addVehicle(managerWhatsappId: string, driverWhatsapp: string, vehicleLabel?: string): Promise<FleetResult> {
+    try {
+      const fleet = await this.getFleetForManager(managerWhatsappId);
+      if (!fleet) return { success: false, error: "You don't manage a fleet account" };
+
+      if (!await this.isRegisteredUser(driverWhatsapp)) {
+        return { success: false, error: `${driverWhatsapp} hasn't used SharaSpot yet - ask the driver to say "hi" first` };
+      }
+
+      const vehicles = await this.getVehicles(fleet.id);
+      if (vehicles.length >= MAX_FLEET_VEHICLES) {
+        return { success: false, error: `A fleet can have up to ${MAX_FLEET_VEHICLES} vehicles` };
+      }
+
+      const label = vehicleLabel?.trim().toUpperCase().slice(0, 30) || null;
+      const now = new Date();
+
+      // Reuse the driver's row - a driver still active in another fleet is left alone
+      const [linked] = await db
+        .insert(fleetVehicles)
+        .values({ fleetAccountId: fleet.id, driverWhatsapp, vehicleLabel: label })
+        .onConflictDoUpdate({
+          target: fleetVehicles.driverWhatsapp,
+          set: { fleetAccountId: fleet.id, vehicleLabel: label, status: 'active', updatedAt: now },
+          where: sql`${fleetVehicles.status} = 'removed' OR ${fleetVehicles.fleetAccountId} = ${fleet.id}`,
+        })
+        .returning();
+
+      if (!linked) {
+        return { success: false, error: `${driverWhatsapp} already drives for another fleet` };
+      }
+
+      await db
+        .update(users)
+        .set({ fleetPriority: true, updatedAt: now })
+        .where(eq(users.whatsappId, driverWhatsapp));
+
+      await whatsappService.sendTextMessage(
+        driverWhatsapp,
+        `🚚 *Added to ${fleet.name}*\n\n` +
+        (label ? `🚗 Vehicle: ${label}\n` : '') +
+        (fleet.consolidatedBilling ? `🧾 Your charging is billed to the fleet - no payment links for you.\n` : '') +
+        `📅 Your fleet manager may book charging slots for you; you'll get a message for each one.`
+      );
+
+      logger.info('🚚 Fleet vehicle added', { fleetId: fleet.id, driverWhatsapp, label });
+      return { success: true };
+    } catch (error) {
+      logger.error('Failed to add fleet vehicle', { managerWhatsappId, driverWhatsapp, error });
+      return { success: false, error: 'Could not add the vehicle. Please try again.' };
+    }
+  }
+
+  async removeVehicle(managerWhatsappId: string, driverWhatsapp: string): Promise<boolean> {
+    try {
+      const fleet = await this.getFleetForManager(managerWhatsappId);
+      if (!fleet) return false;
+
+      const now = new Date();
+      const [removed] = await db
+        .update(fleetVehicles)
+        .set({ status: 'removed', updatedAt: now })
+        .where(
+          and(
+            eq(fleetVehicles.fleetAccountId, fleet.id),
+            eq(fleetVehicles.driverWhatsapp, driverWhatsapp),
+            eq(fleetVehicles.status, 'active')
+          )
+        )
+        .returning();
+
+      if (!removed) return false;
+
+      await db
+        .update(users)
+        .set({ fleetPriority: false, updatedAt: now })
+        .where(eq(users.whatsappId, driverWhatsapp));
+
+      logger.info('🚚 Fleet vehicle removed', { fleetId: fleet.id, driverWhatsapp });
+      return true;
+    } catch (error) {
+      logger.error('Failed to remove fleet vehicle', { managerWhatsappId, driverWhatsapp, error });
+      return false;
+    }
+  }
+
+  // ===============================================
+  // BULK BOOKING
+  // ===============================================
+
+  /**
+   * Book one slot per vehicle at the same time, filling each station's free ports in
+   * the order given before moving to the next. Every booking goes through the regular
+   * reservation flow, so capacity locks and per-driver rules still apply.
+   */
+  async bulkBook(managerWhatsappId: string, request: BulkBookingRequest): Promise<FleetResult & { result?: BulkBookingResult }> {
+    try {
+      const fleet = await this.getFleetForManager(managerWhatsappId);
+      if (!fleet) return { success: false, error: "You don't manage a fleet account" };
+
+      if (request.count < 1 || request.count > MAX_BULK_BOOKING) {
+        return { success: false, error: `Book between 1 and ${MAX_BULK_BOOKING} vehicles at a time` };
+      }
+      if (request.stationIds.length === 0) {
+        return { success: false, error: 'Name at least one station' };
+      }
+
+      const vehicles = await this.getVehicles(fleet.id);
+      if (vehicles.length === 0) {
+        return { success: false, error: 'Add drivers first with "fleet add <number> [vehicle]"' };
+      }
+
+      const dayKey = reservationService.getDayKey(request.slotStart);
+      const hour = reservationService.getIstHour(request.slotStart);
+      const result: BulkBookingResult = { booked: [], skipped: [], shortfall: 0 };
+      let next = 0;
+
+      for (const stationId of request.stationIds) {
+        if (result.booked.length >= request.count || next >= vehicles.length) break;
+
+        let freePorts = await this.getFreePortsAt(stationId, dayKey, hour, request.slotStart);
+        const stationName = await reservationService.getStationName(stationId);
+
+        while (freePorts > 0 && result.booked.length < request.count && next < vehicles.length) {
+          const vehicle = vehicles[next];
+          const booking = await reservationService.bookSlot(vehicle.driverWhatsapp, stationId, request.slotStart);
+
+          if (booking.success && booking.reservation) {
+            result.booked.push({ vehicle, reservation: booking.reservation, stationName });
+            freePorts--;
+            next++;
+            continue;
+          }
+
+          // Slot taken meanwhile - try this driver at the next station; otherwise the driver can't be booked
+          freePorts = await this.getFreePortsAt(stationId, dayKey, hour, request.slotStart);
+          if (freePorts > 0) {
+            result.skipped.push({ vehicle, reason: booking.error || 'Booking failed' });
+            next++;
+          }
+        }
+      }
+
+      result.shortfall = request.count - result.booked.length;
+
+      for (const { vehicle, reservation, stationName } of result.booked) {
+        await this.notifyDriverOfBooking(fleet, vehicle, reservation, stationName);
+      }
+
+      logger.info('🚚 Fleet bulk booking', {
+        fleetId: fleet.id,
+        requested: request.count,
+        booked: result.booked.length,
+        skipped: result.skipped.length,
+        stations: request.stationIds,
+      });
+      return { success: true, result };
+    } catch (error) {
+      logger.error('Fleet bulk booking failed', { managerWhatsappId, request, error });
+      return { success: false, error: 'Bulk booking failed. Please try again.' };
+    }
+  }
+
+  private async getFreePortsAt(stationId: number, dayKey: string, hour: number, slotStart: Date): Promise<number> {
+    const slots = await reservationService.getAvailableSlots(stationId, dayKey, hour, hour + 1);
+    return slots.find(slot => slot.start.getTime() === slotStart.getTime())?.freePorts ?? 0;
+  }
+
+  private async notifyDriverOfBooking(
+    fleet: FleetAccount,
+    vehicle: FleetVehicle,
+    reservation: Reservation,
+    stationName: string
+  ): Promise<void> {
+    try {
+      await whatsappService.sendButtonMessage(
+        vehicle.driverWhatsapp,
+        `📅 *Booked by ${fleet.name}*\n\n` +
+        `📍 *${stationName}*\n` +
+        `🕐 ${reservationService.formatSlot(reservation)}\n` +
+        (vehicle.vehicleLabel ? `🚗 ${vehicle.vehicleLabel}\n` : '') +
+        `🔖 ${reservation.reservationNumber}\n\n` +
+        `Check in when you arrive - we'll remind you before the slot.`,
+        [{ id: `reserve_cancel_${reservation.reservationNumber}`, title: "❌ Can't Make It" }],
+        '🚚 Fleet Booking'
+      );
+    } catch (error) {
+      logger.error('Failed to notify fleet driver of booking', { reservationNumber: reservation.reservationNumber, error });
+    }
+  }
+
+  // ===============================================
+  // MANAGER VIEW
+  // ===============================================
+
+  /**
+   * Every vehicle's live queue place, charging session and next booking, plus what's
+   * waiting to be invoiced
+   */
+  async getOverview(managerWhatsappId: string): Promise<FleetOverview | null> {
+    try {
+      const fleet = await this.getFleetForManager(managerWhatsappId);
+      if (!fleet) return null;
+
+      const vehicles = await this.getVehicles(fleet.id);
+      const drivers = vehicles.map(vehicle => vehicle.driverWhatsapp);
+
+      const [names, queued, charging, booked, unbilled, [lastInvoice]] = await Promise.all([
+        drivers.length
+          ? db.select({ whatsappId: users.whatsappId, name: users.name }).from(users).where(inArray(users.whatsappId, drivers))
+          : [],
+        drivers.length
+          ? db
+            .select({ driver: queues.userWhatsapp, status: queues.status, position: queues.position, stationName: chargingStations.name })
+            .from(queues)
+            .innerJoin(chargingStations, eq(queues.stationId, chargingStations.id))
+            .where(and(inArray(queues.userWhatsapp, drivers), inArray(queues.status, ['waiting', 'reserved'])))
+          : [],
+        drivers.length
+          ? db
+            .select({ driver: chargingSessions.userWhatsapp, startedAt: chargingSessions.startedAt, stationName: chargingStations.name })
+            .from(chargingSessions)
+            .innerJoin(chargingStations, eq(chargingSessions.stationId, chargingStations.id))
+            .where(and(inArray(chargingSessions.userWhatsapp, drivers), eq(chargingSessions.status, 'active')))
+          : [],
+        drivers.length
+          ? db
+            .select({ reservation: reservations, stationName: chargingStations.name })
+            .from(reservations)
+            .innerJoin(chargingStations, eq(reservations.stationId, chargingStations.id))
+            .where(and(inArray(reservations.userWhatsapp, drivers), eq(reservations.status, 'booked')))
+            .orderBy(asc(reservations.slotStart))
+          : [],
+        db
+          .select({
+            count: sql<number>`COUNT(*)::int`,
+            amount: sql<string>`COALESCE(SUM(${payments.amount}), 0)`,
+          })
+          .from(payments)
+          .where(
+            and(
+              eq(payments.fleetAccountId, fleet.id),
+              eq(payments.purpose, 'session'),
+              eq(payments.status, 'billed_to_fleet'),
+              sql`${payments.fleetInvoiceNumber} IS NULL`
+            )
+          ),
+        db
+          .select()
+          .from(fleetInvoices)
+          .where(eq(fleetInvoices.fleetAccountId, fleet.id))
+          .orderBy(desc(fleetInvoices.createdAt))
+          .limit(1),
+      ]);
+
+      return {
+        fleet,
+        vehicles: vehicles.map(vehicle => {
+          const driver = vehicle.driverWhatsapp;
+          const queue = queued.find(row => row.driver === driver);
+          const session = charging.find(row => row.driver === driver);
+          const booking = booked.find(row => row.reservation.userWhatsapp === driver);
+          return {
+            vehicle,
+            driverName: names.find(row => row.whatsappId === driver)?.name ?? null,
+            queue: queue ? { stationName: queue.stationName, status: queue.status, position: queue.position } : undefined,
+            session: session ? { stationName: session.stationName, startedAt: session.startedAt } : undefined,
+            nextBooking: booking ? { stationName: booking.stationName, reservation: booking.reservation } : undefined,
+          };
+        }),
+        unbilledSessions: unbilled[0]?.count ?? 0,
+        unbilledAmount: parseFloat(unbilled[0]?.amount ?? '0'),
+        lastInvoice: lastInvoice ?? null,
+      };
+    } catch (error) {
+      logger.error('Failed to build fleet overview', { managerWhatsappId, error });
+      return null;
+    }
+  }
+
+  // ===============================================
+  // CONSOLIDATED BILLING
+  // ===============================================
+
+  /**
+   * Put every uninvoiced fleet session on one invoice and send the manager a single
+   * payment link. Sessions are claimed and the invoice written in one statement, so a
+   * session can't land on two invoices. Null when there is nothing to bill.
+   */
+  async issueInvoice(fleetId: number): Promise<FleetInvoice | null> {
+    try {
+      const [fleet] = await db.select().from(fleetAccounts).where(eq(fleetAccounts.id, fleetId)).limit(1);
+      if (!fleet) return null;
+
+      const invoiceNumber = `FLT-${crypto.randomBytes(4).toString('hex').toUpperCase()}`;
+
+      const result = await db.execute(sql`
+        WITH claimed AS (
+          UPDATE payments
+          SET fleet_invoice_number = ${invoiceNumber}, updated_at = NOW()
+          WHERE fleet_account_id = ${fleetId}
+          AND purpose = 'session'
+          AND status = 'billed_to_fleet'
+          AND fleet_invoice_number IS NULL
+          RETURNING payment_id, session_id, user_whatsapp, station_id, amount, created_at
+        ),
+        items AS (
+          SELECT c.*, s.energy_delivered, st.name AS station_name, v.vehicle_label
+          FROM claimed c
+          LEFT JOIN charging_sessions s ON s.session_id = c.session_id
+          LEFT JOIN charging_stations st ON st.id = c.station_id
+          LEFT JOIN fleet_vehicles v ON v.driver_whatsapp = c.user_whatsapp
+        )
+        INSERT INTO fleet_invoices (invoice_number, fleet_account_id, period_start, period_end, session_count, energy_kwh, total_amount, line_items)
+        SELECT ${invoiceNumber}, ${fleetId}, MIN(created_at), NOW(), COUNT(*), COALESCE(SUM(energy_delivered), 0), SUM(amount),
+          json_agg(json_build_object(
+            'paymentId', payment_id,
+            'sessionId', session_id,
+            'driverWhatsapp', user_whatsapp,
+            'vehicleLabel', vehicle_label,
+            'stationName', station_name,
+            'energyKwh', energy_delivered,
+            'amount', amount,
+            'chargedAt', created_at
+          ) ORDER BY created_at)
+        FROM items
+        HAVING COUNT(*) > 0
+        RETURNING id
+      `);
+
+      const created = result.rows[0] as { id: number } | undefined;
+      if (!created) return null;
+
+      const [invoice] = await db.select().from(fleetInvoices).where(eq(fleetInvoices.id, created.id)).limit(1);
+      const payment = await paymentService.requestFleetInvoicePayment(invoice, fleet.managerWhatsappId);
+
+      if (payment) {
+        await db
+          .update(fleetInvoices)
+          .set({ paymentId: payment.paymentId, updatedAt: new Date() })
+          .where(eq(fleetInvoices.id, invoice.id));
+      }
+
+      logger.info('🧾 Fleet invoice issued', {
+        fleetId,
+        invoiceNumber,
+        sessions: invoice.sessionCount,
+        totalAmount: invoice.totalAmount,
+        linkSent: !!payment,
+      });
+      return { ...invoice, paymentId: payment?.paymentId ?? null };
+    } catch (error) {
+      logger.error('Failed to issue fleet invoice', { fleetId, error });
+      return null;
+    }
+  }
+
+  /**
+   * Invoice fleets whose oldest uninvoiced session is a billing cycle old
+   */
+  async invoiceDueFleets(): Promise<void> {
+    const due = await db
+      .select({ fleetId: payments.fleetAccountId })
+      .from(payments)
+      .where(
+        and(
+          eq(payments.purpose, 'session'),
+          eq(payments.status, 'billed_to_fleet'),
+          sql`${payments.fleetInvoiceNumber} IS NULL`
+        )
+      )
+      .groupBy(payments.fleetAccountId)
+      .having(sql`MIN(${payments.createdAt}) < ${new Date(Date.now() - BILLING_CYCLE_DAYS * DAY_MS)}`);
+
+    for (const { fleetId } of due) {
+      if (fleetId) await this.issueInvoice(fleetId);
+    }
+  }
+
+  // ===============================================
+  // HELPERS
+  // ===============================================
+
+  private async isRegisteredUser(whatsappId: string): Promise<boolean> {
+    const [user] = await db
+      .select({ id: users.id })
+      .from(users)
+      .where(eq(users.whatsappId, whatsappId))
+      .limit(1);
+    return !!user;
+  }
+}
+
+// ===============================================
+// SINGLETON EXPORT
+// ===============================================
+
+export const fleetService = new FleetService();
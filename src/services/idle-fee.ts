@@ -0,0 +1,282 @@
+// src/services/idle-fee.ts - IDLE TIME TRACKING, WARNINGS & BILLABLE MINUTES
+import { db } from '../config/database';
+import { chargingSessions } from '../db/schema';
+import { eq, and, isNull, isNotNull, sql } from 'drizzle-orm';
+import { logger } from '../utils/logger';
+import { whatsappService } from './whatsapp';
+import { notificationService } from './notification';
+import { tariffService, type Tariff } from './tariff';
+import { sessionService } from './session';
+import { portService } from './port';
+
+// ===============================================
+// TYPES & CONSTANTS
+// ===============================================
+
+export type IdleEndReason = 'vehicle_moved' | 'next_session' | 'max_idle';
+
+const WARNING_LEAD_MINUTES = 5;
+const MAX_BILLABLE_IDLE_MINUTES = 120;
+const MINUTE_MS = 60 * 1000;
+
+// ===============================================
+// IDLE FEE SERVICE
+// ===============================================
+
+class IdleFeeService {
+  /**
+   * Idle time starts when the end photo is requested - charging is over
+   * but the vehicle still occupies the charger. Warnings and the cap are
+   * handled by the sweep from idleStartedAt, so they survive restarts.
+   */
+  async startIdleTracking(sessionId: string, userWhatsapp: string, stationId: number): Promise<void> {
+    try {
+      const now = new Date();
+      const [started] = await db
+        .update(chargingSessions)
+        .set({ idleStartedAt: now, updatedAt: now })
+        .where(and(eq(chargingSessions.sessionId, sessionId), isNull(chargingSessions.idleStartedAt)))
+        .returning({ id: chargingSessions.id });
+
+      // Already tracking (e.g. end photo re-requested)
+      if (!started) return;
+
+      const tariff = await tariffService.getStationTariff(stationId);
+      if (tariff.idleFeePerMinute <= 0) return;
+
+      logger.info('🅿️ Idle tracking started', {
+        sessionId,
+        userWhatsapp,
+        stationId,
+        graceMinutes: tariff.idleGraceMinutes,
+        feePerMinute: tariff.idleFeePerMinute,
+      });
+    } catch (error) {
+      logger.error('Failed to start idle tracking', { sessionId, error });
+    }
+  }
+
+  /**
+   * Stop the idle clock and record billable minutes; bills the session if it was waiting on this
+   */
+  async closeIdle(sessionId: string, reason: IdleEndReason): Promise<void> {
+    try {
+      const [session] = await db
+        .select({
+          stationId: chargingSessions.stationId,
+          status: chargingSessions.status,
+          idleStartedAt: chargingSessions.idleStartedAt,
+          idleEndedAt: chargingSessions.idleEndedAt,
+        })
+        .from(chargingSessions)
+        .where(eq(chargingSessions.sessionId, sessionId))
+        .limit(1);
+
+      if (!session?.idleStartedAt || session.idleEndedAt) return;
+
+      const now = new Date();
+      const tariff = await tariffService.getStationTariff(session.stationId);
+      const idleMinutes = this.getBillableMinutes(tariff, session.idleStartedAt, now);
+
+      const [closed] = await db
+        .update(chargingSessions)
+        .set({ idleEndedAt: now, idleMinutes, idleEndReason: reason, updatedAt: now })
+        .where(and(eq(chargingSessions.sessionId, sessionId), isNull(chargingSessions.idleEndedAt)))
+        .returning({ id: chargingSessions.id });
+
+      if (!closed) return;
+
+      logger.info('🅿️ Idle tracking closed', {
+        sessionId,
+        reason,
+        totalMinutes: Math.floor((now.getTime() - session.idleStartedAt.getTime()) / MINUTE_MS),
+        billableMinutes: idleMinutes,
+      });
+
+      // The bay is free again - a session still charging keeps its port until it completes
+      if (session.status !== 'completed') return;
+      await portService.releaseSessionPort(sessionId);
+
+      // No-op unless the session is still unbilled
+      await sessionService.finalizeSessionBill(sessionId);
+    } catch (error) {
+      logger.error('Failed to close idle tracking', { sessionId, reason, error });
+    }
+  }
+
+  /**
+   * A new session on a port ends the idle time of the vehicle last recorded on it -
+   * idle vehicles at the station's other ports keep their clocks running
+   */
+  async closeIdleOnPort(portId: number, reason: IdleEndReason): Promise<void> {
+    const idleSessions = await db
+      .select({ sessionId: chargingSessions.sessionId })
+      .from(chargingSessions)
+      .where(
+        and(
+          eq(chargingSessions.portId, portId),
+          isNotNull(chargingSessions.idleStartedAt),
+          isNull(chargingSessions.idleEndedAt)
+        )
+      );
+
+    for (const { sessionId } of idleSessions) {
+      await this.closeIdle(sessionId, reason);
+    }
+  }
+
+  /**
+   * Charging is done but the bill waits for the charger to be freed
+   */
+  async promptVehicleMove(userWhatsapp: string, sessionId: string, tariff: Tariff, idleStartedAt: Date): Promise<void> {
+    await notificationService.sendMoveVehicleNotification(userWhatsapp, {
+      sessionId,
+      stationId: tariff.stationId,
+      feePerMinute: tariff.idleFeePerMinute,
+      feeStartsAt: new Date(idleStartedAt.getTime() + tariff.idleGraceMinutes * MINUTE_MS),
+    });
+  }
+
+  /**
+   * "Vehicle Moved" button
+   */
+  async handleVehicleMoved(userWhatsapp: string, buttonId: string): Promise<void> {
+    const sessionId = buttonId.replace('idle_moved_', '');
+
+    const [session] = await db
+      .select({
+        status: chargingSessions.status,
+        idleEndedAt: chargingSessions.idleEndedAt,
+      })
+      .from(chargingSessions)
+      .where(and(eq(chargingSessions.sessionId, sessionId), eq(chargingSessions.userWhatsapp, userWhatsapp)))
+      .limit(1);
+
+    if (!session) {
+      await whatsappService.sendTextMessage(userWhatsapp, '❌ Session not found.');
+      return;
+    }
+
+    if (session.idleEndedAt) {
+      await whatsappService.sendTextMessage(userWhatsapp, '✅ Already noted - your bill is on its way.');
+      return;
+    }
+
+    await this.closeIdle(sessionId, 'vehicle_moved');
+
+    await whatsappService.sendTextMessage(
+      userWhatsapp,
+      session.status === 'completed'
+        ? '✅ *Thanks for freeing the charger!*\n\n🧾 Your bill follows.'
+        : '✅ *Thanks for freeing the charger!*\n\n📸 Please send the end meter photo to finish your session.'
+    );
+  }
+
+  // ===============================================
+  // IDLE SWEEP
+  // ===============================================
+
+  /**
+   * Send due warnings and close idle periods past the billable cap. Everything is
+   * derived from idleStartedAt and the sent-at columns, so a restart loses nothing.
+   */
+  async sweepIdleSessions(): Promise<void> {
+    const idle = await db
+      .select({
+        sessionId: chargingSessions.sessionId,
+        userWhatsapp: chargingSessions.userWhatsapp,
+        stationId: chargingSessions.stationId,
+        idleStartedAt: chargingSessions.idleStartedAt,
+        idleWarningSentAt: chargingSessions.idleWarningSentAt,
+        idleFeeNoticeSentAt: chargingSessions.idleFeeNoticeSentAt,
+      })
+      .from(chargingSessions)
+      .where(and(isNotNull(chargingSessions.idleStartedAt), isNull(chargingSessions.idleEndedAt)));
+
+    const tariffs = new Map<number, Tariff>();
+    const now = Date.now();
+
+    for (const session of idle) {
+      if (!session.idleStartedAt) continue;
+
+      let tariff = tariffs.get(session.stationId);
+      if (!tariff) {
+        tariff = await tariffService.getStationTariff(session.stationId);
+        tariffs.set(session.stationId, tariff);
+      }
+
+      const idleMs = now - session.idleStartedAt.getTime();
+      const graceMs = tariff.idleGraceMinutes * MINUTE_MS;
+
+      // Without a fee nothing is billed - a generous cutoff just frees the bay
+      if (tariff.idleFeePerMinute <= 0) {
+        if (idleMs >= (MAX_BILLABLE_IDLE_MINUTES + 60) * MINUTE_MS) {
+          await this.closeIdle(session.sessionId, 'max_idle');
+        }
+        continue;
+      }
+
+      if (idleMs >= graceMs + MAX_BILLABLE_IDLE_MINUTES * MINUTE_MS) {
+        await this.closeIdle(session.sessionId, 'max_idle');
+      } else if (idleMs >= graceMs) {
+        if (!session.idleFeeNoticeSentAt && await this.claimNotice(session.sessionId, 'fee')) {
+          await notificationService.sendIdleFeeStartedNotification(session.userWhatsapp, {
+            sessionId: session.sessionId,
+            feePerMinute: tariff.idleFeePerMinute,
+            maxMinutes: MAX_BILLABLE_IDLE_MINUTES,
+          });
+        }
+      } else {
+        const warningLead = Math.min(WARNING_LEAD_MINUTES, tariff.idleGraceMinutes);
+        if (idleMs >= graceMs - warningLead * MINUTE_MS
+          && !session.idleWarningSentAt
+          && await this.claimNotice(session.sessionId, 'warning')) {
+          await notificationService.sendIdleFeeWarningNotification(session.userWhatsapp, {
+            sessionId: session.sessionId,
+            feePerMinute: tariff.idleFeePerMinute,
+            minutesLeft: Math.max(1, Math.ceil((graceMs - idleMs) / MINUTE_MS)),
+          });
+        }
+      }
+    }
+  }
+
+  // ===============================================
+  // HELPERS
+  // ===============================================
+
+  private getBillableMinutes(tariff: Tariff, idleStartedAt: Date, idleEndedAt: Date): number {
+    if (tariff.idleFeePerMinute <= 0) return 0;
+    const totalMinutes = Math.floor((idleEndedAt.getTime() - idleStartedAt.getTime()) / MINUTE_MS);
+    return Math.min(MAX_BILLABLE_IDLE_MINUTES, Math.max(0, totalMinutes - tariff.idleGraceMinutes));
+  }
+
+  /**
+   * Mark a notice as sent unless another sweep got there first. The fee notice
+   * also covers the warning - a late warning after the fee started is noise.
+   */
+  private async claimNotice(sessionId: string, notice: 'warning' | 'fee'): Promise<boolean> {
+    const now = new Date();
+    const [claimed] = await db
+      .update(chargingSessions)
+      .set(notice === 'fee'
+        ? { idleFeeNoticeSentAt: now, idleWarningSentAt: sql`COALESCE(${chargingSessions.idleWarningSentAt}, now())`, updatedAt: now }
+        : { idleWarningSentAt: now, updatedAt: now })
+      .where(
+        and(
+          eq(chargingSessions.sessionId, sessionId),
+          isNull(chargingSessions.idleEndedAt),
+          isNull(notice === 'fee' ? chargingSessions.idleFeeNoticeSentAt : chargingSessions.idleWarningSentAt)
+        )
+      )
+      .returning({ id: chargingSessions.id });
+
+    return !!claimed;
+  }
+}
+
+// ===============================================
+// SINGLETON EXPORT
+// ===============================================
+
+export const idleFeeService = new IdleFeeService();
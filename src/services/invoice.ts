@@ -0,0 +1,635 @@
+// src/services/invoice.ts - GST TAX INVOICES FOR COMPLETED SESSIONS
+import crypto from 'crypto';
+import { db } from '../config/database';
+import {
+  invoices,
+  chargingSessions,
+  chargingStations,
+  stationOwners,
+  users,
+  type Invoice,
+} from '../db/schema';
+import { eq, and, desc, sql } from 'drizzle-orm';
+import { getPaymentConfig } from '../config/env';
+import { logger } from '../utils/logger';
+import { SimplePdfDocument } from '../utils/pdf-writer';
+import { whatsappService } from './whatsapp';
+import type { BillBreakdown } from './tariff';
+
+// ===============================================
+// TYPES & INTERFACES
+// ===============================================
+
+export interface InvoiceLineItem {
+  description: string;
+  quantity?: number;
+  unit?: string;
+  rate?: number;
+  amount: number;
+}
+
+interface SupplyPlaces {
+  registered: boolean;
+  supplierState: string | null;   // GST state code
+  placeOfSupply: string | null;   // GST state code
+}
+
+const DEFAULT_TAX_RATE = 18;
+const MAX_NUMBERING_ATTEMPTS = 3;
+
+// GST state codes - the first two digits of a GSTIN
+const GST_STATES: Record<string, string> = {
+  '01': 'Jammu and Kashmir', '02': 'Himachal Pradesh', '03': 'Punjab', '04': 'Chandigarh',
+  '05': 'Uttarakhand', '06': 'Haryana', '07': 'Delhi', '08': 'Rajasthan', '09': 'Uttar Pradesh',
+  '10': 'Bihar', '11': 'Sikkim', '12': 'Arunachal Pradesh', '13': 'Nagaland', '14': 'Manipur',
+  '15': 'Mizoram', '16': 'Tripura', '17': 'Meghalaya', '18': 'Assam', '19': 'West Bengal',
+  '20': 'Jharkhand', '21': 'Odisha', '22': 'Chhattisgarh', '23': 'Madhya Pradesh', '24': 'Gujarat',
+  '26': 'Dadra and Nagar Haveli and Daman and Diu', '27': 'Maharashtra', '29': 'Karnataka',
+  '30': 'Goa', '31': 'Lakshadweep', '32': 'Kerala', '33': 'Tamil Nadu', '34': 'Puducherry',
+  '35': 'Andaman and Nicobar Islands', '36': 'Telangana', '37': 'Andhra Pradesh', '38': 'Ladakh',
+};
+
+// ===============================================
+// INVOICE SERVICE
+// ===============================================
+
+class InvoiceService {
+  /**
+   * Issue the invoice for a completed session - returns the existing one if already issued
+   */
+  async issueSessionInvoice(sessionId: string): Promise<Invoice | null> {
+    try {
+      const existing = await this.getInvoiceBySessionId(sessionId);
+      if (existing) return existing;
+
+      const [record] = await db
+        .select({
+          session: chargingSessions,
+          station: chargingStations,
+          owner: stationOwners,
+          userName: users.name,
+        })
+        .from(chargingSessions)
+        .innerJoin(chargingStations, eq(chargingSessions.stationId, chargingStations.id))
+        .leftJoin(stationOwners, eq(chargingStations.ownerWhatsappId, stationOwners.whatsappId))
+        .leftJoin(users, eq(chargingSessions.userWhatsapp, users.whatsappId))
+        .where(eq(chargingSessions.sessionId, sessionId))
+        .limit(1);
+
+      if (!record) {
+        logger.warn('Cannot invoice unknown session', { sessionId });
+        return null;
+      }
+
+      const { session, station, owner } = record;
+      if (session.status !== 'completed' || !session.totalCost) {
+        logger.warn('Cannot invoice incomplete session', { sessionId, status: session.status });
+        return null;
+      }
+
+      const supply = this.resolveSupplyPlaces(owner?.gstNumber || null, owner?.state || null, station.address);
+      const bill = this.buildBill(session, supply);
+      const financialYear = this.getFinancialYear(session.endTime || new Date());
+
+      // Sequence is allocated per owner & financial year; the unique
+      // constraint catches concurrent issues and we retry with the next number
+      for (let attempt = 1; attempt <= MAX_NUMBERING_ATTEMPTS; attempt++) {
+        const [{ next }] = await db
+          .select({ next: sql<number>`COALESCE(MAX(${invoices.sequence}), 0) + 1` })
+          .from(invoices)
+          .where(
+            and(
+              eq(invoices.ownerWhatsappId, station.ownerWhatsappId),
+              eq(invoices.financialYear, financialYear)
+            )
+          );
+
+        const sequence = Number(next);
+
+        const [invoice] = await db
+          .insert(invoices)
+          .values({
+            invoiceNumber: this.formatInvoiceNumber(financialYear, sequence),
+            ownerWhatsappId: station.ownerWhatsappId,
+            financialYear,
+            sequence,
+            sessionId,
+            userWhatsapp: session.userWhatsapp,
+            stationId: station.id,
+            supplierName: owner?.businessName || owner?.name || station.name,
+            supplierGstin: owner?.gstNumber || null,
+            supplierAddress: this.formatSupplierAddress(owner, station.address),
+            customerName: record.userName,
+            lineItems: bill.lineItems,
+            taxableAmount: bill.taxableAmount.toFixed(2),
+            discountAmount: bill.discountAmount.toFixed(2),
+            taxRate: bill.taxRate.toFixed(2),
+            cgstAmount: bill.cgstAmount.toFixed(2),
+            sgstAmount: bill.sgstAmount.toFixed(2),
+            igstAmount: bill.igstAmount.toFixed(2),
+            placeOfSupply: supply.placeOfSupply ? `${GST_STATES[supply.placeOfSupply]} (${supply.placeOfSupply})` : null,
+            totalAmount: bill.totalAmount.toFixed(2),
+            accessToken: crypto.randomBytes(24).toString('hex'),
+            issuedAt: session.endTime || new Date(),
+          })
+          .onConflictDoNothing()
+          .returning();
+
+        if (invoice) {
+          logger.info('🧾 Invoice issued', {
+            invoiceNumber: invoice.invoiceNumber,
+            sessionId,
+            ownerWhatsappId: station.ownerWhatsappId,
+            totalAmount: invoice.totalAmount,
+          });
+          return invoice;
+        }
+
+        // Another worker may have invoiced this session in the meantime
+        const raced = await this.getInvoiceBySessionId(sessionId);
+        if (raced) return raced;
+      }
+
+      logger.error('Could not allocate invoice number', { sessionId, financialYear });
+      return null;
+
+    } catch (error) {
+      logger.error('Failed to issue invoice', {
+        sessionId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Issue (if needed) and deliver the invoice PDF over WhatsApp
+   */
+  async sendSessionInvoice(sessionId: string): Promise<boolean> {
+    const invoice = await this.issueSessionInvoice(sessionId);
+    if (!invoice) return false;
+    return this.deliverInvoice(invoice);
+  }
+
+  async deliverInvoice(invoice: Invoice): Promise<boolean> {
+    return whatsappService.sendDocumentMessage(
+      invoice.userWhatsapp,
+      this.getDownloadUrl(invoice),
+      this.getFileName(invoice),
+      `🧾 Tax Invoice ${invoice.invoiceNumber} • ₹${parseFloat(invoice.totalAmount).toFixed(2)}`
+    );
+  }
+
+  // ===============================================
+  // LOOKUPS
+  // ===============================================
+
+  async getInvoiceBySessionId(sessionId: string): Promise<Invoice | null> {
+    const [invoice] = await db
+      .select()
+      .from(invoices)
+      .where(eq(invoices.sessionId, sessionId))
+      .limit(1);
+    return invoice || null;
+  }
+
+  async getInvoiceByToken(accessToken: string): Promise<Invoice | null> {
+    const [invoice] = await db
+      .select()
+      .from(invoices)
+      .where(eq(invoices.accessToken, accessToken))
+      .limit(1);
+    return invoice || null;
+  }
+
+  async getUserInvoices(userWhatsapp: string, limit = 5): Promise<Invoice[]> {
+    return db
+      .select()
+      .from(invoices)
+      .where(eq(invoices.userWhatsapp, userWhatsapp))
+      .orderBy(desc(invoices.issuedAt))
+      .limit(limit);
+  }
+
+  // ===============================================
+  // CHAT COMMAND
+  // ===============================================
+
+  /**
+   * Handle "download invoice [invoice number or session ID]"
+   */
+  async handleDownloadCommand(whatsappId: string, text: string): Promise<void> {
+    try {
+      const reference = text.trim().replace(/^(download\s+)?invoices?\s*/i, '').trim();
+
+      // No reference: backfill the latest completed session, then list recent invoices
+      if (!reference) {
+        await this.issueLatestSessionInvoice(whatsappId);
+        const recent = await this.getUserInvoices(whatsappId);
+
+        if (recent.length === 0) {
+          await whatsappService.sendTextMessage(
+            whatsappId,
+            '🧾 *No Invoices Yet*\n\nInvoices are issued automatically after each completed charging session.'
+          );
+          return;
+        }
+
+        await this.deliverInvoice(recent[0]);
+
+        if (recent.length > 1) {
+          const list = recent
+            .slice(1)
+            .map(inv => `• ${inv.invoiceNumber} - ₹${parseFloat(inv.totalAmount).toFixed(2)} (${this.formatDate(inv.issuedAt)})`)
+            .join('\n');
+
+          await whatsappService.sendTextMessage(
+            whatsappId,
+            `🧾 *Earlier Invoices*\n\n${list}\n\n` +
+            `Type "download invoice <number>" to get one.`
+          );
+        }
+        return;
+      }
+
+      const matches = await this.findUserInvoices(whatsappId, reference);
+      if (matches.length === 0) {
+        await whatsappService.sendTextMessage(
+          whatsappId,
+          `❌ Invoice "${reference}" not found.\n\nType "download invoice" to see your recent invoices.`
+        );
+        return;
+      }
+
+      // Numbers are per station owner - the same number can come from two owners
+      if (matches.length > 1) {
+        const list = matches
+          .map(inv => `• #${inv.id} - ${inv.supplierName} - ₹${parseFloat(inv.totalAmount).toFixed(2)} (${this.formatDate(inv.issuedAt)})`)
+          .join('\n');
+
+        await whatsappService.sendTextMessage(
+          whatsappId,
+          `🧾 *${matches.length} invoices are numbered ${matches[0].invoiceNumber}*\n\n${list}\n\n` +
+          `Type "download invoice #<ref>" to get one.`
+        );
+        return;
+      }
+
+      await this.deliverInvoice(matches[0]);
+
+    } catch (error) {
+      logger.error('Invoice download failed', { whatsappId, text, error });
+      await whatsappService.sendTextMessage(whatsappId, '❌ Could not fetch your invoice. Please try again.');
+    }
+  }
+
+  /**
+   * "#<ref>" is the invoice id, "session_..." the session; anything else is an invoice
+   * number, which is only unique per station owner and can match several invoices
+   */
+  private async findUserInvoices(whatsappId: string, reference: string): Promise<Invoice[]> {
+    const invoiceId = reference.match(/^#(\d+)$/)?.[1];
+    const condition = invoiceId
+      ? eq(invoices.id, parseInt(invoiceId, 10))
+      : reference.toLowerCase().startsWith('session_')
+        ? eq(invoices.sessionId, reference)
+        : sql`UPPER(${invoices.invoiceNumber}) = ${reference.toUpperCase()}`;
+
+    const matches = await db
+      .select()
+      .from(invoices)
+      .where(and(eq(invoices.userWhatsapp, whatsappId), condition))
+      .orderBy(desc(invoices.issuedAt));
+
+    if (matches.length > 0) return matches;
+
+    // Sessions completed before invoicing existed are issued on request
+    if (reference.toLowerCase().startsWith('session_')) {
+      const [session] = await db
+        .select({ sessionId: chargingSessions.sessionId })
+        .from(chargingSessions)
+        .where(and(eq(chargingSessions.sessionId, reference), eq(chargingSessions.userWhatsapp, whatsappId)))
+        .limit(1);
+      if (session) {
+        const issued = await this.issueSessionInvoice(session.sessionId);
+        if (issued) return [issued];
+      }
+    }
+
+    return [];
+  }
+
+  private async issueLatestSessionInvoice(whatsappId: string): Promise<void> {
+    const [latest] = await db
+      .select({ sessionId: chargingSessions.sessionId })
+      .from(chargingSessions)
+      .where(and(eq(chargingSessions.userWhatsapp, whatsappId), eq(chargingSessions.status, 'completed')))
+      .orderBy(desc(chargingSessions.endTime))
+      .limit(1);
+
+    if (latest) {
+      await this.issueSessionInvoice(latest.sessionId);
+    }
+  }
+
+  // ===============================================
+  // PDF RENDERING
+  // ===============================================
+
+  renderInvoicePdf(invoice: Invoice): Buffer {
+    const pdf = new SimplePdfDocument();
+    const right = pdf.pageWidth - 50;
+    const lineItems = (invoice.lineItems as InvoiceLineItem[]) || [];
+    const taxRate = parseFloat(invoice.taxRate);
+    let y = 60;
+
+    pdf.text(50, y, invoice.supplierGstin ? 'TAX INVOICE' : 'INVOICE', { size: 18, bold: true });
+    pdf.text(right, y, 'Original for Recipient', { size: 9, align: 'right' });
+    y += 30;
+
+    // Supplier
+    pdf.text(50, y, invoice.supplierName, { size: 12, bold: true });
+    y += 16;
+    for (const addressLine of this.wrap(invoice.supplierAddress || '', 60)) {
+      pdf.text(50, y, addressLine, { size: 9 });
+      y += 12;
+    }
+    pdf.text(50, y, `GSTIN: ${invoice.supplierGstin || 'Not registered'}`, { size: 9, bold: true });
+
+    // Invoice meta
+    let metaY = 90;
+    pdf.text(right, metaY, `Invoice No: ${invoice.invoiceNumber}`, { size: 10, bold: true, align: 'right' });
+    metaY += 14;
+    pdf.text(right, metaY, `Date: ${this.formatDate(invoice.issuedAt)}`, { size: 9, align: 'right' });
+    metaY += 12;
+    pdf.text(right, metaY, `Session: ${invoice.sessionId}`, { size: 9, align: 'right' });
+
+    y = Math.max(y, metaY) + 30;
+    pdf.text(50, y, 'Bill To', { size: 10, bold: true });
+    y += 14;
+    pdf.text(50, y, invoice.customerName || 'SharaSpot Customer', { size: 10 });
+    y += 12;
+    pdf.text(50, y, `WhatsApp: +${invoice.userWhatsapp}`, { size: 9 });
+    y += 30;
+
+    // Line items
+    pdf.line(50, y - 12, right, y - 12);
+    pdf.text(50, y, 'Description', { size: 9, bold: true });
+    pdf.text(330, y, 'Qty', { size: 9, bold: true, align: 'right' });
+    pdf.text(420, y, 'Rate', { size: 9, bold: true, align: 'right' });
+    pdf.text(right, y, 'Amount', { size: 9, bold: true, align: 'right' });
+    pdf.line(50, y + 6, right, y + 6);
+    y += 22;
+
+    for (const item of lineItems) {
+      pdf.text(50, y, item.description, { size: 9 });
+      if (item.quantity !== undefined) {
+        pdf.text(330, y, `${item.quantity}${item.unit ? ` ${item.unit}` : ''}`, { size: 9, align: 'right' });
+      }
+      if (item.rate !== undefined) {
+        pdf.text(420, y, this.money(item.rate), { size: 9, align: 'right' });
+      }
+      pdf.text(right, y, this.money(item.amount), { size: 9, align: 'right' });
+      y += 16;
+    }
+
+    pdf.line(50, y - 6, right, y - 6);
+    y += 12;
+
+    // Totals
+    const totals: Array<[string, number, boolean?]> = [];
+    const discount = parseFloat(invoice.discountAmount || '0');
+    if (discount > 0) totals.push(['Discount', -discount]);
+    const taxableAmount = parseFloat(invoice.taxableAmount);
+    const igstAmount = parseFloat(invoice.igstAmount || '0');
+    if (!invoice.supplierGstin) {
+      // An unregistered supplier charges no GST heads - only what the bill collected
+      const taxAmount = this.round(parseFloat(invoice.totalAmount) - taxableAmount);
+      totals.push(['Subtotal', taxableAmount]);
+      if (taxAmount > 0) totals.push([`Taxes @ ${taxRate.toFixed(1)}%`, taxAmount]);
+    } else if (igstAmount > 0) {
+      totals.push(['Taxable Value', taxableAmount]);
+      totals.push([`IGST @ ${taxRate.toFixed(1)}%`, igstAmount]);
+    } else {
+      totals.push(['Taxable Value', taxableAmount]);
+      totals.push([`CGST @ ${(taxRate / 2).toFixed(1)}%`, parseFloat(invoice.cgstAmount || '0')]);
+      totals.push([`SGST @ ${(taxRate / 2).toFixed(1)}%`, parseFloat(invoice.sgstAmount || '0')]);
+    }
+    totals.push(['Total Amount', parseFloat(invoice.totalAmount), true]);
+
+    for (const [label, amount, bold] of totals) {
+      pdf.text(420, y, label, { size: bold ? 11 : 9, bold, align: 'right' });
+      pdf.text(right, y, this.money(amount), { size: bold ? 11 : 9, bold, align: 'right' });
+      y += bold ? 20 : 14;
+    }
+
+    y += 20;
+    pdf.text(
+      50,
+      y,
+      `Place of supply: ${invoice.placeOfSupply || 'as per station location'}.` +
+      (invoice.supplierGstin ? ' Tax payable on reverse charge: No.' : ''),
+      { size: 8 }
+    );
+    y += 12;
+    pdf.text(50, y, 'This is a computer generated invoice and does not require a signature.', { size: 8 });
+    y += 12;
+    pdf.text(50, y, 'Issued via SharaSpot on behalf of the station operator.', { size: 8 });
+
+    return pdf.toBuffer();
+  }
+
+  getFileName(invoice: Invoice): string {
+    return `${invoice.invoiceNumber.replace(/\//g, '-')}.pdf`;
+  }
+
+  // ===============================================
+  // HELPERS
+  // ===============================================
+
+  /**
+   * Split the stored session totals back into invoice lines
+   */
+  private buildBill(session: typeof chargingSessions.$inferSelect, supply: SupplyPlaces) {
+    const totalAmount = parseFloat(session.totalCost || '0');
+    const taxAmount = parseFloat(session.taxAmount || '0');
+    const discountAmount = parseFloat(session.discountAmount || '0');
+    const breakdown = session.billBreakdown as BillBreakdown | null;
+
+    const taxableAmount = this.round(totalAmount - taxAmount);
+    const taxRate = breakdown?.taxRate ?? (taxableAmount > 0
+      ? this.round((taxAmount / taxableAmount) * 100)
+      : DEFAULT_TAX_RATE);
+
+    const lineItems = breakdown
+      ? this.lineItemsFromBreakdown(breakdown)
+      : this.lineItemsFromTotals(session, taxableAmount, discountAmount);
+
+    // Registered suppliers only: IGST across states, otherwise split equally into CGST and SGST
+    const interState = supply.registered && !!supply.supplierState && !!supply.placeOfSupply &&
+      supply.supplierState !== supply.placeOfSupply;
+    const igstAmount = supply.registered && interState ? taxAmount : 0;
+    const cgstAmount = supply.registered && !interState ? this.round(taxAmount / 2) : 0;
+    const sgstAmount = supply.registered && !interState ? this.round(taxAmount - cgstAmount) : 0;
+
+    return { lineItems, taxableAmount, discountAmount, taxRate, cgstAmount, sgstAmount, igstAmount, totalAmount };
+  }
+
+  /**
+   * Supplier state from the GSTIN (or the owner's address); place of supply is where the
+   * station is, falling back to the supplier's state when the address names none
+   */
+  private resolveSupplyPlaces(gstin: string | null, ownerState: string | null, stationAddress: string): SupplyPlaces {
+    const gstinState = gstin?.slice(0, 2);
+    const supplierState = gstinState && GST_STATES[gstinState] ? gstinState : this.findState(ownerState);
+
+    return {
+      registered: !!gstin,
+      supplierState,
+      placeOfSupply: this.findState(stationAddress) ?? supplierState,
+    };
+  }
+
+  /**
+   * The state named last in a piece of address text - addresses end with the state
+   */
+  private findState(text: string | null): string | null {
+    if (!text) return null;
+    const lower = text.toLowerCase();
+
+    let found: string | null = null;
+    let foundAt = -1;
+    for (const [code, name] of Object.entries(GST_STATES)) {
+      const match = [...lower.matchAll(new RegExp(`\\b${name.toLowerCase()}\\b`, 'g'))].pop();
+      if (match?.index !== undefined && match.index > foundAt) {
+        found = code;
+        foundAt = match.index;
+      }
+    }
+    return found;
+  }
+
+  private lineItemsFromBreakdown(breakdown: BillBreakdown): InvoiceLineItem[] {
+    const lineItems: InvoiceLineItem[] = breakdown.energyCharges.map(charge => ({
+      description: charge.label === 'Energy'
+        ? 'EV charging - energy supplied'
+        : `EV charging - energy supplied (${charge.label})`,
+      quantity: charge.kwh,
+      unit: 'kWh',
+      rate: charge.rate,
+      amount: charge.amount,
+    }));
+
+    if (breakdown.sessionFee > 0) {
+      lineItems.push({ description: 'Session fee', amount: breakdown.sessionFee });
+    }
+    if (breakdown.idleFee > 0) {
+      lineItems.push({
+        description: 'Idle fee',
+        quantity: breakdown.idleMinutes,
+        unit: 'min',
+        rate: this.round(breakdown.idleFee / breakdown.idleMinutes),
+        amount: breakdown.idleFee,
+      });
+    }
+    if (breakdown.minimumBillTopUp > 0) {
+      lineItems.push({ description: 'Minimum bill adjustment', amount: breakdown.minimumBillTopUp });
+    }
+
+    return lineItems;
+  }
+
+  /**
+   * Sessions billed before tariffs were stored only carry totals
+   */
+  private lineItemsFromTotals(
+    session: typeof chargingSessions.$inferSelect,
+    taxableAmount: number,
+    discountAmount: number
+  ): InvoiceLineItem[] {
+    const serviceFee = parseFloat(session.baseCharge || '0');
+    const energy = parseFloat(session.energyDelivered || '0');
+
+    const lineItems: InvoiceLineItem[] = [
+      {
+        description: 'EV charging - energy supplied',
+        quantity: Math.round(energy * 1000) / 1000,
+        unit: 'kWh',
+        rate: parseFloat(session.ratePerKwh || '0'),
+        amount: this.round(taxableAmount + discountAmount - serviceFee),
+      },
+    ];
+
+    if (serviceFee > 0) {
+      lineItems.push({ description: 'Platform service fee', amount: serviceFee });
+    }
+
+    return lineItems;
+  }
+
+  /**
+   * Indian financial year (April-March) in IST, e.g. "2026-27"
+   */
+  private getFinancialYear(date: Date): string {
+    const ist = new Date(date.getTime() + 5.5 * 60 * 60 * 1000);
+    const startYear = ist.getUTCMonth() >= 3 ? ist.getUTCFullYear() : ist.getUTCFullYear() - 1;
+    return `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+  }
+
+  /**
+   * GST caps invoice numbers at 16 characters: INV/26-27/000001
+   */
+  private formatInvoiceNumber(financialYear: string, sequence: number): string {
+    return `INV/${financialYear.slice(2)}/${String(sequence).padStart(6, '0')}`;
+  }
+
+  private formatSupplierAddress(
+    owner: { address: string | null; city: string | null; state: string | null; pincode: string | null } | null,
+    fallback: string
+  ): string {
+    if (!owner?.address) return fallback;
+    return [owner.address, owner.city, owner.state, owner.pincode].filter(Boolean).join(', ');
+  }
+
+  private getDownloadUrl(invoice: Invoice): string {
+    return `${getPaymentConfig().callbackBaseUrl}/invoices/${invoice.accessToken}.pdf`;
+  }
+
+  private formatDate(date: Date | null): string {
+    return (date || new Date()).toLocaleDateString('en-IN', {
+      timeZone: 'Asia/Kolkata',
+      day: '2-digit',
+      month: 'short',
+      year: 'numeric',
+    });
+  }
+
+  private money(value: number): string {
+    return `₹${value.toFixed(2)}`;
+  }
+
+  private wrap(text: string, width: number): string[] {
+    const lines: string[] = [];
+    let current = '';
+    for (const word of text.split(/\s+/).filter(Boolean)) {
+      if ((current + ' ' + word).trim().length > width) {
+        lines.push(current);
+        current = word;
+      } else {
+        current = (current + ' ' + word).trim();
+      }
+    }
+    if (current) lines.push(current);
+    return lines;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
+
+// ===============================================
+// SINGLETON EXPORT
+// ===============================================
+
+export const invoiceService = new InvoiceService();
@@ -0,0 +1,389 @@
+// src/services/issue-report.ts - DRIVER ISSUE TICKETS, OWNER ALERTS & AUTOMATIC PORT MAINTENANCE
+import { db } from '../config/database';
+import { issueReports, chargingSessions, chargingStations, stationPorts, type IssueReport } from '../db/schema';
+import { eq, and, desc, gte, inArray, or, sql } from 'drizzle-orm';
+import { logger } from '../utils/logger';
+import { whatsappService } from './whatsapp';
+import { notificationService } from './notification';
+import { portService } from './port';
+
+// ===============================================
+// TYPES & CONSTANTS
+// ===============================================
+
+export type IssueCategory = 'charger_not_starting' | 'slow_charging' | 'damaged_cable' | 'payment' | 'station_closed';
+export type IssueStatus = 'open' | 'acknowledged' | 'resolved' | 'dismissed';
+
+// Hardware issues count towards taking a port out of service
+export const ISSUE_CATEGORIES: Record<IssueCategory, { label: string; description: string; hardware: boolean }> = {
+  charger_not_starting: { label: '🔌 Won\'t start', description: 'Charger doesn\'t start charging', hardware: true },
+  slow_charging: { label: '🐢 Slow charging', description: 'Much slower than the rated power', hardware: true },
+  damaged_cable: { label: '⚠️ Damaged cable', description: 'Cable, plug or socket is damaged', hardware: true },
+  payment: { label: '💳 Payment', description: 'Wrong charge, failed or double payment', hardware: false },
+  station_closed: { label: '🚫 Station closed', description: 'Station shut or not accessible', hardware: false },
+};
+
+export interface IssueResult {
+  success: boolean;
+  error?: string;
+  report?: IssueReport;
+}
+
+const OPEN_STATUSES: IssueStatus[] = ['open', 'acknowledged'];
+
+// Distinct drivers reporting hardware trouble on one port before it's taken out of service
+const MAINTENANCE_REPORT_THRESHOLD = 3;
+const MAINTENANCE_WINDOW_HOURS = 24;
+// A finished session still counts as "the one you're reporting about" for this long
+const RECENT_SESSION_WINDOW_MS = 12 * 60 * 60 * 1000;
+const MAX_DESCRIPTION_LENGTH = 500;
+
+// ===============================================
+// ISSUE REPORT SERVICE
+// ===============================================
+
+class IssueReportService {
+  isCategory(value: string): value is IssueCategory {
+    return value in ISSUE_CATEGORIES;
+  }
+
+  async getStationName(stationId: number): Promise<string | null> {
+    const [station] = await db
+      .select({ name: chargingStations.name })
+      .from(chargingStations)
+      .where(eq(chargingStations.id, stationId))
+      .limit(1);
+    return station?.name ?? null;
+  }
+
+  /**
+   * The session a report is about - the driver's current one, else their latest in the last 12h.
+   * Narrowed to a station when the driver named one.
+   */
+  async findReportContext(
+    userWhatsapp: string,
+    stationId?: number
+  ): Promise<{ stationId: number; sessionId: string; portNumber: number | null } | null> {
+    const [session] = await db
+      .select({
+        stationId: chargingSessions.stationId,
+        sessionId: chargingSessions.sessionId,
+        portNumber: stationPorts.portNumber,
+      })
+      .from(chargingSessions)
+      .leftJoin(stationPorts, eq(stationPorts.id, chargingSessions.portId))
+      .where(
+        and(
+          eq(chargingSessions.userWhatsapp, userWhatsapp),
+          stationId ? eq(chargingSessions.stationId, stationId) : undefined,
+          or(
+            inArray(chargingSessions.status, ['initiated', 'active']),
+            gte(chargingSessions.createdAt, new Date(Date.now() - RECENT_SESSION_WINDOW_MS))
+          )
+        )
+      )
+      .orderBy(desc(chargingSessions.createdAt))
+      .limit(1);
+
+    return session ?? null;
+  }
+
+  /**
+   * Open a ticket, flag the session, alert the owner and check whether the port should come out of service
+   */
+  async createReport(params: {
+    userWhatsapp: string;
+    stationId: number;
+    category: IssueCategory;
+    sessionId?: string | null;
+    portNumber?: number | null;
+  }): Promise<IssueResult> {
+    const { userWhatsapp, stationId, category } = params;
+
+    if (!await this.getStationName(stationId)) {
+      return { success: false, error: `Station #${stationId} not found.` };
+    }
+
+    // One live ticket per driver, station and problem - repeats just point back to it
+    const [existing] = await db
+      .select()
+      .from(issueReports)
+      .where(
+        and(
+          eq(issueReports.userWhatsapp, userWhatsapp),
+          eq(issueReports.stationId, stationId),
+          eq(issueReports.category, category),
+          inArray(issueReports.status, OPEN_STATUSES)
+        )
+      )
+      .limit(1);
+    if (existing) {
+      return { success: false, error: `You already reported this - ticket #${existing.id} is ${existing.status}.`, report: existing };
+    }
+
+    const [report] = await db
+      .insert(issueReports)
+      .values({
+        stationId,
+        userWhatsapp,
+        category,
+        sessionId: params.sessionId ?? null,
+        portNumber: params.portNumber ?? null,
+      })
+      .returning();
+
+    if (report.sessionId) {
+      await db
+        .update(chargingSessions)
+        .set({ hadIssues: true, issueDescription: ISSUE_CATEGORIES[category].description, updatedAt: new Date() })
+        .where(eq(chargingSessions.sessionId, report.sessionId));
+    }
+
+    logger.info('⚠️ Issue reported', { reportId: report.id, stationId, category, portNumber: report.portNumber });
+
+    await notificationService.notifyStationOwner(stationId, 'issue_reported', {
+      reportId: report.id,
+      categoryLabel: ISSUE_CATEGORIES[category].description,
+      portNumber: report.portNumber,
+    });
+
+    if (report.portNumber && ISSUE_CATEGORIES[category].hardware) {
+      await this.checkPortMaintenance(stationId, report.portNumber);
+    }
+
+    return { success: true, report };
+  }
+
+  /**
+   * Follow-up description or photo from the driver - forwarded to the owner as it arrives
+   */
+  async addDetails(reportId: number, details: { description?: string; photoMediaId?: string }): Promise<boolean> {
+    const description = details.description?.trim().slice(0, MAX_DESCRIPTION_LENGTH);
+
+    const [report] = await db
+      .update(issueReports)
+      .set({
+        ...(description ? { description } : {}),
+        ...(details.photoMediaId ? { photoMediaId: details.photoMediaId } : {}),
+        updatedAt: new Date(),
+      })
+      .where(and(eq(issueReports.id, reportId), inArray(issueReports.status, OPEN_STATUSES)))
+      .returning();
+
+    if (!report) return false;
+
+    if (description && report.sessionId) {
+      await db
+        .update(chargingSessions)
+        .set({ issueDescription: `${ISSUE_CATEGORIES[report.category as IssueCategory]?.description ?? report.category}: ${description}` })
+        .where(eq(chargingSessions.sessionId, report.sessionId));
+    }
+
+    await notificationService.notifyStationOwner(report.stationId, 'issue_updated', {
+      reportId,
+      description,
+      photoMediaId: details.photoMediaId,
+    });
+    return true;
+  }
+
+  // ===============================================
+  // RESOLUTION
+  // ===============================================
+
+  async getReport(reportId: number): Promise<IssueReport | null> {
+    const [report] = await db.select().from(issueReports).where(eq(issueReports.id, reportId)).limit(1);
+    return report ?? null;
+  }
+
+  /**
+   * Owner moves a ticket along - the reporter hears about it, and a port in maintenance
+   * comes back once its last hardware ticket is closed
+   */
+  async updateStatus(
+    reportId: number,
+    status: Exclude<IssueStatus, 'open'>,
+    actorWhatsapp: string,
+    note?: string
+  ): Promise<IssueResult> {
+    const closing = status === 'resolved' || status === 'dismissed';
+    const now = new Date();
+
+    const [report] = await db
+      .update(issueReports)
+      .set({
+        status,
+        ...(status === 'acknowledged' ? { acknowledgedAt: now } : {}),
+        ...(closing ? { resolvedAt: now, resolvedBy: actorWhatsapp } : {}),
+        ...(note ? { resolutionNote: note.slice(0, MAX_DESCRIPTION_LENGTH) } : {}),
+        updatedAt: now,
+      })
+      .where(
+        and(
+          eq(issueReports.id, reportId),
+          status === 'acknowledged' ? eq(issueReports.status, 'open') : inArray(issueReports.status, OPEN_STATUSES)
+        )
+      )
+      .returning();
+
+    if (!report) {
+      const current = await this.getReport(reportId);
+      return {
+        success: false,
+        error: current ? `Ticket #${reportId} is already ${current.status}` : `Ticket #${reportId} not found`,
+      };
+    }
+
+    logger.info('🎫 Issue status changed', { reportId, status, actorWhatsapp });
+    await this.notifyReporter(report);
+
+    if (closing && report.portNumber) {
+      await this.restorePortIfClear(report.stationId, report.portNumber);
+    }
+    return { success: true, report };
+  }
+
+  async getStationIssues(stationId: number, includeClosed = false): Promise<IssueReport[]> {
+    return db
+      .select()
+      .from(issueReports)
+      .where(
+        and(
+          eq(issueReports.stationId, stationId),
+          includeClosed ? undefined : inArray(issueReports.status, OPEN_STATUSES)
+        )
+      )
+      .orderBy(desc(issueReports.createdAt))
+      .limit(20);
+  }
+
+  async getUserIssues(userWhatsapp: string, limit = 5): Promise<IssueReport[]> {
+    return db
+      .select()
+      .from(issueReports)
+      .where(eq(issueReports.userWhatsapp, userWhatsapp))
+      .orderBy(desc(issueReports.createdAt))
+      .limit(limit);
+  }
+
+  // ===============================================
+  // PORT MAINTENANCE
+  // ===============================================
+
+  /**
+   * Enough different drivers hitting hardware trouble on one port takes it out of service
+   */
+  private async checkPortMaintenance(stationId: number, portNumber: number): Promise<void> {
+    try {
+      const [{ reporters }] = await db
+        .select({ reporters: sql<number>`COUNT(DISTINCT ${issueReports.userWhatsapp})::int` })
+        .from(issueReports)
+        .where(
+          and(
+            eq(issueReports.stationId, stationId),
+            eq(issueReports.portNumber, portNumber),
+            inArray(issueReports.status, OPEN_STATUSES),
+            inArray(issueReports.category, this.hardwareCategories()),
+            gte(issueReports.createdAt, new Date(Date.now() - MAINTENANCE_WINDOW_HOURS * 60 * 60 * 1000))
+          )
+        );
+
+      if (reporters < MAINTENANCE_REPORT_THRESHOLD) return;
+
+      const [port] = await db
+        .select({ status: stationPorts.status })
+        .from(stationPorts)
+        .where(and(eq(stationPorts.stationId, stationId), eq(stationPorts.portNumber, portNumber)))
+        .limit(1);
+      if (!port || port.status === 'maintenance' || port.status === 'offline') return;
+
+      const result = await portService.setPortStatus(stationId, portNumber, 'maintenance');
+      if (result.success) {
+        await db
+          .update(issueReports)
+          .set({ portMaintenanceTriggered: true, updatedAt: new Date() })
+          .where(
+            and(
+              eq(issueReports.stationId, stationId),
+              eq(issueReports.portNumber, portNumber),
+              inArray(issueReports.status, OPEN_STATUSES)
+            )
+          );
+        logger.warn('🛠️ Port put into maintenance after repeated reports', { stationId, portNumber, reporters });
+      }
+
+      await notificationService.notifyStationOwner(stationId, 'port_maintenance', {
+        portNumber,
+        reporterCount: reporters,
+        windowHours: MAINTENANCE_WINDOW_HOURS,
+        applied: result.success,
+      });
+    } catch (error) {
+      logger.error('Failed to check port maintenance', { stationId, portNumber, error });
+    }
+  }
+
+  /**
+   * Only ports we put into maintenance come back on their own - an owner's "off" stays off
+   */
+  private async restorePortIfClear(stationId: number, portNumber: number): Promise<void> {
+    try {
+      const [port] = await db
+        .select({ status: stationPorts.status })
+        .from(stationPorts)
+        .where(and(eq(stationPorts.stationId, stationId), eq(stationPorts.portNumber, portNumber)))
+        .limit(1);
+      if (port?.status !== 'maintenance') return;
+
+      const [stillOpen] = await db
+        .select({ id: issueReports.id })
+        .from(issueReports)
+        .where(
+          and(
+            eq(issueReports.stationId, stationId),
+            eq(issueReports.portNumber, portNumber),
+            inArray(issueReports.status, OPEN_STATUSES),
+            inArray(issueReports.category, this.hardwareCategories())
+          )
+        )
+        .limit(1);
+      if (stillOpen) return;
+
+      const result = await portService.setPortStatus(stationId, portNumber, 'available');
+      if (result.success) {
+        logger.info('🟢 Port back in service after tickets closed', { stationId, portNumber });
+      }
+    } catch (error) {
+      logger.error('Failed to restore port after maintenance', { stationId, portNumber, error });
+    }
+  }
+
+  // ===============================================
+  // HELPERS
+  // ===============================================
+
+  private hardwareCategories(): IssueCategory[] {
+    return (Object.keys(ISSUE_CATEGORIES) as IssueCategory[]).filter(category => ISSUE_CATEGORIES[category].hardware);
+  }
+
+  private async notifyReporter(report: IssueReport): Promise<void> {
+    const headlines: Record<string, string> = {
+      acknowledged: `👀 *Ticket #${report.id} Acknowledged*\n\nThe station owner is looking into it.`,
+      resolved: `✅ *Ticket #${report.id} Resolved*\n\nThanks for reporting - the station owner has fixed it.`,
+      dismissed: `📋 *Ticket #${report.id} Closed*\n\nThe station owner closed your report without changes.`,
+    };
+    const headline = headlines[report.status];
+    if (!headline) return;
+
+    await whatsappService.sendTextMessage(
+      report.userWhatsapp,
+      headline + (report.resolutionNote && report.status !== 'acknowledged' ? `\n\n📝 ${report.resolutionNote}` : '')
+    );
+  }
+}
+
+// ===============================================
+// SINGLETON EXPORT
+// ===============================================
+
+export const issueReportService = new IssueReportService();
@@ -5,6 +5,7 @@ import { logger } from '../../utils/logger';
 import { eq, and, or, gte, lte, ne, desc, asc, sql } from 'drizzle-orm';
 import type { SQL } from 'drizzle-orm';
 import { getDistance } from 'geolib';
+import { tariffService, type PriceChange } from '../tariff';
 
 // ===============================================
 // TYPES & INTERFACES - ENHANCED WITH STRICT TYPING
@@ -21,6 +22,7 @@ export interface StationSearchOptions {
   maxPrice?: number;
   availableOnly?: boolean;
   sortBy?: 'availability' | 'distance' | 'price';
+  arrivalTime?: Date;             // Price at planned arrival instead of now
 }
 
 export interface StationResult {
@@ -34,7 +36,9 @@ export interface StationResult {
   availablePorts: number;
   connectorTypes: string[];
   maxPowerKw: number;
-  pricePerKwh: number;
+  pricePerKwh: number;             // Effective time-of-use price at priceAt
+  priceAt: Date;
+  nextPriceChange?: PriceChange;
   isOpen: boolean;
   currentQueueLength: number;
   maxQueueLength: number;
@@ -76,6 +80,8 @@ interface RawStationData {
   createdAt: Date | null;
   updatedAt: Date | null;
   distance?: number;
+  effectivePrice?: number;
+  nextPriceChange?: PriceChange | null;
 }
 
 // User preferences type
@@ -198,6 +204,10 @@ export class StationSearchService {
 
       // Step 2: Filter by distance
       const withinRadius = this.filterByDistance(stationsWithDistance, radius);
+
+      // Step 2b: Effective time-of-use price for now or the planned arrival
+      const priceAt = options.arrivalTime || new Date();
+      await this.applyEffectivePrices(withinRadius, priceAt);
       
       // Step 3: Apply additional filters
       const filtered = this.applyFilters(withinRadius, options, userPrefs);
@@ -212,7 +222,7 @@ export class StationSearchService {
       const paginatedStations = sorted.slice(offset, offset + maxResults);
       
       // Step 6: Process to final format
-      const stations = this.processStationResults(paginatedStations, userPrefs);
+      const stations = this.processStationResults(paginatedStations, userPrefs, priceAt);
 
       // Return result with proper metadata
       return {
@@ -266,18 +276,9 @@ export class StationSearchService {
     
     // Filter by price if specified
     if (options.maxPrice && !isNaN(options.maxPrice)) {
-      filtered = filtered.filter(station => {
-        let price = 0;
-        
-        // Handle different price formats
-        if (typeof station.pricePerKwh === 'number') {
-          price = station.pricePerKwh;
-        } else if (typeof station.pricePerKwh === 'string') {
-          price = parseFloat(station.pricePerKwh) || 0;
-        }
-        
-        return price <= (options.maxPrice ?? Infinity);
-      });
+      filtered = filtered.filter(station => 
+        this.getStationPrice(station) <= (options.maxPrice ?? Infinity)
+      );
     }
     
     // Filter by connector types if specified
@@ -319,14 +320,9 @@ export class StationSearchService {
           return a.distance - b.distance;
 
         case 'price':
-          // Convert price strings to numbers safely
-          const aPrice = typeof a.pricePerKwh === 'string' 
-            ? parseFloat(a.pricePerKwh) || 0 
-            : Number(a.pricePerKwh) || 0;
-            
-          const bPrice = typeof b.pricePerKwh === 'string' 
-            ? parseFloat(b.pricePerKwh) || 0 
-            : Number(b.pricePerKwh) || 0;
+          // Effective time-of-use price, not the flat list price
+          const aPrice = this.getStationPrice(a);
+          const bPrice = this.getStationPrice(b);
             
           if (aPrice !== bPrice) {
             return aPrice - bPrice;
@@ -345,7 +341,8 @@ export class StationSearchService {
    */
   private processStationResults(
     stations: (RawStationData & { distance: number })[], 
-    userPrefs: UserPreferences
+    userPrefs: UserPreferences,
+    priceAt: Date
   ): StationResult[] {
     return stations.map(station => {
       // Safe access with defaults for all properties
@@ -362,13 +359,8 @@ export class StationSearchService {
       const isOpen = station.isOpen === true;
       const isAvailable = isOpen && availablePorts > 0 && queueLength < maxQueue;
       
-      // Safe parsing for pricing
-      let pricePerKwh = 0;
-      if (typeof station.pricePerKwh === 'number') {
-        pricePerKwh = station.pricePerKwh;
-      } else if (typeof station.pricePerKwh === 'string') {
-        pricePerKwh = parseFloat(station.pricePerKwh) || 0;
-      }
+      // Effective price at search/arrival time
+      const pricePerKwh = this.getStationPrice(station);
       
       // Calculate match score
       const matchScore = this.calculateMatchScore(station, userPrefs, station.distance, isAvailable);
@@ -385,6 +377,8 @@ export class StationSearchService {
         connectorTypes: this.parseConnectorTypes(station.connectorTypes),
         maxPowerKw: station.maxPowerKw ?? 50,
         pricePerKwh,
+        priceAt,
+        nextPriceChange: station.nextPriceChange || undefined,
         isOpen,
         currentQueueLength: queueLength,
         maxQueueLength: maxQueue,
@@ -395,6 +389,37 @@ export class StationSearchService {
     });
   }
 
+  /**
+   * Attach effective time-of-use price and the next change to each station
+   */
+  private async applyEffectivePrices(
+    stations: (RawStationData & { distance: number })[],
+    priceAt: Date
+  ): Promise<void> {
+    const tariffs = await tariffService.getStationTariffs(stations);
+
+    for (const station of stations) {
+      const tariff = tariffs.get(station.id);
+      if (!tariff) continue;
+
+      station.effectivePrice = tariffService.getRateAt(tariff, priceAt);
+      station.nextPriceChange = tariffService.getNextPriceChange(tariff, priceAt, 12);
+    }
+  }
+
+  /**
+   * Effective price when known, otherwise the flat station price
+   */
+  private getStationPrice(station: RawStationData): number {
+    if (typeof station.effectivePrice === 'number') {
+      return station.effectivePrice;
+    }
+    if (typeof station.pricePerKwh === 'number') {
+      return station.pricePerKwh;
+    }
+    return parseFloat(station.pricePerKwh || '') || 0;
+  }
+
   /**
    * Parse connector types safely
    */
@@ -458,13 +483,7 @@ export class StationSearchService {
     
     // Price factor
     const maxPrice = userPrefs.maxPrice ?? 30;
-    let price = 0;
-    
-    if (typeof station.pricePerKwh === 'number') {
-      price = station.pricePerKwh;
-    } else if (typeof station.pricePerKwh === 'string') {
-      price = parseFloat(station.pricePerKwh) || 0;
-    }
+    const price = this.getStationPrice(station);
     
     if (price <= maxPrice) {
       score += Math.round(15 * (1 - price / maxPrice));
@@ -177,6 +177,8 @@ async sendChargingCompletedNotification(
     const duration = summary?.duration || 'N/A';
     const energyDelivered = summary?.energyDelivered || session?.energyDelivered || 0;
     const totalCost = summary?.totalCost || session?.totalCost || 0;
+    const discountAmount = summary?.discountAmount || 0;
+    const idleFee = summary?.idleFee || 0;
     const startReading = session?.startMeterReading || 0;
     const endReading = session?.endMeterReading || 0;
 
@@ -184,8 +186,10 @@ async sendChargingCompletedNotification(
       `📍 *${stationName}*\n` +
       `⏱️ *Duration:* ${duration}\n` +
       `⚡ *Energy Delivered:* ${energyDelivered} kWh\n` +
-      `💰 *Total Cost:* ₹${totalCost}\n\n` +
-      `📊 *Meter Readings:*\n` +
+      `💰 *Total Cost:* ₹${totalCost}\n` +
+      (idleFee > 0 ? `🅿️ *Idle Fee:* ₹${Number(idleFee).toFixed(2)} (${summary?.idleMinutes} min)\n` : '') +
+      (discountAmount > 0 ? `🎟️ *Promo Savings:* ₹${Number(discountAmount).toFixed(2)}\n` : '') +
+      `\n📊 *Meter Readings:*\n` +
       `• Start: ${startReading} kWh\n` +
       `• End: ${endReading} kWh\n\n` +
       `🎯 *Thank you for using SharaSpot!*`;
@@ -263,7 +267,13 @@ async sendChargingCompletedNotification(
     }
   }
 
-  async sendQueueProgressNotification(userWhatsapp: string, stationId: number, position: number, waitTime: number): Promise<void> {
+  async sendQueueProgressNotification(
+    userWhatsapp: string,
+    stationId: number,
+    position: number,
+    waitTime: number,
+    reason?: string
+  ): Promise<void> {
     try {
       const station = await this.getStationDetails(stationId);
       const expectedTime = new Date(Date.now() + waitTime * 60 * 1000).toLocaleTimeString();
@@ -295,6 +305,10 @@ async sendChargingCompletedNotification(
           `🚶‍♂️ *Queue is moving!* ${this.getProgressTip(position, waitTime)}`;
       }
 
+      if (reason) {
+        message = `ℹ️ ${reason}\n\n${message}`;
+      }
+
       await whatsappService.sendTextMessage(userWhatsapp, message);
 
       if (position <= 3) {
@@ -463,10 +477,35 @@ async sendChargingCompletedNotification(
             `👤 Customer completed charging\n` +
             `🕐 ${new Date().toLocaleTimeString()}`;
           break;
+        case 'issue_reported':
+          message = `⚠️ *Issue Reported #${data.reportId}*\n\n` +
+            `🏢 *${station.name}*\n` +
+            `📋 ${data.categoryLabel}\n` +
+            (data.portNumber ? `🔌 Port ${data.portNumber}\n` : '') +
+            (data.description ? `📝 ${data.description}\n` : '') +
+            `🕐 ${new Date().toLocaleTimeString()}\n\n` +
+            `💡 "issue ${data.reportId} ack" to let the driver know you're on it`;
+          break;
+        case 'issue_updated':
+          message = `📎 *Issue #${data.reportId} Update*\n\n` +
+            `🏢 *${station.name}*\n` +
+            (data.description ? `📝 ${data.description}` : '📸 The driver added a photo');
+          break;
+        case 'port_maintenance':
+          message = `🛠️ *Port ${data.portNumber} ${data.applied ? 'In Maintenance' : 'Needs Attention'}*\n\n` +
+            `🏢 *${station.name}*\n` +
+            `⚠️ ${data.reporterCount} drivers reported problems in the last ${data.windowHours}h\n\n` +
+            (data.applied
+              ? `The port is out of service until you resolve its tickets ("issues ${stationId}").`
+              : `It's in use right now - take it out of service once free ("port ${stationId} ${data.portNumber} off").`);
+          break;
       }
 
       if (message) {
         await whatsappService.sendTextMessage(ownerWhatsapp, message);
+        if (data?.photoMediaId) {
+          await whatsappService.sendImageById(ownerWhatsapp, data.photoMediaId, `📸 Issue #${data.reportId}`);
+        }
         logger.info('Station owner notified', { stationId, ownerWhatsapp, eventType });
       }
     } catch (error) {
@@ -518,7 +557,8 @@ async sendChargingCompletedNotification(
     try {
       const message = `📊 *CHARGING PROGRESS*\n\n` +
         `📍 *${session.stationName}*\n` +
-        `🔋 *Battery:* ${progress.currentBatteryLevel}%\n` +
+        `🔌 *Energy so far:* ${progress.energyDelivered} kWh\n` +
+        (progress.currentBatteryLevel != null ? `🔋 *Battery:* ${progress.currentBatteryLevel}%\n` : '') +
         `⚡ *Power:* ${progress.chargingRate} kW\n` +
         `💰 *Cost so far:* ₹${progress.currentCost}\n` +
         `⏱️ *Est. completion:* ${progress.estimatedCompletion}\n\n` +
@@ -628,6 +668,121 @@ async sendChargingCompletedNotification(
     }
   }
 
+  // ===============================================
+  // IDLE FEE NOTIFICATIONS
+  // ===============================================
+
+  async sendMoveVehicleNotification(userWhatsapp: string, idle: {
+    sessionId: string;
+    stationId: number;
+    feePerMinute: number;
+    feeStartsAt: Date;
+  }): Promise<void> {
+    try {
+      const station = await this.getStationDetails(idle.stationId);
+      const message = `⚡ *CHARGING COMPLETE!*\n\n` +
+        `📍 *${station?.name || 'Charging Station'}*\n\n` +
+        `🚗 *Please unplug and move your vehicle* so the next driver can charge.\n\n` +
+        `⏱️ *Idle fee:* ₹${idle.feePerMinute.toFixed(2)}/min from ${idle.feeStartsAt.toLocaleTimeString('en-IN', { timeZone: 'Asia/Kolkata', hour: 'numeric', minute: '2-digit' })}\n` +
+        `🧾 Your bill is sent as soon as the charger is free.`;
+      await whatsappService.sendTextMessage(userWhatsapp, message);
+
+      setTimeout(async () => {
+        await whatsappService.sendButtonMessage(
+          userWhatsapp,
+          '🚗 Moved your vehicle?',
+          [{ id: `idle_moved_${idle.sessionId}`, title: '✅ Vehicle Moved' }]
+        );
+      }, 1000);
+    } catch (error) {
+      logger.error('Failed to send move vehicle notification', { userWhatsapp, idle, error });
+    }
+  }
+
+  async sendIdleFeeWarningNotification(userWhatsapp: string, idle: {
+    sessionId: string;
+    feePerMinute: number;
+    minutesLeft: number;
+  }): Promise<void> {
+    try {
+      const message = `⏳ *IDLE FEE IN ${idle.minutesLeft} MINUTES*\n\n` +
+        `Your vehicle is still at the charger.\n` +
+        `💰 *₹${idle.feePerMinute.toFixed(2)}/min* will be added to your bill after that.\n\n` +
+        `🚗 Move your vehicle and tap the button to avoid the fee.`;
+      await whatsappService.sendTextMessage(userWhatsapp, message);
+
+      setTimeout(async () => {
+        await whatsappService.sendButtonMessage(
+          userWhatsapp,
+          '🚗 Moved your vehicle?',
+          [{ id: `idle_moved_${idle.sessionId}`, title: '✅ Vehicle Moved' }]
+        );
+      }, 1000);
+    } catch (error) {
+      logger.error('Failed to send idle fee warning', { userWhatsapp, idle, error });
+    }
+  }
+
+  async sendIdleFeeStartedNotification(userWhatsapp: string, idle: {
+    sessionId: string;
+    feePerMinute: number;
+    maxMinutes: number;
+  }): Promise<void> {
+    try {
+      const message = `🅿️ *IDLE FEE NOW APPLIES*\n\n` +
+        `💰 *₹${idle.feePerMinute.toFixed(2)}/min* is being added until you move your vehicle ` +
+        `(up to ${idle.maxMinutes} min).\n\n` +
+        `🚗 Tap "Vehicle Moved" once you've left the charger.`;
+      await whatsappService.sendTextMessage(userWhatsapp, message);
+    } catch (error) {
+      logger.error('Failed to send idle fee started notification', { userWhatsapp, idle, error });
+    }
+  }
+
+  async sendChargerStartTimeoutNotification(userWhatsapp: string): Promise<void> {
+    try {
+      await whatsappService.sendTextMessage(
+        userWhatsapp,
+        '⌛ *The charger hasn\'t started yet*\n📸 We\'ll use meter photos for this session instead.'
+      );
+    } catch (error) {
+      logger.error('Failed to send charger start timeout notification', { userWhatsapp, error });
+    }
+  }
+
+  // ===============================================
+  // PAYMENT NOTIFICATIONS
+  // ===============================================
+
+  async sendRefundProcessedNotification(userWhatsapp: string, refund: {
+    paymentId: string;
+    sessionId: string;
+    stationId: number;
+    refundAmount: number;
+    totalRefunded: number;
+    capturedAmount: number;
+    reason: string;
+    toWallet?: boolean;
+  }): Promise<void> {
+    try {
+      const station = await this.getStationDetails(refund.stationId);
+      const isFull = refund.totalRefunded >= refund.capturedAmount;
+
+      const message = `💸 *${isFull ? 'REFUND PROCESSED' : 'PARTIAL REFUND PROCESSED'}*\n\n` +
+        `📍 *${station?.name || 'Charging Station'}*\n` +
+        `💰 *Refunded:* ₹${refund.refundAmount.toFixed(2)}\n` +
+        (isFull ? '' : `📊 *Total Refunded:* ₹${refund.totalRefunded.toFixed(2)} of ₹${refund.capturedAmount.toFixed(2)}\n`) +
+        `📝 *Reason:* ${refund.reason}\n` +
+        `🧾 *Ref:* ${refund.paymentId}\n\n` +
+        (refund.toWallet
+          ? `👛 *Amount has been added back to your wallet*`
+          : `🏦 *Amount will reach your account in 5-7 working days*`);
+      await whatsappService.sendTextMessage(userWhatsapp, message);
+    } catch (error) {
+      logger.error('Failed to send refund notification', { userWhatsapp, refund, error });
+    }
+  }
+
   // ===============================================
   // HELPER METHODS
   // ===============================================
@@ -714,7 +869,8 @@ async sendChargingCompletedNotification(
     const expectedTime = new Date(Date.now() + waitTime * 60 * 1000).toLocaleTimeString();
     return `🎉 *BOOKING CONFIRMED!*\n\n` +
       `📍 *${station?.name || 'Charging Station'}*\n` +
-      `🎯 *Your Position:* #${queuePosition.position}\n` +
+      `🎯 *Your Position:* #${queuePosition.position}` +
+      `${queuePosition.connectorType ? ` in the ${queuePosition.connectorType} line` : ''}\n` +
       `⏱️ *Estimated Wait:* ${waitTime} minutes\n` +
       `🕐 *Expected Time:* ${expectedTime}\n\n` +
       `✨ *What happens next:*\n` +
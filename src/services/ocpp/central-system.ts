@@ -0,0 +1,308 @@
+// src/services/ocpp/central-system.ts - OCPP 1.6J WEBSOCKET ENDPOINT, RPC FRAMING & CALL CORRELATION
+import type { IncomingMessage, Server } from 'http';
+import type { Duplex } from 'stream';
+import { randomUUID } from 'crypto';
+import { WebSocketServer, WebSocket, type RawData } from 'ws';
+import { logger } from '../../utils/logger';
+import {
+  MessageType,
+  OCPP_SUBPROTOCOL,
+  type CallFrame,
+  type OcppCallResult,
+  type OcppErrorCode,
+  type OcppFrame,
+} from './types';
+
+// ===============================================
+// TYPES & CONSTANTS
+// ===============================================
+
+export interface CentralSystemHandlers {
+  // Runs before the handshake completes - false refuses the charger
+  authenticate(chargePointId: string, password: string | null): Promise<boolean>;
+  // CALLRESULT payload for a charger's CALL; null when the action isn't supported
+  handleCall(chargePointId: string, action: string, payload: object): Promise<object | null>;
+  onDisconnect?(chargePointId: string): void;
+}
+
+interface PendingCall {
+  action: string;
+  resolve: (result: OcppCallResult<any>) => void;
+  timer: NodeJS.Timeout;
+}
+
+interface Connection {
+  socket: WebSocket;
+  pending: Map<string, PendingCall>;
+  // Our CALLs go out one at a time, as 1.6J requires
+  outbox: Promise<unknown>;
+  alive: boolean;
+}
+
+// Chargers connect to ws(s)://<host>/ocpp/<chargePointId>
+const PATH_PREFIX = '/ocpp/';
+const CALL_TIMEOUT_MS = 30 * 1000;
+const PING_INTERVAL_MS = 60 * 1000;
+
+// ===============================================
+// CENTRAL SYSTEM
+// ===============================================
+
+export class OcppCentralSystem {
+  private server: WebSocketServer | null = null;
+  private httpServer: Server | null = null;
+  private connections = new Map<string, Connection>();
+  private pingTimer: NodeJS.Timeout | null = null;
+
+  constructor(private handlers: CentralSystemHandlers) {}
+
+  /**
+   * Accept charger connections on the HTTP server's upgrade requests
+   */
+  attach(httpServer: Server): void {
+    if (this.server) return;
+
+    this.server = new WebSocketServer({
+      noServer: true,
+      handleProtocols: protocols => (protocols.has(OCPP_SUBPROTOCOL) ? OCPP_SUBPROTOCOL : false),
+    });
+    this.httpServer = httpServer;
+    httpServer.on('upgrade', this.handleUpgrade);
+
+    this.pingTimer = setInterval(() => this.pingAll(), PING_INTERVAL_MS);
+    logger.info('🔌 OCPP central system listening', { path: `${PATH_PREFIX}:chargePointId` });
+  }
+
+  close(): void {
+    if (this.pingTimer) {
+      clearInterval(this.pingTimer);
+      this.pingTimer = null;
+    }
+    this.httpServer?.off('upgrade', this.handleUpgrade);
+    this.httpServer = null;
+
+    for (const connection of this.connections.values()) {
+      connection.socket.terminate();
+    }
+    this.server?.close();
+    this.server = null;
+  }
+
+  isConnected(chargePointId: string): boolean {
+    return this.connections.get(chargePointId)?.socket.readyState === WebSocket.OPEN;
+  }
+
+  getConnectedChargePoints(): string[] {
+    return [...this.connections.keys()].filter(id => this.isConnected(id));
+  }
+
+  /**
+   * Send a CALL to a charger and wait for its answer. Resolves with an error instead of
+   * throwing when the charger is offline, times out or answers with a CALLERROR.
+   */
+  call<T>(chargePointId: string, action: string, payload: object): Promise<OcppCallResult<T>> {
+    const connection = this.connections.get(chargePointId);
+    if (!connection || connection.socket.readyState !== WebSocket.OPEN) {
+      return Promise.resolve({ success: false, error: 'offline', message: `${chargePointId} is not connected` });
+    }
+
+    const result = connection.outbox.then(() => this.sendCall<T>(chargePointId, connection, action, payload));
+    connection.outbox = result;
+    return result;
+  }
+
+  // ===============================================
+  // CONNECTIONS
+  // ===============================================
+
+  private handleUpgrade = async (req: IncomingMessage, socket: Duplex, head: Buffer): Promise<void> => {
+    const path = (req.url || '').split('?')[0];
+    if (!path.startsWith(PATH_PREFIX) || !this.server) {
+      socket.destroy();
+      return;
+    }
+
+    const chargePointId = decodeURIComponent(path.slice(PATH_PREFIX.length)).trim();
+    const protocols = String(req.headers['sec-websocket-protocol'] || '').split(',').map(p => p.trim());
+    if (!chargePointId || chargePointId.includes('/') || !protocols.includes(OCPP_SUBPROTOCOL)) {
+      this.refuse(socket, 400, 'Bad Request');
+      return;
+    }
+
+    try {
+      if (!(await this.handlers.authenticate(chargePointId, this.getBasicAuthPassword(req, chargePointId)))) {
+        logger.warn('🔌 Charge point refused', { chargePointId, remoteAddress: req.socket.remoteAddress });
+        this.refuse(socket, 401, 'Unauthorized');
+        return;
+      }
+    } catch (error) {
+      logger.error('Charge point authentication failed', { chargePointId, error });
+      this.refuse(socket, 500, 'Internal Server Error');
+      return;
+    }
+
+    this.server.handleUpgrade(req, socket, head, ws => this.register(chargePointId, ws));
+  };
+
+  private register(chargePointId: string, socket: WebSocket): void {
+    // A charger that reconnects replaces its old, half-open socket
+    const previous = this.connections.get(chargePointId);
+    if (previous) {
+      this.failPending(previous, 'offline', 'Charge point reconnected');
+      previous.socket.terminate();
+    }
+
+    const connection: Connection = { socket, pending: new Map(), outbox: Promise.resolve(), alive: true };
+    this.connections.set(chargePointId, connection);
+    logger.info('🔌 Charge point connected', { chargePointId });
+
+    socket.on('pong', () => {
+      connection.alive = true;
+    });
+    socket.on('message', data => void this.handleMessage(chargePointId, connection, data));
+    socket.on('error', error => logger.warn('Charge point socket error', { chargePointId, error }));
+    socket.on('close', (code, reason) => {
+      this.failPending(connection, 'offline', 'Connection closed');
+      if (this.connections.get(chargePointId) !== connection) return;
+
+      this.connections.delete(chargePointId);
+      logger.info('🔌 Charge point disconnected', { chargePointId, code, reason: reason.toString() });
+      this.handlers.onDisconnect?.(chargePointId);
+    });
+  }
+
+  private pingAll(): void {
+    for (const [chargePointId, connection] of this.connections) {
+      if (!connection.alive) {
+        logger.warn('🔌 Charge point stopped answering pings', { chargePointId });
+        connection.socket.terminate();
+        continue;
+      }
+      connection.alive = false;
+      connection.socket.ping();
+    }
+  }
+
+  // ===============================================
+  // RPC
+  // ===============================================
+
+  private async handleMessage(chargePointId: string, connection: Connection, data: RawData): Promise<void> {
+    let frame: OcppFrame;
+    try {
+      frame = JSON.parse(data.toString());
+    } catch {
+      logger.warn('Unparseable OCPP frame dropped', { chargePointId });
+      return;
+    }
+
+    if (!Array.isArray(frame) || typeof frame[1] !== 'string') {
+      logger.warn('Malformed OCPP frame dropped', { chargePointId, frame });
+      return;
+    }
+
+    const [type, messageId] = frame;
+    switch (type) {
+      case MessageType.Call:
+        await this.answerCall(chargePointId, connection, frame);
+        return;
+      case MessageType.CallResult:
+      case MessageType.CallError: {
+        const pending = connection.pending.get(messageId);
+        if (!pending) {
+          logger.warn('OCPP answer for unknown call', { chargePointId, messageId });
+          return;
+        }
+        connection.pending.delete(messageId);
+        clearTimeout(pending.timer);
+        pending.resolve(
+          frame[0] === MessageType.CallResult
+            ? { success: true, payload: frame[2] }
+            : { success: false, error: 'call_error', message: `${frame[2]}: ${frame[3]}` }
+        );
+        return;
+      }
+      default:
+        this.sendError(connection, messageId, 'ProtocolError', `Unknown message type ${type}`);
+    }
+  }
+
+  private async answerCall(chargePointId: string, connection: Connection, frame: CallFrame): Promise<void> {
+    const [, messageId, action, payload] = frame;
+    if (typeof action !== 'string' || !payload || typeof payload !== 'object') {
+      this.sendError(connection, messageId, 'FormationViolation', 'Expected [2, id, action, payload]');
+      return;
+    }
+
+    try {
+      const result = await this.handlers.handleCall(chargePointId, action, payload);
+      if (!result) {
+        this.sendError(connection, messageId, 'NotImplemented', `${action} is not supported`);
+        return;
+      }
+      this.send(connection, [MessageType.CallResult, messageId, result]);
+    } catch (error) {
+      logger.error('OCPP call handler failed', { chargePointId, action, error });
+      this.sendError(connection, messageId, 'InternalError', `${action} could not be processed`);
+    }
+  }
+
+  private sendCall<T>(chargePointId: string, connection: Connection, action: string, payload: object): Promise<OcppCallResult<T>> {
+    return new Promise(resolve => {
+      if (connection.socket.readyState !== WebSocket.OPEN) {
+        resolve({ success: false, error: 'offline', message: `${chargePointId} is not connected` });
+        return;
+      }
+
+      const messageId = randomUUID();
+      const timer = setTimeout(() => {
+        connection.pending.delete(messageId);
+        logger.warn('OCPP call timed out', { chargePointId, action, messageId });
+        resolve({ success: false, error: 'timeout', message: `${action} got no answer` });
+      }, CALL_TIMEOUT_MS);
+
+      connection.pending.set(messageId, { action, resolve, timer });
+      this.send(connection, [MessageType.Call, messageId, action, payload]);
+    });
+  }
+
+  private failPending(connection: Connection, error: 'offline' | 'timeout', message: string): void {
+    for (const pending of connection.pending.values()) {
+      clearTimeout(pending.timer);
+      pending.resolve({ success: false, error, message });
+    }
+    connection.pending.clear();
+  }
+
+  private sendError(connection: Connection, messageId: string, code: OcppErrorCode, description: string): void {
+    this.send(connection, [MessageType.CallError, messageId, code, description, {}]);
+  }
+
+  private send(connection: Connection, frame: OcppFrame): void {
+    if (connection.socket.readyState === WebSocket.OPEN) {
+      connection.socket.send(JSON.stringify(frame));
+    }
+  }
+
+  // ===============================================
+  // HELPERS
+  // ===============================================
+
+  /**
+   * Security profile 1 - HTTP Basic auth whose username is the charge point identity
+   */
+  private getBasicAuthPassword(req: IncomingMessage, chargePointId: string): string | null {
+    const header = req.headers.authorization;
+    if (!header?.startsWith('Basic ')) return null;
+
+    const decoded = Buffer.from(header.slice(6), 'base64').toString('utf8');
+    const separator = decoded.indexOf(':');
+    if (separator < 0 || decoded.slice(0, separator) !== chargePointId) return null;
+    return decoded.slice(separator + 1);
+  }
+
+  private refuse(socket: Duplex, status: number, reason: string): void {
+    socket.write(`HTTP/1.1 ${status} ${reason}\r\nConnection: close\r\n\r\n`);
+    socket.destroy();
+  }
+}
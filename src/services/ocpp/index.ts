@@ -0,0 +1,14 @@
+// Types
+export type {
+  OcppCallResult,
+  ChargePointStatus,
+  MeterValue,
+  RemoteTransactionResponse,
+  StopReason,
+} from './types';
+export type { CentralSystemHandlers } from './central-system';
+export type { ChargePointResult, ConnectorMapping } from './ocpp-service';
+
+// Central system & service
+export { OcppCentralSystem } from './central-system';
+export { ocppService } from './ocpp-service';
@@ -0,0 +1,568 @@
+// src/services/ocpp/ocpp-service.ts - CHARGER EVENTS → PORTS & METERED CHARGING SESSIONS
+import type { Server } from 'http';
+import { timingSafeEqual } from 'crypto';
+import { db } from '../../config/database';
+import { env } from '../../config/env';
+import {
+  auditLogs,
+  chargePoints,
+  chargingSessions,
+  stationPorts,
+  type ChargePoint,
+  type ChargingSession,
+  type StationPort,
+} from '../../db/schema';
+import { and, eq, sql } from 'drizzle-orm';
+import { logger } from '../../utils/logger';
+import { sessionService } from '../session';
+import { portService } from '../port';
+import { idleFeeService } from '../idle-fee';
+import { queueService } from '../queue';
+import { sessionTelemetryService } from '../session-telemetry';
+import { OcppCentralSystem } from './central-system';
+import type {
+  AuthorizeRequest,
+  AuthorizeResponse,
+  BootNotificationRequest,
+  BootNotificationResponse,
+  ChargePointStatus,
+  HeartbeatResponse,
+  MeterValue,
+  MeterValuesRequest,
+  OcppCallResult,
+  RemoteStartTransactionRequest,
+  RemoteStopTransactionRequest,
+  RemoteTransactionResponse,
+  SampledValue,
+  StartTransactionRequest,
+  StartTransactionResponse,
+  StatusNotificationRequest,
+  StopTransactionRequest,
+  StopTransactionResponse,
+} from './types';
+
+// ===============================================
+// TYPES & CONSTANTS
+// ===============================================
+
+export interface ConnectorMapping {
+  connectorId: number;
+  portNumber: number;
+}
+
+export interface ChargePointResult {
+  success: boolean;
+  error?: string;
+  chargePoint?: ChargePoint;
+}
+
+const CHARGE_POINT_ID_PATTERN = /^[A-Za-z0-9._:-]{1,48}$/;
+const ENERGY_REGISTER = 'Energy.Active.Import.Register';
+const POWER_IMPORT = 'Power.Active.Import';
+const SOC = 'SoC';
+
+// Connector states that take a port out of service
+const PORT_STATUS_BY_CONNECTOR: Partial<Record<ChargePointStatus, 'faulted' | 'offline'>> = {
+  Faulted: 'faulted',
+  Unavailable: 'offline',
+};
+
+// ===============================================
+// OCPP SERVICE
+// ===============================================
+
+class OcppService {
+  private centralSystem = new OcppCentralSystem({
+    authenticate: (chargePointId, password) => this.authenticate(chargePointId, password),
+    handleCall: (chargePointId, action, payload) => this.handleCall(chargePointId, action, payload),
+  });
+
+  attach(server: Server): void {
+    this.centralSystem.attach(server);
+  }
+
+  close(): void {
+    this.centralSystem.close();
+  }
+
+  /**
+   * A port on a charger that is connected right now - sessions there are metered by the charger
+   */
+  isPortOnline(port: Pick<StationPort, 'chargePointId' | 'connectorId'>): boolean {
+    return !!(port.chargePointId && port.connectorId && this.centralSystem.isConnected(port.chargePointId));
+  }
+
+  /**
+   * Link a networked charger to a station. Connectors map onto port numbers one to one
+   * unless a mapping is given; registering again replaces the mapping.
+   */
+  async registerChargePoint(
+    stationId: number,
+    chargePointId: string,
+    actorWhatsappId: string,
+    connectors?: ConnectorMapping[]
+  ): Promise<ChargePointResult> {
+    try {
+      if (!CHARGE_POINT_ID_PATTERN.test(chargePointId)) {
+        return { success: false, error: 'Charge point ID must be 1-48 letters, digits, or . _ : -' };
+      }
+
+      const ports = await portService.getStationPorts(stationId);
+      if (ports.length === 0) {
+        return { success: false, error: `Station ${stationId} not found` };
+      }
+
+      const mapping = connectors ?? ports.map(port => ({ connectorId: port.portNumber, portNumber: port.portNumber }));
+      const connectorIds = new Set(mapping.map(m => m.connectorId));
+      if (mapping.length === 0 || connectorIds.size !== mapping.length || [...connectorIds].some(id => !Number.isInteger(id) || id < 1)) {
+        return { success: false, error: 'Connector IDs must be unique whole numbers from 1' };
+      }
+
+      for (const { portNumber } of mapping) {
+        const port = ports.find(p => p.portNumber === portNumber);
+        if (!port) {
+          return { success: false, error: `Port ${portNumber} not found at station ${stationId}` };
+        }
+        if (port.chargePointId && port.chargePointId !== chargePointId) {
+          return { success: false, error: `Port ${portNumber} is already on charger ${port.chargePointId}` };
+        }
+      }
+
+      const [existing] = await db
+        .select()
+        .from(chargePoints)
+        .where(eq(chargePoints.chargePointId, chargePointId))
+        .limit(1);
+      if (existing && existing.stationId !== stationId) {
+        return { success: false, error: `${chargePointId} is registered to station ${existing.stationId}` };
+      }
+
+      const mappedPorts = sql.join(mapping.map(m => sql`(${m.portNumber}::int, ${m.connectorId}::int)`), sql`, `);
+      const [[chargePoint]] = await db.batch([
+        db
+          .insert(chargePoints)
+          .values({ chargePointId, stationId, createdBy: actorWhatsappId })
+          .onConflictDoUpdate({ target: chargePoints.chargePointId, set: { updatedAt: new Date() } })
+          .returning(),
+        db
+          .update(stationPorts)
+          .set({ chargePointId: null, connectorId: null, updatedAt: new Date() })
+          .where(eq(stationPorts.chargePointId, chargePointId)),
+        db.execute(sql`
+          UPDATE station_ports p
+          SET charge_point_id = ${chargePointId}, connector_id = m.connector_id, updated_at = NOW()
+          FROM (VALUES ${mappedPorts}) AS m(port_number, connector_id)
+          WHERE p.station_id = ${stationId} AND p.port_number = m.port_number
+        `),
+        db.insert(auditLogs).values({
+          actorWhatsappId,
+          actorType: 'admin',
+          action: existing ? 'charge_point_remapped' : 'charge_point_registered',
+          resourceType: 'charge_point',
+          resourceId: chargePointId,
+          newValues: { stationId, connectors: mapping },
+        }),
+      ]);
+
+      logger.info('🔌 Charge point registered', { chargePointId, stationId, connectors: mapping.length });
+      return { success: true, chargePoint };
+    } catch (error) {
+      logger.error('Failed to register charge point', { stationId, chargePointId, error });
+      return { success: false, error: 'Charge point registration failed' };
+    }
+  }
+
+  /**
+   * Ask the charger to start on the session's port. The session only goes active once the
+   * charger follows up with StartTransaction.
+   */
+  async remoteStartTransaction(port: StationPort, idTag: string): Promise<OcppCallResult<RemoteTransactionResponse>> {
+    if (!port.chargePointId || !port.connectorId) {
+      return { success: false, error: 'offline', message: `Port ${port.portNumber} is not networked` };
+    }
+
+    const request: RemoteStartTransactionRequest = { connectorId: port.connectorId, idTag };
+    const result = await this.centralSystem.call<RemoteTransactionResponse>(port.chargePointId, 'RemoteStartTransaction', request);
+    logger.info('🔌 Remote start sent', { chargePointId: port.chargePointId, connectorId: port.connectorId, result });
+    return result;
+  }
+
+  /**
+   * Ask the charger to end a session's transaction - the session completes on StopTransaction
+   */
+  async remoteStopTransaction(sessionId: string): Promise<OcppCallResult<RemoteTransactionResponse>> {
+    const [row] = await db
+      .select({ transactionId: chargingSessions.id, chargePointId: stationPorts.chargePointId })
+      .from(chargingSessions)
+      .innerJoin(stationPorts, eq(stationPorts.id, chargingSessions.portId))
+      .where(and(eq(chargingSessions.sessionId, sessionId), eq(chargingSessions.meterSource, 'ocpp')))
+      .limit(1);
+
+    if (!row?.chargePointId) {
+      return { success: false, error: 'offline', message: 'Session is not on a networked charger' };
+    }
+
+    const request: RemoteStopTransactionRequest = { transactionId: row.transactionId };
+    const result = await this.centralSystem.call<RemoteTransactionResponse>(row.chargePointId, 'RemoteStopTransaction', request);
+    logger.info('🔌 Remote stop sent', { chargePointId: row.chargePointId, sessionId, result });
+    return result;
+  }
+
+  /**
+   * Remote start for a session waiting on its networked port. The driver's number is the
+   * idTag; the session goes active once the charger follows up with StartTransaction.
+   */
+  async remoteStartSession(sessionId: string): Promise<{ portNumber: number | null; result: OcppCallResult<RemoteTransactionResponse> }> {
+    const [row] = await db
+      .select({ port: stationPorts, userWhatsapp: chargingSessions.userWhatsapp })
+      .from(chargingSessions)
+      .innerJoin(stationPorts, eq(stationPorts.id, chargingSessions.portId))
+      .where(
+        and(
+          eq(chargingSessions.sessionId, sessionId),
+          eq(chargingSessions.status, 'initiated'),
+          eq(chargingSessions.meterSource, 'ocpp')
+        )
+      )
+      .limit(1);
+
+    if (!row) {
+      return { portNumber: null, result: { success: false, error: 'offline', message: 'Session is not waiting on a networked charger' } };
+    }
+
+    const result = await this.remoteStartTransaction(row.port, row.userWhatsapp);
+    if (result.payload?.status === 'Accepted') {
+      // The scheduler falls back to photos if StartTransaction never follows
+      await db
+        .update(chargingSessions)
+        .set({ remoteStartAt: new Date(), updatedAt: new Date() })
+        .where(eq(chargingSessions.sessionId, sessionId));
+    }
+
+    return { portNumber: row.port.portNumber, result };
+  }
+
+  // ===============================================
+  // CHARGER CALLS
+  // ===============================================
+
+  private async handleCall(chargePointId: string, action: string, payload: object): Promise<object | null> {
+    switch (action) {
+      case 'BootNotification':
+        return this.handleBootNotification(chargePointId, payload as BootNotificationRequest);
+      case 'Heartbeat':
+        return this.handleHeartbeat(chargePointId);
+      case 'StatusNotification':
+        return this.handleStatusNotification(chargePointId, payload as StatusNotificationRequest);
+      case 'Authorize':
+        return this.handleAuthorize(chargePointId, payload as AuthorizeRequest);
+      case 'StartTransaction':
+        return this.handleStartTransaction(chargePointId, payload as StartTransactionRequest);
+      case 'MeterValues':
+        return this.handleMeterValues(chargePointId, payload as MeterValuesRequest);
+      case 'StopTransaction':
+        return this.handleStopTransaction(chargePointId, payload as StopTransactionRequest);
+      default:
+        logger.warn('Unsupported OCPP action', { chargePointId, action });
+        return null;
+    }
+  }
+
+  private async handleBootNotification(chargePointId: string, request: BootNotificationRequest): Promise<BootNotificationResponse> {
+    const now = new Date();
+    await db
+      .update(chargePoints)
+      .set({
+        vendor: request.chargePointVendor?.slice(0, 20),
+        model: request.chargePointModel?.slice(0, 20),
+        serialNumber: (request.chargePointSerialNumber || request.chargeBoxSerialNumber)?.slice(0, 25),
+        firmwareVersion: request.firmwareVersion?.slice(0, 50),
+        lastBootAt: now,
+        lastHeartbeatAt: now,
+        updatedAt: now,
+      })
+      .where(eq(chargePoints.chargePointId, chargePointId));
+
+    logger.info('🔌 Charge point booted', {
+      chargePointId,
+      vendor: request.chargePointVendor,
+      model: request.chargePointModel,
+      firmware: request.firmwareVersion,
+    });
+
+    return { status: 'Accepted', currentTime: now.toISOString(), interval: env.OCPP_HEARTBEAT_INTERVAL };
+  }
+
+  private async handleHeartbeat(chargePointId: string): Promise<HeartbeatResponse> {
+    const now = new Date();
+    await db
+      .update(chargePoints)
+      .set({ lastHeartbeatAt: now })
+      .where(eq(chargePoints.chargePointId, chargePointId));
+
+    return { currentTime: now.toISOString() };
+  }
+
+  /**
+   * Faults and outages take the port out of service; Available puts it back, and on a
+   * port whose session is over means the cable is out - the vehicle has left the bay
+   */
+  private async handleStatusNotification(chargePointId: string, request: StatusNotificationRequest): Promise<object> {
+    // Connector 0 is the charger as a whole - its connectors report their own states
+    if (request.connectorId === 0) {
+      logger.info('🔌 Charge point status', { chargePointId, status: request.status, errorCode: request.errorCode });
+      return {};
+    }
+
+    const port = await this.getPort(chargePointId, request.connectorId);
+    if (!port) {
+      logger.warn('Status for an unmapped connector', { chargePointId, connectorId: request.connectorId });
+      return {};
+    }
+
+    const outage = PORT_STATUS_BY_CONNECTOR[request.status];
+    if (outage) {
+      logger.warn('🔌 Connector out of service', {
+        chargePointId,
+        connectorId: request.connectorId,
+        status: request.status,
+        errorCode: request.errorCode,
+        info: request.info,
+      });
+      // Maintenance is the owner's to lift - a fault report doesn't change it
+      if (port.status !== 'occupied' && port.status !== 'maintenance' && port.status !== outage) {
+        await portService.setPortStatus(port.stationId, port.portNumber, outage);
+      }
+      return {};
+    }
+
+    if (request.status === 'Available') {
+      if (port.status === 'faulted' || port.status === 'offline') {
+        await portService.setPortStatus(port.stationId, port.portNumber, 'available');
+      } else if (port.currentSessionId) {
+        await this.releaseFinishedSession(port.currentSessionId);
+      }
+    }
+
+    return {};
+  }
+
+  /**
+   * Drivers don't carry tags - a charger may start only for a session waiting on it
+   */
+  private async handleAuthorize(chargePointId: string, request: AuthorizeRequest): Promise<AuthorizeResponse> {
+    const [waiting] = await db
+      .select({ sessionId: chargingSessions.sessionId })
+      .from(chargingSessions)
+      .innerJoin(stationPorts, eq(stationPorts.currentSessionId, chargingSessions.sessionId))
+      .where(
+        and(
+          eq(stationPorts.chargePointId, chargePointId),
+          eq(chargingSessions.status, 'initiated'),
+          eq(chargingSessions.meterSource, 'ocpp')
+        )
+      )
+      .limit(1);
+
+    logger.info('🔌 Authorize', { chargePointId, idTag: request.idTag, accepted: !!waiting });
+    return { idTagInfo: { status: waiting ? 'Accepted' : 'Invalid' } };
+  }
+
+  /**
+   * The connector's port holds the session; the transaction ID is the session's row ID,
+   * so a retried StartTransaction gets the same answer
+   */
+  private async handleStartTransaction(chargePointId: string, request: StartTransactionRequest): Promise<StartTransactionResponse> {
+    const port = await this.getPort(chargePointId, request.connectorId);
+    const session = port?.currentSessionId ? await this.getSession(port.currentSessionId) : null;
+
+    if (!session || session.meterSource !== 'ocpp' || !['initiated', 'active'].includes(session.status)) {
+      logger.warn('🔌 StartTransaction without a waiting session', { chargePointId, connectorId: request.connectorId, idTag: request.idTag });
+      return { idTagInfo: { status: 'Invalid' }, transactionId: 0 };
+    }
+
+    if (session.status === 'initiated') {
+      await sessionService.startChargingAfterVerification(session.sessionId, request.meterStart / 1000);
+    }
+
+    logger.info('🔌 Transaction started', { chargePointId, transactionId: session.id, sessionId: session.sessionId, meterStart: request.meterStart });
+    return { idTagInfo: { status: 'Accepted' }, transactionId: session.id };
+  }
+
+  private async handleMeterValues(chargePointId: string, request: MeterValuesRequest): Promise<object> {
+    if (!request.transactionId) return {};
+
+    const session = await this.getTransactionSession(chargePointId, request.transactionId);
+    const energyKwh = this.readEnergyKwh(request.meterValue);
+    if (session?.status !== 'active' || !session.startMeterReading || energyKwh === null) return {};
+
+    // Stamped on receipt - charger clocks drift, and power is derived between samples
+    await sessionTelemetryService.recordSample(session.sessionId, {
+      energyKwh: energyKwh - parseFloat(session.startMeterReading),
+      powerKw: this.readPowerKw(request.meterValue),
+      socPercent: this.readSampledValue(request.meterValue, SOC),
+      source: 'ocpp',
+    });
+
+    return {};
+  }
+
+  /**
+   * The charger's meter closes the session - same completion path as a confirmed end photo
+   */
+  private async handleStopTransaction(chargePointId: string, request: StopTransactionRequest): Promise<StopTransactionResponse> {
+    const session = await this.getTransactionSession(chargePointId, request.transactionId);
+    if (!session) {
+      logger.warn('🔌 StopTransaction for an unknown transaction', { chargePointId, transactionId: request.transactionId });
+      return {};
+    }
+
+    // Retried after we already closed it
+    if (session.status !== 'active' || !session.startMeterReading) {
+      return { idTagInfo: { status: 'Accepted' } };
+    }
+
+    const endReading = request.meterStop / 1000;
+    const consumption = Math.max(0, endReading - parseFloat(session.startMeterReading));
+
+    await db
+      .update(chargingSessions)
+      .set({
+        endMeterReading: endReading.toString(),
+        energyDelivered: consumption.toString(),
+        verificationStatus: 'completed',
+        meterValidated: true,
+        stopReason: request.reason || 'Local',
+        updatedAt: new Date(),
+      })
+      .where(eq(chargingSessions.id, session.id));
+
+    // Unplugged vehicles are leaving - otherwise the bay is occupied until the cable comes out
+    if (request.reason !== 'EVDisconnected') {
+      await idleFeeService.startIdleTracking(session.sessionId, session.userWhatsapp, session.stationId);
+    }
+
+    await sessionService.completeSessionAfterVerification(session.sessionId, endReading, consumption);
+    await queueService.completeCharging(session.userWhatsapp, session.stationId);
+
+    logger.info('🔌 Transaction stopped', {
+      chargePointId,
+      transactionId: session.id,
+      sessionId: session.sessionId,
+      consumption: consumption.toFixed(3),
+      reason: request.reason,
+    });
+    return { idTagInfo: { status: 'Accepted' } };
+  }
+
+  // ===============================================
+  // HELPERS
+  // ===============================================
+
+  /**
+   * Registered chargers only, with the shared password. Only development runs without one -
+   * production refuses every charger if the key is somehow missing.
+   */
+  private async authenticate(chargePointId: string, password: string | null): Promise<boolean> {
+    if (env.OCPP_AUTH_KEY) {
+      const expected = Buffer.from(env.OCPP_AUTH_KEY);
+      const given = Buffer.from(password ?? '');
+      if (given.length !== expected.length || !timingSafeEqual(given, expected)) return false;
+    } else if (env.NODE_ENV === 'production') {
+      logger.error('OCPP_AUTH_KEY missing in production - refusing charger', { chargePointId });
+      return false;
+    }
+
+    const [chargePoint] = await db
+      .select({ id: chargePoints.id })
+      .from(chargePoints)
+      .where(eq(chargePoints.chargePointId, chargePointId))
+      .limit(1);
+    return !!chargePoint;
+  }
+
+  /**
+   * The cable is out after the session completed - ends any open idle period, which frees the port
+   */
+  private async releaseFinishedSession(sessionId: string): Promise<void> {
+    const session = await this.getSession(sessionId);
+    if (session?.status === 'completed' && session.idleStartedAt && !session.idleEndedAt) {
+      await idleFeeService.closeIdle(sessionId, 'vehicle_moved');
+    }
+  }
+
+  private async getPort(chargePointId: string, connectorId: number): Promise<StationPort | null> {
+    const [port] = await db
+      .select()
+      .from(stationPorts)
+      .where(and(eq(stationPorts.chargePointId, chargePointId), eq(stationPorts.connectorId, connectorId)))
+      .limit(1);
+    return port ?? null;
+  }
+
+  private async getSession(sessionId: string): Promise<ChargingSession | null> {
+    const [session] = await db.select().from(chargingSessions).where(eq(chargingSessions.sessionId, sessionId)).limit(1);
+    return session ?? null;
+  }
+
+  /**
+   * Only the charger that started a transaction may report on it
+   */
+  private async getTransactionSession(chargePointId: string, transactionId: number): Promise<ChargingSession | null> {
+    const [row] = await db
+      .select({ session: chargingSessions })
+      .from(chargingSessions)
+      .innerJoin(stationPorts, eq(stationPorts.id, chargingSessions.portId))
+      .where(
+        and(
+          eq(chargingSessions.id, transactionId),
+          eq(chargingSessions.meterSource, 'ocpp'),
+          eq(stationPorts.chargePointId, chargePointId)
+        )
+      )
+      .limit(1);
+    return row?.session ?? null;
+  }
+
+  /**
+   * Latest energy register reading in kWh - chargers report Wh unless they say otherwise
+   */
+  private readEnergyKwh(meterValues: MeterValue[] = []): number | null {
+    const sample = this.findSampledValue(meterValues, ENERGY_REGISTER);
+    if (!sample) return null;
+    return sample.unit === 'kWh' ? parseFloat(sample.value) : parseFloat(sample.value) / 1000;
+  }
+
+  /**
+   * Latest import power in kW - W unless the charger says otherwise
+   */
+  private readPowerKw(meterValues: MeterValue[] = []): number | null {
+    const sample = this.findSampledValue(meterValues, POWER_IMPORT);
+    if (!sample) return null;
+    return sample.unit === 'kW' ? parseFloat(sample.value) : parseFloat(sample.value) / 1000;
+  }
+
+  private readSampledValue(meterValues: MeterValue[] = [], measurand: string): number | null {
+    const sample = this.findSampledValue(meterValues, measurand);
+    return sample ? parseFloat(sample.value) : null;
+  }
+
+  /**
+   * Newest whole-charger reading of a measurand - an unlabelled value is the energy register
+   */
+  private findSampledValue(meterValues: MeterValue[], measurand: string): SampledValue | null {
+    for (let i = meterValues.length - 1; i >= 0; i--) {
+      const sample = meterValues[i].sampledValue?.find(v =>
+        (v.measurand ?? ENERGY_REGISTER) === measurand && !v.phase && !isNaN(parseFloat(v.value))
+      );
+      if (sample) return sample;
+    }
+    return null;
+  }
+}
+
+// ===============================================
+// SINGLETON EXPORT
+// ===============================================
+
+export const ocppService = new OcppService();
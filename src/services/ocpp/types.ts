@@ -0,0 +1,196 @@
+// src/services/ocpp/types.ts - OCPP 1.6J MESSAGE FRAMES & PAYLOADS
+
+// ===============================================
+// RPC FRAMES
+// ===============================================
+
+export const OCPP_SUBPROTOCOL = 'ocpp1.6';
+
+export enum MessageType {
+  Call = 2,
+  CallResult = 3,
+  CallError = 4,
+}
+
+export type CallFrame = [MessageType.Call, string, string, object];
+export type CallResultFrame = [MessageType.CallResult, string, object];
+export type CallErrorFrame = [MessageType.CallError, string, OcppErrorCode, string, object];
+export type OcppFrame = CallFrame | CallResultFrame | CallErrorFrame;
+
+export type OcppErrorCode =
+  | 'NotImplemented'
+  | 'NotSupported'
+  | 'InternalError'
+  | 'ProtocolError'
+  | 'SecurityError'
+  | 'FormationViolation'
+  | 'PropertyConstraintViolation'
+  | 'OccurenceConstraintViolation'
+  | 'TypeConstraintViolation'
+  | 'GenericError';
+
+// Outcome of a Central System → charger call; never throws
+export interface OcppCallResult<T> {
+  success: boolean;
+  payload?: T;
+  error?: 'offline' | 'timeout' | 'call_error';
+  message?: string;
+}
+
+// ===============================================
+// SHARED TYPES
+// ===============================================
+
+export type AuthorizationStatus = 'Accepted' | 'Blocked' | 'Expired' | 'Invalid' | 'ConcurrentTx';
+
+export interface IdTagInfo {
+  status: AuthorizationStatus;
+  expiryDate?: string;
+  parentIdTag?: string;
+}
+
+export type ChargePointStatus =
+  | 'Available'
+  | 'Preparing'
+  | 'Charging'
+  | 'SuspendedEVSE'
+  | 'SuspendedEV'
+  | 'Finishing'
+  | 'Reserved'
+  | 'Unavailable'
+  | 'Faulted';
+
+export type Measurand =
+  | 'Energy.Active.Import.Register'
+  | 'Power.Active.Import'
+  | 'Current.Import'
+  | 'Voltage'
+  | 'SoC'
+  | string;
+
+export interface SampledValue {
+  value: string;
+  context?: string;
+  format?: 'Raw' | 'SignedData';
+  measurand?: Measurand;
+  phase?: string;
+  location?: string;
+  unit?: string;
+}
+
+export interface MeterValue {
+  timestamp: string;
+  sampledValue: SampledValue[];
+}
+
+export type StopReason =
+  | 'EmergencyStop'
+  | 'EVDisconnected'
+  | 'HardReset'
+  | 'Local'
+  | 'Other'
+  | 'PowerLoss'
+  | 'Reboot'
+  | 'Remote'
+  | 'SoftReset'
+  | 'UnlockCommand'
+  | 'DeAuthorized';
+
+// ===============================================
+// CHARGER → CENTRAL SYSTEM
+// ===============================================
+
+export interface BootNotificationRequest {
+  chargePointVendor: string;
+  chargePointModel: string;
+  chargePointSerialNumber?: string;
+  chargeBoxSerialNumber?: string;
+  firmwareVersion?: string;
+  iccid?: string;
+  imsi?: string;
+  meterType?: string;
+  meterSerialNumber?: string;
+}
+
+export interface BootNotificationResponse {
+  status: 'Accepted' | 'Pending' | 'Rejected';
+  currentTime: string;
+  interval: number;
+}
+
+export type HeartbeatRequest = Record<string, never>;
+
+export interface HeartbeatResponse {
+  currentTime: string;
+}
+
+export interface StatusNotificationRequest {
+  connectorId: number;
+  errorCode: string;
+  status: ChargePointStatus;
+  info?: string;
+  timestamp?: string;
+  vendorId?: string;
+  vendorErrorCode?: string;
+}
+
+export type StatusNotificationResponse = Record<string, never>;
+
+export interface AuthorizeRequest {
+  idTag: string;
+}
+
+export interface AuthorizeResponse {
+  idTagInfo: IdTagInfo;
+}
+
+export interface StartTransactionRequest {
+  connectorId: number;
+  idTag: string;
+  meterStart: number;           // Wh
+  timestamp: string;
+  reservationId?: number;
+}
+
+export interface StartTransactionResponse {
+  idTagInfo: IdTagInfo;
+  transactionId: number;
+}
+
+export interface MeterValuesRequest {
+  connectorId: number;
+  transactionId?: number;
+  meterValue: MeterValue[];
+}
+
+export type MeterValuesResponse = Record<string, never>;
+
+export interface StopTransactionRequest {
+  transactionId: number;
+  meterStop: number;            // Wh
+  timestamp: string;
+  idTag?: string;
+  reason?: StopReason;
+  transactionData?: MeterValue[];
+}
+
+export interface StopTransactionResponse {
+  idTagInfo?: IdTagInfo;
+}
+
+// ===============================================
+// CENTRAL SYSTEM → CHARGER
+// ===============================================
+
+export interface RemoteStartTransactionRequest {
+  connectorId?: number;
+  idTag: string;
+}
+
+export interface RemoteStopTransactionRequest {
+  transactionId: number;
+}
+
+export interface RemoteTransactionResponse {
+  status: 'Accepted' | 'Rejected';
+}
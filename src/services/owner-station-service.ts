@@ -1,8 +1,14 @@
 import { db } from '../config/database';
 import { chargingStations, stationOwners, queues, chargingSessions } from '../db/schema';
-import { eq, and, gte, count, desc } from 'drizzle-orm';
+import { eq, and, gte, count, desc, asc, inArray } from 'drizzle-orm';
 import { logger } from '../utils/logger';
 import { validateWhatsAppId } from '../utils/validation';
+import { subscriptionService, type OwnerPlan } from './subscription';
+import { portService } from './port';
+import { queuePriorityService, type PriorityPolicy } from './queue-priority';
+import { queueHistoryService, type ReplayedEntry } from './queue-history';
+import { issueReportService, type IssueResult, type IssueStatus } from './issue-report';
+import type { IssueReport, QueueEvent, StationPort } from '../db/schema';
 
 // ===============================================
 // INTERFACES
@@ -21,6 +27,7 @@ export interface OwnerStation {
   todayRevenue: number;
   connectorTypes: any;
   operatingHours: any;
+  isLocked: boolean;            // Beyond the plan's station limit - visible but not manageable
 }
 
 export interface StationAnalytics {
@@ -32,6 +39,21 @@ export interface StationAnalytics {
   averageSessionDuration: number;
 }
 
+export interface OwnerAnalyticsWindow {
+  days: number;                 // Window actually used after plan clamping
+  requestedDays: number;
+  planLabel: string;
+  stationCount: number;
+  sessions: number;
+  revenue: number;
+  energy: number;
+  averageSessionDuration: number;
+}
+
+// Owner timelines go over WhatsApp - keep them to the last few hours and one message
+const QUEUE_TIMELINE_WINDOW_MS = 6 * 60 * 60 * 1000;
+const QUEUE_TIMELINE_MAX_EVENTS = 30;
+
 // ===============================================
 // OWNER STATION SERVICE - FIXED
 // ===============================================
@@ -64,6 +86,8 @@ export class OwnerStationService {
         .where(eq(chargingStations.ownerWhatsappId, whatsappId)) // FIXED: Direct WhatsApp ID match
         .orderBy(desc(chargingStations.createdAt));
 
+      const manageableIds = await this.getManageableStationIds(whatsappId);
+
       // Enhance with real-time data
       const enhancedStations = await Promise.all(
         stations.map(async (station) => {
@@ -84,7 +108,8 @@ export class OwnerStationService {
             connectorTypes: station.connectorTypes,
             operatingHours: station.operatingHours,
             queueLength: queueCount,
-            todayRevenue
+            todayRevenue,
+            isLocked: !manageableIds.has(station.id)
           };
         })
       );
@@ -123,6 +148,12 @@ export class OwnerStationService {
         return false;
       }
 
+      const manageableIds = await this.getManageableStationIds(ownerWhatsappId);
+      if (!manageableIds.has(stationId)) {
+        logger.warn('Station beyond plan limit, toggle refused', { stationId, ownerWhatsappId });
+        return false;
+      }
+
       // Toggle status
       const newStatus = !station.isActive;
       
@@ -149,6 +180,127 @@ export class OwnerStationService {
     }
   }
 
+  /**
+   * Ports of a station the owner can manage - null when not theirs or beyond the plan limit
+   */
+  async getStationPorts(stationId: number, ownerWhatsappId: string): Promise<StationPort[] | null> {
+    try {
+      if (!await this.canManageStation(stationId, ownerWhatsappId)) return null;
+      return await portService.getStationPorts(stationId);
+    } catch (error) {
+      logger.error('Failed to get station ports', { stationId, ownerWhatsappId, error });
+      return null;
+    }
+  }
+
+  /**
+   * Take a port out of service or bring it back
+   */
+  async setPortOnline(
+    stationId: number,
+    portNumber: number,
+    online: boolean,
+    ownerWhatsappId: string
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      if (!await this.canManageStation(stationId, ownerWhatsappId)) {
+        return { success: false, error: `Station #${stationId} not found or beyond your plan's station limit` };
+      }
+      return await portService.setPortStatus(stationId, portNumber, online ? 'available' : 'offline');
+    } catch (error) {
+      logger.error('Failed to set port status', { stationId, portNumber, ownerWhatsappId, error });
+      return { success: false, error: 'Could not update the port' };
+    }
+  }
+
+  /**
+   * Queue priority policy of a station the owner can manage
+   */
+  async getPriorityPolicy(stationId: number, ownerWhatsappId: string): Promise<PriorityPolicy | null> {
+    try {
+      if (!await this.canManageStation(stationId, ownerWhatsappId)) return null;
+      return await queuePriorityService.getPolicy(stationId);
+    } catch (error) {
+      logger.error('Failed to get priority policy', { stationId, ownerWhatsappId, error });
+      return null;
+    }
+  }
+
+  async updatePriorityPolicy(
+    stationId: number,
+    change: Partial<PriorityPolicy>,
+    ownerWhatsappId: string
+  ): Promise<PriorityPolicy | null> {
+    try {
+      if (!await this.canManageStation(stationId, ownerWhatsappId)) return null;
+      return await queuePriorityService.updatePolicy(stationId, change);
+    } catch (error) {
+      logger.error('Failed to update priority policy', { stationId, ownerWhatsappId, error });
+      return null;
+    }
+  }
+
+  /**
+   * Queue history for disputes - events in the window before `at`, and the queue as it stood then
+   */
+  async getQueueTimeline(
+    stationId: number,
+    ownerWhatsappId: string,
+    at: Date = new Date()
+  ): Promise<{ events: QueueEvent[]; queue: ReplayedEntry[] } | null> {
+    try {
+      if (!await this.canManageStation(stationId, ownerWhatsappId)) return null;
+
+      const [events, queue] = await Promise.all([
+        queueHistoryService.getTimeline(stationId, {
+          since: new Date(at.getTime() - QUEUE_TIMELINE_WINDOW_MS),
+          until: at,
+          limit: QUEUE_TIMELINE_MAX_EVENTS,
+        }),
+        queueHistoryService.replay(stationId, at),
+      ]);
+
+      return { events, queue: queue ?? [] };
+    } catch (error) {
+      logger.error('Failed to get queue timeline', { stationId, ownerWhatsappId, error });
+      return null;
+    }
+  }
+
+  /**
+   * Open issue tickets at a station the owner can manage
+   */
+  async getStationIssues(stationId: number, ownerWhatsappId: string): Promise<IssueReport[] | null> {
+    try {
+      if (!await this.canManageStation(stationId, ownerWhatsappId)) return null;
+      return await issueReportService.getStationIssues(stationId);
+    } catch (error) {
+      logger.error('Failed to get station issues', { stationId, ownerWhatsappId, error });
+      return null;
+    }
+  }
+
+  /**
+   * Acknowledge, resolve or dismiss a ticket raised at one of the owner's stations
+   */
+  async updateIssueStatus(
+    reportId: number,
+    status: Exclude<IssueStatus, 'open'>,
+    ownerWhatsappId: string,
+    note?: string
+  ): Promise<IssueResult> {
+    try {
+      const report = await issueReportService.getReport(reportId);
+      if (!report || !await this.canManageStation(report.stationId, ownerWhatsappId)) {
+        return { success: false, error: `Ticket #${reportId} not found at your stations` };
+      }
+      return await issueReportService.updateStatus(reportId, status, ownerWhatsappId, note);
+    } catch (error) {
+      logger.error('Failed to update issue status', { reportId, status, ownerWhatsappId, error });
+      return { success: false, error: 'Could not update the ticket' };
+    }
+  }
+
   /**
    * Get station details for owner
    */
@@ -169,12 +321,18 @@ export class OwnerStationService {
         return null;
       }
 
+      const manageableIds = await this.getManageableStationIds(ownerWhatsappId);
+      if (!manageableIds.has(stationId)) {
+        return { ...station, isLocked: true };
+      }
+
       // Get analytics
       const analytics = await this.getStationAnalytics(stationId);
 
       return {
         ...station,
-        ...analytics
+        ...analytics,
+        isLocked: false
       };
 
     } catch (error) {
@@ -235,6 +393,70 @@ export class OwnerStationService {
     }
   }
 
+  /**
+   * Totals across the owner's manageable stations - window clamped to the plan's analytics depth
+   */
+  async getOwnerAnalytics(whatsappId: string, requestedDays: number): Promise<OwnerAnalyticsWindow> {
+    const plan = await subscriptionService.getOwnerPlan(whatsappId);
+    const days = subscriptionService.getAnalyticsDays(plan, requestedDays);
+    const window: OwnerAnalyticsWindow = {
+      days,
+      requestedDays,
+      planLabel: plan.limits.label,
+      stationCount: 0,
+      sessions: 0,
+      revenue: 0,
+      energy: 0,
+      averageSessionDuration: 0
+    };
+
+    try {
+      const stationIds = [...await this.getManageableStationIds(whatsappId, plan)];
+      window.stationCount = stationIds.length;
+      if (stationIds.length === 0) return window;
+
+      // Day 1 is today, so a 7-day window starts six midnights ago
+      const since = new Date();
+      since.setHours(0, 0, 0, 0);
+      since.setDate(since.getDate() - (days - 1));
+
+      const sessions = await db
+        .select({
+          totalCost: chargingSessions.totalCost,
+          energyDelivered: chargingSessions.energyDelivered,
+          startTime: chargingSessions.startTime,
+          endTime: chargingSessions.endTime
+        })
+        .from(chargingSessions)
+        .where(
+          and(
+            inArray(chargingSessions.stationId, stationIds),
+            gte(chargingSessions.startTime, since),
+            eq(chargingSessions.status, 'completed')
+          )
+        );
+
+      let totalMinutes = 0;
+      for (const session of sessions) {
+        window.revenue += parseFloat(session.totalCost?.toString() || '0');
+        window.energy += parseFloat(session.energyDelivered?.toString() || '0');
+        if (session.startTime && session.endTime) {
+          totalMinutes += (session.endTime.getTime() - session.startTime.getTime()) / (1000 * 60);
+        }
+      }
+
+      window.sessions = sessions.length;
+      window.revenue = Math.round(window.revenue);
+      window.energy = Math.round(window.energy * 100) / 100;
+      window.averageSessionDuration = sessions.length ? Math.round(totalMinutes / sessions.length) : 0;
+
+      return window;
+    } catch (error) {
+      logger.error('Failed to get owner analytics', { whatsappId, days, error });
+      return window;
+    }
+  }
+
   /**
    * Get owner quick stats for dashboard
    */
@@ -469,6 +691,29 @@ export class OwnerStationService {
     }
   }
 
+  /**
+   * Stations the plan lets the owner manage - oldest first, so a lapsed plan
+   * keeps the original station and locks the ones added later
+   */
+  private async getManageableStationIds(ownerWhatsappId: string, plan?: OwnerPlan): Promise<Set<number>> {
+    const ownerPlan = plan ?? await subscriptionService.getOwnerPlan(ownerWhatsappId);
+
+    const stations = await db
+      .select({ id: chargingStations.id })
+      .from(chargingStations)
+      .where(eq(chargingStations.ownerWhatsappId, ownerWhatsappId))
+      .orderBy(asc(chargingStations.createdAt), asc(chargingStations.id))
+      .limit(ownerPlan.limits.maxStations);
+
+    return new Set(stations.map(station => station.id));
+  }
+
+  private async canManageStation(stationId: number, ownerWhatsappId: string): Promise<boolean> {
+    if (!await this.verifyStationOwnership(stationId, ownerWhatsappId)) return false;
+    const manageableIds = await this.getManageableStationIds(ownerWhatsappId);
+    return manageableIds.has(stationId);
+  }
+
   /**
    * Verify station ownership
    */
@@ -0,0 +1,62 @@
+// src/services/payment/gateway.ts - PLUGGABLE PAYMENT GATEWAY CONTRACT
+
+// ===============================================
+// TYPES & INTERFACES
+// ===============================================
+
+export interface PaymentLinkRequest {
+  referenceId: string;          // Our paymentId
+  amount: number;               // In rupees
+  currency: string;
+  description: string;
+  customerWhatsapp: string;
+  customerName?: string;
+  expiresAt: Date;
+}
+
+export interface PaymentLink {
+  linkId: string;
+  shortUrl: string;
+  upiUrl?: string;
+  expiresAt: Date;
+  raw: Record<string, unknown>;
+}
+
+export type GatewayPaymentStatus = 'paid' | 'partially_paid' | 'failed' | 'expired' | 'cancelled';
+
+export interface GatewayCallbackEvent {
+  linkId: string;
+  referenceId?: string;
+  status: GatewayPaymentStatus;
+  amountPaid?: number;          // In rupees
+  transactionId?: string;
+  method?: string;
+  raw: Record<string, unknown>;
+}
+
+export interface RefundRequest {
+  paymentId: string;            // Our paymentId
+  transactionId?: string;       // Gateway payment/transaction ID
+  amount: number;               // In rupees
+  reason: string;
+}
+
+export interface RefundResult {
+  refundId: string;
+  status: string;
+  raw: Record<string, unknown>;
+}
+
+/**
+ * Contract every payment provider must implement
+ */
+export interface PaymentGateway {
+  readonly name: string;
+  readonly signatureHeader: string;
+
+  createPaymentLink(request: PaymentLinkRequest): Promise<PaymentLink>;
+  cancelPaymentLink(linkId: string): Promise<void>;
+  verifyCallbackSignature(rawBody: string, signature: string): boolean;
+  parseCallback(payload: unknown): GatewayCallbackEvent | null;
+  refundPayment(request: RefundRequest): Promise<RefundResult>;
+}
@@ -0,0 +1,18 @@
+// Types
+export type {
+  PaymentGateway,
+  PaymentLink,
+  PaymentLinkRequest,
+  GatewayCallbackEvent,
+  GatewayPaymentStatus,
+  RefundRequest,
+  RefundResult,
+} from './gateway';
+export type { CallbackResult } from './payment-service';
+export type { RefundCommand, RefundOutcome } from './refund-service';
+
+// Gateways & service
+export { FakePaymentGateway } from './fake-gateway';
+export { RazorpayPaymentGateway } from './razorpay-gateway';
+export { paymentService } from './payment-service';
+export { refundService } from './refund-service';
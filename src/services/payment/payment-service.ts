@@ -0,0 +1,1005 @@
+// src/services/payment/payment-service.ts - SESSION PAYMENT COLLECTION
+import { db } from '../../config/database';
+import {
+  payments,
+  paymentLinks,
+  chargingSessions,
+  chargingStations,
+  users,
+  fleetAccounts,
+  fleetVehicles,
+  fleetInvoices,
+  type Payment,
+  type FleetInvoice,
+  type WalletTransaction,
+} from '../../db/schema';
+import { eq, and, desc, lt, or, inArray, notInArray, isNull, isNotNull, sql } from 'drizzle-orm';
+import { getPaymentConfig } from '../../config/env';
+import { logger } from '../../utils/logger';
+import { whatsappService } from '../whatsapp';
+import { walletService, type PostingResult } from '../wallet';
+import { FakePaymentGateway } from './fake-gateway';
+import { RazorpayPaymentGateway } from './razorpay-gateway';
+import type { PaymentGateway, GatewayCallbackEvent } from './gateway';
+
+// ===============================================
+// TYPES & INTERFACES
+// ===============================================
+
+export interface CallbackResult {
+  ok: boolean;
+  httpStatus: number;
+  message: string;
+  paymentId?: string;
+}
+
+// Payment statuses that still need collecting - a part-paid link stays open for the balance
+const OPEN_STATUSES = ['pending', 'failed', 'partially_paid'];
+
+// Payment statuses gateway callbacks may no longer change
+const TERMINAL_STATUSES = ['paid', 'expired', 'partially_refunded', 'refunded'];
+
+// Wallet top-up limits (INR)
+const MIN_TOPUP = 50;
+const MAX_TOPUP = 10000;
+
+// Billing asks for payment right away - a session still without one after this was dropped
+const MISSING_PAYMENT_GRACE_MS = 10 * 60 * 1000;
+
+// ===============================================
+// PAYMENT SERVICE
+// ===============================================
+
+class PaymentService {
+  private gateway: PaymentGateway | null = null;
+
+  /**
+   * Resolve configured gateway (lazy, so env is read once)
+   */
+  getGateway(): PaymentGateway {
+    if (this.gateway) return this.gateway;
+
+    const config = getPaymentConfig();
+
+    if (config.gateway === 'razorpay') {
+      const { keyId, keySecret, webhookSecret } = config.razorpay;
+      if (!keyId || !keySecret || !webhookSecret) {
+        throw new Error('Razorpay gateway selected but RAZORPAY_* credentials are missing');
+      }
+      this.gateway = new RazorpayPaymentGateway({ keyId, keySecret, webhookSecret });
+    } else {
+      this.gateway = new FakePaymentGateway({
+        secret: config.fakeGatewaySecret,
+        upiVpa: config.upiVpa,
+        baseUrl: config.callbackBaseUrl,
+      });
+    }
+
+    logger.info('💳 Payment gateway initialized', { gateway: this.gateway.name });
+    return this.gateway;
+  }
+
+  // ===============================================
+  // PAYMENT REQUEST
+  // ===============================================
+
+  /**
+   * Create payment for a completed session and send UPI link to the user
+   */
+  async requestSessionPayment(sessionId: string): Promise<Payment | null> {
+    try {
+      const [session] = await db
+        .select()
+        .from(chargingSessions)
+        .where(eq(chargingSessions.sessionId, sessionId))
+        .limit(1);
+
+      if (!session || session.status !== 'completed') {
+        logger.warn('Payment requested for non-completed session', { sessionId, status: session?.status });
+        return null;
+      }
+
+      if (session.paymentStatus === 'paid') {
+        logger.info('Session already paid, skipping payment request', { sessionId });
+        return null;
+      }
+
+      const amount = parseFloat(session.totalCost || '0');
+      if (isNaN(amount) || amount <= 0) {
+        await this.updateSessionPaymentStatus(sessionId, 'paid');
+        return null;
+      }
+
+      // Fleet drivers are billed on the fleet's consolidated invoice instead
+      const fleetPayment = await this.billToFleet(sessionId, session.userWhatsapp, session.stationId, amount);
+      if (fleetPayment) return fleetPayment;
+
+      // Prepaid wallet settles the bill when the balance covers it
+      const walletPayment = await this.payFromWallet(sessionId, session.userWhatsapp, session.stationId, amount);
+      if (walletPayment) return walletPayment;
+
+      // Reuse open payment for this session (idempotent on re-delivery)
+      const [existing] = await db
+        .select()
+        .from(payments)
+        .where(
+          and(
+            eq(payments.sessionId, sessionId),
+            inArray(payments.status, OPEN_STATUSES)
+          )
+        )
+        .orderBy(desc(payments.createdAt))
+        .limit(1);
+
+      // The balance of a part-paid link is collected on that same link
+      if (existing?.status === 'partially_paid') return existing;
+
+      const payment = existing || (await this.createPaymentRecord(
+        sessionId,
+        session.userWhatsapp,
+        session.stationId,
+        amount
+      ));
+
+      const issued = await this.issuePaymentLink(payment, false);
+      return issued || payment;
+
+    } catch (error) {
+      logger.error('Failed to request session payment', { sessionId, error });
+      return null;
+    }
+  }
+
+  /**
+   * Auto-debit the wallet for a session; null when there is no wallet or funds are short.
+   * The debit, the payment row and the session status commit together. Throws once money
+   * has moved, so the caller never falls back to a payment link for a paid session.
+   */
+  private async payFromWallet(
+    sessionId: string,
+    userWhatsapp: string,
+    stationId: number,
+    amount: number
+  ): Promise<Payment | null> {
+    let debit: PostingResult;
+    const paymentId = `pay_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+    try {
+      if (!(await walletService.hasWallet(userWhatsapp))) return null;
+
+      // A re-delivered completion finds the session already paid
+      const paid = await this.findWalletPayment(sessionId);
+      if (paid) return paid;
+
+      debit = await walletService.debitForSession(userWhatsapp, amount, sessionId, transactionId => [
+        sql`
+          INSERT INTO payments (payment_id, session_id, user_whatsapp, station_id, amount, currency,
+                                status, method, gateway, gateway_transaction_id, paid_at)
+          SELECT ${paymentId}, ${sessionId}, ${userWhatsapp}, ${stationId}, ${amount.toFixed(2)}, 'INR',
+                 'paid', 'wallet', 'wallet', t.transaction_id, NOW()
+          FROM wallet_transactions t
+          WHERE t.transaction_id = ${transactionId}
+        `,
+        sql`
+          UPDATE charging_sessions SET payment_status = 'paid', updated_at = NOW()
+          WHERE session_id = ${sessionId}
+            AND EXISTS (SELECT 1 FROM wallet_transactions WHERE transaction_id = ${transactionId})
+        `,
+      ]);
+    } catch (error) {
+      // The batch is one transaction - nothing was debited
+      logger.error('Wallet auto-debit failed', { sessionId, error });
+      return null;
+    }
+
+    if (!debit.transaction) {
+      logger.info('👛 Wallet balance too low, falling back to payment link', { sessionId, amount });
+      return null;
+    }
+
+    // An earlier debit for this session is a payment, whatever happened to its row
+    const payment = debit.created
+      ? await this.findWalletPayment(sessionId)
+      : await this.recordEarlierWalletDebit(debit.transaction, stationId);
+    if (!payment) {
+      throw new Error(`Wallet debit ${debit.transaction.transactionId} for session ${sessionId} has no payment row`);
+    }
+    if (!debit.created) return payment;
+
+    const balance = await walletService.getBalance(userWhatsapp);
+    await whatsappService.sendTextMessage(
+      userWhatsapp,
+      `✅ *Paid from Wallet*\n\n` +
+      `💰 ₹${amount.toFixed(2)} debited\n` +
+      `👛 *Balance:* ₹${balance.toFixed(2)}\n` +
+      `🧾 Ref: ${payment.paymentId}`
+    );
+
+    logger.info('👛 Session paid from wallet', { sessionId, paymentId: payment.paymentId, amount, balance });
+    return payment;
+  }
+
+  private async findWalletPayment(sessionId: string): Promise<Payment | null> {
+    const [payment] = await db
+      .select()
+      .from(payments)
+      .where(and(eq(payments.sessionId, sessionId), eq(payments.method, 'wallet')))
+      .limit(1);
+    return payment || null;
+  }
+
+  /**
+   * Debits posted before the payment row shared their transaction get the row now
+   */
+  private async recordEarlierWalletDebit(debit: WalletTransaction, stationId: number): Promise<Payment | null> {
+    const sessionId = debit.reference;
+    const existing = await this.findWalletPayment(sessionId);
+    if (existing) return existing;
+
+    const [[payment]] = await db.batch([
+      db.insert(payments)
+        .values({
+          paymentId: `pay_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+          sessionId,
+          userWhatsapp: debit.userWhatsapp,
+          stationId,
+          amount: debit.amount,
+          currency: 'INR',
+          status: 'paid',
+          method: 'wallet',
+          gateway: 'wallet',
+          gatewayTransactionId: debit.transactionId,
+          paidAt: debit.createdAt ?? new Date(),
+        })
+        .returning(),
+      db.update(chargingSessions)
+        .set({ paymentStatus: 'paid', updatedAt: new Date() })
+        .where(eq(chargingSessions.sessionId, sessionId)),
+    ]);
+
+    logger.warn('👛 Recorded payment for an earlier wallet debit', { sessionId, transactionId: debit.transactionId });
+    return payment;
+  }
+
+  /**
+   * Park a fleet driver's session on the fleet's next invoice; null when the driver
+   * isn't in a fleet with consolidated billing
+   */
+  private async billToFleet(
+    sessionId: string,
+    userWhatsapp: string,
+    stationId: number,
+    amount: number
+  ): Promise<Payment | null> {
+    try {
+      const [fleet] = await db
+        .select({ id: fleetAccounts.id, name: fleetAccounts.name })
+        .from(fleetVehicles)
+        .innerJoin(fleetAccounts, eq(fleetVehicles.fleetAccountId, fleetAccounts.id))
+        .where(
+          and(
+            eq(fleetVehicles.driverWhatsapp, userWhatsapp),
+            eq(fleetVehicles.status, 'active'),
+            eq(fleetAccounts.status, 'active'),
+            eq(fleetAccounts.consolidatedBilling, true)
+          )
+        )
+        .limit(1);
+
+      if (!fleet) return null;
+
+      // A re-delivered completion finds the session already billed
+      const [billed] = await db
+        .select()
+        .from(payments)
+        .where(and(eq(payments.sessionId, sessionId), eq(payments.method, 'fleet_account')))
+        .limit(1);
+      if (billed) return billed;
+
+      const paymentId = `pay_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+      const [[payment]] = await db.batch([
+        db.insert(payments)
+          .values({
+            paymentId,
+            sessionId,
+            userWhatsapp,
+            stationId,
+            amount: amount.toFixed(2),
+            currency: 'INR',
+            status: 'billed_to_fleet',
+            method: 'fleet_account',
+            gateway: 'fleet',
+            fleetAccountId: fleet.id,
+          })
+          .returning(),
+        db.update(chargingSessions)
+          .set({ paymentStatus: 'billed_to_fleet', updatedAt: new Date() })
+          .where(eq(chargingSessions.sessionId, sessionId)),
+      ]);
+
+      await whatsappService.sendTextMessage(
+        userWhatsapp,
+        `🚚 *Billed to ${fleet.name}*
+
+` +
+        `💰 ₹${amount.toFixed(2)} goes on your fleet's invoice - nothing to pay.
+` +
+        `🧾 Ref: ${paymentId}`
+      );
+
+      logger.info('🚚 Session billed to fleet', { sessionId, paymentId, fleetId: fleet.id, amount });
+      return payment;
+
+    } catch (error) {
+      logger.error('Fleet billing failed', { sessionId, error });
+      return null;
+    }
+  }
+
+  /**
+   * Collect a fleet invoice - one payment link to the fleet manager for every session on it
+   */
+  async requestFleetInvoicePayment(invoice: FleetInvoice, managerWhatsappId: string): Promise<Payment | null> {
+    try {
+      const paymentId = `pay_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+      const [payment] = await db
+        .insert(payments)
+        .values({
+          paymentId,
+          purpose: 'fleet_invoice',
+          userWhatsapp: managerWhatsappId,
+          amount: parseFloat(invoice.totalAmount).toFixed(2),
+          currency: 'INR',
+          status: 'pending',
+          gateway: this.getGateway().name,
+          fleetAccountId: invoice.fleetAccountId,
+          fleetInvoiceNumber: invoice.invoiceNumber,
+        })
+        .returning();
+
+      logger.info('🧾 Fleet invoice payment requested', { paymentId, invoiceNumber: invoice.invoiceNumber });
+
+      return (await this.issuePaymentLink(payment, false)) || payment;
+
+    } catch (error) {
+      logger.error('Failed to request fleet invoice payment', { invoiceNumber: invoice.invoiceNumber, error });
+      return null;
+    }
+  }
+
+  /**
+   * Start a wallet top-up and send the payment link
+   */
+  async requestWalletTopUp(userWhatsapp: string, amount: number): Promise<{ success: boolean; error?: string }> {
+    if (isNaN(amount) || amount < MIN_TOPUP || amount > MAX_TOPUP) {
+      return { success: false, error: `Top-up amount must be between ₹${MIN_TOPUP} and ₹${MAX_TOPUP}` };
+    }
+
+    try {
+      const paymentId = `pay_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+      const [payment] = await db
+        .insert(payments)
+        .values({
+          paymentId,
+          purpose: 'wallet_topup',
+          userWhatsapp,
+          amount: amount.toFixed(2),
+          currency: 'INR',
+          status: 'pending',
+          gateway: this.getGateway().name,
+        })
+        .returning();
+
+      logger.info('👛 Wallet top-up requested', { paymentId, userWhatsapp, amount });
+
+      const issued = await this.issuePaymentLink(payment, false);
+      return issued
+        ? { success: true }
+        : { success: false, error: 'Could not create a payment link. Please try again.' };
+
+    } catch (error) {
+      logger.error('Failed to request wallet top-up', { userWhatsapp, amount, error });
+      return { success: false, error: 'Could not start the top-up. Please try again.' };
+    }
+  }
+
+  /**
+   * Insert pending payment row
+   */
+  private async createPaymentRecord(
+    sessionId: string,
+    userWhatsapp: string,
+    stationId: number,
+    amount: number
+  ): Promise<Payment> {
+    const paymentId = `pay_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+    const [payment] = await db
+      .insert(payments)
+      .values({
+        paymentId,
+        sessionId,
+        userWhatsapp,
+        stationId,
+        amount: amount.toFixed(2),
+        currency: 'INR',
+        status: 'pending',
+        gateway: this.getGateway().name,
+      })
+      .returning();
+
+    logger.info('💳 Payment record created', { paymentId, sessionId, amount });
+    return payment;
+  }
+
+  /**
+   * Generate a fresh gateway link and deliver it over WhatsApp
+   */
+  private async issuePaymentLink(payment: Payment, isRetry: boolean): Promise<Payment | null> {
+    const config = getPaymentConfig();
+    const gateway = this.getGateway();
+
+    try {
+      const [station] = payment.stationId
+        ? await db
+          .select({ name: chargingStations.name })
+          .from(chargingStations)
+          .where(eq(chargingStations.id, payment.stationId))
+          .limit(1)
+        : [];
+
+      const [user] = await db
+        .select({ name: users.name })
+        .from(users)
+        .where(eq(users.whatsappId, payment.userWhatsapp))
+        .limit(1);
+
+      // The link being replaced must stop taking money
+      if (payment.paymentLinkId) {
+        await this.cancelLink(payment.paymentLinkId);
+      }
+
+      const amount = parseFloat(payment.amount);
+      const expiresAt = new Date(Date.now() + config.linkExpiryMinutes * 60 * 1000);
+
+      const link = await gateway.createPaymentLink({
+        referenceId: payment.paymentId,
+        amount,
+        currency: payment.currency || 'INR',
+        description: payment.purpose === 'wallet_topup'
+          ? 'SharaSpot wallet top-up'
+          : payment.purpose === 'fleet_invoice'
+            ? `SharaSpot fleet invoice ${payment.fleetInvoiceNumber}`
+            : `EV charging at ${station?.name || 'SharaSpot station'}`,
+        customerWhatsapp: payment.userWhatsapp,
+        customerName: user?.name || undefined,
+        expiresAt,
+      });
+
+      const [[updated]] = await db.batch([
+        db.update(payments)
+          .set({
+            status: 'pending',
+            gateway: gateway.name,
+            paymentLinkId: link.linkId,
+            paymentLinkUrl: link.shortUrl,
+            attempts: sql`COALESCE(${payments.attempts}, 0) + 1`,
+            lastAttemptAt: new Date(),
+            expiresAt: link.expiresAt,
+            gatewayResponse: link.raw,
+            updatedAt: new Date(),
+          })
+          .where(eq(payments.id, payment.id))
+          .returning(),
+        db.insert(paymentLinks)
+          .values({ paymentId: payment.paymentId, linkId: link.linkId, gateway: gateway.name }),
+      ]);
+
+      await this.sendPaymentLinkMessage(updated, link.shortUrl, link.upiUrl, station?.name, isRetry);
+      return updated;
+
+    } catch (error) {
+      logger.error('Failed to issue payment link', {
+        paymentId: payment.paymentId,
+        gateway: gateway.name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+
+      await db
+        .update(payments)
+        .set({
+          status: 'failed',
+          attempts: sql`COALESCE(${payments.attempts}, 0) + 1`,
+          lastAttemptAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(eq(payments.id, payment.id));
+
+      return null;
+    }
+  }
+
+  /**
+   * Best effort - a link that was paid or expired in the meantime refuses to cancel,
+   * and its callback still finds the payment through the link history
+   */
+  private async cancelLink(linkId: string): Promise<void> {
+    try {
+      await this.getGateway().cancelPaymentLink(linkId);
+      await db
+        .update(paymentLinks)
+        .set({ cancelledAt: new Date() })
+        .where(eq(paymentLinks.linkId, linkId));
+    } catch (error) {
+      logger.warn('Could not cancel payment link', {
+        linkId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private async sendPaymentLinkMessage(
+    payment: Payment,
+    shortUrl: string,
+    upiUrl: string | undefined,
+    stationName: string | undefined,
+    isRetry: boolean
+  ): Promise<void> {
+    const expiryText = payment.expiresAt
+      ? payment.expiresAt.toLocaleTimeString('en-IN', { hour: '2-digit', minute: '2-digit' })
+      : 'soon';
+
+    const isTopUp = payment.purpose === 'wallet_topup';
+    const isFleetInvoice = payment.purpose === 'fleet_invoice';
+    const heading = isTopUp
+      ? '👛 *Wallet Top-up*'
+      : isRetry ? '🔁 *Payment Reminder*' : isFleetInvoice ? '🧾 *Fleet Invoice Due*' : '💳 *Payment Due*';
+
+    const message = `${heading}\n\n` +
+      (isTopUp ? '' : isFleetInvoice ? `🚚 Invoice ${payment.fleetInvoiceNumber} - type "fleet" for details\n` : `📍 ${stationName || 'Charging Station'}\n`) +
+      `💰 *Amount:* ₹${parseFloat(payment.amount).toFixed(2)}\n` +
+      `🧾 *Ref:* ${payment.paymentId}\n\n` +
+      `👉 *Pay via UPI:* ${shortUrl}\n` +
+      (upiUrl ? `📱 *UPI App:* ${upiUrl}\n` : '') +
+      `\n⏰ Link valid till ${expiryText}`;
+
+    await whatsappService.sendTextMessage(payment.userWhatsapp, message);
+  }
+
+  // ===============================================
+  // GATEWAY CALLBACKS
+  // ===============================================
+
+  /**
+   * Verify and apply a gateway callback
+   */
+  async handleGatewayCallback(
+    gatewayName: string,
+    rawBody: string,
+    signature: string
+  ): Promise<CallbackResult> {
+    const gateway = this.getGateway();
+
+    if (gatewayName !== gateway.name) {
+      logger.warn('Callback for inactive gateway rejected', { gatewayName, active: gateway.name });
+      return { ok: false, httpStatus: 404, message: 'Unknown gateway' };
+    }
+
+    if (!gateway.verifyCallbackSignature(rawBody, signature)) {
+      logger.warn('⚠️ Payment callback signature mismatch', { gateway: gatewayName });
+      return { ok: false, httpStatus: 401, message: 'Invalid signature' };
+    }
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(rawBody);
+    } catch {
+      return { ok: false, httpStatus: 400, message: 'Malformed payload' };
+    }
+
+    const event = gateway.parseCallback(payload);
+    if (!event) {
+      // Signed but irrelevant event - acknowledge so the gateway stops retrying
+      return { ok: true, httpStatus: 200, message: 'Event ignored' };
+    }
+
+    return this.applyCallbackEvent(event);
+  }
+
+  private async applyCallbackEvent(event: GatewayCallbackEvent): Promise<CallbackResult> {
+    const payment = await this.findPaymentByLink(event.linkId);
+
+    if (!payment) {
+      logger.warn('Callback for unknown payment link', { linkId: event.linkId });
+      return { ok: false, httpStatus: 404, message: 'Payment not found' };
+    }
+
+    if (event.referenceId && event.referenceId !== payment.paymentId) {
+      logger.warn('Callback reference mismatch', { linkId: event.linkId, referenceId: event.referenceId });
+      return { ok: false, httpStatus: 400, message: 'Reference mismatch' };
+    }
+
+    // Idempotency - terminal states are never overwritten
+    if (TERMINAL_STATUSES.includes(payment.status || '')) {
+      return { ok: true, httpStatus: 200, message: 'Already processed', paymentId: payment.paymentId };
+    }
+
+    // A replaced link only matters if the driver still paid on it
+    const supersededLink = event.linkId !== payment.paymentLinkId;
+    if (supersededLink && event.status !== 'paid' && event.status !== 'partially_paid') {
+      return { ok: true, httpStatus: 200, message: 'Superseded link event ignored', paymentId: payment.paymentId };
+    }
+
+    const amount = parseFloat(payment.amount);
+    let status: string = event.status;
+    if (event.status === 'paid' && event.amountPaid !== undefined && event.amountPaid + 0.01 < amount) {
+      status = 'partially_paid';
+    }
+    if (event.status === 'cancelled') status = 'failed';
+
+    const now = new Date();
+
+    if (status === 'expired') {
+      // Let the retry policy decide whether to re-issue or give up
+      await db
+        .update(payments)
+        .set({ expiresAt: now, gatewayResponse: event.raw, updatedAt: now })
+        .where(eq(payments.id, payment.id));
+      await this.retryOrExpire({ ...payment, expiresAt: now });
+      return { ok: true, httpStatus: 200, message: 'Expiry recorded', paymentId: payment.paymentId };
+    }
+
+    // Only one of several concurrent callbacks may move the payment - the rest see it settled
+    const stillOpen = and(
+      eq(payments.id, payment.id),
+      or(isNull(payments.status), notInArray(payments.status, TERMINAL_STATUSES))
+    );
+
+    const paymentUpdate = db.update(payments)
+      .set({
+        status,
+        method: event.method || payment.method,
+        gatewayTransactionId: event.transactionId || payment.gatewayTransactionId,
+        gatewayResponse: event.raw,
+        paidAt: status === 'paid' ? now : payment.paidAt,
+        // The link that took the money becomes the payment's link
+        paymentLinkId: event.linkId,
+        updatedAt: now,
+      })
+      .where(stillOpen)
+      .returning({ id: payments.id });
+
+    const [updated] = payment.sessionId
+      ? (await db.batch([
+        paymentUpdate,
+        db.update(chargingSessions)
+          .set({ paymentStatus: status, updatedAt: now })
+          .where(
+            and(
+              eq(chargingSessions.sessionId, payment.sessionId),
+              sql`EXISTS (SELECT 1 FROM payments WHERE id = ${payment.id} AND status = ${status})`
+            )
+          ),
+      ]))[0]
+      : await paymentUpdate;
+
+    if (!updated) {
+      return { ok: true, httpStatus: 200, message: 'Already processed', paymentId: payment.paymentId };
+    }
+
+    if (supersededLink && payment.paymentLinkId) {
+      await this.cancelLink(payment.paymentLinkId);
+    }
+
+    if (payment.purpose === 'wallet_topup' && status === 'paid') {
+      await walletService.creditTopUp(payment.userWhatsapp, amount, payment.paymentId);
+    }
+
+    if (payment.purpose === 'fleet_invoice' && status === 'paid' && payment.fleetInvoiceNumber) {
+      await this.settleFleetInvoice(payment.fleetInvoiceNumber, now);
+    }
+
+    logger.info('💳 Payment status updated from gateway', {
+      paymentId: payment.paymentId,
+      sessionId: payment.sessionId,
+      status,
+      transactionId: event.transactionId,
+    });
+
+    await this.notifyPaymentOutcome(payment, status, event.amountPaid);
+    return { ok: true, httpStatus: 200, message: 'Payment updated', paymentId: payment.paymentId };
+  }
+
+  /**
+   * A paid fleet invoice pays every session on it - they count as captured from here,
+   * so owner settlements pick them up
+   */
+  private async settleFleetInvoice(invoiceNumber: string, paidAt: Date): Promise<void> {
+    const onInvoice = and(
+      eq(payments.fleetInvoiceNumber, invoiceNumber),
+      eq(payments.purpose, 'session'),
+      eq(payments.status, 'billed_to_fleet')
+    );
+
+    await db.batch([
+      db.update(chargingSessions)
+        .set({ paymentStatus: 'paid', updatedAt: paidAt })
+        .where(inArray(chargingSessions.sessionId, db.select({ sessionId: payments.sessionId }).from(payments).where(onInvoice))),
+      db.update(payments)
+        .set({ status: 'paid', paidAt, updatedAt: paidAt })
+        .where(onInvoice),
+      db.update(fleetInvoices)
+        .set({ status: 'paid', paidAt, updatedAt: paidAt })
+        .where(eq(fleetInvoices.invoiceNumber, invoiceNumber)),
+    ]);
+
+    logger.info('🧾 Fleet invoice settled', { invoiceNumber });
+  }
+
+  private async notifyPaymentOutcome(payment: Payment, status: string, amountPaid?: number): Promise<void> {
+    const amount = parseFloat(payment.amount).toFixed(2);
+
+    if (payment.purpose === 'wallet_topup' && status === 'paid') {
+      const balance = await walletService.getBalance(payment.userWhatsapp);
+      await whatsappService.sendTextMessage(
+        payment.userWhatsapp,
+        `✅ *Wallet Topped Up*\n\n💰 ₹${amount} added\n👛 *Balance:* ₹${balance.toFixed(2)}\n🧾 Ref: ${payment.paymentId}`
+      );
+      return;
+    }
+
+    if (payment.purpose === 'fleet_invoice' && status === 'paid') {
+      await whatsappService.sendTextMessage(
+        payment.userWhatsapp,
+        `✅ *Fleet Invoice Paid*\n\n💰 ₹${amount} for invoice ${payment.fleetInvoiceNumber}\n🧾 Ref: ${payment.paymentId}\n\n🙏 Thank you!`
+      );
+      return;
+    }
+
+    const messages: Record<string, string> = {
+      paid: `✅ *Payment Received*\n\n💰 ₹${amount} paid successfully\n🧾 Ref: ${payment.paymentId}\n\n🙏 Thank you for charging with SharaSpot!`,
+      partially_paid: `⚠️ *Partial Payment Received*\n\n💰 Paid: ₹${(amountPaid || 0).toFixed(2)} of ₹${amount}\n🧾 Ref: ${payment.paymentId}\n\nPlease complete the balance using the same link.`,
+      failed: `❌ *Payment Failed*\n\n💰 ₹${amount}\n🧾 Ref: ${payment.paymentId}\n\nNo money was deducted. We'll send you a fresh link shortly.`,
+    };
+
+    const message = messages[status];
+    if (message) {
+      await whatsappService.sendTextMessage(payment.userWhatsapp, message);
+    }
+  }
+
+  // ===============================================
+  // RETRIES & EXPIRY
+  // ===============================================
+
+  /**
+   * Re-issue expired/failed links until attempts run out, then expire
+   */
+  async processUnpaidPayments(): Promise<{ retried: number; expired: number }> {
+    const now = new Date();
+    const stats = { retried: 0, expired: 0 };
+
+    const due = await db
+      .select()
+      .from(payments)
+      .where(
+        or(
+          eq(payments.status, 'failed'),
+          and(inArray(payments.status, ['pending', 'partially_paid']), lt(payments.expiresAt, now))
+        )
+      )
+      .limit(50);
+
+    for (const payment of due) {
+      const outcome = await this.retryOrExpire(payment);
+      if (outcome === 'retried') stats.retried++;
+      if (outcome === 'expired') stats.expired++;
+    }
+
+    if (stats.retried || stats.expired) {
+      logger.info('💳 Unpaid payments processed', stats);
+    }
+    return stats;
+  }
+
+  /**
+   * Request payment for billed sessions that never got a payment row - e.g. the process
+   * stopped between storing the bill and asking for the money
+   */
+  async requestMissingSessionPayments(): Promise<number> {
+    const billedBefore = new Date(Date.now() - MISSING_PAYMENT_GRACE_MS);
+
+    const unrequested = await db
+      .select({ sessionId: chargingSessions.sessionId })
+      .from(chargingSessions)
+      .where(
+        and(
+          eq(chargingSessions.status, 'completed'),
+          isNotNull(chargingSessions.totalCost),
+          or(isNull(chargingSessions.paymentStatus), eq(chargingSessions.paymentStatus, 'pending')),
+          lt(chargingSessions.updatedAt, billedBefore),
+          sql`NOT EXISTS (SELECT 1 FROM payments p WHERE p.session_id = ${chargingSessions.sessionId})`
+        )
+      )
+      .limit(50);
+
+    let requested = 0;
+    for (const { sessionId } of unrequested) {
+      if (await this.requestSessionPayment(sessionId)) requested++;
+    }
+
+    if (unrequested.length > 0) {
+      logger.info('💳 Payments requested for billed sessions', { found: unrequested.length, requested });
+    }
+    return requested;
+  }
+
+  private async retryOrExpire(payment: Payment): Promise<'retried' | 'expired' | 'skipped'> {
+    const { maxAttempts } = getPaymentConfig();
+
+    try {
+      const now = new Date();
+
+      // Top-ups are optional - an unused link simply lapses
+      if (payment.purpose === 'wallet_topup') {
+        if (payment.paymentLinkId) await this.cancelLink(payment.paymentLinkId);
+        await db
+          .update(payments)
+          .set({ status: 'expired', updatedAt: now })
+          .where(eq(payments.id, payment.id));
+        await whatsappService.sendTextMessage(
+          payment.userWhatsapp,
+          `⏰ *Top-up Link Expired*\n\n💰 ₹${parseFloat(payment.amount).toFixed(2)} was not added.\nType "wallet" to try again.`
+        );
+        return 'expired';
+      }
+
+      // A part-paid link can't be re-issued for the full amount - the balance goes to support
+      if (payment.status !== 'partially_paid' && (payment.attempts || 0) < maxAttempts) {
+        const reissued = await this.issuePaymentLink(payment, true);
+        return reissued ? 'retried' : 'skipped';
+      }
+
+      if (payment.paymentLinkId) await this.cancelLink(payment.paymentLinkId);
+
+      const paymentUpdate = db.update(payments)
+        .set({ status: 'expired', updatedAt: now })
+        .where(eq(payments.id, payment.id));
+
+      if (payment.sessionId) {
+        await db.batch([
+          paymentUpdate,
+          db.update(chargingSessions)
+            .set({ paymentStatus: 'expired', updatedAt: now })
+            .where(eq(chargingSessions.sessionId, payment.sessionId)),
+        ]);
+      } else {
+        await paymentUpdate;
+      }
+
+      // An unpaid fleet invoice is dropped; its sessions go on the next one
+      if (payment.purpose === 'fleet_invoice' && payment.fleetInvoiceNumber) {
+        await db.batch([
+          db.update(payments)
+            .set({ fleetInvoiceNumber: null, updatedAt: now })
+            .where(
+              and(
+                eq(payments.fleetInvoiceNumber, payment.fleetInvoiceNumber),
+                eq(payments.purpose, 'session'),
+                eq(payments.status, 'billed_to_fleet')
+              )
+            ),
+          db.update(fleetInvoices)
+            .set({ status: 'expired', updatedAt: now })
+            .where(eq(fleetInvoices.invoiceNumber, payment.fleetInvoiceNumber)),
+        ]);
+
+        await whatsappService.sendTextMessage(
+          payment.userWhatsapp,
+          `⏰ *Fleet Invoice Overdue*\n\n` +
+          `💰 ₹${parseFloat(payment.amount).toFixed(2)} for invoice ${payment.fleetInvoiceNumber} is still unpaid.\n` +
+          `Its sessions move to your next invoice - type "fleet invoice" to get a fresh one now.`
+        );
+        return 'expired';
+      }
+
+      await whatsappService.sendTextMessage(
+        payment.userWhatsapp,
+        `⏰ *Payment Overdue*\n\n` +
+        `💰 ₹${parseFloat(payment.amount).toFixed(2)} for session ${payment.sessionId} is still unpaid.\n` +
+        `🧾 Ref: ${payment.paymentId}\n\n` +
+        `📞 Please contact support to settle this before your next booking.`
+      );
+
+      logger.warn('⏰ Payment expired after max attempts', {
+        paymentId: payment.paymentId,
+        sessionId: payment.sessionId,
+        attempts: payment.attempts,
+      });
+      return 'expired';
+
+    } catch (error) {
+      logger.error('Failed to process unpaid payment', { paymentId: payment.paymentId, error });
+      return 'skipped';
+    }
+  }
+
+  // ===============================================
+  // QUERIES & DEV HELPERS
+  // ===============================================
+
+  async getPaymentBySessionId(sessionId: string): Promise<Payment | null> {
+    try {
+      const [payment] = await db
+        .select()
+        .from(payments)
+        .where(eq(payments.sessionId, sessionId))
+        .orderBy(desc(payments.createdAt))
+        .limit(1);
+      return payment || null;
+    } catch (error) {
+      logger.error('Failed to get payment for session', { sessionId, error });
+      return null;
+    }
+  }
+
+  /**
+   * Callbacks name a link - the current one on the payment, or any link it was issued before
+   */
+  private async findPaymentByLink(linkId: string): Promise<Payment | null> {
+    const [current] = await db
+      .select()
+      .from(payments)
+      .where(eq(payments.paymentLinkId, linkId))
+      .limit(1);
+    if (current) return current;
+
+    const [earlier] = await db
+      .select({ payment: payments })
+      .from(paymentLinks)
+      .innerJoin(payments, eq(payments.paymentId, paymentLinks.paymentId))
+      .where(eq(paymentLinks.linkId, linkId))
+      .limit(1);
+    return earlier?.payment ?? null;
+  }
+
+  private async updateSessionPaymentStatus(sessionId: string, paymentStatus: string): Promise<void> {
+    await db
+      .update(chargingSessions)
+      .set({ paymentStatus, updatedAt: new Date() })
+      .where(eq(chargingSessions.sessionId, sessionId));
+  }
+
+  /**
+   * Simulate checkout on the fake gateway (non-production only)
+   */
+  async simulateFakePayment(linkId: string, status: 'paid' | 'failed' = 'paid'): Promise<CallbackResult> {
+    const gateway = this.getGateway();
+    if (!(gateway instanceof FakePaymentGateway)) {
+      return { ok: false, httpStatus: 404, message: 'Fake gateway not active' };
+    }
+
+    const payment = await this.findPaymentByLink(linkId);
+
+    if (!payment) {
+      return { ok: false, httpStatus: 404, message: 'Payment not found' };
+    }
+
+    const { rawBody, signature } = gateway.buildCallback(
+      linkId,
+      payment.paymentId,
+      parseFloat(payment.amount),
+      status
+    );
+    return this.handleGatewayCallback(gateway.name, rawBody, signature);
+  }
+}
+
+// ===============================================
+// SINGLETON EXPORT
+// ===============================================
+
+export const paymentService = new PaymentService();
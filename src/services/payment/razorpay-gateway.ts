@@ -0,0 +1,121 @@
+// src/services/payment/razorpay-gateway.ts - RAZORPAY PAYMENT LINKS (UPI)
+import Razorpay from 'razorpay';
+import { validateWebhookSignature } from 'razorpay/dist/utils/razorpay-utils';
+import { logger } from '../../utils/logger';
+import type {
+  PaymentGateway,
+  PaymentLink,
+  PaymentLinkRequest,
+  GatewayCallbackEvent,
+  GatewayPaymentStatus,
+  RefundRequest,
+  RefundResult,
+} from './gateway';
+
+interface RazorpayGatewayOptions {
+  keyId: string;
+  keySecret: string;
+  webhookSecret: string;
+}
+
+// Razorpay webhook events we act on
+const EVENT_STATUS: Record<string, GatewayPaymentStatus> = {
+  'payment_link.paid': 'paid',
+  'payment_link.partially_paid': 'partially_paid',
+  'payment_link.expired': 'expired',
+  'payment_link.cancelled': 'cancelled',
+  'payment.failed': 'failed',
+};
+
+export class RazorpayPaymentGateway implements PaymentGateway {
+  readonly name = 'razorpay';
+  readonly signatureHeader = 'x-razorpay-signature';
+  private readonly client: Razorpay;
+
+  constructor(private readonly options: RazorpayGatewayOptions) {
+    this.client = new Razorpay({ key_id: options.keyId, key_secret: options.keySecret });
+  }
+
+  async createPaymentLink(request: PaymentLinkRequest): Promise<PaymentLink> {
+    const link = await this.client.paymentLink.create({
+      upi_link: true,
+      amount: Math.round(request.amount * 100), // Paise
+      currency: request.currency,
+      reference_id: request.referenceId,
+      description: request.description,
+      expire_by: Math.floor(request.expiresAt.getTime() / 1000),
+      customer: {
+        name: request.customerName,
+        contact: `+${request.customerWhatsapp}`,
+      },
+      notify: { sms: false, email: false },
+      reminder_enable: false,
+      notes: { referenceId: request.referenceId },
+    });
+
+    logger.info('💳 Razorpay payment link created', { linkId: link.id, referenceId: request.referenceId });
+
+    return {
+      linkId: link.id,
+      shortUrl: link.short_url,
+      expiresAt: request.expiresAt,
+      raw: link as unknown as Record<string, unknown>,
+    };
+  }
+
+  async cancelPaymentLink(linkId: string): Promise<void> {
+    await this.client.paymentLink.cancel(linkId);
+    logger.info('💳 Razorpay payment link cancelled', { linkId });
+  }
+
+  verifyCallbackSignature(rawBody: string, signature: string): boolean {
+    if (!signature) return false;
+
+    try {
+      return validateWebhookSignature(rawBody, signature, this.options.webhookSecret);
+    } catch (error) {
+      logger.warn('Razorpay signature validation error', { error });
+      return false;
+    }
+  }
+
+  parseCallback(payload: unknown): GatewayCallbackEvent | null {
+    const data = payload as Record<string, any> | null;
+    const status = data?.event ? EVENT_STATUS[data.event] : undefined;
+    if (!status) return null;
+
+    const linkEntity = data?.payload?.payment_link?.entity;
+    const paymentEntity = data?.payload?.payment?.entity;
+    const linkId = linkEntity?.id || paymentEntity?.notes?.payment_link_id;
+    if (!linkId) return null;
+
+    return {
+      linkId,
+      referenceId: linkEntity?.reference_id,
+      status,
+      amountPaid: linkEntity?.amount_paid !== undefined ? Number(linkEntity.amount_paid) / 100 : undefined,
+      transactionId: paymentEntity?.id,
+      method: paymentEntity?.method,
+      raw: data as Record<string, unknown>,
+    };
+  }
+
+  async refundPayment(request: RefundRequest): Promise<RefundResult> {
+    if (!request.transactionId) {
+      throw new Error(`Payment ${request.paymentId} has no Razorpay payment ID to refund`);
+    }
+
+    const refund = await this.client.payments.refund(request.transactionId, {
+      amount: Math.round(request.amount * 100), // Paise
+      notes: { referenceId: request.paymentId, reason: request.reason.substring(0, 250) },
+    });
+
+    logger.info('💸 Razorpay refund created', { refundId: refund.id, paymentId: request.paymentId });
+
+    return {
+      refundId: refund.id,
+      status: refund.status,
+      raw: refund as unknown as Record<string, unknown>,
+    };
+  }
+}
@@ -0,0 +1,382 @@
+// src/services/payment/refund-service.ts - FULL & PARTIAL REFUNDS FOR DISPUTED SESSIONS
+import { db } from '../../config/database';
+import { payments, chargingSessions, chargingStations, admins, auditLogs, type Payment } from '../../db/schema';
+import { eq, and, sql } from 'drizzle-orm';
+import { logger } from '../../utils/logger';
+import { whatsappService } from '../whatsapp';
+import { notificationService } from '../notification';
+import { walletService, type PostingResult } from '../wallet';
+import { paymentService } from './payment-service';
+import type { RefundResult } from './gateway';
+
+// ===============================================
+// TYPES & INTERFACES
+// ===============================================
+
+export interface RefundCommand {
+  paymentId?: string;
+  sessionId?: string;
+  amount?: number;              // Omit for full remaining amount
+  reason: string;
+  actorWhatsappId: string;
+  actorType: 'admin' | 'owner';
+  ipAddress?: string;
+  userAgent?: string;
+  endpoint?: string;
+}
+
+export interface RefundOutcome {
+  success: boolean;
+  error?: string;
+  paymentId?: string;
+  refundId?: string;
+  refundAmount?: number;
+  totalRefunded?: number;
+  capturedAmount?: number;
+  status?: string;
+}
+
+// Only captured payments can be refunded
+const REFUNDABLE_STATUSES = ['paid', 'partially_refunded'];
+
+// ===============================================
+// REFUND SERVICE
+// ===============================================
+
+class RefundService {
+  /**
+   * Refund all or part of a captured payment
+   */
+  async refundPayment(command: RefundCommand): Promise<RefundOutcome> {
+    try {
+      const payment = await this.findPayment(command);
+      if (!payment) {
+        return { success: false, error: 'Payment not found' };
+      }
+
+      const { sessionId, stationId } = payment;
+      if (payment.purpose !== 'session' || !sessionId || !stationId) {
+        return { success: false, error: 'Only charging session payments can be refunded' };
+      }
+
+      // Fleet sessions never went through a gateway - they are settled on the fleet invoice
+      if (payment.method === 'fleet_account' || payment.fleetAccountId) {
+        return { success: false, error: 'Fleet-billed sessions are adjusted on the fleet invoice, not refunded' };
+      }
+
+      const authorized = await this.isAuthorized(command, payment);
+      if (!authorized) {
+        logger.warn('Unauthorized refund attempt', {
+          actor: command.actorWhatsappId,
+          actorType: command.actorType,
+          paymentId: payment.paymentId,
+        });
+        return { success: false, error: 'You are not allowed to refund this payment' };
+      }
+
+      if (!REFUNDABLE_STATUSES.includes(payment.status || '')) {
+        return { success: false, error: `Payment is ${payment.status}, only captured payments can be refunded` };
+      }
+
+      const capturedAmount = parseFloat(payment.amount);
+      const alreadyRefunded = parseFloat(payment.refundAmount || '0');
+      const remaining = this.round(capturedAmount - alreadyRefunded);
+      const refundAmount = this.round(command.amount ?? remaining);
+
+      if (isNaN(refundAmount) || refundAmount <= 0) {
+        return { success: false, error: 'Refund amount must be greater than zero' };
+      }
+
+      if (refundAmount > remaining) {
+        return {
+          success: false,
+          error: `Refund exceeds refundable balance of ₹${remaining.toFixed(2)}`,
+        };
+      }
+
+      // Reserve the refund atomically - guards concurrent refunds from over-refunding
+      const [reserved] = await db
+        .update(payments)
+        .set({
+          refundAmount: sql`COALESCE(${payments.refundAmount}, 0) + ${refundAmount}`,
+          updatedAt: new Date(),
+        })
+        .where(
+          and(
+            eq(payments.id, payment.id),
+            sql`COALESCE(${payments.refundAmount}, 0) + ${refundAmount} <= ${payments.amount}`
+          )
+        )
+        .returning();
+
+      if (!reserved) {
+        return { success: false, error: 'Refund exceeds refundable balance' };
+      }
+
+      let refundResult;
+      try {
+        refundResult = payment.method === 'wallet'
+          ? await this.refundToWallet(payment.paymentId, payment.userWhatsapp, refundAmount)
+          : await paymentService.getGateway().refundPayment({
+            paymentId: payment.paymentId,
+            transactionId: payment.gatewayTransactionId || undefined,
+            amount: refundAmount,
+            reason: command.reason,
+          });
+      } catch (gatewayError) {
+        // Release the reservation so the refund can be retried
+        await db
+          .update(payments)
+          .set({
+            refundAmount: sql`${payments.refundAmount} - ${refundAmount}`,
+            updatedAt: new Date(),
+          })
+          .where(eq(payments.id, payment.id));
+        throw gatewayError;
+      }
+
+      const totalRefunded = parseFloat(reserved.refundAmount || '0');
+      const status = totalRefunded >= capturedAmount ? 'refunded' : 'partially_refunded';
+      const now = new Date();
+
+      await db.batch([
+        db.update(payments)
+          .set({
+            status,
+            refundReason: command.reason,
+            refundedAt: now,
+            updatedAt: now,
+          })
+          .where(eq(payments.id, payment.id)),
+        db.update(chargingSessions)
+          .set({ paymentStatus: status, updatedAt: now })
+          .where(eq(chargingSessions.sessionId, sessionId)),
+        db.insert(auditLogs).values({
+          actorWhatsappId: command.actorWhatsappId,
+          actorType: command.actorType,
+          action: status === 'refunded' ? 'payment_refunded' : 'payment_partially_refunded',
+          resourceType: 'payment',
+          resourceId: payment.paymentId,
+          oldValues: { status: payment.status, refundAmount: alreadyRefunded },
+          newValues: { status, refundAmount: totalRefunded },
+          metadata: {
+            sessionId,
+            refundId: refundResult.refundId,
+            amount: refundAmount,
+            reason: command.reason,
+            gateway: payment.method === 'wallet' ? 'wallet' : paymentService.getGateway().name,
+          },
+          ipAddress: command.ipAddress,
+          userAgent: command.userAgent,
+          endpoint: command.endpoint,
+          createdAt: now,
+        }),
+      ]);
+
+      logger.info('💸 Refund processed', {
+        paymentId: payment.paymentId,
+        refundId: refundResult.refundId,
+        refundAmount,
+        totalRefunded,
+        actor: command.actorWhatsappId,
+      });
+
+      setImmediate(async () => {
+        await notificationService.sendRefundProcessedNotification(payment.userWhatsapp, {
+          paymentId: payment.paymentId,
+          sessionId,
+          stationId,
+          refundAmount,
+          totalRefunded,
+          capturedAmount,
+          reason: command.reason,
+          toWallet: payment.method === 'wallet',
+        });
+      });
+
+      return {
+        success: true,
+        paymentId: payment.paymentId,
+        refundId: refundResult.refundId,
+        refundAmount,
+        totalRefunded,
+        capturedAmount,
+        status,
+      };
+
+    } catch (error) {
+      logger.error('Refund failed', {
+        command,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return { success: false, error: 'Refund could not be processed. Please try again.' };
+    }
+  }
+
+  // ===============================================
+  // CHAT COMMAND
+  // ===============================================
+
+  /**
+   * Handle "refund <payment or session ID> [amount] <reason>" from chat
+   */
+  async handleRefundCommand(
+    actorWhatsappId: string,
+    actorType: 'admin' | 'owner',
+    text: string
+  ): Promise<void> {
+    const parsed = this.parseRefundCommand(text);
+    if (!parsed) {
+      await whatsappService.sendTextMessage(
+        actorWhatsappId,
+        '💸 *Refund Command*\n\n' +
+        'Format: refund <payment or session ID> [amount] <reason>\n\n' +
+        'Examples:\n' +
+        '• refund pay_123_abc Charger fault\n' +
+        '• refund session_123_abc 50 Meter over-read'
+      );
+      return;
+    }
+
+    const outcome = await this.refundPayment({
+      ...parsed,
+      actorWhatsappId,
+      actorType,
+      endpoint: 'whatsapp:refund',
+    });
+
+    if (!outcome.success) {
+      await whatsappService.sendTextMessage(actorWhatsappId, `❌ *Refund Failed*\n\n${outcome.error}`);
+      return;
+    }
+
+    await whatsappService.sendTextMessage(
+      actorWhatsappId,
+      `✅ *Refund Issued*\n\n` +
+      `🧾 *Payment:* ${outcome.paymentId}\n` +
+      `💰 *Refunded:* ₹${outcome.refundAmount!.toFixed(2)}\n` +
+      `📊 *Total Refunded:* ₹${outcome.totalRefunded!.toFixed(2)} of ₹${outcome.capturedAmount!.toFixed(2)}\n` +
+      `🔖 *Refund ID:* ${outcome.refundId}\n\n` +
+      `The customer has been notified.`
+    );
+  }
+
+  private parseRefundCommand(text: string): Pick<RefundCommand, 'paymentId' | 'sessionId' | 'amount' | 'reason'> | null {
+    const [, reference, ...rest] = text.trim().split(/\s+/);
+    if (!reference) return null;
+
+    let amount: number | undefined;
+    if (rest.length > 0 && /^\d+(\.\d{1,2})?$/.test(rest[0])) {
+      amount = parseFloat(rest.shift()!);
+    }
+
+    const reason = rest.join(' ').trim() || 'Disputed session';
+    const isSession = reference.startsWith('session_');
+
+    return {
+      paymentId: isSession ? undefined : reference,
+      sessionId: isSession ? reference : undefined,
+      amount,
+      reason,
+    };
+  }
+
+  // ===============================================
+  // HELPERS
+  // ===============================================
+
+  private async findPayment(command: RefundCommand): Promise<Payment | null> {
+    if (command.paymentId) {
+      const [payment] = await db
+        .select()
+        .from(payments)
+        .where(eq(payments.paymentId, command.paymentId))
+        .limit(1);
+      return payment || null;
+    }
+
+    if (command.sessionId) {
+      const [payment] = await db
+        .select()
+        .from(payments)
+        .where(
+          and(
+            eq(payments.sessionId, command.sessionId),
+            sql`${payments.status} IN ('paid', 'partially_refunded', 'refunded')`
+          )
+        )
+        .limit(1);
+      return payment || null;
+    }
+
+    return null;
+  }
+
+  /**
+   * Admins need finance access; owners may only refund their own stations
+   */
+  private async isAuthorized(command: RefundCommand, payment: Payment): Promise<boolean> {
+    if (!payment.stationId) return false;
+
+    if (command.actorType === 'admin') {
+      const [admin] = await db
+        .select({ isActive: admins.isActive, canAccessFinance: admins.canAccessFinance })
+        .from(admins)
+        .where(eq(admins.whatsappId, command.actorWhatsappId))
+        .limit(1);
+      return !!(admin?.isActive && admin?.canAccessFinance);
+    }
+
+    const [station] = await db
+      .select({ id: chargingStations.id })
+      .from(chargingStations)
+      .where(
+        and(
+          eq(chargingStations.id, payment.stationId),
+          eq(chargingStations.ownerWhatsappId, command.actorWhatsappId)
+        )
+      )
+      .limit(1);
+    return !!station;
+  }
+
+  /**
+   * Wallet-paid sessions are refunded back into the wallet
+   */
+  private async refundToWallet(paymentId: string, userWhatsapp: string, amount: number): Promise<RefundResult> {
+    // Each refund gets its own reference and the credit is idempotent on it - a credit that
+    // committed before an error is found again by the second attempt instead of posted twice
+    const refundId = `${paymentId}_rf_${Date.now().toString(36)}${Math.random().toString(36).substr(2, 5)}`;
+
+    let posting: PostingResult;
+    try {
+      posting = await walletService.creditRefund(userWhatsapp, amount, refundId);
+    } catch (error) {
+      logger.warn('Wallet refund credit failed, retrying on the same reference', {
+        refundId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      posting = await walletService.creditRefund(userWhatsapp, amount, refundId);
+    }
+
+    if (!posting.transaction) {
+      throw new Error(`Wallet refund ${refundId} was not posted`);
+    }
+
+    return {
+      refundId: posting.transaction.transactionId,
+      status: 'processed',
+      raw: { refundId, walletTransactionId: posting.transaction.transactionId },
+    };
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
+
+// ===============================================
+// SINGLETON EXPORT
+// ===============================================
+
+export const refundService = new RefundService();
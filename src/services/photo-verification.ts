@@ -5,6 +5,8 @@ import { eq } from 'drizzle-orm';
 import { logger } from '../utils/logger';
 import { whatsappService } from './whatsapp';
 import { sessionService } from './session';
+import { idleFeeService } from './idle-fee';
+import { sessionTelemetryService } from './session-telemetry';
 import ocrProcessor from '../utils/ocr-processor';
 import { OCR_CONFIG } from '../config/ocr-config';
 
@@ -20,7 +22,7 @@ interface VerificationState {
   sessionId: string;
   userWhatsapp: string;
   stationId: number;
-  type: 'start' | 'end';
+  type: 'start' | 'end' | 'checkin';
   attemptCount: number;
   lastReading?: number;
   lastConfidence?: number;
@@ -340,6 +342,9 @@ cleanupState(userWhatsapp: string): void {
       })
       .where(eq(chargingSessions.sessionId, sessionId));
 
+    // Charging is over from here - the idle clock starts
+    await idleFeeService.startIdleTracking(sessionId, userWhatsapp, stationId);
+
     await this.sendEndPhotoRequest(userWhatsapp, 0);
     logger.info('✅ END photo requested (Vision API)', { userWhatsapp, sessionId });
   }
@@ -513,6 +518,98 @@ cleanupState(userWhatsapp: string): void {
     await this.sendEndPhotoRequest(userWhatsapp, state.attemptCount);
   }
 
+  // ==================== PROGRESS CHECK-IN ====================
+
+  /**
+   * Mid-session meter photo so a target can be tracked without a networked charger.
+   * Optional - the session carries on whether or not the driver answers.
+   */
+  async initiateCheckIn(
+    userWhatsapp: string,
+    sessionId: string,
+    stationId: number,
+    targetLabel: string
+  ): Promise<void> {
+    this.states.set(userWhatsapp, {
+      sessionId,
+      userWhatsapp,
+      stationId,
+      type: 'checkin',
+      attemptCount: 0,
+      timestamp: new Date(),
+      ocrProvider: 'vision',
+    });
+
+    await whatsappService.sendTextMessage(
+      userWhatsapp,
+      `📸 *Progress Check-in*\n\n` +
+      `Send a photo of the charger's kWh display (or type the reading) so we can track your ${targetLabel} target.\n\n` +
+      `💡 Busy? Just ignore this - we'll ask again later.`
+    );
+    logger.info('📸 Check-in photo requested', { userWhatsapp, sessionId });
+  }
+
+  async handleCheckInPhoto(userWhatsapp: string, imageBuffer: Buffer): Promise<PhotoResult> {
+    const state = this.states.get(userWhatsapp);
+    if (!state || state.type !== 'checkin') {
+      return { success: false, message: '❌ Not expecting a check-in photo right now.' };
+    }
+
+    state.attemptCount++;
+    this.ocrMetrics.totalAttempts++;
+    this.ocrMetrics.visionAPICallsToday++;
+
+    const startTime = Date.now();
+    const ocrResult = await ocrProcessor.extractKwhReading(imageBuffer);
+    const processingTime = Date.now() - startTime;
+
+    if (!ocrResult.success || !ocrResult.reading || (ocrResult.confidence || 0) < OCR_CONFIG.MIN_OCR_CONFIDENCE) {
+      await whatsappService.sendTextMessage(
+        userWhatsapp,
+        `❌ *Couldn't read the display*\n\nTry another photo, or type the kWh reading, e.g. 1245.8`
+      );
+      return { success: false, message: ocrResult.error || 'Could not read the display', shouldRetry: true, processingTime };
+    }
+
+    this.ocrMetrics.successfulReads++;
+    const recorded = await this.recordCheckIn(userWhatsapp, state, ocrResult.reading);
+    return {
+      success: recorded,
+      reading: ocrResult.reading,
+      confidence: ocrResult.confidence,
+      message: recorded ? 'Check-in recorded.' : 'Check-in reading rejected.',
+      processingTime,
+    };
+  }
+
+  /**
+   * A check-in reading becomes a meter sample - no confirmation step, the end photo still settles the bill
+   */
+  private async recordCheckIn(userWhatsapp: string, state: VerificationState, reading: number): Promise<boolean> {
+    const validation = await this.validateConsumption(state.sessionId, reading);
+    if (!validation.isValid) {
+      await whatsappService.sendTextMessage(
+        userWhatsapp,
+        `⚠️ *Check-in Not Recorded*\n\n${validation.error}\n\nSend another photo or type the reading.`
+      );
+      return false;
+    }
+
+    this.states.delete(userWhatsapp);
+    // Acknowledge first - recording can reach the target, which asks for the END photo
+    await whatsappService.sendTextMessage(
+      userWhatsapp,
+      `✅ *Check-in Recorded*\n⚡ ${validation.consumption!.toFixed(2)} kWh charged so far.`
+    );
+    const recorded = await sessionTelemetryService.recordSample(state.sessionId, {
+      energyKwh: validation.consumption!,
+      source: 'photo',
+    });
+
+    logger.info('📸 Check-in recorded', { userWhatsapp, sessionId: state.sessionId, reading, recorded });
+    return recorded;
+  }
+
   // ==================== MANUAL ENTRY ====================
 
   async handleManualEntry(userWhatsapp: string, input: string): Promise<boolean> {
@@ -530,6 +627,10 @@ cleanupState(userWhatsapp: string): void {
       return false;
     }
 
+    if (state.type === 'checkin') {
+      return this.recordCheckIn(userWhatsapp, state, reading);
+    }
+
     if (state.type === 'end') {
       const consumptionValidation = await this.validateConsumption(state.sessionId, reading);
       if (!consumptionValidation.isValid) {
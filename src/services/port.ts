@@ -0,0 +1,280 @@
+// src/services/port.ts - PER-PORT STATE, SESSION ASSIGNMENT & DERIVED STATION AVAILABILITY
+import { db } from '../config/database';
+import { stationPorts, chargingStations, type StationPort } from '../db/schema';
+import { eq, and, asc, sql } from 'drizzle-orm';
+import { logger } from '../utils/logger';
+import { queueService } from './queue';
+
+// ===============================================
+// TYPES & CONSTANTS
+// ===============================================
+
+export type PortStatus = 'available' | 'occupied' | 'offline' | 'faulted' | 'maintenance';
+
+// Statuses an operator can set by hand - occupied is only ever set by a session
+export type ManualPortStatus = Exclude<PortStatus, 'occupied'>;
+
+const DEFAULT_CONNECTOR = 'Type2';
+// Matches the start photo's expiry - an 'initiated' session older than this was abandoned
+const ABANDONED_START_MS = 30 * 60 * 1000;
+
+// ===============================================
+// PORT SERVICE
+// ===============================================
+
+class PortService {
+  /**
+   * Claim a free port for a new session - only one the driver can plug into, unless the
+   * station has no port of their connector at all (the queue's any-charger lane). Then the
+   * most powerful port; the claim is a single conditional update so two sessions can never
+   * land on the same port. Null leaves the driver in the queue.
+   */
+  async assignPort(stationId: number, sessionId: string, connectorType?: string | null): Promise<StationPort | null> {
+    try {
+      await this.ensurePorts(stationId);
+      await this.releaseStalePorts(stationId);
+
+      const preferred = this.normalizeConnector(connectorType);
+      const result = await db.execute(sql`
+        UPDATE station_ports
+        SET status = 'occupied', current_session_id = ${sessionId},
+            status_changed_at = NOW(), updated_at = NOW()
+        WHERE id = (
+          SELECT id FROM station_ports
+          WHERE station_id = ${stationId}
+          AND status = 'available'
+          AND (
+            ${preferred} = ''
+            OR UPPER(REGEXP_REPLACE(connector_type, '[^a-zA-Z0-9]', '', 'g')) = ${preferred}
+            OR NOT EXISTS (
+              SELECT 1 FROM station_ports own
+              WHERE own.station_id = ${stationId}
+              AND UPPER(REGEXP_REPLACE(own.connector_type, '[^a-zA-Z0-9]', '', 'g')) = ${preferred}
+            )
+          )
+          ORDER BY
+            max_power_kw DESC,
+            port_number ASC
+          LIMIT 1
+          FOR UPDATE SKIP LOCKED
+        )
+        AND status = 'available'
+        RETURNING id
+      `);
+
+      const claimedId = (result.rows[0] as any)?.id;
+      if (!claimedId) {
+        logger.warn('No free compatible port to assign', { stationId, sessionId, connectorType });
+        return null;
+      }
+
+      await this.syncStationAvailability(stationId);
+
+      const [port] = await db.select().from(stationPorts).where(eq(stationPorts.id, claimedId)).limit(1);
+      logger.info('🔌 Port assigned', {
+        stationId,
+        sessionId,
+        portNumber: port.portNumber,
+        connectorType: port.connectorType,
+        matchedConnector: !preferred || this.normalizeConnector(port.connectorType) === preferred,
+      });
+      return port;
+    } catch (error) {
+      logger.error('Failed to assign port', { stationId, sessionId, error });
+      return null;
+    }
+  }
+
+  /**
+   * Free the port a session was using and hand it to the next compatible driver
+   * in the queue - safe to call more than once
+   */
+  async releaseSessionPort(sessionId: string): Promise<void> {
+    try {
+      const released = await db
+        .update(stationPorts)
+        .set({ status: 'available', currentSessionId: null, statusChangedAt: new Date(), updatedAt: new Date() })
+        .where(and(eq(stationPorts.currentSessionId, sessionId), eq(stationPorts.status, 'occupied')))
+        .returning({
+          stationId: stationPorts.stationId,
+          portNumber: stationPorts.portNumber,
+          connectorType: stationPorts.connectorType,
+        });
+
+      for (const port of released) {
+        logger.info('🔌 Port released', { sessionId, stationId: port.stationId, portNumber: port.portNumber });
+        await this.syncStationAvailability(port.stationId);
+        await queueService.promoteNextInQueue(port.stationId, port.connectorType);
+      }
+    } catch (error) {
+      logger.error('Failed to release port', { sessionId, error });
+    }
+  }
+
+  /**
+   * Operator status change. Occupied ports can't be switched until their session ends.
+   */
+  async setPortStatus(stationId: number, portNumber: number, status: ManualPortStatus): Promise<{ success: boolean; error?: string }> {
+    await this.ensurePorts(stationId);
+
+    const [updated] = await db
+      .update(stationPorts)
+      .set({ status, statusChangedAt: new Date(), updatedAt: new Date() })
+      .where(
+        and(
+          eq(stationPorts.stationId, stationId),
+          eq(stationPorts.portNumber, portNumber),
+          sql`${stationPorts.status} <> 'occupied'`
+        )
+      )
+      .returning({ id: stationPorts.id, connectorType: stationPorts.connectorType });
+
+    if (!updated) {
+      const [port] = await db
+        .select({ status: stationPorts.status })
+        .from(stationPorts)
+        .where(and(eq(stationPorts.stationId, stationId), eq(stationPorts.portNumber, portNumber)))
+        .limit(1);
+      return {
+        success: false,
+        error: port ? `Port ${portNumber} is in use - try again when the session ends` : `Port ${portNumber} not found`,
+      };
+    }
+
+    logger.info('🔌 Port status changed', { stationId, portNumber, status });
+    await this.syncStationAvailability(stationId);
+    if (status === 'available') {
+      await queueService.promoteNextInQueue(stationId, updated.connectorType);
+    }
+    return { success: true };
+  }
+
+  async getStationPorts(stationId: number): Promise<StationPort[]> {
+    await this.ensurePorts(stationId);
+    return db
+      .select()
+      .from(stationPorts)
+      .where(eq(stationPorts.stationId, stationId))
+      .orderBy(asc(stationPorts.portNumber));
+  }
+
+  /**
+   * Station counters are a cache of port states - search and booking read them
+   */
+  async syncStationAvailability(stationId: number): Promise<void> {
+    try {
+      await db.execute(sql`
+        UPDATE charging_stations s
+        SET total_ports = p.total,
+            total_slots = p.total,
+            available_ports = p.available,
+            available_slots = p.available,
+            updated_at = NOW()
+        FROM (
+          SELECT COUNT(*) FILTER (WHERE status <> 'offline') AS total,
+                 COUNT(*) FILTER (WHERE status = 'available') AS available
+          FROM station_ports
+          WHERE station_id = ${stationId}
+          HAVING COUNT(*) > 0
+        ) p
+        WHERE s.id = ${stationId}
+      `);
+    } catch (error) {
+      logger.error('Failed to sync station availability', { stationId, error });
+    }
+  }
+
+  // ===============================================
+  // HELPERS
+  // ===============================================
+
+  /**
+   * Stations added without port rows get them from their legacy counters and connector list
+   */
+  private async ensurePorts(stationId: number): Promise<void> {
+    const [existing] = await db
+      .select({ id: stationPorts.id })
+      .from(stationPorts)
+      .where(eq(stationPorts.stationId, stationId))
+      .limit(1);
+    if (existing) return;
+
+    const [station] = await db
+      .select({
+        totalPorts: chargingStations.totalPorts,
+        connectorTypes: chargingStations.connectorTypes,
+        maxPowerKw: chargingStations.maxPowerKw,
+      })
+      .from(chargingStations)
+      .where(eq(chargingStations.id, stationId))
+      .limit(1);
+    if (!station) return;
+
+    const connectors = Array.isArray(station.connectorTypes) && station.connectorTypes.length > 0
+      ? station.connectorTypes.map(String)
+      : [DEFAULT_CONNECTOR];
+
+    await db
+      .insert(stationPorts)
+      .values(Array.from({ length: Math.max(1, station.totalPorts) }, (_, index) => ({
+        stationId,
+        portNumber: index + 1,
+        connectorType: connectors[index % connectors.length],
+        maxPowerKw: station.maxPowerKw,
+      })))
+      .onConflictDoNothing();
+
+    logger.info('🔌 Ports created from station counters', { stationId, count: station.totalPorts });
+    await this.syncStationAvailability(stationId);
+  }
+
+  /**
+   * Ports still pinned to a session that is over. Completed sessions keep the port
+   * while an idle period is open - the vehicle is still in the bay. A session that
+   * never got past 'initiated' gives its port up once the start photo would have expired.
+   */
+  private async releaseStalePorts(stationId: number): Promise<void> {
+    const abandonedBefore = new Date(Date.now() - ABANDONED_START_MS);
+
+    const released = await db.execute(sql`
+      UPDATE station_ports p
+      SET status = 'available', current_session_id = NULL, status_changed_at = NOW(), updated_at = NOW()
+      WHERE p.station_id = ${stationId}
+      AND p.status = 'occupied'
+      AND NOT EXISTS (
+        SELECT 1 FROM charging_sessions cs
+        WHERE cs.session_id = p.current_session_id
+        AND (
+          cs.status = 'active'
+          OR (cs.status = 'initiated' AND cs.created_at >= ${abandonedBefore})
+          OR (cs.status = 'completed' AND cs.idle_started_at IS NOT NULL AND cs.idle_ended_at IS NULL)
+        )
+      )
+      RETURNING p.port_number, p.connector_type
+    `);
+
+    const ports = released.rows as Array<{ port_number: number; connector_type: string }>;
+    if (ports.length === 0) return;
+
+    logger.warn('🔌 Released ports held by finished or abandoned sessions', {
+      stationId,
+      portNumbers: ports.map(port => port.port_number),
+    });
+
+    // Same hand-over as releaseSessionPort
+    await this.syncStationAvailability(stationId);
+    for (const port of ports) {
+      await queueService.promoteNextInQueue(stationId, port.connector_type);
+    }
+  }
+
+  private normalizeConnector(connectorType?: string | null): string {
+    return (connectorType || '').replace(/[^a-zA-Z0-9]/g, '').toUpperCase();
+  }
+}
+
+// ===============================================
+// SINGLETON EXPORT
+// ===============================================
+
+export const portService = new PortService();
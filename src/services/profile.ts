@@ -1,5 +1,6 @@
 import { whatsappService } from './whatsapp';
 import { userService } from './userService';
+import { reliabilityService } from './reliability';
 import { logger } from '../utils/logger';
 import { type User } from '../db/schema';
 /**
@@ -144,7 +145,8 @@ export class ProfileService {
         `⚡ Charging Style: ${user.chargingIntent || 'Not set'}\n` +
         `🚶‍♂️ Queue Preference: ${user.queuePreference || 'Not set'}\n` +
         `✅ Preferences Complete: ${user.preferencesCaptured ? 'Yes' : 'No'}\n` +
-        `📅 Member Since: ${user.createdAt ? user.createdAt.toLocaleDateString() : 'Unknown'}`;
+        `📅 Member Since: ${user.createdAt ? user.createdAt.toLocaleDateString() : 'Unknown'}\n\n` +
+        reliabilityService.formatStanding(await reliabilityService.getStanding(whatsappId));
 
       await whatsappService.sendButtonMessage(
         whatsappId,
@@ -0,0 +1,462 @@
+// src/services/promo.ts - PROMO CODES, REDEMPTIONS & SESSION DISCOUNTS
+import { db } from '../config/database';
+import {
+  promoCodes,
+  promoRedemptions,
+  chargingSessions,
+  chargingStations,
+  admins,
+  type PromoCode,
+} from '../db/schema';
+import { eq, and, or, ne, isNull, inArray, desc, sql } from 'drizzle-orm';
+import { logger } from '../utils/logger';
+import { whatsappService } from './whatsapp';
+import type { BillDiscount } from './tariff';
+
+// ===============================================
+// TYPES & INTERFACES
+// ===============================================
+
+export interface CreatePromoInput {
+  code: string;
+  description?: string;
+  discountType: 'percentage' | 'flat';
+  discountValue: number;
+  maxDiscount?: number;
+  minBillAmount?: number;
+  maxRedemptions?: number;
+  maxRedemptionsPerUser?: number;
+  validFrom?: Date;
+  validUntil?: Date;
+  stationId?: number;
+  firstSessionOnly?: boolean;
+}
+
+export interface PromoActor {
+  whatsappId: string;
+  type: 'admin' | 'owner';
+}
+
+export interface RedeemResult {
+  success: boolean;
+  error?: string;
+  promo?: PromoCode;
+  sessionId?: string;
+}
+
+export interface SessionDiscount {
+  redemptionId: number;
+  promoCodeId: number;
+  code: string;
+  discount: BillDiscount;
+}
+
+interface StationScope {
+  id: number;
+  ownerWhatsappId: string;
+}
+
+const CODE_PATTERN = /^[A-Z0-9_-]{3,30}$/;
+
+// ===============================================
+// PROMO SERVICE
+// ===============================================
+
+class PromoService {
+  /**
+   * Create a code - owners can only create codes for their own stations
+   */
+  async createPromoCode(
+    input: CreatePromoInput,
+    actor: PromoActor
+  ): Promise<{ success: boolean; error?: string; promo?: PromoCode }> {
+    try {
+      const code = input.code?.trim().toUpperCase();
+      if (!code || !CODE_PATTERN.test(code)) {
+        return { success: false, error: 'Code must be 3-30 letters, digits, - or _' };
+      }
+
+      if (!['percentage', 'flat'].includes(input.discountType) || !(input.discountValue > 0)) {
+        return { success: false, error: 'discountType must be percentage or flat with a positive discountValue' };
+      }
+
+      if (input.discountType === 'percentage' && input.discountValue > 100) {
+        return { success: false, error: 'Percentage discount cannot exceed 100' };
+      }
+
+      if (input.validFrom && input.validUntil && input.validFrom >= input.validUntil) {
+        return { success: false, error: 'validUntil must be after validFrom' };
+      }
+
+      let ownerWhatsappId: string | null = null;
+
+      if (actor.type === 'admin') {
+        const [admin] = await db
+          .select({ isActive: admins.isActive, canAccessFinance: admins.canAccessFinance })
+          .from(admins)
+          .where(eq(admins.whatsappId, actor.whatsappId))
+          .limit(1);
+        if (!admin?.isActive || !admin?.canAccessFinance) {
+          return { success: false, error: 'You are not allowed to create promo codes' };
+        }
+      } else {
+        // Owner codes are always scoped to the owner's stations
+        ownerWhatsappId = actor.whatsappId;
+      }
+
+      if (input.stationId) {
+        const [station] = await db
+          .select({ ownerWhatsappId: chargingStations.ownerWhatsappId })
+          .from(chargingStations)
+          .where(eq(chargingStations.id, input.stationId))
+          .limit(1);
+        if (!station || (ownerWhatsappId && station.ownerWhatsappId !== ownerWhatsappId)) {
+          return { success: false, error: 'Station not found' };
+        }
+      }
+
+      const [promo] = await db
+        .insert(promoCodes)
+        .values({
+          code,
+          description: input.description,
+          discountType: input.discountType,
+          discountValue: input.discountValue.toFixed(2),
+          maxDiscount: input.maxDiscount?.toFixed(2),
+          minBillAmount: (input.minBillAmount ?? 0).toFixed(2),
+          maxRedemptions: input.maxRedemptions,
+          maxRedemptionsPerUser: input.maxRedemptionsPerUser ?? 1,
+          validFrom: input.validFrom,
+          validUntil: input.validUntil,
+          stationId: input.stationId,
+          ownerWhatsappId,
+          firstSessionOnly: input.firstSessionOnly ?? false,
+          createdBy: actor.whatsappId,
+        })
+        .onConflictDoNothing({ target: promoCodes.code })
+        .returning();
+
+      if (!promo) {
+        return { success: false, error: `Code ${code} already exists` };
+      }
+
+      logger.info('🎟️ Promo code created', { code, actor: actor.whatsappId, actorType: actor.type });
+      return { success: true, promo };
+
+    } catch (error) {
+      logger.error('Failed to create promo code', { input, actor, error });
+      return { success: false, error: 'Promo code could not be created' };
+    }
+  }
+
+  // ===============================================
+  // REDEMPTION
+  // ===============================================
+
+  /**
+   * Redeem a code for the user's current session, or the next one
+   */
+  async redeem(userWhatsapp: string, rawCode: string): Promise<RedeemResult> {
+    try {
+      const code = rawCode.trim().toUpperCase();
+      const [promo] = await db
+        .select()
+        .from(promoCodes)
+        .where(eq(promoCodes.code, code))
+        .limit(1);
+
+      const now = new Date();
+      if (!promo || !promo.isActive) {
+        return { success: false, error: `Promo code ${code} is not valid` };
+      }
+      if (promo.validFrom && promo.validFrom > now) {
+        return { success: false, error: `Promo code ${code} is not active yet` };
+      }
+      if (promo.validUntil && promo.validUntil <= now) {
+        return { success: false, error: `Promo code ${code} has expired` };
+      }
+
+      // Attach to a session in progress; otherwise it waits for the next one
+      const [session] = await db
+        .select({
+          sessionId: chargingSessions.sessionId,
+          stationId: chargingStations.id,
+          ownerWhatsappId: chargingStations.ownerWhatsappId,
+        })
+        .from(chargingSessions)
+        .innerJoin(chargingStations, eq(chargingSessions.stationId, chargingStations.id))
+        .where(
+          and(
+            eq(chargingSessions.userWhatsapp, userWhatsapp),
+            sql`${chargingSessions.status} IN ('active', 'initiated')`
+          )
+        )
+        .orderBy(desc(chargingSessions.createdAt))
+        .limit(1);
+
+      if (session && !this.isInScope(promo, { id: session.stationId, ownerWhatsappId: session.ownerWhatsappId })) {
+        return { success: false, error: `Promo code ${code} can't be used at this station` };
+      }
+
+      if (promo.firstSessionOnly && (await this.hasCompletedSession(userWhatsapp))) {
+        return { success: false, error: `Promo code ${code} is only valid on your first charge` };
+      }
+
+      const [held] = await db
+        .select({ id: promoRedemptions.id })
+        .from(promoRedemptions)
+        .where(
+          and(
+            eq(promoRedemptions.userWhatsapp, userWhatsapp),
+            eq(promoRedemptions.promoCodeId, promo.id),
+            eq(promoRedemptions.status, 'pending')
+          )
+        )
+        .limit(1);
+
+      if (held) {
+        return { success: false, error: `Promo code ${code} is already applied` };
+      }
+
+      // Caps are checked under a per-code lock so concurrent redemptions can't exceed them.
+      // Any other pending code is released - one promo per session.
+      const [, inserted] = await db.batch([
+        this.lockCode(promo.id),
+        db.execute(sql`
+          WITH inserted AS (
+            INSERT INTO promo_redemptions (promo_code_id, user_whatsapp, session_id, status)
+            SELECT ${promo.id}, ${userWhatsapp}, ${session?.sessionId ?? null}, 'pending'
+            -- Pending and applied redemptions count against the caps
+            WHERE (
+              ${promo.maxRedemptions}::integer IS NULL OR (
+                SELECT COUNT(*) FROM promo_redemptions
+                WHERE promo_code_id = ${promo.id} AND status IN ('pending', 'applied')
+              ) < ${promo.maxRedemptions}::integer
+            ) AND (
+              ${promo.maxRedemptionsPerUser}::integer IS NULL OR (
+                SELECT COUNT(*) FROM promo_redemptions
+                WHERE promo_code_id = ${promo.id} AND user_whatsapp = ${userWhatsapp}
+                  AND status IN ('pending', 'applied')
+              ) < ${promo.maxRedemptionsPerUser}::integer
+            )
+            RETURNING id
+          ), released AS (
+            UPDATE promo_redemptions SET status = 'released'
+            WHERE user_whatsapp = ${userWhatsapp} AND status = 'pending'
+              AND EXISTS (SELECT 1 FROM inserted)
+          )
+          SELECT id FROM inserted
+        `),
+      ]);
+
+      if (inserted.rows.length === 0) {
+        return { success: false, error: `Promo code ${code} has reached its usage limit` };
+      }
+
+      logger.info('🎟️ Promo code redeemed', { code, userWhatsapp, sessionId: session?.sessionId });
+      return { success: true, promo, sessionId: session?.sessionId };
+
+    } catch (error) {
+      logger.error('Promo redemption failed', { userWhatsapp, rawCode, error });
+      return { success: false, error: 'Promo code could not be applied. Please try again.' };
+    }
+  }
+
+  /**
+   * Handle "promo CODE" from chat
+   */
+  async handlePromoCommand(userWhatsapp: string, text: string): Promise<void> {
+    const [, code] = text.trim().split(/\s+/);
+    if (!code) {
+      await whatsappService.sendTextMessage(
+        userWhatsapp,
+        '🎟️ *Promo Codes*\n\nFormat: promo <CODE>\nExample: promo FIRST50\n\n' +
+        'Apply a code before or during your session - the discount comes off your final bill.'
+      );
+      return;
+    }
+
+    const result = await this.redeem(userWhatsapp, code);
+    if (!result.success || !result.promo) {
+      await whatsappService.sendTextMessage(userWhatsapp, `❌ ${result.error}`);
+      return;
+    }
+
+    const promo = result.promo;
+    const minBill = parseFloat(promo.minBillAmount || '0');
+
+    await whatsappService.sendTextMessage(
+      userWhatsapp,
+      `🎟️ *Promo Applied: ${promo.code}*\n\n` +
+      `💸 *Discount:* ${this.describeDiscount(promo)}\n` +
+      (minBill > 0 ? `🧾 *Minimum bill:* ₹${minBill.toFixed(0)}\n` : '') +
+      (promo.validUntil ? `📅 *Valid until:* ${promo.validUntil.toLocaleDateString('en-IN', { timeZone: 'Asia/Kolkata' })}\n` : '') +
+      `\n${result.sessionId
+        ? '⚡ It will be taken off the bill for your current session.'
+        : '⚡ It will be taken off the bill for your next session.'}`
+    );
+  }
+
+  // ===============================================
+  // BILLING
+  // ===============================================
+
+  /**
+   * Discount to price into a session's final bill, if the user holds an eligible code.
+   * The code is checked again against this session - a redemption that can no longer
+   * apply (expired by the time the session started, or not the driver's first charge)
+   * is expired rather than left pending for a later bill.
+   */
+  async getSessionDiscount(
+    userWhatsapp: string,
+    sessionId: string,
+    station: StationScope
+  ): Promise<SessionDiscount | null> {
+    try {
+      const rows = await db
+        .select({ redemption: promoRedemptions, promo: promoCodes })
+        .from(promoRedemptions)
+        .innerJoin(promoCodes, eq(promoRedemptions.promoCodeId, promoCodes.id))
+        .where(
+          and(
+            eq(promoRedemptions.userWhatsapp, userWhatsapp),
+            eq(promoRedemptions.status, 'pending'),
+            or(isNull(promoRedemptions.sessionId), eq(promoRedemptions.sessionId, sessionId))
+          )
+        )
+        .orderBy(desc(promoRedemptions.createdAt))
+        .limit(1);
+
+      const match = rows[0];
+      if (!match || !match.promo.isActive || !this.isInScope(match.promo, station)) {
+        return null;
+      }
+
+      const { promo } = match;
+      const problem = await this.checkStillValid(promo, userWhatsapp, sessionId);
+      if (problem) {
+        await db
+          .update(promoRedemptions)
+          .set({ status: 'expired', sessionId: null })
+          .where(and(eq(promoRedemptions.id, match.redemption.id), eq(promoRedemptions.status, 'pending')));
+        logger.info('🎟️ Promo redemption expired at billing', { code: promo.code, userWhatsapp, sessionId, problem });
+        return null;
+      }
+
+      return {
+        redemptionId: match.redemption.id,
+        promoCodeId: promo.id,
+        code: promo.code,
+        discount: {
+          type: promo.discountType as BillDiscount['type'],
+          value: parseFloat(promo.discountValue),
+          maxDiscount: promo.maxDiscount ? parseFloat(promo.maxDiscount) : undefined,
+          minAmount: parseFloat(promo.minBillAmount || '0'),
+          label: `Promo ${promo.code}`,
+        },
+      };
+    } catch (error) {
+      logger.error('Failed to load session discount', { userWhatsapp, sessionId, error });
+      return null;
+    }
+  }
+
+  /**
+   * Consume the redemption for the bill that priced it - batch it after lockCode() with the
+   * bill update, so the discount is only stored if the redemption was still pending
+   */
+  settleRedemption(discount: SessionDiscount, sessionId: string, discountAmount: number) {
+    return db
+      .update(promoRedemptions)
+      .set({ status: 'applied', sessionId, discountAmount: discountAmount.toFixed(2), appliedAt: new Date() })
+      .where(
+        and(
+          eq(promoRedemptions.id, discount.redemptionId),
+          eq(promoRedemptions.status, 'pending'),
+          or(isNull(promoRedemptions.sessionId), eq(promoRedemptions.sessionId, sessionId))
+        )
+      )
+      .returning({ id: promoRedemptions.id });
+  }
+
+  /**
+   * A code that didn't qualify (e.g. bill below minimum) stays pending for the next session
+   */
+  async keepForNextSession(discount: SessionDiscount): Promise<void> {
+    try {
+      await db
+        .update(promoRedemptions)
+        .set({ sessionId: null })
+        .where(and(eq(promoRedemptions.id, discount.redemptionId), eq(promoRedemptions.status, 'pending')));
+    } catch (error) {
+      logger.error('Failed to release promo redemption', { redemptionId: discount.redemptionId, error });
+    }
+  }
+
+  /**
+   * Per-code transaction lock - caps and redemption state change only under it
+   */
+  lockCode(promoCodeId: number) {
+    return db.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`promo:${promoCodeId}`}))`);
+  }
+
+  // ===============================================
+  // HELPERS
+  // ===============================================
+
+  private isInScope(promo: PromoCode, station: StationScope): boolean {
+    if (promo.stationId && promo.stationId !== station.id) return false;
+    if (promo.ownerWhatsappId && promo.ownerWhatsappId !== station.ownerWhatsappId) return false;
+    return true;
+  }
+
+  /**
+   * Redemption-time rules, applied to the session being billed - null when the code still applies
+   */
+  private async checkStillValid(promo: PromoCode, userWhatsapp: string, sessionId: string): Promise<string | null> {
+    const [session] = await db
+      .select({ startedAt: chargingSessions.startedAt, createdAt: chargingSessions.createdAt })
+      .from(chargingSessions)
+      .where(eq(chargingSessions.sessionId, sessionId))
+      .limit(1);
+
+    const startedAt = session?.startedAt ?? session?.createdAt ?? new Date();
+    if (promo.validFrom && promo.validFrom > startedAt) return 'not valid yet when the session started';
+    if (promo.validUntil && promo.validUntil <= startedAt) return 'expired before the session started';
+
+    if (promo.firstSessionOnly && (await this.hasCompletedSession(userWhatsapp, sessionId))) {
+      return 'not the first session';
+    }
+    return null;
+  }
+
+  private async hasCompletedSession(userWhatsapp: string, excludeSessionId?: string): Promise<boolean> {
+    const [session] = await db
+      .select({ id: chargingSessions.id })
+      .from(chargingSessions)
+      .where(
+        and(
+          eq(chargingSessions.userWhatsapp, userWhatsapp),
+          inArray(chargingSessions.status, ['completed', 'stopped']),
+          excludeSessionId ? ne(chargingSessions.sessionId, excludeSessionId) : undefined
+        )
+      )
+      .limit(1);
+    return !!session;
+  }
+
+  private describeDiscount(promo: PromoCode): string {
+    const value = parseFloat(promo.discountValue);
+    if (promo.discountType === 'flat') {
+      return `₹${value.toFixed(0)} off`;
+    }
+    const cap = promo.maxDiscount ? ` (up to ₹${parseFloat(promo.maxDiscount).toFixed(0)})` : '';
+    return `${value}% off${cap}`;
+  }
+}
+
+// ===============================================
+// SINGLETON EXPORT
+// ===============================================
+
+export const promoService = new PromoService();
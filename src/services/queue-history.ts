@@ -0,0 +1,229 @@
+// src/services/queue-history.ts - APPEND-ONLY QUEUE EVENTS, REPLAY & STATION TIMELINES
+import { db } from '../config/database';
+import { queueEvents, type QueueEvent } from '../db/schema';
+import { and, asc, desc, eq, gte, lte, sql, type SQL } from 'drizzle-orm';
+import { logger } from '../utils/logger';
+
+// ===============================================
+// TYPES & CONSTANTS
+// ===============================================
+
+export type QueueEventType =
+  | 'joined'
+  | 'moved'
+  | 'reserved'
+  | 'promoted'
+  | 'started'
+  | 'completed'
+  | 'cancelled'
+  | 'expired';
+
+export interface QueueEventActor {
+  type: 'user' | 'system' | 'owner' | 'admin';
+  whatsappId?: string | null;
+}
+
+export interface TimelineOptions {
+  since?: Date;
+  until?: Date;
+  limit?: number;
+}
+
+export interface ReplayedEntry {
+  queueId: number | null;
+  userWhatsapp: string;
+  lane: string | null;
+  // Null once charging - the driver is out of the line
+  position: number | null;
+  status: 'waiting' | 'reserved' | 'charging';
+  joinedAt: Date;
+  lastEventAt: Date;
+}
+
+export const SYSTEM_ACTOR: QueueEventActor = { type: 'system' };
+
+const DEFAULT_TIMELINE_LIMIT = 200;
+const MAX_TIMELINE_LIMIT = 1000;
+
+const EVENT_ICONS: Record<QueueEventType, string> = {
+  joined: '➕',
+  moved: '↕️',
+  reserved: '🎫',
+  promoted: '⏫',
+  started: '⚡',
+  completed: '✅',
+  cancelled: '❌',
+  expired: '⌛',
+};
+
+// ===============================================
+// QUEUE HISTORY SERVICE
+// ===============================================
+
+class QueueHistoryService {
+  /**
+   * CTE body appending one event per row of `rows`, for use inside the locked statement
+   * that makes the change - the event commits or rolls back with it. `rows` must select
+   * queue_id, user_whatsapp, lane, from_position and to_position.
+   */
+  recordSql(stationId: number, eventType: QueueEventType, actor: QueueEventActor, rows: SQL, reason?: string | null): SQL {
+    return sql`
+      INSERT INTO queue_events (station_id, queue_id, user_whatsapp, event_type, lane, from_position, to_position, reason, actor_type, actor_whatsapp_id)
+      SELECT ${stationId}, r.queue_id, r.user_whatsapp, ${eventType}, r.lane, r.from_position, r.to_position, ${reason ?? null}, ${actor.type}, ${actor.whatsappId ?? null}
+      FROM (${rows}) r
+    `;
+  }
+
+  /**
+   * A station's events in order - oldest first
+   */
+  async getTimeline(stationId: number, options: TimelineOptions = {}): Promise<QueueEvent[]> {
+    try {
+      const limit = Math.min(options.limit ?? DEFAULT_TIMELINE_LIMIT, MAX_TIMELINE_LIMIT);
+
+      // Latest `limit` events in the window, returned in the order they happened
+      const events = await db
+        .select()
+        .from(queueEvents)
+        .where(
+          and(
+            eq(queueEvents.stationId, stationId),
+            options.since ? gte(queueEvents.createdAt, options.since) : undefined,
+            options.until ? lte(queueEvents.createdAt, options.until) : undefined
+          )
+        )
+        .orderBy(desc(queueEvents.id))
+        .limit(limit);
+
+      return events.reverse();
+    } catch (error) {
+      logger.error('Failed to load queue timeline', { stationId, options, error });
+      return [];
+    }
+  }
+
+  /**
+   * Rebuild a station's queue from its events alone, as it stood at `at` (default now).
+   * Entries come back lane by lane in position order, drivers already charging last.
+   */
+  async replay(stationId: number, at: Date = new Date()): Promise<ReplayedEntry[] | null> {
+    try {
+      const events = await db
+        .select()
+        .from(queueEvents)
+        .where(and(eq(queueEvents.stationId, stationId), lte(queueEvents.createdAt, at)))
+        .orderBy(asc(queueEvents.id));
+
+      return this.fold(events);
+    } catch (error) {
+      logger.error('Failed to replay queue events', { stationId, at, error });
+      return null;
+    }
+  }
+
+  /**
+   * Apply events in order. Rows are reused per driver and station, so the driver is the key.
+   * A driver first seen mid-flight (history started after they joined) is picked up from
+   * the first event that places them.
+   */
+  fold(events: QueueEvent[]): ReplayedEntry[] {
+    const state = new Map<string, ReplayedEntry>();
+
+    for (const event of events) {
+      const current = state.get(event.userWhatsapp);
+      const type = event.eventType as QueueEventType;
+
+      switch (type) {
+        case 'joined':
+        case 'moved':
+        case 'reserved':
+        case 'promoted': {
+          const status = type === 'reserved' || type === 'promoted'
+            ? 'reserved'
+            : type === 'joined' ? 'waiting' : current?.status ?? 'waiting';
+          state.set(event.userWhatsapp, {
+            queueId: event.queueId ?? current?.queueId ?? null,
+            userWhatsapp: event.userWhatsapp,
+            lane: event.lane,
+            position: event.toPosition ?? current?.position ?? null,
+            status,
+            joinedAt: type === 'joined' || !current ? event.createdAt : current.joinedAt,
+            lastEventAt: event.createdAt,
+          });
+          break;
+        }
+        case 'started':
+          state.set(event.userWhatsapp, {
+            queueId: event.queueId ?? current?.queueId ?? null,
+            userWhatsapp: event.userWhatsapp,
+            lane: event.lane,
+            position: null,
+            status: 'charging',
+            joinedAt: current?.joinedAt ?? event.createdAt,
+            lastEventAt: event.createdAt,
+          });
+          break;
+        case 'completed':
+        case 'cancelled':
+        case 'expired':
+          state.delete(event.userWhatsapp);
+          break;
+        default:
+          logger.warn('Unknown queue event type skipped in replay', { eventId: event.id, eventType: event.eventType });
+      }
+    }
+
+    return [...state.values()].sort((a, b) =>
+      (a.lane ?? '').localeCompare(b.lane ?? '') ||
+      (a.position ?? Number.MAX_SAFE_INTEGER) - (b.position ?? Number.MAX_SAFE_INTEGER)
+    );
+  }
+
+  // ===============================================
+  // FORMATTING
+  // ===============================================
+
+  /**
+   * WhatsApp-friendly timeline. Driver numbers are cut to their last four digits.
+   */
+  formatTimeline(events: QueueEvent[]): string {
+    if (events.length === 0) return 'No queue activity in this period.';
+
+    return events.map(event => {
+      const type = event.eventType as QueueEventType;
+      const positions = event.fromPosition != null && event.toPosition != null && event.fromPosition !== event.toPosition
+        ? ` #${event.fromPosition} → #${event.toPosition}`
+        : event.toPosition != null ? ` #${event.toPosition}` : event.fromPosition != null ? ` from #${event.fromPosition}` : '';
+      const details = [event.lane, event.reason?.replace(/_/g, ' '), event.actorType !== 'user' ? `by ${event.actorType}` : null]
+        .filter(Boolean)
+        .join(', ');
+
+      return `${this.formatTime(event.createdAt)} ${EVENT_ICONS[type] || '•'} ${this.maskDriver(event.userWhatsapp)} ${type}${positions}` +
+        (details ? ` (${details})` : '');
+    }).join('\n');
+  }
+
+  formatReplay(entries: ReplayedEntry[]): string {
+    if (entries.length === 0) return 'Queue was empty.';
+
+    return entries.map(entry =>
+      entry.status === 'charging'
+        ? `⚡ ${this.maskDriver(entry.userWhatsapp)} charging${entry.lane ? ` (${entry.lane})` : ''}`
+        : `#${entry.position} ${this.maskDriver(entry.userWhatsapp)} ${entry.status}${entry.lane ? ` (${entry.lane})` : ''} since ${this.formatTime(entry.joinedAt)}`
+    ).join('\n');
+  }
+
+  private maskDriver(whatsappId: string): string {
+    return `…${whatsappId.slice(-4)}`;
+  }
+
+  private formatTime(date: Date): string {
+    return date.toLocaleTimeString('en-IN', { hour: 'numeric', minute: '2-digit', hour12: true, timeZone: 'Asia/Kolkata' });
+  }
+}
+
+// ===============================================
+// SINGLETON EXPORT
+// ===============================================
+
+export const queueHistoryService = new QueueHistoryService();
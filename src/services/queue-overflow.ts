@@ -0,0 +1,288 @@
+// src/services/queue-overflow.ts - FULL-QUEUE REDIRECTION TO NEARBY STATIONS & STATION WAITLIST
+import { db } from '../config/database';
+import { chargingStations, queueWaitlist } from '../db/schema';
+import { eq, and, inArray, sql } from 'drizzle-orm';
+import { logger } from '../utils/logger';
+import { stationSearchService, type StationResult } from './location/station-search';
+import { whatsappService } from './whatsapp';
+import { stationQueueLock } from '../utils/queue-lock';
+
+// ===============================================
+// TYPES & CONSTANTS
+// ===============================================
+
+export interface OverflowAlternative {
+  station: StationResult;
+  travelMinutes: number;
+  // Drive there plus the wait on arrival - what the list is ranked by
+  totalMinutes: number;
+}
+
+export interface OverflowOptions {
+  stationId: number;
+  stationName: string;
+  fullWaitMinutes: number;
+  alternatives: OverflowAlternative[];
+}
+
+export interface WaitlistResult {
+  success: boolean;
+  error?: string;
+  place?: number;
+}
+
+const OVERFLOW_RADIUS_KM = 15;
+const DRIVE_MINUTES_PER_KM = 2;
+const MAX_ALTERNATIVES = 3;
+// A notified driver keeps first claim on the open spot for this long
+const WAITLIST_HOLD_MINUTES = 10;
+const WAITLIST_MAX_HOURS = 4;
+
+// ===============================================
+// QUEUE OVERFLOW SERVICE
+// ===============================================
+
+class QueueOverflowService {
+  /**
+   * Compatible open stations nearby that would get the driver charging sooner,
+   * counting the drive over
+   */
+  async findAlternatives(userWhatsapp: string, stationId: number): Promise<OverflowOptions | null> {
+    try {
+      const [station] = await db
+        .select({
+          id: chargingStations.id,
+          name: chargingStations.name,
+          latitude: chargingStations.latitude,
+          longitude: chargingStations.longitude,
+          totalPorts: chargingStations.totalPorts,
+          maxQueueLength: chargingStations.maxQueueLength,
+          currentQueueLength: chargingStations.currentQueueLength,
+          averageSessionMinutes: chargingStations.averageSessionMinutes,
+        })
+        .from(chargingStations)
+        .where(eq(chargingStations.id, stationId))
+        .limit(1);
+
+      if (!station) return null;
+
+      const queueLength = Math.max(station.currentQueueLength ?? 0, station.maxQueueLength ?? 5);
+      const fullWaitMinutes = Math.ceil(
+        (queueLength * (station.averageSessionMinutes ?? 45)) / Math.max(station.totalPorts ?? 1, 1)
+      );
+
+      // Search applies the driver's connector preference, so results are compatible
+      const search = await stationSearchService.searchStations({
+        userWhatsapp,
+        latitude: Number(station.latitude),
+        longitude: Number(station.longitude),
+        radius: OVERFLOW_RADIUS_KM,
+        maxResults: 20,
+        sortBy: 'distance',
+      });
+
+      const alternatives = search.stations
+        .filter(candidate =>
+          candidate.id !== stationId &&
+          candidate.isOpen &&
+          candidate.currentQueueLength < candidate.maxQueueLength &&
+          candidate.estimatedWaitMinutes < fullWaitMinutes
+        )
+        .map(candidate => {
+          const travelMinutes = Math.ceil(candidate.distance * DRIVE_MINUTES_PER_KM);
+          return { station: candidate, travelMinutes, totalMinutes: travelMinutes + candidate.estimatedWaitMinutes };
+        })
+        .filter(alternative => alternative.totalMinutes < fullWaitMinutes)
+        .sort((a, b) => a.totalMinutes - b.totalMinutes)
+        .slice(0, MAX_ALTERNATIVES);
+
+      logger.info('🔀 Overflow alternatives found', { userWhatsapp, stationId, fullWaitMinutes, count: alternatives.length });
+      return { stationId, stationName: station.name, fullWaitMinutes, alternatives };
+    } catch (error) {
+      logger.error('Failed to find overflow alternatives', { userWhatsapp, stationId, error });
+      return null;
+    }
+  }
+
+  // ===============================================
+  // WAITLIST
+  // ===============================================
+
+  async joinWaitlist(userWhatsapp: string, stationId: number): Promise<WaitlistResult> {
+    try {
+      const [existing] = await db
+        .select({ id: queueWaitlist.id })
+        .from(queueWaitlist)
+        .where(
+          and(
+            eq(queueWaitlist.userWhatsapp, userWhatsapp),
+            eq(queueWaitlist.stationId, stationId),
+            inArray(queueWaitlist.status, ['waiting', 'notified'])
+          )
+        )
+        .limit(1);
+
+      const entryId = existing?.id ?? (await db
+        .insert(queueWaitlist)
+        .values({ stationId, userWhatsapp })
+        .returning({ id: queueWaitlist.id }))[0].id;
+
+      const placeResult = await db.execute(sql`
+        SELECT COUNT(*) AS place
+        FROM queue_waitlist
+        WHERE station_id = ${stationId}
+        AND status = 'waiting'
+        AND id <= ${entryId}
+      `);
+
+      const place = Number((placeResult.rows[0] as any)?.place) || 1;
+      logger.info('🔔 Joined station waitlist', { userWhatsapp, stationId, place });
+
+      // The queue may have opened since the join attempt
+      await this.notifyWaitlist(stationId);
+      return { success: true, place };
+    } catch (error) {
+      logger.error('Failed to join waitlist', { userWhatsapp, stationId, error });
+      return { success: false, error: 'Could not add you to the waitlist. Please try again.' };
+    }
+  }
+
+  async leaveWaitlist(userWhatsapp: string, stationId: number): Promise<boolean> {
+    try {
+      const left = await db
+        .update(queueWaitlist)
+        .set({ status: 'cancelled', updatedAt: new Date() })
+        .where(
+          and(
+            eq(queueWaitlist.userWhatsapp, userWhatsapp),
+            eq(queueWaitlist.stationId, stationId),
+            inArray(queueWaitlist.status, ['waiting', 'notified'])
+          )
+        )
+        .returning({ id: queueWaitlist.id });
+
+      return left.length > 0;
+    } catch (error) {
+      logger.error('Failed to leave waitlist', { userWhatsapp, stationId, error });
+      return false;
+    }
+  }
+
+  /**
+   * Joining the queue closes the driver's waitlist entry for that station
+   */
+  async markJoined(userWhatsapp: string, stationId: number): Promise<void> {
+    try {
+      await db
+        .update(queueWaitlist)
+        .set({ status: 'joined', updatedAt: new Date() })
+        .where(
+          and(
+            eq(queueWaitlist.userWhatsapp, userWhatsapp),
+            eq(queueWaitlist.stationId, stationId),
+            inArray(queueWaitlist.status, ['waiting', 'notified'])
+          )
+        );
+    } catch (error) {
+      logger.error('Failed to close waitlist entry', { userWhatsapp, stationId, error });
+    }
+  }
+
+  /**
+   * Tell the oldest waitlisted drivers about open spots - one driver per spot,
+   * counting spots still held for drivers notified earlier
+   */
+  async notifyWaitlist(stationId: number): Promise<void> {
+    try {
+      const [, notifiedResult] = await db.batch([
+        db.execute(stationQueueLock(stationId)),
+        db.execute(sql`
+          WITH station AS (
+            SELECT COALESCE(max_queue_length, 5) AS max_length
+            FROM charging_stations
+            WHERE id = ${stationId} AND is_active = true AND is_open = true
+          ),
+          taken AS (
+            SELECT
+              (SELECT COUNT(*) FROM queues WHERE station_id = ${stationId} AND status IN ('waiting', 'reserved')) +
+              (SELECT COUNT(*) FROM queue_waitlist WHERE station_id = ${stationId} AND status = 'notified'
+                AND notified_at > NOW() - ${WAITLIST_HOLD_MINUTES} * INTERVAL '1 minute') AS taken_count
+          )
+          UPDATE queue_waitlist
+          SET status = 'notified', notified_at = NOW(), updated_at = NOW()
+          WHERE id IN (
+            SELECT id FROM queue_waitlist
+            WHERE station_id = ${stationId} AND status = 'waiting'
+            ORDER BY created_at
+            LIMIT GREATEST(0, (SELECT max_length FROM station) - (SELECT taken_count FROM taken))
+          )
+          RETURNING user_whatsapp
+        `),
+      ]);
+
+      if (notifiedResult.rows.length === 0) return;
+
+      const [station] = await db
+        .select({ name: chargingStations.name })
+        .from(chargingStations)
+        .where(eq(chargingStations.id, stationId))
+        .limit(1);
+
+      for (const row of notifiedResult.rows as any[]) {
+        await whatsappService.sendButtonMessage(
+          row.user_whatsapp,
+          `🔔 *A Spot Opened Up*\n\n` +
+          `📍 *${station?.name || 'Your waitlisted station'}* has room in its queue again.\n\n` +
+          `⏳ We'll hold first claim for you for ${WAITLIST_HOLD_MINUTES} minutes.`,
+          [
+            { id: `join_queue_${stationId}`, title: '📋 Join Queue Now' },
+            { id: `waitlist_leave_${stationId}`, title: '❌ Not Now' },
+          ],
+          '🔔 Waitlist'
+        );
+      }
+
+      logger.info('🔔 Waitlist notified', { stationId, notified: notifiedResult.rows.length });
+    } catch (error) {
+      logger.error('Failed to notify waitlist', { stationId, error });
+    }
+  }
+
+  // ===============================================
+  // SCHEDULER
+  // ===============================================
+
+  /**
+   * Drop unclaimed holds and stale entries, then offer any open spots to the next drivers
+   */
+  async sweepWaitlist(): Promise<void> {
+    const now = new Date();
+    const expired = await db
+      .update(queueWaitlist)
+      .set({ status: 'expired', updatedAt: now })
+      .where(
+        sql`(${queueWaitlist.status} = 'notified' AND ${queueWaitlist.notifiedAt} < ${new Date(now.getTime() - WAITLIST_HOLD_MINUTES * 60 * 1000)})
+          OR (${queueWaitlist.status} = 'waiting' AND ${queueWaitlist.createdAt} < ${new Date(now.getTime() - WAITLIST_MAX_HOURS * 60 * 60 * 1000)})`
+      )
+      .returning({ id: queueWaitlist.id });
+
+    if (expired.length > 0) {
+      logger.info(`🔔 Expired ${expired.length} waitlist entries`);
+    }
+
+    const stations = await db
+      .selectDistinct({ stationId: queueWaitlist.stationId })
+      .from(queueWaitlist)
+      .where(eq(queueWaitlist.status, 'waiting'));
+
+    for (const { stationId } of stations) {
+      await this.notifyWaitlist(stationId);
+    }
+  }
+}
+
+// ===============================================
+// SINGLETON EXPORT
+// ===============================================
+
+export const queueOverflowService = new QueueOverflowService();
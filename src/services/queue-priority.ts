@@ -0,0 +1,186 @@
+// src/services/queue-priority.ts - QUEUE PRIORITY TIERS, OWNER POLICIES & FAIRNESS CAPS
+import { db } from '../config/database';
+import { chargingStations, users } from '../db/schema';
+import { eq, and, or, isNull, lt } from 'drizzle-orm';
+import { logger } from '../utils/logger';
+import { reliabilityService, LOW_RELIABILITY_PRIORITY } from './reliability';
+
+// ===============================================
+// TYPES & CONSTANTS
+// ===============================================
+
+export type PriorityTier = 'low_battery' | 'accessibility' | 'fleet';
+
+export interface PriorityPolicy {
+  low_battery: boolean;
+  accessibility: boolean;
+  fleet: boolean;
+  // How many times one waiting driver can be overtaken by priority drivers per visit
+  maxOvertakes: number;
+}
+
+export interface JoinPriority {
+  priority: number;
+  reason: PriorityTier | 'low_reliability' | null;
+}
+
+// Higher goes first within a lane; normal drivers are 0
+export const TIER_PRIORITY: Record<PriorityTier, number> = {
+  low_battery: 30,
+  accessibility: 20,
+  fleet: 10,
+};
+
+export const TIER_LABELS: Record<PriorityTier, string> = {
+  low_battery: '🪫 Critical battery',
+  accessibility: '♿ Accessibility',
+  fleet: '🚚 Fleet',
+};
+
+export const DEFAULT_PRIORITY_POLICY: PriorityPolicy = {
+  low_battery: true,
+  accessibility: true,
+  fleet: true,
+  maxOvertakes: 2,
+};
+
+export const CRITICAL_BATTERY_PERCENT = 10;
+export const MAX_OVERTAKES_LIMIT = 10;
+const LOW_BATTERY_CLAIM_HOURS = 24;
+const HOUR_MS = 60 * 60 * 1000;
+
+// ===============================================
+// QUEUE PRIORITY SERVICE
+// ===============================================
+
+class QueuePriorityService {
+  async getPolicy(stationId: number): Promise<PriorityPolicy> {
+    try {
+      const [station] = await db
+        .select({ priorityPolicy: chargingStations.priorityPolicy })
+        .from(chargingStations)
+        .where(eq(chargingStations.id, stationId))
+        .limit(1);
+
+      return { ...DEFAULT_PRIORITY_POLICY, ...((station?.priorityPolicy as Partial<PriorityPolicy>) || {}) };
+    } catch (error) {
+      logger.error('Failed to load priority policy', { stationId, error });
+      return DEFAULT_PRIORITY_POLICY;
+    }
+  }
+
+  /**
+   * Merge an owner change into the station policy - ownership is checked by the caller
+   */
+  async updatePolicy(stationId: number, change: Partial<PriorityPolicy>): Promise<PriorityPolicy> {
+    const policy = { ...(await this.getPolicy(stationId)), ...change };
+    policy.maxOvertakes = Math.max(0, Math.min(MAX_OVERTAKES_LIMIT, Math.round(policy.maxOvertakes)));
+
+    await db
+      .update(chargingStations)
+      .set({ priorityPolicy: policy, updatedAt: new Date() })
+      .where(eq(chargingStations.id, stationId));
+
+    logger.info('⚖️ Priority policy updated', { stationId, policy });
+    return policy;
+  }
+
+  /**
+   * Standing priority when joining - the highest tier the station allows,
+   * otherwise lowered for unreliable drivers
+   */
+  async resolveJoinPriority(userWhatsapp: string, stationId: number): Promise<JoinPriority> {
+    try {
+      const [[user], policy] = await Promise.all([
+        db
+          .select({ accessibilityNeeds: users.accessibilityNeeds, fleetPriority: users.fleetPriority })
+          .from(users)
+          .where(eq(users.whatsappId, userWhatsapp))
+          .limit(1),
+        this.getPolicy(stationId),
+      ]);
+
+      if (user?.accessibilityNeeds && policy.accessibility) {
+        return { priority: TIER_PRIORITY.accessibility, reason: 'accessibility' };
+      }
+      if (user?.fleetPriority && policy.fleet) {
+        return { priority: TIER_PRIORITY.fleet, reason: 'fleet' };
+      }
+
+      const standing = await reliabilityService.getStanding(userWhatsapp);
+      return standing.lowPriority
+        ? { priority: LOW_RELIABILITY_PRIORITY, reason: 'low_reliability' }
+        : { priority: 0, reason: null };
+    } catch (error) {
+      logger.error('Failed to resolve join priority', { userWhatsapp, stationId, error });
+      return { priority: 0, reason: null };
+    }
+  }
+
+  /**
+   * Critical-battery declaration - honoured once a day per driver where the station allows it
+   */
+  async claimLowBattery(userWhatsapp: string, stationId: number, batteryPercent: number): Promise<{ allowed: boolean; error?: string }> {
+    if (batteryPercent >= CRITICAL_BATTERY_PERCENT) {
+      return { allowed: false, error: `Priority is for batteries below ${CRITICAL_BATTERY_PERCENT}%` };
+    }
+
+    const policy = await this.getPolicy(stationId);
+    if (!policy.low_battery) {
+      return { allowed: false, error: 'This station does not offer critical-battery priority' };
+    }
+
+    const now = new Date();
+    const [claimed] = await db
+      .update(users)
+      .set({ lowBatteryClaimedAt: now, updatedAt: now })
+      .where(
+        and(
+          eq(users.whatsappId, userWhatsapp),
+          or(
+            isNull(users.lowBatteryClaimedAt),
+            lt(users.lowBatteryClaimedAt, new Date(now.getTime() - LOW_BATTERY_CLAIM_HOURS * HOUR_MS))
+          )
+        )
+      )
+      .returning({ id: users.id });
+
+    if (!claimed) {
+      return { allowed: false, error: `Critical-battery priority can be used once every ${LOW_BATTERY_CLAIM_HOURS} hours` };
+    }
+
+    logger.info('🪫 Critical battery declared', { userWhatsapp, stationId, batteryPercent });
+    return { allowed: true };
+  }
+
+  async setAccessibilityNeeds(userWhatsapp: string, enabled: boolean): Promise<boolean> {
+    try {
+      const [updated] = await db
+        .update(users)
+        .set({ accessibilityNeeds: enabled, updatedAt: new Date() })
+        .where(eq(users.whatsappId, userWhatsapp))
+        .returning({ id: users.id });
+      return !!updated;
+    } catch (error) {
+      logger.error('Failed to update accessibility needs', { userWhatsapp, enabled, error });
+      return false;
+    }
+  }
+
+  isPriorityTier(value: unknown): value is PriorityTier {
+    return typeof value === 'string' && value in TIER_PRIORITY;
+  }
+
+  formatPolicy(policy: PriorityPolicy): string {
+    const tiers = (Object.keys(TIER_PRIORITY) as PriorityTier[])
+      .map(tier => `${policy[tier] ? '✅' : '❌'} ${TIER_LABELS[tier]}`)
+      .join('\n');
+    return `${tiers}\n⚖️ A waiting driver can be overtaken at most ${policy.maxOvertakes} time${policy.maxOvertakes === 1 ? '' : 's'}`;
+  }
+}
+
+// ===============================================
+// SINGLETON EXPORT
+// ===============================================
+
+export const queuePriorityService = new QueuePriorityService();
@@ -0,0 +1,287 @@
+// src/services/queue-swap.ts - DRIVER-TO-DRIVER QUEUE SPOT SWAPS WITH EXPIRY & AUDIT TRAIL
+import { db } from '../config/database';
+import { queues, queueSwapOffers, auditLogs, type QueueSwapOffer } from '../db/schema';
+import { eq, and, lt, gt, sql } from 'drizzle-orm';
+import { logger } from '../utils/logger';
+import { queueService, type QueuePosition } from './queue';
+import { whatsappService } from './whatsapp';
+import { stationQueueLock } from '../utils/queue-lock';
+import { queueHistoryService } from './queue-history';
+
+// ===============================================
+// TYPES & CONSTANTS
+// ===============================================
+
+export type SwapOfferStatus = 'pending' | 'accepted' | 'declined' | 'expired' | 'failed';
+
+export interface SwapOfferResult {
+  success: boolean;
+  error?: string;
+  offer?: QueueSwapOffer;
+}
+
+export interface SwapAcceptResult {
+  success: boolean;
+  error?: string;
+  offer?: QueueSwapOffer;
+  accepter?: QueuePosition | null;
+  offerer?: QueuePosition | null;
+}
+
+export const SWAP_OFFER_MINUTES = 10;
+const MINUTE_MS = 60 * 1000;
+
+// ===============================================
+// QUEUE SWAP SERVICE
+// ===============================================
+
+class QueueSwapService {
+  /**
+   * Offer your place to the driver right behind you in the same connector lane
+   */
+  async offerSwap(fromUserWhatsapp: string, stationId: number): Promise<SwapOfferResult> {
+    try {
+      const [from] = await db
+        .select()
+        .from(queues)
+        .where(
+          and(
+            eq(queues.userWhatsapp, fromUserWhatsapp),
+            eq(queues.stationId, stationId),
+            eq(queues.status, 'waiting')
+          )
+        )
+        .limit(1);
+      if (!from) {
+        return { success: false, error: 'You need to be waiting in this queue to offer a swap' };
+      }
+
+      const [next] = await db
+        .select()
+        .from(queues)
+        .where(
+          and(
+            eq(queues.stationId, stationId),
+            eq(queues.status, 'waiting'),
+            eq(queues.position, from.position + 1),
+            sql`${queues.requestedConnectorType} IS NOT DISTINCT FROM ${from.requestedConnectorType}`
+          )
+        )
+        .limit(1);
+      if (!next) {
+        return { success: false, error: 'Nobody is waiting behind you to swap with' };
+      }
+
+      const [existing] = await db
+        .select({ id: queueSwapOffers.id })
+        .from(queueSwapOffers)
+        .where(
+          and(
+            eq(queueSwapOffers.fromQueueId, from.id),
+            eq(queueSwapOffers.status, 'pending'),
+            gt(queueSwapOffers.expiresAt, new Date())
+          )
+        )
+        .limit(1);
+      if (existing) {
+        return { success: false, error: 'You already have a swap offer waiting for an answer' };
+      }
+
+      const now = new Date();
+      const [offer] = await db
+        .insert(queueSwapOffers)
+        .values({
+          stationId,
+          fromUserWhatsapp,
+          toUserWhatsapp: next.userWhatsapp,
+          fromQueueId: from.id,
+          toQueueId: next.id,
+          fromPosition: from.position,
+          toPosition: next.position,
+          expiresAt: new Date(now.getTime() + SWAP_OFFER_MINUTES * MINUTE_MS),
+        })
+        .returning();
+
+      await this.audit(fromUserWhatsapp, 'queue_swap_offered', offer, null, { status: 'pending' });
+      logger.info('🔁 Queue swap offered', { offerId: offer.id, stationId, from: fromUserWhatsapp, to: next.userWhatsapp });
+      return { success: true, offer };
+    } catch (error) {
+      logger.error('Failed to offer queue swap', { fromUserWhatsapp, stationId, error });
+      return { success: false, error: 'Could not create the swap offer. Please try again.' };
+    }
+  }
+
+  /**
+   * Accept an offer - both positions change in one statement, and only if neither
+   * driver has moved since the offer was made
+   */
+  async acceptSwap(toUserWhatsapp: string, offerId: number): Promise<SwapAcceptResult> {
+    try {
+      const offer = await this.getOffer(offerId);
+      if (!offer || offer.toUserWhatsapp !== toUserWhatsapp) {
+        return { success: false, error: 'Swap offer not found' };
+      }
+
+      const [, swapResult] = await db.batch([
+        db.execute(stationQueueLock(offer.stationId)),
+        db.execute(sql`
+          WITH offer AS (
+            SELECT * FROM queue_swap_offers
+            WHERE id = ${offerId}
+            AND to_user_whatsapp = ${toUserWhatsapp}
+            AND status = 'pending'
+            AND expires_at > NOW()
+          ),
+          ready AS (
+            SELECT COUNT(*) = 2 AS ok
+            FROM queues q, offer o
+            WHERE q.status = 'waiting'
+            AND ((q.id = o.from_queue_id AND q.position = o.from_position)
+              OR (q.id = o.to_queue_id AND q.position = o.to_position))
+          ),
+          swapped AS (
+            UPDATE queues q
+            SET position = CASE WHEN q.id = o.from_queue_id THEN o.to_position ELSE o.from_position END,
+                updated_at = NOW()
+            FROM offer o, ready r
+            WHERE r.ok
+            AND q.id IN (o.from_queue_id, o.to_queue_id)
+            RETURNING q.id, q.user_whatsapp, q.requested_connector_type, q.position,
+              CASE WHEN q.id = o.from_queue_id THEN o.from_position ELSE o.to_position END AS old_position
+          ),
+          swapped_events AS (
+            ${queueHistoryService.recordSql(offer.stationId, 'moved', { type: 'user', whatsappId: toUserWhatsapp }, sql`
+              SELECT id AS queue_id, user_whatsapp, requested_connector_type AS lane, old_position AS from_position, position AS to_position
+              FROM swapped
+            `, 'swap')}
+          )
+          UPDATE queue_swap_offers s
+          SET status = CASE WHEN (SELECT COUNT(*) FROM swapped) = 2 THEN 'accepted' ELSE 'failed' END,
+              responded_at = NOW(),
+              updated_at = NOW()
+          FROM offer o
+          WHERE s.id = o.id
+          RETURNING s.status
+        `),
+      ]);
+
+      const status = (swapResult.rows[0] as any)?.status as SwapOfferStatus | undefined;
+      if (!status) {
+        return { success: false, error: `This offer is ${offer.status === 'pending' ? 'expired' : offer.status}` };
+      }
+
+      const updated = await this.getOffer(offerId);
+      await this.audit(toUserWhatsapp, 'queue_swap_responded', updated ?? offer, { status: 'pending' }, { status });
+
+      if (status === 'failed') {
+        return { success: false, error: 'The queue moved since the offer was made - positions were not changed', offer: updated ?? offer };
+      }
+
+      const [accepter, offerer] = await Promise.all([
+        queueService.refreshWaitEstimate(toUserWhatsapp, offer.stationId),
+        queueService.refreshWaitEstimate(offer.fromUserWhatsapp, offer.stationId),
+      ]);
+
+      logger.info('🔁 Queue swap completed', { offerId, stationId: offer.stationId });
+      return { success: true, offer: updated ?? offer, accepter, offerer };
+    } catch (error) {
+      logger.error('Failed to accept queue swap', { toUserWhatsapp, offerId, error });
+      return { success: false, error: 'Could not complete the swap. Please try again.' };
+    }
+  }
+
+  async declineSwap(toUserWhatsapp: string, offerId: number): Promise<QueueSwapOffer | null> {
+    try {
+      const now = new Date();
+      const [declined] = await db
+        .update(queueSwapOffers)
+        .set({ status: 'declined', respondedAt: now, updatedAt: now })
+        .where(
+          and(
+            eq(queueSwapOffers.id, offerId),
+            eq(queueSwapOffers.toUserWhatsapp, toUserWhatsapp),
+            eq(queueSwapOffers.status, 'pending')
+          )
+        )
+        .returning();
+
+      if (declined) {
+        await this.audit(toUserWhatsapp, 'queue_swap_responded', declined, { status: 'pending' }, { status: 'declined' });
+      }
+      return declined ?? null;
+    } catch (error) {
+      logger.error('Failed to decline queue swap', { toUserWhatsapp, offerId, error });
+      return null;
+    }
+  }
+
+  async getOffer(offerId: number): Promise<QueueSwapOffer | null> {
+    const [offer] = await db.select().from(queueSwapOffers).where(eq(queueSwapOffers.id, offerId)).limit(1);
+    return offer ?? null;
+  }
+
+  // ===============================================
+  // EXPIRY
+  // ===============================================
+
+  async expirePendingOffers(): Promise<void> {
+    const now = new Date();
+    const expired = await db
+      .update(queueSwapOffers)
+      .set({ status: 'expired', updatedAt: now })
+      .where(and(eq(queueSwapOffers.status, 'pending'), lt(queueSwapOffers.expiresAt, now)))
+      .returning();
+
+    for (const offer of expired) {
+      await this.audit(offer.fromUserWhatsapp, 'queue_swap_expired', offer, { status: 'pending' }, { status: 'expired' });
+      await whatsappService.sendTextMessage(
+        offer.fromUserWhatsapp,
+        '⌛ *Swap Offer Expired*\n\nThe driver behind you didn\'t answer in time - your place in the queue is unchanged.'
+      );
+    }
+
+    if (expired.length > 0) {
+      logger.info(`🔁 Expired ${expired.length} queue swap offers`);
+    }
+  }
+
+  // ===============================================
+  // HELPERS
+  // ===============================================
+
+  private async audit(
+    actorWhatsappId: string,
+    action: string,
+    offer: QueueSwapOffer,
+    oldValues: Record<string, unknown> | null,
+    newValues: Record<string, unknown>
+  ): Promise<void> {
+    try {
+      await db.insert(auditLogs).values({
+        actorWhatsappId,
+        actorType: 'user',
+        action,
+        resourceType: 'queue_swap_offer',
+        resourceId: String(offer.id),
+        oldValues,
+        newValues,
+        metadata: {
+          stationId: offer.stationId,
+          fromUser: offer.fromUserWhatsapp,
+          toUser: offer.toUserWhatsapp,
+          fromPosition: offer.fromPosition,
+          toPosition: offer.toPosition,
+        },
+        createdAt: new Date(),
+      });
+    } catch (error) {
+      logger.error('Failed to write queue swap audit log', { offerId: offer.id, action, error });
+    }
+  }
+}
+
+// ===============================================
+// SINGLETON EXPORT
+// ===============================================
+
+export const queueSwapService = new QueueSwapService();
@@ -1,8 +1,13 @@
 // src/services/queue.ts - FINAL CONSTRAINT-SAFE VERSION
 import { db } from '../db/connection';
-import { sql } from 'drizzle-orm';
+import { sql, type SQL } from 'drizzle-orm';
 import { logger } from '../utils/logger';
 import { notificationService } from '../services/notification';
+import { reliabilityService } from './reliability';
+import { queuePriorityService, TIER_LABELS, type PriorityTier } from './queue-priority';
+import { queueOverflowService } from './queue-overflow';
+import { stationQueueLock } from '../utils/queue-lock';
+import { queueHistoryService, SYSTEM_ACTOR, type QueueEventActor } from './queue-history';
 
 export interface QueuePosition {
   id: number;
@@ -16,6 +21,19 @@ export interface QueuePosition {
   createdAt: Date;
   stationName?: string;
   stationAddress?: string;
+  // Lane the driver waits in - null means any connector
+  connectorType?: string | null;
+}
+
+interface LaneCapacity {
+  total: number;
+  free: number;
+}
+
+export interface PriorityMove {
+  oldPosition: number;
+  newPosition: number;
+  estimatedWaitMinutes: number;
 }
 
 export interface QueueStats {
@@ -28,23 +46,14 @@ export interface QueueStats {
 
 class QueueService {
   /**
-   * FINAL FIX - Handles unique constraint properly by using UPDATE instead of INSERT
+   * Join a station queue - the place is claimed under the station's queue lock,
+   * reusing the user's past row for the station instead of inserting a new one
    */
   async joinQueue(userWhatsapp: string, stationId: number): Promise<QueuePosition | null> {
     try {
-      logger.info('Attempting to join queue - constraint-safe version', { userWhatsapp, stationId });
-
-      // Step 1: Check if an entry already exists (even if completed/cancelled)
-      const existingEntry = await db.execute(sql`
-        SELECT id, status, position
-        FROM queues 
-        WHERE user_whatsapp = ${userWhatsapp} 
-        AND station_id = ${stationId}
-        ORDER BY created_at DESC
-        LIMIT 1
-      `);
+      logger.info('Attempting to join queue', { userWhatsapp, stationId });
 
-      // Step 2: Get station details first
+      // Step 1: Get station details first
       const stationResult = await db.execute(sql`
         SELECT id, name, address, is_active, is_open, max_queue_length, average_session_minutes
         FROM charging_stations 
@@ -68,7 +77,10 @@ class QueueService {
         return null;
       }
 
-      // Step 3: Check current queue length
+      // Step 2: Pick the connector lane - position and wait are counted per lane
+      const lane = await this.resolveLane(userWhatsapp, stationId);
+
+      // Step 3: Check current queue length - rechecked under the lock below
       const queueCountResult = await db.execute(sql`
         SELECT COUNT(*) as count 
         FROM queues 
@@ -88,73 +100,94 @@ class QueueService {
         return null;
       }
 
-      // Step 4: Get next position
-      const positionResult = await db.execute(sql`
-        SELECT COALESCE(MAX(position), 0) + 1 as next_position
-        FROM queues 
-        WHERE station_id = ${stationId} 
-        AND status IN ('waiting', 'reserved', 'charging')
-      `);
-
-      const nextPosition = Number((positionResult.rows[0] as any).next_position);
-      const estimatedWaitTime = this.calculateWaitTime(nextPosition, station.average_session_minutes || 45);
-
-      let queueEntry: any;
-
-      // Step 5: CONSTRAINT-SAFE APPROACH - Update existing or insert new
-      if (existingEntry.rows.length > 0) {
-        const existing = existingEntry.rows[0] as any;
-        
-        // Update existing entry instead of creating new one (avoids constraint violation)
-        const updateResult = await db.execute(sql`
-          UPDATE queues 
-          SET 
-            position = ${nextPosition},
+      // Step 4: Claim a place in the lane - priority tiers may go ahead of lower ones.
+      // Room, position, overtakes and the row itself are settled in one locked statement
+      // so simultaneous joins can't take the same place or overfill the queue.
+      const { priority, reason } = await queuePriorityService.resolveJoinPriority(userWhatsapp, stationId);
+      const { maxOvertakes } = await queuePriorityService.getPolicy(stationId);
+      const actor: QueueEventActor = { type: 'user', whatsappId: userWhatsapp };
+
+      const rows = await this.runLocked(stationId, sql`
+        WITH params AS (
+          SELECT
+            (SELECT COUNT(*) FROM queues
+              WHERE station_id = ${stationId} AND status IN ('waiting', 'reserved') AND user_whatsapp <> ${userWhatsapp}
+            ) < ${maxQueueLength} AS has_room,
+            NOT EXISTS (
+              SELECT 1 FROM queues
+              WHERE station_id = ${stationId} AND user_whatsapp = ${userWhatsapp} AND status IN ('waiting', 'reserved', 'charging')
+            ) AS not_queued,
+            ${this.priorityPositionSql(stationId, lane, priority, userWhatsapp, maxOvertakes)} AS target
+        ),
+        overtaken AS (
+          UPDATE queues q
+          SET position = q.position + 1, times_overtaken = q.times_overtaken + 1, updated_at = NOW()
+          FROM params p
+          WHERE p.has_room AND p.not_queued
+          AND q.station_id = ${stationId}
+          AND q.status = 'waiting'
+          AND q.requested_connector_type IS NOT DISTINCT FROM ${lane}
+          AND q.position >= p.target
+          AND q.user_whatsapp <> ${userWhatsapp}
+          RETURNING q.id, q.user_whatsapp, q.requested_connector_type, q.position
+        ),
+        entry AS (
+          -- One row per user and station - a past entry is reused rather than duplicated
+          INSERT INTO queues (station_id, user_whatsapp, position, status, requested_connector_type, priority, priority_reason, estimated_wait_minutes, joined_at)
+          SELECT ${stationId}, ${userWhatsapp}, p.target, 'waiting', ${lane}, ${priority}, ${reason}, 0, NOW()
+          FROM params p
+          WHERE p.has_room AND p.not_queued
+          ON CONFLICT (user_whatsapp, station_id) DO UPDATE SET
+            position = EXCLUDED.position,
             status = 'waiting',
-            estimated_wait_minutes = ${estimatedWaitTime},
+            requested_connector_type = EXCLUDED.requested_connector_type,
+            priority = EXCLUDED.priority,
+            priority_reason = EXCLUDED.priority_reason,
+            times_overtaken = 0,
+            estimated_wait_minutes = 0,
             updated_at = NOW(),
             joined_at = NOW()
-          WHERE id = ${existing.id}
-          RETURNING id, station_id, user_whatsapp, position, status, estimated_wait_minutes, created_at
-        `);
+          RETURNING id, station_id, user_whatsapp, position, status, requested_connector_type, created_at
+        ),
+        joined_event AS (
+          ${queueHistoryService.recordSql(stationId, 'joined', actor, sql`
+            SELECT id AS queue_id, user_whatsapp, requested_connector_type AS lane, NULL::int AS from_position, position AS to_position
+            FROM entry
+          `, reason)}
+        ),
+        overtaken_events AS (
+          ${this.recordMovesSql(stationId, 'overtaken', actor, 'overtaken', 1)}
+        )
+        SELECT e.*, (SELECT COALESCE(json_agg(o), '[]'::json) FROM overtaken o) AS overtaken
+        FROM entry e
+      `);
 
-        if (updateResult.rows.length > 0) {
-          queueEntry = updateResult.rows[0];
-          logger.info('Updated existing queue entry successfully', { 
-            queueId: queueEntry.id,
-            userWhatsapp, 
-            stationId,
-            position: nextPosition
-          });
-        }
-      } else {
-        // No existing entry - safe to insert new
-        const insertResult = await db.execute(sql`
-          INSERT INTO queues (station_id, user_whatsapp, position, status, estimated_wait_minutes, joined_at)
-          VALUES (${stationId}, ${userWhatsapp}, ${nextPosition}, 'waiting', ${estimatedWaitTime}, NOW())
-          RETURNING id, station_id, user_whatsapp, position, status, estimated_wait_minutes, created_at
+      const queueEntry = rows[0];
+      if (queueEntry) {
+        const capacity = await this.getLaneCapacity(stationId, lane);
+        queueEntry.estimated_wait_minutes = this.calculateWaitTime(queueEntry.position, station.average_session_minutes || 45, capacity);
+        await db.execute(sql`
+          UPDATE queues SET estimated_wait_minutes = ${queueEntry.estimated_wait_minutes} WHERE id = ${queueEntry.id}
         `);
-
-        if (insertResult.rows.length > 0) {
-          queueEntry = insertResult.rows[0];
-          logger.info('Inserted new queue entry successfully', { 
-            queueId: queueEntry.id,
-            userWhatsapp, 
-            stationId,
-            position: nextPosition
-          });
-        }
+        logger.info('Joined queue', { queueId: queueEntry.id, userWhatsapp, stationId, lane, position: queueEntry.position });
       }
 
       if (!queueEntry) {
-        logger.error('Failed to create or update queue entry');
+        logger.warn('Queue join not applied - queue filled up or user already queued', { userWhatsapp, stationId });
         return null;
       }
 
-      // Step 6: Update station queue count
+      // Step 5: Update station queue count
       await this.updateStationQueueCount(stationId);
-
-      // Step 7: Format response
+      await queueOverflowService.markJoined(userWhatsapp, stationId);
+      await this.notifyOvertaken(
+        stationId,
+        lane,
+        queueEntry.overtaken,
+        queuePriorityService.isPriorityTier(reason) ? reason : null
+      );
+
+      // Step 6: Format response
       const queuePosition: QueuePosition = {
         id: queueEntry.id,
         userWhatsapp: queueEntry.user_whatsapp,
@@ -166,11 +199,12 @@ class QueueService {
         reservationExpiry: queueEntry.reservation_expiry || undefined,
         createdAt: queueEntry.created_at,
         stationName: station.name,
-        stationAddress: station.address
+        stationAddress: station.address,
+        connectorType: queueEntry.requested_connector_type
       };
 
-      // Step 8: Send notifications (non-blocking)
-      this.sendNotifications(userWhatsapp, queuePosition, stationId, nextPosition);
+      // Step 7: Send notifications (non-blocking)
+      this.sendNotifications(userWhatsapp, queuePosition, stationId, queueEntry.position);
 
       return queuePosition;
 
@@ -194,36 +228,63 @@ class QueueService {
   async leaveQueue(userWhatsapp: string, stationId: number, reason: 'user_cancelled' | 'expired' | 'completed' = 'user_cancelled'): Promise<boolean> {
     try {
       const status = reason === 'completed' ? 'completed' : 'cancelled';
-      
-      // Get the queue entry before updating it
-      const queueResult = await db.execute(sql`
-        SELECT id, position 
-        FROM queues 
-        WHERE user_whatsapp = ${userWhatsapp} 
-        AND station_id = ${stationId} 
-        AND status NOT IN ('completed', 'cancelled')
-        LIMIT 1
+      const eventType = reason === 'user_cancelled' ? 'cancelled' : reason;
+      const actor: QueueEventActor = reason === 'user_cancelled' ? { type: 'user', whatsappId: userWhatsapp } : SYSTEM_ACTOR;
+
+      // Update status instead of deleting (preserves history), and move the rest of the
+      // lane up in the same locked statement when the entry was still in line
+      const [queueEntry] = await this.runLocked(stationId, sql`
+        WITH target AS (
+          SELECT id, position, status, requested_connector_type, reservation_expiry
+          FROM queues
+          WHERE user_whatsapp = ${userWhatsapp}
+          AND station_id = ${stationId}
+          AND status NOT IN ('completed', 'cancelled')
+          LIMIT 1
+        ),
+        left_entry AS (
+          UPDATE queues q
+          SET status = ${status}, updated_at = NOW()
+          FROM target t
+          WHERE q.id = t.id
+          RETURNING t.id, q.user_whatsapp, t.position, t.status, t.requested_connector_type, t.reservation_expiry
+        ),
+        moved_up AS (
+          ${this.closeGapSql(stationId, 'left_entry')}
+        ),
+        left_event AS (
+          ${queueHistoryService.recordSql(stationId, eventType, actor, sql`
+            SELECT id AS queue_id, user_whatsapp, requested_connector_type AS lane,
+              CASE WHEN status IN ('waiting', 'reserved') THEN position END AS from_position, NULL::int AS to_position
+            FROM left_entry
+          `, reason)}
+        ),
+        moved_up_events AS (
+          ${this.recordMovesSql(stationId, 'moved_up', actor, 'gap_closed', -1)}
+        )
+        SELECT l.*, (SELECT COUNT(*) FROM moved_up) AS moved_up
+        FROM left_entry l
       `);
 
-      if (!queueResult.rows.length) {
+      if (!queueEntry) {
         logger.warn('No active queue entry found to cancel', { userWhatsapp, stationId });
         return false;
       }
 
-      const queueEntry = queueResult.rows[0] as any;
-
-      // Update status instead of deleting (preserves history, avoids constraint issues)
-      await db.execute(sql`
-        UPDATE queues 
-        SET status = ${status}, updated_at = NOW()
-        WHERE id = ${queueEntry.id}
-      `);
-
-      // Reorder remaining queue
-      await this.reorderQueue(stationId, queueEntry.position);
-
-      // Update station queue count
+      // Update station queue count - the freed spot goes to the waitlist first
       await this.updateStationQueueCount(stationId);
+      await queueOverflowService.notifyWaitlist(stationId);
+
+      // A held charger is free again - letting the hold lapse or dropping it counts against reliability
+      if (queueEntry.status === 'reserved') {
+        const holdReference = `queue-${queueEntry.id}-${new Date(queueEntry.reservation_expiry || Date.now()).getTime()}`;
+        if (reason === 'expired') {
+          await reliabilityService.recordNoShow(userWhatsapp, 'queue', holdReference);
+        } else if (reason === 'user_cancelled') {
+          await reliabilityService.recordLateCancel(userWhatsapp, 'queue', holdReference);
+        }
+        await this.promoteNextInQueue(stationId, queueEntry.requested_connector_type);
+      }
 
       // Notify queue progress
       await this.notifyQueueProgress(stationId);
@@ -252,11 +313,18 @@ class QueueService {
 
       // First, force update any existing entries to cancelled
       await db.execute(sql`
-        UPDATE queues 
-        SET status = 'cancelled', updated_at = NOW()
-        WHERE user_whatsapp = ${userWhatsapp} 
-        AND station_id = ${stationId}
-        AND status NOT IN ('completed', 'cancelled')
+        WITH cancelled AS (
+          UPDATE queues 
+          SET status = 'cancelled', updated_at = NOW()
+          WHERE user_whatsapp = ${userWhatsapp} 
+          AND station_id = ${stationId}
+          AND status NOT IN ('completed', 'cancelled')
+          RETURNING id, user_whatsapp, requested_connector_type, position
+        )
+        ${queueHistoryService.recordSql(stationId, 'cancelled', { type: 'user', whatsappId: userWhatsapp }, sql`
+          SELECT id AS queue_id, user_whatsapp, requested_connector_type AS lane, position AS from_position, NULL::int AS to_position
+          FROM cancelled
+        `, 'force_rejoin')}
       `);
 
       // Wait a moment for database consistency
@@ -285,6 +353,7 @@ class QueueService {
           q.estimated_wait_minutes,
           q.status,
           q.reservation_expiry,
+          q.requested_connector_type,
           q.created_at,
           s.name as station_name,
           s.address as station_address
@@ -307,6 +376,7 @@ class QueueService {
         createdAt: row.created_at,
         stationName: row.station_name,
         stationAddress: row.station_address,
+        connectorType: row.requested_connector_type,
       }));
 
     } catch (error) {
@@ -320,14 +390,20 @@ class QueueService {
    */
   async reserveSlot(userWhatsapp: string, stationId: number, reservationMinutes: number = 15): Promise<boolean> {
     try {
-      // Check if user is first in queue
+      // Check if user is first waiting in their lane
       const queueResult = await db.execute(sql`
-        SELECT id 
-        FROM queues 
-        WHERE user_whatsapp = ${userWhatsapp} 
-        AND station_id = ${stationId} 
-        AND position = 1 
-        AND status = 'waiting'
+        SELECT q.id, q.requested_connector_type
+        FROM queues q
+        WHERE q.user_whatsapp = ${userWhatsapp} 
+        AND q.station_id = ${stationId} 
+        AND q.status = 'waiting'
+        AND NOT EXISTS (
+          SELECT 1 FROM queues ahead
+          WHERE ahead.station_id = q.station_id
+          AND ahead.status = 'waiting'
+          AND ahead.requested_connector_type IS NOT DISTINCT FROM q.requested_connector_type
+          AND ahead.position < q.position
+        )
         LIMIT 1
       `);
 
@@ -337,23 +413,30 @@ class QueueService {
       }
 
       const queueEntry = queueResult.rows[0] as any;
+
+      const lane = queueEntry.requested_connector_type ?? null;
       const expiryTime = new Date(Date.now() + (reservationMinutes * 60 * 1000));
 
-      // Check if reservation_expiry column exists
-      const columnExists = await this.checkColumnExists('queues', 'reservation_expiry');
-      
-      if (columnExists) {
-        await db.execute(sql`
-          UPDATE queues 
+      // ...and a compatible charger is free that nobody else is holding - checked again
+      // under the lock so two drivers can't both take the last charger
+      const [reserved] = await this.runLocked(stationId, sql`
+        WITH reserved AS (
+          UPDATE queues
           SET status = 'reserved', reservation_expiry = ${expiryTime}, updated_at = NOW()
           WHERE id = ${queueEntry.id}
-        `);
-      } else {
-        await db.execute(sql`
-          UPDATE queues 
-          SET status = 'reserved', updated_at = NOW()
-          WHERE id = ${queueEntry.id}
-        `);
+          AND status = 'waiting'
+          AND ${this.freeChargerSql(stationId, lane)}
+          RETURNING id, user_whatsapp, requested_connector_type, position
+        ),
+        reserved_event AS (
+          ${this.recordHoldSql(stationId, 'reserved', { type: 'user', whatsappId: userWhatsapp })}
+        )
+        SELECT id FROM reserved
+      `);
+
+      if (!reserved) {
+        logger.info('No free charger in lane to reserve', { userWhatsapp, stationId, lane });
+        return false;
       }
 
       logger.info('Slot reserved successfully', { userWhatsapp, stationId, expiryTime });
@@ -365,27 +448,271 @@ class QueueService {
     }
   }
 
+  /**
+   * Admit a checked-in advance booking behind drivers already holding a charger but ahead
+   * of everyone still waiting - 'reserved' when a compatible charger is free for them,
+   * otherwise 'waiting' at the head of the lane for the next one
+   */
+  async admitReservation(userWhatsapp: string, stationId: number, holdUntil: Date): Promise<QueuePosition | null> {
+    try {
+      const lane = await this.resolveLane(userWhatsapp, stationId);
+      const actor: QueueEventActor = { type: 'user', whatsappId: userWhatsapp };
+
+      // Make room in the waiting lane and take the place, all under the lock.
+      // Same row-reuse approach as joinQueue - one row per user and station.
+      const [entry] = await this.runLocked(stationId, sql`
+        WITH params AS (
+          SELECT COALESCE(MAX(position), 0) + 1 AS position,
+            ${this.freeChargerSql(stationId, lane)} AS has_charger,
+            NOT EXISTS (
+              SELECT 1 FROM queues
+              WHERE station_id = ${stationId} AND user_whatsapp = ${userWhatsapp} AND status IN ('waiting', 'reserved', 'charging')
+            ) AS not_queued
+          FROM queues
+          WHERE station_id = ${stationId}
+          AND status = 'reserved'
+          AND ${this.laneCondition(lane)}
+          AND user_whatsapp <> ${userWhatsapp}
+        ),
+        shifted AS (
+          UPDATE queues q
+          SET position = q.position + 1, updated_at = NOW()
+          FROM params p
+          WHERE p.not_queued
+          AND q.station_id = ${stationId}
+          AND q.status = 'waiting'
+          AND q.requested_connector_type IS NOT DISTINCT FROM ${lane}
+          AND q.position >= p.position
+          AND q.user_whatsapp <> ${userWhatsapp}
+          RETURNING q.id, q.user_whatsapp, q.requested_connector_type, q.position
+        ),
+        entry AS (
+          INSERT INTO queues (station_id, user_whatsapp, position, status, requested_connector_type, estimated_wait_minutes, reservation_expiry, joined_at)
+          SELECT ${stationId}, ${userWhatsapp}, p.position,
+            CASE WHEN p.has_charger THEN 'reserved' ELSE 'waiting' END, ${lane}, 0,
+            CASE WHEN p.has_charger THEN ${holdUntil}::timestamp END, NOW()
+          FROM params p
+          -- A driver already waiting or charging here keeps that entry
+          WHERE p.not_queued
+          ON CONFLICT (user_whatsapp, station_id) DO UPDATE SET
+            position = EXCLUDED.position,
+            status = EXCLUDED.status,
+            requested_connector_type = EXCLUDED.requested_connector_type,
+            estimated_wait_minutes = 0,
+            reservation_expiry = EXCLUDED.reservation_expiry,
+            joined_at = NOW(),
+            updated_at = NOW()
+          RETURNING id, station_id, user_whatsapp, position, status, estimated_wait_minutes, reservation_expiry, requested_connector_type, created_at
+        ),
+        admitted_event AS (
+          ${queueHistoryService.recordSql(stationId, 'reserved', actor, sql`
+            SELECT id AS queue_id, user_whatsapp, requested_connector_type AS lane, NULL::int AS from_position, position AS to_position
+            FROM entry WHERE status = 'reserved'
+          `, 'advance_booking')}
+        ),
+        queued_event AS (
+          ${queueHistoryService.recordSql(stationId, 'joined', actor, sql`
+            SELECT id AS queue_id, user_whatsapp, requested_connector_type AS lane, NULL::int AS from_position, position AS to_position
+            FROM entry WHERE status = 'waiting'
+          `, 'advance_booking')}
+        ),
+        shifted_events AS (
+          ${this.recordMovesSql(stationId, 'shifted', actor, 'advance_booking', 1)}
+        )
+        SELECT * FROM entry
+      `);
+
+      if (!entry) {
+        logger.warn('Advance booking not admitted - user already queued', { userWhatsapp, stationId });
+        return null;
+      }
+
+      await this.updateStationQueueCount(stationId);
+
+      logger.info('Advance booking admitted to queue', {
+        userWhatsapp,
+        stationId,
+        lane,
+        position: entry.position,
+        status: entry.status,
+        holdUntil: entry.reservation_expiry,
+      });
+
+      return {
+        id: entry.id,
+        userWhatsapp: entry.user_whatsapp,
+        stationId: entry.station_id,
+        position: entry.position,
+        estimatedWaitMinutes: entry.estimated_wait_minutes,
+        status: entry.status,
+        isReserved: entry.status === 'reserved',
+        reservationExpiry: entry.reservation_expiry || undefined,
+        createdAt: entry.created_at,
+        connectorType: entry.requested_connector_type,
+      };
+    } catch (error) {
+      logger.error('Failed to admit reservation to queue', { userWhatsapp, stationId, error });
+      return null;
+    }
+  }
+
+  /**
+   * Raise a waiting driver's priority mid-queue (e.g. a critical-battery declaration)
+   * and move them up as far as the fairness cap allows
+   */
+  async applyPriority(userWhatsapp: string, stationId: number, tier: PriorityTier, priority: number): Promise<PriorityMove | null> {
+    try {
+      const entryResult = await db.execute(sql`
+        SELECT id, position, priority, requested_connector_type
+        FROM queues
+        WHERE user_whatsapp = ${userWhatsapp}
+        AND station_id = ${stationId}
+        AND status = 'waiting'
+        LIMIT 1
+      `);
+
+      const entry = entryResult.rows[0] as any;
+      if (!entry) return null;
+
+      const lane = entry.requested_connector_type ?? null;
+      const newPriority = Math.max(Number(entry.priority), priority);
+      const { maxOvertakes } = await queuePriorityService.getPolicy(stationId);
+      const actor: QueueEventActor = { type: 'user', whatsappId: userWhatsapp };
+
+      // Target, overtakes and the move are one locked statement, read from the row as it is then
+      const [move] = await this.runLocked(stationId, sql`
+        WITH params AS (
+          SELECT id, position AS old_position,
+            LEAST(${this.priorityPositionSql(stationId, lane, newPriority, userWhatsapp, maxOvertakes)}, position) AS new_position
+          FROM queues
+          WHERE id = ${entry.id}
+          AND status = 'waiting'
+        ),
+        overtaken AS (
+          UPDATE queues q
+          SET position = q.position + 1, times_overtaken = q.times_overtaken + 1, updated_at = NOW()
+          FROM params p
+          WHERE q.station_id = ${stationId}
+          AND q.status = 'waiting'
+          AND q.requested_connector_type IS NOT DISTINCT FROM ${lane}
+          AND q.position >= p.new_position
+          AND q.position < p.old_position
+          AND q.user_whatsapp <> ${userWhatsapp}
+          RETURNING q.id, q.user_whatsapp, q.requested_connector_type, q.position
+        ),
+        moved AS (
+          UPDATE queues q
+          SET position = p.new_position, priority = ${newPriority}, priority_reason = ${tier}, updated_at = NOW()
+          FROM params p
+          WHERE q.id = p.id
+          RETURNING q.id, q.user_whatsapp, q.requested_connector_type, p.old_position, p.new_position
+        ),
+        moved_event AS (
+          ${queueHistoryService.recordSql(stationId, 'moved', actor, sql`
+            SELECT id AS queue_id, user_whatsapp, requested_connector_type AS lane, old_position AS from_position, new_position AS to_position
+            FROM moved
+            WHERE old_position <> new_position
+          `, tier)}
+        ),
+        overtaken_events AS (
+          ${this.recordMovesSql(stationId, 'overtaken', actor, 'overtaken', 1)}
+        )
+        SELECT m.*, (SELECT COALESCE(json_agg(o), '[]'::json) FROM overtaken o) AS overtaken
+        FROM moved m
+      `);
+
+      if (!move) return null;
+
+      const capacity = await this.getLaneCapacity(stationId, lane);
+      const estimatedWaitMinutes = this.calculateWaitTime(move.new_position, 45, capacity);
+      await db.execute(sql`
+        UPDATE queues SET estimated_wait_minutes = ${estimatedWaitMinutes} WHERE id = ${entry.id}
+      `);
+
+      await this.notifyOvertaken(stationId, lane, move.overtaken, tier);
+
+      logger.info('Queue priority applied', { userWhatsapp, stationId, tier, oldPosition: move.old_position, newPosition: move.new_position });
+      return { oldPosition: move.old_position, newPosition: move.new_position, estimatedWaitMinutes };
+    } catch (error) {
+      logger.error('Failed to apply queue priority', { userWhatsapp, stationId, tier, error });
+      return null;
+    }
+  }
+
+  /**
+   * Recalculate a waiting driver's estimate after their position changed outside the usual flow
+   */
+  async refreshWaitEstimate(userWhatsapp: string, stationId: number): Promise<QueuePosition | null> {
+    try {
+      const entryResult = await db.execute(sql`
+        SELECT id, position, requested_connector_type
+        FROM queues
+        WHERE user_whatsapp = ${userWhatsapp}
+        AND station_id = ${stationId}
+        AND status = 'waiting'
+        LIMIT 1
+      `);
+
+      const entry = entryResult.rows[0] as any;
+      if (!entry) return null;
+
+      const capacity = await this.getLaneCapacity(stationId, entry.requested_connector_type ?? null);
+      await db.execute(sql`
+        UPDATE queues
+        SET estimated_wait_minutes = ${this.calculateWaitTime(entry.position, 45, capacity)}, updated_at = NOW()
+        WHERE id = ${entry.id}
+      `);
+
+      const [updated] = (await this.getUserQueueStatus(userWhatsapp)).filter(queue => queue.stationId === stationId);
+      return updated ?? null;
+    } catch (error) {
+      logger.error('Failed to refresh wait estimate', { userWhatsapp, stationId, error });
+      return null;
+    }
+  }
+
   /**
    * Start charging session
    */
   async startCharging(userWhatsapp: string, stationId: number): Promise<boolean> {
     try {
-      const result = await db.execute(sql`
-        UPDATE queues 
-        SET status = 'charging', updated_at = NOW()
-        WHERE user_whatsapp = ${userWhatsapp} 
-        AND station_id = ${stationId} 
-        AND status = 'reserved'
-        RETURNING id
+      // Out of the line - the rest of the lane moves up in the same statement
+      const actor: QueueEventActor = { type: 'user', whatsappId: userWhatsapp };
+      const [entry] = await this.runLocked(stationId, sql`
+        WITH started AS (
+          UPDATE queues
+          SET status = 'charging', updated_at = NOW()
+          WHERE user_whatsapp = ${userWhatsapp}
+          AND station_id = ${stationId}
+          AND status = 'reserved'
+          RETURNING id, user_whatsapp, position, 'reserved' AS status, requested_connector_type
+        ),
+        moved_up AS (
+          ${this.closeGapSql(stationId, 'started')}
+        ),
+        started_event AS (
+          ${queueHistoryService.recordSql(stationId, 'started', actor, sql`
+            SELECT id AS queue_id, user_whatsapp, requested_connector_type AS lane, position AS from_position, NULL::int AS to_position
+            FROM started
+          `)}
+        ),
+        moved_up_events AS (
+          ${this.recordMovesSql(stationId, 'moved_up', actor, 'gap_closed', -1)}
+        )
+        SELECT s.*, (SELECT COUNT(*) FROM moved_up) AS moved_up
+        FROM started s
       `);
 
-      if (!result.rows.length) {
+      if (!entry) {
         logger.warn('No valid reservation found to start charging', { userWhatsapp, stationId });
         return false;
       }
 
-      // Promote next user in queue
-      await this.promoteNextInQueue(stationId);
+      await this.updateStationQueueCount(stationId);
+      await queueOverflowService.notifyWaitlist(stationId);
+
+      // Another compatible charger may still be free
+      await this.promoteNextInQueue(stationId, entry.requested_connector_type);
 
       logger.info('Charging session started', { userWhatsapp, stationId });
       return true;
@@ -402,12 +729,21 @@ class QueueService {
   async completeCharging(userWhatsapp: string, stationId: number): Promise<boolean> {
     try {
       const result = await db.execute(sql`
-        UPDATE queues 
-        SET status = 'completed', updated_at = NOW()
-        WHERE user_whatsapp = ${userWhatsapp} 
-        AND station_id = ${stationId} 
-        AND status = 'charging'
-        RETURNING id
+        WITH completed AS (
+          UPDATE queues 
+          SET status = 'completed', updated_at = NOW()
+          WHERE user_whatsapp = ${userWhatsapp} 
+          AND station_id = ${stationId} 
+          AND status = 'charging'
+          RETURNING id, user_whatsapp, requested_connector_type
+        ),
+        completed_event AS (
+          ${queueHistoryService.recordSql(stationId, 'completed', { type: 'user', whatsappId: userWhatsapp }, sql`
+            SELECT id AS queue_id, user_whatsapp, requested_connector_type AS lane, NULL::int AS from_position, NULL::int AS to_position
+            FROM completed
+          `)}
+        )
+        SELECT id, requested_connector_type FROM completed
       `);
 
       if (!result.rows.length) {
@@ -415,10 +751,10 @@ class QueueService {
         return false;
       }
 
-      // Update station and promote next user
+      // Update station and promote next user - a no-op until the port is actually released
       await Promise.all([
         this.updateStationQueueCount(stationId),
-        this.promoteNextInQueue(stationId)
+        this.promoteNextInQueue(stationId, (result.rows[0] as any).requested_connector_type)
       ]);
 
       logger.info('Charging session completed', { userWhatsapp, stationId });
@@ -435,23 +771,16 @@ class QueueService {
   // ==============================================
 
   /**
-   * Check if a column exists in a table
+   * Run one statement as a transaction holding the station's queue lock. Every change
+   * to queue positions goes through here, so concurrent joins, leaves, holds and
+   * promotions at a station apply one after another.
    */
-  private async checkColumnExists(tableName: string, columnName: string): Promise<boolean> {
-    try {
-      const result = await db.execute(sql`
-        SELECT column_name 
-        FROM information_schema.columns 
-        WHERE table_name = ${tableName} 
-        AND column_name = ${columnName} 
-        AND table_schema = 'public'
-      `);
-
-      return result.rows.length > 0;
-    } catch (error) {
-      logger.error('Failed to check column existence', { tableName, columnName, error });
-      return false;
-    }
+  private async runLocked(stationId: number, statement: SQL): Promise<any[]> {
+    const [, result] = await db.batch([
+      db.execute(stationQueueLock(stationId)),
+      db.execute(statement),
+    ]);
+    return result.rows as any[];
   }
 
   /**
@@ -474,32 +803,187 @@ class QueueService {
   }
 
   /**
-   * Calculate estimated wait time
+   * Calculate estimated wait time - drivers within the free chargers go straight in,
+   * everyone else waits one average session per wave of compatible chargers
    */
-  private calculateWaitTime(position: number, avgSessionMinutes: number): number {
-    if (position === 1) return 5;
-    return ((position - 1) * avgSessionMinutes) + 5;
+  private calculateWaitTime(position: number, avgSessionMinutes: number, capacity: LaneCapacity = { total: 1, free: 1 }): number {
+    if (position <= capacity.free) return 5;
+    const waves = Math.ceil((position - capacity.free) / Math.max(1, capacity.total));
+    return (waves * avgSessionMinutes) + 5;
   }
 
   /**
-   * Reorder queue after a position is removed
+   * Connector lane for a driver at a station - the station's own spelling of the
+   * driver's connector, or null (any charger) when it has no match
    */
-  private async reorderQueue(stationId: number, removedPosition: number): Promise<void> {
+  private async resolveLane(userWhatsapp: string, stationId: number): Promise<string | null> {
     try {
-      await db.execute(sql`
-        UPDATE queues 
-        SET position = position - 1, updated_at = NOW()
-        WHERE station_id = ${stationId} 
-        AND position > ${removedPosition} 
-        AND status IN ('waiting', 'reserved')
+      const result = await db.execute(sql`
+        SELECT p.connector_type
+        FROM station_ports p
+        JOIN users u ON u.whatsapp_id = ${userWhatsapp}
+        WHERE p.station_id = ${stationId}
+        AND UPPER(REGEXP_REPLACE(p.connector_type, '[^a-zA-Z0-9]', '', 'g'))
+          = UPPER(REGEXP_REPLACE(u.connector_type, '[^a-zA-Z0-9]', '', 'g'))
+        ORDER BY p.port_number
+        LIMIT 1
       `);
-        
-      logger.debug('Queue reordered successfully', { stationId, removedPosition });
+
+      return (result.rows[0] as any)?.connector_type ?? null;
     } catch (error) {
-      logger.error('Failed to reorder queue', { stationId, removedPosition, error });
+      logger.error('Failed to resolve queue lane', { userWhatsapp, stationId, error });
+      return null;
+    }
+  }
+
+  private laneCondition(lane: string | null) {
+    return sql`requested_connector_type IS NOT DISTINCT FROM ${lane}`;
+  }
+
+  /**
+   * Chargers a lane can use - falls back to the station counters before ports exist
+   */
+  private async getLaneCapacity(stationId: number, lane: string | null): Promise<LaneCapacity> {
+    try {
+      const result = await db.execute(sql`
+        SELECT
+          COUNT(*) as port_rows,
+          COUNT(*) FILTER (WHERE status <> 'offline' AND (${lane}::text IS NULL OR connector_type = ${lane})) as total,
+          COUNT(*) FILTER (WHERE status = 'available' AND (${lane}::text IS NULL OR connector_type = ${lane})) as free
+        FROM station_ports
+        WHERE station_id = ${stationId}
+      `);
+      const row = result.rows[0] as any;
+
+      if (Number(row?.port_rows || 0) > 0) {
+        return { total: Number(row.total), free: Number(row.free) };
+      }
+
+      const stationResult = await db.execute(sql`
+        SELECT total_ports, available_ports FROM charging_stations WHERE id = ${stationId} LIMIT 1
+      `);
+      const station = stationResult.rows[0] as any;
+      return { total: Number(station?.total_ports || 1), free: Number(station?.available_ports || 0) };
+    } catch (error) {
+      logger.error('Failed to get lane capacity', { stationId, lane, error });
+      return { total: 1, free: 0 };
+    }
+  }
+
+  /**
+   * Condition: free compatible chargers outnumber the reservations already holding one.
+   * Any-connector holds count against every lane since they can take any port. Falls
+   * back to the station counters before ports exist.
+   */
+  private freeChargerSql(stationId: number, lane: string | null) {
+    return sql`(
+      CASE WHEN EXISTS (SELECT 1 FROM station_ports WHERE station_id = ${stationId})
+        THEN (
+          SELECT COUNT(*) FROM station_ports
+          WHERE station_id = ${stationId}
+          AND status = 'available'
+          AND (${lane}::text IS NULL OR connector_type = ${lane})
+        )
+        ELSE (SELECT COALESCE(available_ports, 0) FROM charging_stations WHERE id = ${stationId})
+      END
+    ) > (
+      SELECT COUNT(*) FROM queues
+      WHERE station_id = ${stationId}
+      AND status = 'reserved'
+      AND (${lane}::text IS NULL OR requested_connector_type IS NULL OR requested_connector_type = ${lane})
+    )`;
+  }
+
+  /**
+   * Where a driver with this priority slots into a lane: behind holds, equal or
+   * higher priority, and anyone already overtaken as often as the station allows
+   */
+  private priorityPositionSql(stationId: number, lane: string | null, priority: number, userWhatsapp: string, maxOvertakes: number) {
+    return sql`(
+      SELECT COALESCE(MAX(position), 0) + 1
+      FROM queues
+      WHERE station_id = ${stationId}
+      AND status IN ('waiting', 'reserved')
+      AND ${this.laneCondition(lane)}
+      AND user_whatsapp <> ${userWhatsapp}
+      AND (status = 'reserved' OR priority >= ${priority} OR times_overtaken >= ${maxOvertakes})
+    )`;
+  }
+
+  /**
+   * Tell drivers who were moved back why, with their new wait. Without a tier the
+   * newcomer simply outranked a low-reliability driver.
+   */
+  private async notifyOvertaken(
+    stationId: number,
+    lane: string | null,
+    overtaken: Array<{ user_whatsapp: string; position: number }>,
+    tier: PriorityTier | null
+  ): Promise<void> {
+    if (overtaken.length === 0) return;
+
+    const reason = tier
+      ? `A driver with ${TIER_LABELS[tier]} priority was placed ahead of you. Each driver can only be moved back a limited number of times.`
+      : 'While your reliability score is low, drivers in good standing can be placed ahead of you. Type "profile" to see your score.';
+
+    const capacity = await this.getLaneCapacity(stationId, lane);
+    for (const moved of overtaken) {
+      const waitTime = this.calculateWaitTime(Number(moved.position), 45, capacity);
+      await db.execute(sql`
+        UPDATE queues SET estimated_wait_minutes = ${waitTime}
+        WHERE station_id = ${stationId} AND user_whatsapp = ${moved.user_whatsapp}
+      `);
+      this.sendProgressNotification(
+        moved.user_whatsapp,
+        stationId,
+        Number(moved.position),
+        waitTime,
+        reason
+      );
     }
   }
 
+  /**
+   * UPDATE that moves a lane up behind an entry leaving the line. `source` names a CTE
+   * returning the entry's position, lane and status before it left; entries that were
+   * already out of line (charging) leave no gap.
+   */
+  private closeGapSql(stationId: number, source: 'left_entry' | 'started') {
+    return sql`
+      UPDATE queues q
+      SET position = q.position - 1, updated_at = NOW()
+      FROM ${sql.raw(source)} l
+      WHERE l.status IN ('waiting', 'reserved')
+      AND q.station_id = ${stationId}
+      AND q.requested_connector_type IS NOT DISTINCT FROM l.requested_connector_type
+      AND q.position > l.position
+      AND q.status IN ('waiting', 'reserved')
+      RETURNING q.id, q.user_whatsapp, q.requested_connector_type, q.position
+    `;
+  }
+
+  /**
+   * Events for the rows of a CTE that moved `shift` places (positive is further back).
+   * The CTE returns id, user_whatsapp, requested_connector_type and the new position.
+   */
+  private recordMovesSql(stationId: number, source: string, actor: QueueEventActor, reason: string, shift: number) {
+    return queueHistoryService.recordSql(stationId, 'moved', actor, sql`
+      SELECT id AS queue_id, user_whatsapp, requested_connector_type AS lane, position - ${shift}::int AS from_position, position AS to_position
+      FROM ${sql.raw(source)}
+    `, reason);
+  }
+
+  /**
+   * Event for a driver given a charger without moving - reads a `reserved` CTE returning
+   * id, user_whatsapp, requested_connector_type and position
+   */
+  private recordHoldSql(stationId: number, eventType: 'reserved' | 'promoted', actor: QueueEventActor) {
+    return queueHistoryService.recordSql(stationId, eventType, actor, sql`
+      SELECT id AS queue_id, user_whatsapp, requested_connector_type AS lane, position AS from_position, position AS to_position
+      FROM reserved
+    `);
+  }
+
   /**
    * Update station's current queue count
    */
@@ -520,31 +1004,99 @@ class QueueService {
   }
 
   /**
-   * Promote next user in queue
+   * Promote the next compatible drivers when a charger frees up. With a connector,
+   * only that lane and the any-connector lane are considered; lanes go in order of
+   * who has been waiting longest.
    */
-  private async promoteNextInQueue(stationId: number): Promise<void> {
+  async promoteNextInQueue(stationId: number, connectorType?: string | null): Promise<void> {
     try {
-      // Find next person in queue (position 2, since position 1 just left)
-      const nextResult = await db.execute(sql`
-        SELECT user_whatsapp 
-        FROM queues 
-        WHERE station_id = ${stationId} 
-        AND position = 2 
+      const lanesResult = await db.execute(sql`
+        SELECT requested_connector_type, MIN(joined_at) as head_joined_at
+        FROM queues
+        WHERE station_id = ${stationId}
         AND status = 'waiting'
-        LIMIT 1
+        ${connectorType
+          ? sql`AND (requested_connector_type IS NULL OR requested_connector_type = ${connectorType})`
+          : sql``}
+        GROUP BY requested_connector_type
+        ORDER BY head_joined_at ASC
       `);
 
-      if (nextResult.rows.length > 0) {
-        const nextInQueue = nextResult.rows[0] as any;
-        
-        // Auto-reserve for 15 minutes
-        await this.reserveSlot(nextInQueue.user_whatsapp, stationId, 15);
-        
-        // Reorder remaining queue
-        await this.reorderQueue(stationId, 1);
+      for (const laneRow of lanesResult.rows) {
+        const lane = (laneRow as any).requested_connector_type as string | null;
+
+        for (;;) {
+          // Claim the lane head while a charger is free - checked under the lock, so a
+          // concurrent promotion can neither reserve the same driver nor the same charger
+          const [promoted] = await this.runLocked(stationId, sql`
+            WITH reserved AS (
+              UPDATE queues
+              SET status = 'reserved', reservation_expiry = ${new Date(Date.now() + 15 * 60 * 1000)}, updated_at = NOW()
+              WHERE id = (
+                SELECT id FROM queues
+                WHERE station_id = ${stationId}
+                AND status = 'waiting'
+                AND ${this.laneCondition(lane)}
+                ORDER BY position ASC
+                LIMIT 1
+              )
+              AND status = 'waiting'
+              AND ${this.freeChargerSql(stationId, lane)}
+              RETURNING id, user_whatsapp, requested_connector_type, position
+            ),
+            promoted_event AS (
+              ${this.recordHoldSql(stationId, 'promoted', SYSTEM_ACTOR)}
+            )
+            SELECT user_whatsapp FROM reserved
+          `);
+
+          if (!promoted) break;
+
+          logger.info('Promoted next in lane', { stationId, lane, userWhatsapp: promoted.user_whatsapp });
+          this.sendPromotionNotification(promoted.user_whatsapp, stationId);
+        }
       }
     } catch (error) {
-      logger.error('Failed to promote next in queue', { stationId, error });
+      logger.error('Failed to promote next in queue', { stationId, connectorType, error });
+    }
+  }
+
+  /**
+   * Renumber every lane from 1 in current order, closing gaps left by anything that
+   * bypassed the usual flow. Returns how many entries moved.
+   */
+  async rebalanceLanes(stationId: number): Promise<number> {
+    try {
+      const moved = await this.runLocked(stationId, sql`
+        WITH moved AS (
+          UPDATE queues q
+          SET position = ranked.new_position, updated_at = NOW()
+          FROM (
+            SELECT id, position AS old_position, ROW_NUMBER() OVER (
+              PARTITION BY requested_connector_type
+              ORDER BY position, joined_at
+            ) AS new_position
+            FROM queues
+            WHERE station_id = ${stationId}
+            AND status IN ('waiting', 'reserved')
+          ) ranked
+          WHERE q.id = ranked.id
+          AND q.position <> ranked.new_position
+          RETURNING q.id, q.user_whatsapp, q.requested_connector_type, ranked.old_position, ranked.new_position
+        ),
+        moved_events AS (
+          ${queueHistoryService.recordSql(stationId, 'moved', SYSTEM_ACTOR, sql`
+            SELECT id AS queue_id, user_whatsapp, requested_connector_type AS lane, old_position AS from_position, new_position AS to_position
+            FROM moved
+          `, 'rebalance')}
+        )
+        SELECT id FROM moved
+      `);
+
+      return moved.length;
+    } catch (error) {
+      logger.error('Failed to rebalance queue lanes', { stationId, error });
+      return 0;
     }
   }
 
@@ -554,16 +1106,21 @@ class QueueService {
   private async notifyQueueProgress(stationId: number): Promise<void> {
     try {
       const waitingResult = await db.execute(sql`
-        SELECT id, user_whatsapp, position 
+        SELECT id, user_whatsapp, position, requested_connector_type
         FROM queues 
         WHERE station_id = ${stationId} 
         AND status = 'waiting'
         ORDER BY position
       `);
 
+      const capacities = new Map<string | null, LaneCapacity>();
       for (const user of waitingResult.rows) {
         const userQueue = user as any;
-        const newWaitTime = this.calculateWaitTime(userQueue.position, 45);
+        const lane = userQueue.requested_connector_type ?? null;
+        if (!capacities.has(lane)) {
+          capacities.set(lane, await this.getLaneCapacity(stationId, lane));
+        }
+        const newWaitTime = this.calculateWaitTime(userQueue.position, 45, capacities.get(lane));
         
         // Update estimated wait time
         await db.execute(sql`
@@ -657,17 +1214,35 @@ async getQueueStats(stationId: number): Promise<QueueStats> {
     });
   }
 
+  /**
+   * Send reservation confirmation to a promoted driver (non-blocking)
+   */
+  private sendPromotionNotification(userWhatsapp: string, stationId: number): void {
+    setImmediate(async () => {
+      try {
+        await notificationService.sendReservationConfirmation(userWhatsapp, stationId, 15);
+      } catch (error) {
+        logger.warn('Failed to send promotion notification', { 
+          userWhatsapp, 
+          stationId, 
+          error 
+        });
+      }
+    });
+  }
+
   /**
    * Send progress notification (non-blocking)
    */
-  private sendProgressNotification(userWhatsapp: string, stationId: number, position: number, waitTime: number): void {
+  private sendProgressNotification(userWhatsapp: string, stationId: number, position: number, waitTime: number, reason?: string): void {
     setImmediate(async () => {
       try {
         await notificationService.sendQueueProgressNotification(
           userWhatsapp, 
           stationId, 
           position, 
-          waitTime
+          waitTime,
+          reason
         );
       } catch (error) {
         logger.warn('Failed to send progress notification', { 
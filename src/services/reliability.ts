@@ -0,0 +1,171 @@
+// src/services/reliability.ts - DRIVER RELIABILITY SCORE, NO-SHOW TRACKING & PENALTIES
+import { db } from '../config/database';
+import { users } from '../db/schema';
+import { eq, sql } from 'drizzle-orm';
+import { getReliabilityConfig } from '../config/env';
+import { logger } from '../utils/logger';
+
+// ===============================================
+// TYPES & CONSTANTS
+// ===============================================
+
+export type ReliabilityEventType = 'no_show' | 'late_cancel' | 'completed';
+export type ReliabilitySource = 'queue' | 'reservation' | 'session';
+
+export interface ReliabilityStanding {
+  score: number;
+  noShows: number;
+  lateCancels: number;
+  completedSessions: number;
+  cooldownUntil: Date | null;
+  lowPriority: boolean;
+  depositAmount: number;
+}
+
+// Queue priority for drivers below the low-priority threshold - normal drivers are 0
+export const LOW_RELIABILITY_PRIORITY = -1;
+
+const MAX_SCORE = 100;
+const HOUR_MS = 60 * 60 * 1000;
+
+// ===============================================
+// RELIABILITY SERVICE
+// ===============================================
+
+class ReliabilityService {
+  async getStanding(userWhatsapp: string): Promise<ReliabilityStanding> {
+    const config = getReliabilityConfig();
+    const [user] = await db
+      .select({
+        score: users.reliabilityScore,
+        noShows: users.noShowCount,
+        lateCancels: users.lateCancelCount,
+        completedSessions: users.totalSessions,
+        cooldownUntil: users.reservationCooldownUntil,
+      })
+      .from(users)
+      .where(eq(users.whatsappId, userWhatsapp))
+      .limit(1);
+
+    const score = user?.score ?? MAX_SCORE;
+    const cooldownUntil = user?.cooldownUntil && user.cooldownUntil.getTime() > Date.now() ? user.cooldownUntil : null;
+
+    return {
+      score,
+      noShows: user?.noShows ?? 0,
+      lateCancels: user?.lateCancels ?? 0,
+      completedSessions: user?.completedSessions ?? 0,
+      cooldownUntil,
+      lowPriority: score < config.lowPriorityBelow,
+      depositAmount: score < config.depositBelow ? config.depositAmount : 0,
+    };
+  }
+
+  // ===============================================
+  // RECORDING
+  // ===============================================
+
+  async recordNoShow(userWhatsapp: string, source: ReliabilitySource, reference: string): Promise<void> {
+    const config = getReliabilityConfig();
+    const score = await this.record(userWhatsapp, 'no_show', source, reference, -config.noShowPenalty);
+
+    // Cooldown only on no-shows - a late cancel still frees the charger for someone else
+    if (score !== null && score < config.cooldownBelow) {
+      const cooldownUntil = new Date(Date.now() + config.cooldownHours * HOUR_MS);
+      await db
+        .update(users)
+        .set({ reservationCooldownUntil: cooldownUntil, updatedAt: new Date() })
+        .where(eq(users.whatsappId, userWhatsapp));
+      logger.warn('⏸️ Booking cooldown applied', { userWhatsapp, score, cooldownUntil });
+    }
+  }
+
+  async recordLateCancel(userWhatsapp: string, source: ReliabilitySource, reference: string): Promise<void> {
+    await this.record(userWhatsapp, 'late_cancel', source, reference, -getReliabilityConfig().lateCancelPenalty);
+  }
+
+  async recordCompletedSession(userWhatsapp: string, sessionId: string): Promise<void> {
+    await this.record(userWhatsapp, 'completed', 'session', sessionId, getReliabilityConfig().completionCredit);
+  }
+
+  /**
+   * Append the event and move the score in one statement - a repeated reference is a no-op.
+   * Returns the new score, or null when nothing was recorded.
+   */
+  private async record(
+    userWhatsapp: string,
+    eventType: ReliabilityEventType,
+    source: ReliabilitySource,
+    reference: string,
+    scoreDelta: number
+  ): Promise<number | null> {
+    try {
+      const result = await db.execute(sql`
+        WITH event AS (
+          INSERT INTO reliability_events (user_whatsapp, event_type, source, reference, score_delta)
+          VALUES (${userWhatsapp}, ${eventType}, ${source}, ${reference}, ${scoreDelta})
+          ON CONFLICT (event_type, reference) DO NOTHING
+          RETURNING user_whatsapp
+        )
+        UPDATE users
+        SET reliability_score = LEAST(${MAX_SCORE}, GREATEST(0, users.reliability_score + ${scoreDelta})),
+            no_show_count = users.no_show_count + ${eventType === 'no_show' ? 1 : 0},
+            late_cancel_count = users.late_cancel_count + ${eventType === 'late_cancel' ? 1 : 0},
+            updated_at = NOW()
+        FROM event
+        WHERE users.whatsapp_id = event.user_whatsapp
+        RETURNING users.reliability_score
+      `);
+
+      const row = result.rows[0] as any;
+      if (!row) return null;
+
+      const score = Number(row.reliability_score);
+      logger.info('📉 Reliability event recorded', { userWhatsapp, eventType, source, reference, scoreDelta, score });
+      return score;
+    } catch (error) {
+      logger.error('Failed to record reliability event', { userWhatsapp, eventType, reference, error });
+      return null;
+    }
+  }
+
+  // ===============================================
+  // DISPLAY
+  // ===============================================
+
+  /**
+   * Profile block - score plus whichever penalties are active
+   */
+  formatStanding(standing: ReliabilityStanding): string {
+    const badge = standing.score >= 90 ? '🌟 Excellent' : standing.score >= 70 ? '✅ Good' : standing.score >= 50 ? '⚠️ Fair' : '🚫 Poor';
+    const penalties: string[] = [];
+
+    if (standing.cooldownUntil) {
+      penalties.push(`⏸️ Advance booking paused until ${standing.cooldownUntil.toLocaleString('en-IN', {
+        timeZone: 'Asia/Kolkata',
+        day: 'numeric',
+        month: 'short',
+        hour: 'numeric',
+        minute: '2-digit',
+      })}`);
+    }
+    if (standing.depositAmount > 0) {
+      penalties.push(`🔒 ₹${standing.depositAmount} refundable deposit per booking`);
+    }
+    if (standing.lowPriority) {
+      penalties.push('🐢 Lower queue priority');
+    }
+
+    return `🎯 *Reliability:* ${standing.score}/100 ${badge}\n` +
+      `   ✅ ${standing.completedSessions} sessions • 🚫 ${standing.noShows} no-shows • ↩️ ${standing.lateCancels} late cancels` +
+      (penalties.length > 0
+        ? `\n${penalties.map(line => `   ${line}`).join('\n')}\n   💡 Completed sessions raise your score`
+        : '');
+  }
+}
+
+// ===============================================
+// SINGLETON EXPORT
+// ===============================================
+
+export const reliabilityService = new ReliabilityService();
@@ -0,0 +1,622 @@
+// src/services/reservation.ts - ADVANCE SLOT BOOKINGS, CAPACITY PLANNING, REMINDERS & NO-SHOW RELEASE
+import crypto from 'crypto';
+import { db } from '../config/database';
+import { reservations, chargingStations, stationPorts, users, type Reservation } from '../db/schema';
+import { eq, and, gt, lt, lte, asc, isNull, sql } from 'drizzle-orm';
+import { logger } from '../utils/logger';
+import { whatsappService } from './whatsapp';
+import { queueService } from './queue';
+import { walletService } from './wallet';
+import { reliabilityService } from './reliability';
+import { getReliabilityConfig } from '../config/env';
+
+// ===============================================
+// TYPES & CONSTANTS
+// ===============================================
+
+export type ReservationStatus = 'booked' | 'checked_in' | 'cancelled' | 'no_show';
+
+export interface SlotOption {
+  start: Date;
+  end: Date;
+  freePorts: number;
+}
+
+export interface BookingResult {
+  success: boolean;
+  error?: string;
+  reservation?: Reservation;
+  // Checked in, but every compatible charger was busy - first in line for the next one
+  waiting?: boolean;
+}
+
+export interface CancelResult {
+  late: boolean;
+  depositKept: number;
+}
+
+interface StationSlotConfig {
+  id: number;
+  name: string;
+  address: string;
+  ports: number;
+  slotMinutes: number;
+  operatingHours: unknown;
+  isBookable: boolean;
+}
+
+export const SLOT_STEP_MINUTES = 30;
+export const MAX_ADVANCE_DAYS = 7;
+const MIN_LEAD_MINUTES = 30;
+const MAX_ACTIVE_BOOKINGS = 3;
+const REMINDER_LEAD_MINUTES = 30;
+export const CHECK_IN_EARLY_MINUTES = 15;
+export const NO_SHOW_GRACE_MINUTES = 15;
+const MINUTE_MS = 60 * 1000;
+const IST_OFFSET_MS = 5.5 * 60 * 60 * 1000;
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+// ===============================================
+// RESERVATION SERVICE
+// ===============================================
+
+class ReservationService {
+  /**
+   * Bookable slots on an IST day (YYYYMMDD), optionally limited to an hour range.
+   * With a driver, only chargers they can plug into count.
+   */
+  async getAvailableSlots(
+    stationId: number,
+    dayKey: string,
+    fromHour = 0,
+    toHour = 24,
+    userWhatsapp?: string
+  ): Promise<SlotOption[]> {
+    try {
+      const config = await this.getStationConfig(stationId);
+      if (!config?.isBookable) return [];
+      const { station, lane } = await this.getBookableCapacity(config, userWhatsapp);
+
+      const dayStart = this.parseDayKey(dayKey);
+      if (!dayStart) return [];
+
+      const hours = this.getOpeningMinutes(station.operatingHours, dayStart);
+      if (!hours) return [];
+
+      const earliest = Date.now() + MIN_LEAD_MINUTES * MINUTE_MS;
+      const latest = Date.now() + MAX_ADVANCE_DAYS * 24 * 60 * MINUTE_MS;
+      const first = Math.max(hours.open, fromHour * 60);
+      // Slots belong to the range they start in
+      const last = Math.min(hours.close - station.slotMinutes, toHour * 60 - SLOT_STEP_MINUTES);
+
+      const candidates: Date[] = [];
+      for (let minute = first; minute <= last; minute += SLOT_STEP_MINUTES) {
+        const start = new Date(dayStart.getTime() + minute * MINUTE_MS);
+        if (start.getTime() >= earliest && start.getTime() <= latest) {
+          candidates.push(start);
+        }
+      }
+      if (candidates.length === 0) return [];
+
+      const windowEnd = new Date(candidates[candidates.length - 1].getTime() + station.slotMinutes * MINUTE_MS);
+      const [booked, liveEntries] = await Promise.all([
+        this.getBookedBetween(stationId, candidates[0], windowEnd),
+        this.getLiveQueueSize(stationId, lane),
+      ]);
+
+      return candidates
+        .map(start => {
+          const end = new Date(start.getTime() + station.slotMinutes * MINUTE_MS);
+          const overlapping = booked.filter(slot => slot.slotStart < end && slot.slotEnd > start).length;
+          const liveBusy = this.getLiveBusyPorts(liveEntries, station, start);
+          return { start, end, freePorts: station.ports - overlapping - liveBusy };
+        })
+        .filter(slot => slot.freePorts > 0);
+    } catch (error) {
+      logger.error('Failed to get available slots', { stationId, dayKey, error });
+      return [];
+    }
+  }
+
+  /**
+   * Book a future slot. Capacity is re-checked under a per-station lock so two
+   * drivers can't take the last port for the same time.
+   */
+  async bookSlot(userWhatsapp: string, stationId: number, slotStart: Date): Promise<BookingResult> {
+    try {
+      const config = await this.getStationConfig(stationId);
+      if (!config?.isBookable) {
+        return { success: false, error: 'This station is not taking bookings right now' };
+      }
+      const { station, lane } = await this.getBookableCapacity(config, userWhatsapp);
+
+      const standing = await reliabilityService.getStanding(userWhatsapp);
+      if (standing.cooldownUntil) {
+        return {
+          success: false,
+          error: `Advance booking is paused after recent no-shows until ${this.formatTime(standing.cooldownUntil)} ` +
+            `on ${standing.cooldownUntil.toLocaleDateString('en-IN', { day: 'numeric', month: 'short', timeZone: 'Asia/Kolkata' })}. ` +
+            `You can still join the live queue.`,
+        };
+      }
+      if (standing.depositAmount > 0 && await walletService.getBalance(userWhatsapp) < standing.depositAmount) {
+        return {
+          success: false,
+          error: `Your reliability score needs a ₹${standing.depositAmount} refundable deposit per booking. ` +
+            `Top up your wallet ("topup ${standing.depositAmount}") and try again.`,
+        };
+      }
+
+      const now = Date.now();
+      if (slotStart.getTime() < now + MIN_LEAD_MINUTES * MINUTE_MS) {
+        return { success: false, error: `Slots must be booked at least ${MIN_LEAD_MINUTES} minutes ahead` };
+      }
+      if (slotStart.getTime() > now + MAX_ADVANCE_DAYS * 24 * 60 * MINUTE_MS) {
+        return { success: false, error: `Slots can be booked up to ${MAX_ADVANCE_DAYS} days ahead` };
+      }
+
+      const slotEnd = new Date(slotStart.getTime() + station.slotMinutes * MINUTE_MS);
+      const dayStart = this.getIstDayStart(slotStart);
+      const hours = this.getOpeningMinutes(station.operatingHours, dayStart);
+      const startMinute = (slotStart.getTime() - dayStart.getTime()) / MINUTE_MS;
+      if (!hours || startMinute < hours.open || startMinute + station.slotMinutes > hours.close) {
+        return { success: false, error: 'The station is closed at that time' };
+      }
+
+      const userBookings = await this.getUpcomingReservations(userWhatsapp);
+      if (userBookings.length >= MAX_ACTIVE_BOOKINGS) {
+        return { success: false, error: `You can hold up to ${MAX_ACTIVE_BOOKINGS} bookings at a time` };
+      }
+      if (userBookings.some(booking => booking.slotStart < slotEnd && booking.slotEnd > slotStart)) {
+        return { success: false, error: 'You already have a booking at that time' };
+      }
+
+      const liveBusy = this.getLiveBusyPorts(await this.getLiveQueueSize(stationId, lane), station, slotStart);
+      const capacity = station.ports - liveBusy;
+      if (capacity <= 0) {
+        return { success: false, error: 'All chargers are expected to be busy then - please pick another slot' };
+      }
+
+      const reservationNumber = this.formatReservationNumber();
+      const [, inserted] = await db.batch([
+        db.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`reservation:${stationId}`}))`),
+        db.execute(sql`
+          INSERT INTO reservations (reservation_number, user_whatsapp, station_id, slot_start, slot_end, status, deposit_amount)
+          SELECT ${reservationNumber}, ${userWhatsapp}, ${stationId}, ${slotStart}, ${slotEnd}, 'booked',
+            ${standing.depositAmount > 0 ? standing.depositAmount : null}
+          WHERE (
+            SELECT COUNT(*) FROM reservations
+            WHERE station_id = ${stationId}
+            AND status = 'booked'
+            AND slot_start < ${slotEnd}
+            AND slot_end > ${slotStart}
+          ) < ${capacity}
+          RETURNING id
+        `),
+      ]);
+
+      if (!inserted.rows.length) {
+        return { success: false, error: 'That slot was just taken - please pick another' };
+      }
+
+      if (standing.depositAmount > 0) {
+        const hold = await walletService.holdDeposit(userWhatsapp, standing.depositAmount, reservationNumber);
+        if (!hold.transaction) {
+          // Balance moved since the check - give the slot back
+          await db
+            .update(reservations)
+            .set({ status: 'cancelled', cancelledAt: new Date(), updatedAt: new Date() })
+            .where(eq(reservations.reservationNumber, reservationNumber));
+          return { success: false, error: `Not enough wallet balance for the ₹${standing.depositAmount} deposit` };
+        }
+      }
+
+      const reservation = await this.getReservationByNumber(reservationNumber);
+      logger.info('📅 Slot booked', { reservationNumber, userWhatsapp, stationId, slotStart });
+      return { success: true, reservation: reservation ?? undefined };
+    } catch (error) {
+      logger.error('Failed to book slot', { userWhatsapp, stationId, slotStart, error });
+      return { success: false, error: 'Booking failed. Please try again.' };
+    }
+  }
+
+  /**
+   * Cancel a booking. Inside the late window it counts against reliability and
+   * any deposit is kept; otherwise the deposit goes back to the wallet.
+   */
+  async cancelReservation(userWhatsapp: string, reservationNumber: string): Promise<CancelResult | null> {
+    try {
+      const now = new Date();
+      const [cancelled] = await db
+        .update(reservations)
+        .set({ status: 'cancelled', cancelledAt: now, updatedAt: now })
+        .where(
+          and(
+            eq(reservations.reservationNumber, reservationNumber),
+            eq(reservations.userWhatsapp, userWhatsapp),
+            eq(reservations.status, 'booked')
+          )
+        )
+        .returning();
+
+      if (!cancelled) return null;
+
+      const late = cancelled.slotStart.getTime() - now.getTime() < getReliabilityConfig().lateCancelMinutes * MINUTE_MS;
+      const deposit = parseFloat(cancelled.depositAmount || '0');
+
+      if (late) {
+        await reliabilityService.recordLateCancel(userWhatsapp, 'reservation', cancelled.reservationNumber);
+      }
+      if (deposit > 0) {
+        await (late
+          ? walletService.forfeitDeposit(userWhatsapp, deposit, cancelled.reservationNumber)
+          : walletService.releaseDeposit(userWhatsapp, deposit, cancelled.reservationNumber));
+      }
+
+      logger.info('📅 Booking cancelled', { reservationNumber, userWhatsapp, late });
+      return { late, depositKept: late ? deposit : 0 };
+    } catch (error) {
+      logger.error('Failed to cancel booking', { reservationNumber, userWhatsapp, error });
+      return null;
+    }
+  }
+
+  /**
+   * Driver has arrived - hand the booking over to the live queue
+   */
+  async checkIn(userWhatsapp: string, reservationNumber: string): Promise<BookingResult> {
+    try {
+      const reservation = await this.getReservationByNumber(reservationNumber);
+      if (!reservation || reservation.userWhatsapp !== userWhatsapp) {
+        return { success: false, error: 'Booking not found' };
+      }
+      if (reservation.status !== 'booked') {
+        return { success: false, error: `This booking is ${reservation.status.replace('_', ' ')}` };
+      }
+
+      const now = Date.now();
+      const opensAt = reservation.slotStart.getTime() - CHECK_IN_EARLY_MINUTES * MINUTE_MS;
+      const closesAt = reservation.slotStart.getTime() + NO_SHOW_GRACE_MINUTES * MINUTE_MS;
+      if (now < opensAt) {
+        return { success: false, error: `Check-in opens ${CHECK_IN_EARLY_MINUTES} minutes before your slot` };
+      }
+      if (now > closesAt) {
+        return { success: false, error: 'The check-in window for this slot has passed' };
+      }
+
+      // The booking becomes the driver's queue entry - an entry they already hold isn't overwritten
+      const queued = (await queueService.getUserQueueStatus(userWhatsapp)).find(entry =>
+        entry.stationId === reservation.stationId && ['waiting', 'reserved', 'charging'].includes(entry.status)
+      );
+      if (queued) {
+        return {
+          success: false,
+          error: queued.status === 'charging'
+            ? 'You are already charging at this station'
+            : `You are already in the queue here (#${queued.position}). Leave it first to use your booking.`,
+        };
+      }
+
+      const [claimed] = await db
+        .update(reservations)
+        .set({ status: 'checked_in', checkedInAt: new Date(now), updatedAt: new Date(now) })
+        .where(and(eq(reservations.id, reservation.id), eq(reservations.status, 'booked')))
+        .returning();
+      if (!claimed) {
+        return { success: false, error: 'This booking was already used' };
+      }
+
+      const admitted = await queueService.admitReservation(userWhatsapp, reservation.stationId, new Date(closesAt));
+      if (!admitted) {
+        await db
+          .update(reservations)
+          .set({ status: 'booked', checkedInAt: null, updatedAt: new Date() })
+          .where(eq(reservations.id, reservation.id));
+        return { success: false, error: 'Could not hold a charger for you. Please try again.' };
+      }
+
+      const deposit = parseFloat(claimed.depositAmount || '0');
+      if (deposit > 0) {
+        await walletService.releaseDeposit(userWhatsapp, deposit, claimed.reservationNumber);
+      }
+
+      logger.info('📅 Booking checked in', {
+        reservationNumber,
+        userWhatsapp,
+        stationId: reservation.stationId,
+        queueStatus: admitted.status,
+      });
+      return { success: true, reservation: claimed, waiting: admitted.status === 'waiting' };
+    } catch (error) {
+      logger.error('Booking check-in failed', { reservationNumber, userWhatsapp, error });
+      return { success: false, error: 'Check-in failed. Please try again.' };
+    }
+  }
+
+  // ===============================================
+  // LOOKUPS
+  // ===============================================
+
+  async getUpcomingReservations(userWhatsapp: string): Promise<Reservation[]> {
+    return db
+      .select()
+      .from(reservations)
+      .where(and(eq(reservations.userWhatsapp, userWhatsapp), eq(reservations.status, 'booked')))
+      .orderBy(asc(reservations.slotStart));
+  }
+
+  async getReservationByNumber(reservationNumber: string): Promise<Reservation | null> {
+    const [reservation] = await db
+      .select()
+      .from(reservations)
+      .where(eq(reservations.reservationNumber, reservationNumber.toUpperCase()))
+      .limit(1);
+    return reservation ?? null;
+  }
+
+  async getStationName(stationId: number): Promise<string> {
+    const station = await this.getStationConfig(stationId);
+    return station?.name ?? 'Charging station';
+  }
+
+  // ===============================================
+  // REMINDERS & NO-SHOW RELEASE
+  // ===============================================
+
+  async sweep(): Promise<void> {
+    await this.sendDueReminders();
+    await this.releaseNoShows();
+  }
+
+  private async sendDueReminders(): Promise<void> {
+    const now = new Date();
+    const due = await db
+      .update(reservations)
+      .set({ reminderSentAt: now })
+      .where(
+        and(
+          eq(reservations.status, 'booked'),
+          isNull(reservations.reminderSentAt),
+          lte(reservations.slotStart, new Date(now.getTime() + REMINDER_LEAD_MINUTES * MINUTE_MS))
+        )
+      )
+      .returning();
+
+    for (const reservation of due) {
+      await this.sendReminder(reservation);
+    }
+  }
+
+  private async releaseNoShows(): Promise<void> {
+    const now = new Date();
+    const released = await db
+      .update(reservations)
+      .set({ status: 'no_show', releasedAt: now, updatedAt: now })
+      .where(
+        and(
+          eq(reservations.status, 'booked'),
+          lt(reservations.slotStart, new Date(now.getTime() - NO_SHOW_GRACE_MINUTES * MINUTE_MS))
+        )
+      )
+      .returning();
+
+    for (const reservation of released) {
+      logger.info('📅 No-show booking released', {
+        reservationNumber: reservation.reservationNumber,
+        userWhatsapp: reservation.userWhatsapp,
+        stationId: reservation.stationId,
+      });
+
+      await reliabilityService.recordNoShow(reservation.userWhatsapp, 'reservation', reservation.reservationNumber);
+      const deposit = parseFloat(reservation.depositAmount || '0');
+      if (deposit > 0) {
+        await walletService.forfeitDeposit(reservation.userWhatsapp, deposit, reservation.reservationNumber);
+      }
+
+      const stationName = await this.getStationName(reservation.stationId);
+      await whatsappService.sendTextMessage(
+        reservation.userWhatsapp,
+        `⌛ *Booking Released*\n\n` +
+        `You didn't check in for ${this.formatSlot(reservation)} at *${stationName}*, ` +
+        `so the charger was released to other drivers.\n` +
+        (deposit > 0 ? `🔒 Your ₹${deposit} deposit was kept.\n` : '') +
+        `📉 No-shows lower your reliability score - type "profile" to see it.\n\n` +
+        `📅 Type "bookings" to book another slot.`
+      );
+    }
+  }
+
+  private async sendReminder(reservation: Reservation): Promise<void> {
+    try {
+      const stationName = await this.getStationName(reservation.stationId);
+
+      await whatsappService.sendButtonMessage(
+        reservation.userWhatsapp,
+        `⏰ *Upcoming Booking*\n\n` +
+        `📍 *${stationName}*\n` +
+        `🕐 ${this.formatSlot(reservation)}\n` +
+        `🔖 ${reservation.reservationNumber}\n\n` +
+        `Check in from ${CHECK_IN_EARLY_MINUTES} min before your slot. ` +
+        `Not checked in ${NO_SHOW_GRACE_MINUTES} min after the start? The charger is released.`,
+        [
+          { id: `reserve_checkin_${reservation.reservationNumber}`, title: "✅ I'm Here" },
+          { id: `reserve_cancel_${reservation.reservationNumber}`, title: '❌ Cancel Booking' },
+        ],
+        '📅 Booking Reminder'
+      );
+    } catch (error) {
+      logger.error('Failed to send booking reminder', { reservationNumber: reservation.reservationNumber, error });
+    }
+  }
+
+  // ===============================================
+  // CAPACITY HELPERS
+  // ===============================================
+
+  private async getStationConfig(stationId: number): Promise<StationSlotConfig | null> {
+    const [station] = await db
+      .select({
+        id: chargingStations.id,
+        name: chargingStations.name,
+        address: chargingStations.address,
+        totalPorts: chargingStations.totalPorts,
+        averageSessionMinutes: chargingStations.averageSessionMinutes,
+        operatingHours: chargingStations.operatingHours,
+        isActive: chargingStations.isActive,
+        maintenanceMode: chargingStations.maintenanceMode,
+      })
+      .from(chargingStations)
+      .where(eq(chargingStations.id, stationId))
+      .limit(1);
+
+    if (!station) return null;
+
+    return {
+      id: station.id,
+      name: station.name,
+      address: station.address,
+      ports: Math.max(1, station.totalPorts),
+      // Whole 15-minute blocks, at least half an hour
+      slotMinutes: Math.max(30, Math.ceil((station.averageSessionMinutes || 30) / 15) * 15),
+      operatingHours: station.operatingHours,
+      isBookable: !!station.isActive && !station.maintenanceMode,
+    };
+  }
+
+  /**
+   * Chargers a booking can count on: ports not in maintenance and, for a driver, only those
+   * of their connector - every port when the station has none, as the queue's any-charger
+   * lane does. Stations without port rows keep their configured port count.
+   */
+  private async getBookableCapacity(
+    station: StationSlotConfig,
+    userWhatsapp?: string
+  ): Promise<{ station: StationSlotConfig; lane: string | null }> {
+    const ports = await db
+      .select({ connectorType: stationPorts.connectorType, status: stationPorts.status })
+      .from(stationPorts)
+      .where(eq(stationPorts.stationId, station.id));
+    if (ports.length === 0) return { station, lane: null };
+
+    const [user] = userWhatsapp
+      ? await db.select({ connectorType: users.connectorType }).from(users).where(eq(users.whatsappId, userWhatsapp)).limit(1)
+      : [];
+    const connector = this.normalizeConnector(user?.connectorType);
+    const own = connector ? ports.filter(port => this.normalizeConnector(port.connectorType) === connector) : [];
+    const compatible = own.length > 0 ? own : ports;
+
+    return {
+      station: { ...station, ports: compatible.filter(port => port.status !== 'maintenance').length },
+      lane: own[0]?.connectorType ?? null,
+    };
+  }
+
+  private async getBookedBetween(stationId: number, from: Date, to: Date): Promise<Array<{ slotStart: Date; slotEnd: Date }>> {
+    return db
+      .select({ slotStart: reservations.slotStart, slotEnd: reservations.slotEnd })
+      .from(reservations)
+      .where(
+        and(
+          eq(reservations.stationId, stationId),
+          eq(reservations.status, 'booked'),
+          lt(reservations.slotStart, to),
+          gt(reservations.slotEnd, from)
+        )
+      );
+  }
+
+  private async getLiveQueueSize(stationId: number, lane: string | null = null): Promise<number> {
+    const result = await db.execute(sql`
+      SELECT COUNT(*) as count
+      FROM queues
+      WHERE station_id = ${stationId}
+      AND status IN ('charging', 'reserved', 'waiting')
+      AND (${lane}::text IS NULL OR requested_connector_type IS NULL OR requested_connector_type = ${lane})
+    `);
+    return Number((result.rows[0] as any)?.count || 0);
+  }
+
+  /**
+   * Ports the current queue is still expected to occupy at a given time. Drivers are
+   * served in waves of one per port, each wave taking an average session.
+   */
+  private getLiveBusyPorts(liveEntries: number, station: StationSlotConfig, at: Date): number {
+    const minutesAhead = (at.getTime() - Date.now()) / MINUTE_MS;
+    const wavesDone = Math.floor(minutesAhead / station.slotMinutes);
+    const remaining = liveEntries - wavesDone * station.ports;
+    return Math.max(0, Math.min(station.ports, remaining));
+  }
+
+  private normalizeConnector(connectorType?: string | null): string {
+    return (connectorType || '').replace(/[^a-zA-Z0-9]/g, '').toUpperCase();
+  }
+
+  /**
+   * Opening minutes for the IST day - "24/7" or missing means all day, "HH:MM-HH:MM" a range
+   */
+  private getOpeningMinutes(operatingHours: unknown, dayStart: Date): { open: number; close: number } | null {
+    const weekday = WEEKDAYS[new Date(dayStart.getTime() + IST_OFFSET_MS).getUTCDay()];
+    const hours = operatingHours && typeof operatingHours === 'object'
+      ? (operatingHours as Record<string, unknown>)[weekday]
+      : operatingHours;
+
+    if (typeof hours !== 'string' || hours === '24/7' || hours === '') {
+      return { open: 0, close: 24 * 60 };
+    }
+    if (hours.toLowerCase() === 'closed') return null;
+
+    const match = hours.match(/^(\d{1,2}):(\d{2})\s*-\s*(\d{1,2}):(\d{2})$/);
+    if (!match) return { open: 0, close: 24 * 60 };
+
+    const open = parseInt(match[1], 10) * 60 + parseInt(match[2], 10);
+    const close = parseInt(match[3], 10) * 60 + parseInt(match[4], 10);
+    return { open, close: close > open ? close : 24 * 60 };
+  }
+
+  // ===============================================
+  // DATE & FORMAT HELPERS
+  // ===============================================
+
+  /**
+   * YYYYMMDD for an instant, in IST
+   */
+  getDayKey(date: Date): string {
+    return new Date(date.getTime() + IST_OFFSET_MS).toISOString().slice(0, 10).replace(/-/g, '');
+  }
+
+  parseDayKey(dayKey: string): Date | null {
+    const match = dayKey.match(/^(\d{4})(\d{2})(\d{2})$/);
+    if (!match) return null;
+    const utcMidnight = Date.UTC(parseInt(match[1], 10), parseInt(match[2], 10) - 1, parseInt(match[3], 10));
+    return new Date(utcMidnight - IST_OFFSET_MS);
+  }
+
+  getIstHour(date: Date): number {
+    return new Date(date.getTime() + IST_OFFSET_MS).getUTCHours();
+  }
+
+  formatSlot(reservation: { slotStart: Date; slotEnd: Date }): string {
+    const day = reservation.slotStart.toLocaleDateString('en-IN', {
+      weekday: 'short', day: 'numeric', month: 'short', timeZone: 'Asia/Kolkata',
+    });
+    return `${day}, ${this.formatTime(reservation.slotStart)}–${this.formatTime(reservation.slotEnd)}`;
+  }
+
+  formatTime(date: Date): string {
+    return date.toLocaleTimeString('en-IN', { hour: 'numeric', minute: '2-digit', hour12: true, timeZone: 'Asia/Kolkata' });
+  }
+
+  private getIstDayStart(date: Date): Date {
+    return this.parseDayKey(this.getDayKey(date))!;
+  }
+
+  private formatReservationNumber(): string {
+    return `RSV-${crypto.randomBytes(4).toString('hex').toUpperCase()}`;
+  }
+}
+
+// ===============================================
+// SINGLETON EXPORT
+// ===============================================
+
+export const reservationService = new ReservationService();
@@ -0,0 +1,312 @@
+// src/services/session-telemetry.ts - METER SAMPLES, POWER STATS & LIVE PROGRESS UPDATES
+import { db } from '../config/database';
+import { chargingSessions, chargingStations, sessionMeterSamples, users, type SessionMeterSample } from '../db/schema';
+import { eq, and, asc, desc, gt, isNotNull, sql } from 'drizzle-orm';
+import { logger } from '../utils/logger';
+import { notificationService } from './notification';
+import { sessionService } from './session';
+import { tariffService } from './tariff';
+import { chargingTargetService } from './charging-target';
+
+// ===============================================
+// TYPES & CONSTANTS
+// ===============================================
+
+export interface MeterSampleInput {
+  energyKwh: number;            // Delivered so far in this session
+  powerKw?: number | null;
+  socPercent?: number | null;
+  sampledAt?: Date;
+  source: 'ocpp' | 'photo';
+}
+
+export interface SessionProgress {
+  energyKwh: number;
+  powerKw: number | null;
+  socPercent: number | null;
+  costSoFar: number;
+  targetLabel: string;
+  etaMinutes: number | null;    // null when there's nothing to project from yet
+  sampledAt: Date;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+// ETA for sessions without a target - the same default the rest of the bot assumes
+const DEFAULT_TARGET_SOC = 80;
+export const MIN_PROGRESS_MINUTES = 5;
+export const MAX_PROGRESS_MINUTES = 120;
+
+// ===============================================
+// SESSION TELEMETRY SERVICE
+// ===============================================
+
+class SessionTelemetryService {
+  // Last progress message per session - a restart only means one early update
+  private lastProgressAt = new Map<string, number>();
+
+  /**
+   * Store a reading for an active session and refresh its energy and power stats
+   */
+  async recordSample(sessionId: string, input: MeterSampleInput): Promise<boolean> {
+    try {
+      const [session] = await db
+        .select({
+          status: chargingSessions.status,
+          startedAt: chargingSessions.startedAt,
+          startTime: chargingSessions.startTime,
+        })
+        .from(chargingSessions)
+        .where(eq(chargingSessions.sessionId, sessionId))
+        .limit(1);
+
+      if (session?.status !== 'active') return false;
+
+      const sampledAt = input.sampledAt ?? new Date();
+      const energyKwh = Math.max(0, input.energyKwh);
+      const previous = await this.getLatestSample(sessionId);
+
+      // Chargers that don't report power get it from the energy added since the last reading
+      let powerKw = input.powerKw ?? null;
+      if (powerKw === null && previous && sampledAt > previous.sampledAt) {
+        const hours = (sampledAt.getTime() - previous.sampledAt.getTime()) / HOUR_MS;
+        powerKw = Math.max(0, energyKwh - parseFloat(previous.energyKwh)) / hours;
+      }
+
+      const started = session.startedAt ?? session.startTime;
+      const elapsedHours = started ? (sampledAt.getTime() - started.getTime()) / HOUR_MS : 0;
+
+      await db.batch([
+        db.insert(sessionMeterSamples).values({
+          sessionId,
+          energyKwh: energyKwh.toFixed(3),
+          powerKw: powerKw !== null ? powerKw.toFixed(2) : null,
+          socPercent: this.toSoc(input.socPercent),
+          source: input.source,
+          sampledAt,
+        }),
+        db
+          .update(chargingSessions)
+          .set({
+            energyDelivered: energyKwh.toFixed(3),
+            peakPowerKw: powerKw !== null
+              ? sql`GREATEST(COALESCE(${chargingSessions.peakPowerKw}, 0), ${powerKw.toFixed(2)})`
+              : undefined,
+            averagePowerKw: elapsedHours > 0 ? (energyKwh / elapsedHours).toFixed(2) : undefined,
+            updatedAt: new Date(),
+          })
+          .where(and(eq(chargingSessions.sessionId, sessionId), eq(chargingSessions.status, 'active'))),
+      ]);
+
+      sessionService.updateLiveReadings(sessionId, energyKwh, this.toSoc(input.socPercent));
+      await chargingTargetService.evaluateSession(sessionId);
+      return true;
+    } catch (error) {
+      logger.error('Failed to record meter sample', { sessionId, source: input.source, error });
+      return false;
+    }
+  }
+
+  async getLatestSample(sessionId: string): Promise<SessionMeterSample | null> {
+    const [sample] = await db
+      .select()
+      .from(sessionMeterSamples)
+      .where(eq(sessionMeterSamples.sessionId, sessionId))
+      .orderBy(desc(sessionMeterSamples.sampledAt))
+      .limit(1);
+    return sample ?? null;
+  }
+
+  /**
+   * Most recent battery level reported during the session, if the vehicle shares it
+   */
+  async getLatestSoc(sessionId: string): Promise<number | null> {
+    const [sample] = await db
+      .select({ socPercent: sessionMeterSamples.socPercent })
+      .from(sessionMeterSamples)
+      .where(and(eq(sessionMeterSamples.sessionId, sessionId), isNotNull(sessionMeterSamples.socPercent)))
+      .orderBy(desc(sessionMeterSamples.sampledAt))
+      .limit(1);
+    return sample?.socPercent ?? null;
+  }
+
+  /**
+   * Energy, cost and ETA to the driver's target from the latest reading - null until the session has one
+   */
+  async getProgress(sessionId: string, stationId: number, startedAt: Date): Promise<SessionProgress | null> {
+    const latest = await this.getLatestSample(sessionId);
+    if (!latest) return null;
+
+    const energyKwh = parseFloat(latest.energyKwh);
+    const powerKw = latest.powerKw !== null ? parseFloat(latest.powerKw) : null;
+    const tariff = await tariffService.getStationTariff(stationId);
+    const bill = tariffService.calculateBill(tariff, { energyKwh, startTime: startedAt, endTime: latest.sampledAt });
+    const socPercent = await this.getLatestSoc(sessionId);
+    const target = await chargingTargetService.getTarget(sessionId) ?? { type: 'soc', value: DEFAULT_TARGET_SOC };
+
+    let etaMinutes: number | null = null;
+    if (target.type === 'soc') {
+      etaMinutes = socPercent !== null ? await this.estimateMinutesToSoc(sessionId, target.value) : null;
+    } else if (powerKw) {
+      // Bills grow with energy, so a ₹ target converts at the effective rate so far
+      const remainingKwh = target.type === 'kwh'
+        ? target.value - energyKwh
+        : energyKwh > 0 ? (target.value - bill.total) / (bill.total / energyKwh) : null;
+      etaMinutes = remainingKwh !== null ? Math.max(0, Math.ceil((remainingKwh / powerKw) * 60)) : null;
+    }
+
+    return {
+      energyKwh,
+      powerKw,
+      socPercent,
+      costSoFar: bill.total,
+      targetLabel: chargingTargetService.formatTarget(target),
+      etaMinutes,
+      sampledAt: latest.sampledAt,
+    };
+  }
+
+  // ===============================================
+  // PREFERENCES
+  // ===============================================
+
+  async getProgressCadence(whatsappId: string): Promise<number | null> {
+    const [user] = await db
+      .select({ minutes: users.progressUpdateMinutes })
+      .from(users)
+      .where(eq(users.whatsappId, whatsappId))
+      .limit(1);
+    return user?.minutes ?? null;
+  }
+
+  /**
+   * Minutes between progress messages - 0 turns them off
+   */
+  async setProgressCadence(whatsappId: string, minutes: number): Promise<boolean> {
+    if (minutes !== 0 && (minutes < MIN_PROGRESS_MINUTES || minutes > MAX_PROGRESS_MINUTES)) return false;
+
+    try {
+      const updated = await db
+        .update(users)
+        .set({ progressUpdateMinutes: minutes, updatedAt: new Date() })
+        .where(eq(users.whatsappId, whatsappId))
+        .returning({ id: users.id });
+      return updated.length > 0;
+    } catch (error) {
+      logger.error('Failed to update progress cadence', { whatsappId, minutes, error });
+      return false;
+    }
+  }
+
+  // ===============================================
+  // SCHEDULER
+  // ===============================================
+
+  /**
+   * Message drivers whose cadence has elapsed since their last update (or the session start)
+   */
+  async sendDueProgressUpdates(): Promise<void> {
+    const sessions = await db
+      .select({
+        sessionId: chargingSessions.sessionId,
+        userWhatsapp: chargingSessions.userWhatsapp,
+        stationId: chargingSessions.stationId,
+        stationName: chargingStations.name,
+        startedAt: chargingSessions.startedAt,
+        cadenceMinutes: users.progressUpdateMinutes,
+      })
+      .from(chargingSessions)
+      .innerJoin(users, eq(users.whatsappId, chargingSessions.userWhatsapp))
+      .innerJoin(chargingStations, eq(chargingStations.id, chargingSessions.stationId))
+      .where(
+        and(
+          eq(chargingSessions.status, 'active'),
+          isNotNull(chargingSessions.startedAt),
+          gt(users.progressUpdateMinutes, 0),
+          // Already stopping - the final bill is on its way
+          sql`COALESCE(${chargingSessions.verificationStatus}, '') NOT IN ('awaiting_end_photo', 'awaiting_charger_stop')`
+        )
+      );
+
+    const now = Date.now();
+    const live = new Set(sessions.map(s => s.sessionId));
+    for (const sessionId of this.lastProgressAt.keys()) {
+      if (!live.has(sessionId)) this.lastProgressAt.delete(sessionId);
+    }
+
+    for (const session of sessions) {
+      const lastSent = this.lastProgressAt.get(session.sessionId) ?? session.startedAt!.getTime();
+      if (now - lastSent < session.cadenceMinutes * 60 * 1000) continue;
+
+      try {
+        const progress = await this.getProgress(session.sessionId, session.stationId, session.startedAt!);
+        // Photo-metered sessions have nothing new between check-ins
+        if (!progress || progress.sampledAt.getTime() <= lastSent) continue;
+
+        await notificationService.sendSessionProgressNotification(
+          session.userWhatsapp,
+          { stationName: session.stationName },
+          {
+            energyDelivered: progress.energyKwh.toFixed(2),
+            currentBatteryLevel: progress.socPercent,
+            chargingRate: progress.powerKw !== null ? progress.powerKw.toFixed(1) : '—',
+            currentCost: progress.costSoFar.toFixed(2),
+            estimatedCompletion: this.formatEta(progress),
+            statusMessage: `🔔 Every ${session.cadenceMinutes} min - reply "updates 30" to change or "updates off" to stop.`,
+          }
+        );
+        this.lastProgressAt.set(session.sessionId, now);
+      } catch (error) {
+        logger.error('Failed to send progress update', { sessionId: session.sessionId, error });
+      }
+    }
+  }
+
+  // ===============================================
+  // HELPERS
+  // ===============================================
+
+  /**
+   * Linear ETA from the battery's rise since its first reported level this session
+   */
+  private async estimateMinutesToSoc(sessionId: string, targetSoc: number): Promise<number | null> {
+    const samples = await db
+      .select({ socPercent: sessionMeterSamples.socPercent, sampledAt: sessionMeterSamples.sampledAt })
+      .from(sessionMeterSamples)
+      .where(and(eq(sessionMeterSamples.sessionId, sessionId), isNotNull(sessionMeterSamples.socPercent)))
+      .orderBy(asc(sessionMeterSamples.sampledAt));
+
+    const first = samples[0];
+    const latest = samples[samples.length - 1];
+    if (!first || !latest) return null;
+    if (latest.socPercent! >= targetSoc) return 0;
+
+    const minutes = (latest.sampledAt.getTime() - first.sampledAt.getTime()) / 60000;
+    const risePerMinute = minutes > 0 ? (latest.socPercent! - first.socPercent!) / minutes : 0;
+    if (risePerMinute <= 0) return null;
+
+    return Math.ceil((targetSoc - latest.socPercent!) / risePerMinute);
+  }
+
+  private formatEta(progress: SessionProgress): string {
+    if (progress.etaMinutes === 0) return `${progress.targetLabel} reached`;
+    if (progress.etaMinutes === null) return `Calculating time to ${progress.targetLabel}...`;
+
+    const eta = new Date(Date.now() + progress.etaMinutes * 60000);
+    const duration = progress.etaMinutes >= 60
+      ? `${Math.floor(progress.etaMinutes / 60)}h ${progress.etaMinutes % 60}m`
+      : `${progress.etaMinutes}m`;
+    return `${eta.toLocaleTimeString('en-IN', { hour: '2-digit', minute: '2-digit' })} (${duration} to ${progress.targetLabel})`;
+  }
+
+  private toSoc(value: number | null | undefined): number | null {
+    return value !== null && value !== undefined && Number.isFinite(value)
+      ? Math.max(0, Math.min(100, Math.round(value)))
+      : null;
+  }
+}
+
+// ===============================================
+// SINGLETON EXPORT
+// ===============================================
+
+export const sessionTelemetryService = new SessionTelemetryService();
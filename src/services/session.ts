@@ -1,10 +1,19 @@
 // src/services/session.ts - Photo-Based Verification (No Time Tracking)
 import { db } from '../db/connection';
 import { chargingStations, chargingSessions, users } from '../db/schema';
-import { eq, and, desc, sql, count, sum, avg } from 'drizzle-orm';
+import { eq, and, desc, sql, count, sum, avg, isNull, lt, type SQL } from 'drizzle-orm';
 import { logger } from '../utils/logger';
 import { notificationService } from './notification';
 import { photoVerificationService } from './photo-verification';
+import { paymentService } from './payment';
+import { invoiceService } from './invoice';
+import { tariffService, type BillDiscount, type BillBreakdown } from './tariff';
+import { promoService } from './promo';
+import { idleFeeService } from './idle-fee';
+import { portService } from './port';
+import { reliabilityService } from './reliability';
+import { ocppService, type OcppCallResult, type RemoteTransactionResponse } from './ocpp';
+import { chargingTargetService } from './charging-target';
 
 export interface ChargingSession {
   id: string;
@@ -20,6 +29,7 @@ export interface ChargingSession {
   totalCost: number;
   status: 'initiated' | 'active' | 'completed' | 'stopped';
   queueId?: number;
+  meterSource: 'photo' | 'ocpp';
 }
 
 export interface SessionSummary {
@@ -28,11 +38,17 @@ export interface SessionSummary {
   energyDelivered: number;
   finalBatteryLevel: number;
   totalCost: number;
+  discountAmount?: number;
+  idleMinutes?: number;
+  idleFee?: number;
   stationName: string;
   startTime: Date;
   endTime: Date;
 }
 
+// A remotely started charger that hasn't sent StartTransaction by then falls back to photos
+const REMOTE_START_TIMEOUT_MS = 3 * 60 * 1000;
+
 class SessionService {
   private activeSessions = new Map<string, ChargingSession>();
 
@@ -64,35 +80,68 @@ class SessionService {
       // Generate unique session ID
       const sessionId = `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
+      // Claim a physical port - matching the driver's connector where possible
+      const [user] = await db
+        .select({ connectorType: users.connectorType })
+        .from(users)
+        .where(eq(users.whatsappId, userWhatsapp))
+        .limit(1);
+      const port = await portService.assignPort(stationId, sessionId, user?.connectorType);
+      if (!port) {
+        logger.warn('No free port for session', { userWhatsapp, stationId });
+        return null;
+      }
+
+      // Networked chargers report their own meter - no photos at those ports
+      const chargerMetered = ocppService.isPortOnline(port);
+
       // Create session with 'initiated' status - NO startTime yet
-      const [newSession] = await db
-        .insert(chargingSessions)
-        .values({
-          sessionId,
-          userWhatsapp,
-          stationId,
-          queueId,
-          status: 'initiated',
-          verificationStatus: 'pending',
-          maxPowerUsed: stationData.maxPowerKw || 50,
-          ratePerKwh: stationData.pricePerKwh?.toString() || '12',
-          createdAt: new Date(),
-          updatedAt: new Date(),
-        })
-        .returning();
+      let newSession: typeof chargingSessions.$inferSelect;
+      try {
+        [newSession] = await db
+          .insert(chargingSessions)
+          .values({
+            sessionId,
+            userWhatsapp,
+            stationId,
+            queueId,
+            portId: port.id,
+            status: 'initiated',
+            verificationStatus: chargerMetered ? 'awaiting_charger' : 'pending',
+            meterSource: chargerMetered ? 'ocpp' : 'photo',
+            connectorUsed: port.connectorType,
+            maxPowerUsed: port.maxPowerKw || stationData.maxPowerKw || 50,
+            ratePerKwh: stationData.pricePerKwh?.toString() || '12',
+            createdAt: new Date(),
+            updatedAt: new Date(),
+          })
+          .returning();
+      } catch (error) {
+        await portService.releaseSessionPort(sessionId);
+        throw error;
+      }
+
+      //  A vehicle still recorded idle on this port has made way for this driver
+      await idleFeeService.closeIdleOnPort(port.id, 'next_session').catch(error =>
+        logger.warn('Failed to close idle session on port', { stationId, portId: port.id, error })
+      );
 
-      logger.info('Session created, requesting START photo', {
+      logger.info(chargerMetered ? 'Session created, waiting for charger' : 'Session created, requesting START photo', {
         sessionId,
         userWhatsapp,
         stationId,
+        portNumber: port.portNumber,
       });
 
-      // Trigger photo verification - NO success message yet
-      await photoVerificationService.initiateStartVerification(
-        userWhatsapp,
-        sessionId,
-        stationId
-      );
+      // Activation waits for a verified photo or the charger's StartTransaction - NO success message yet.
+      // Networked ports are started remotely by the caller, with photos as the fallback.
+      if (!chargerMetered) {
+        await photoVerificationService.initiateStartVerification(
+          userWhatsapp,
+          sessionId,
+          stationId
+        );
+      }
 
       return this.mapToChargingSession(newSession);
     } catch (error) {
@@ -146,6 +195,10 @@ class SessionService {
       session.userWhatsapp,
       session  //  Pass full session object
     );
+
+    if (!(await chargingTargetService.getTarget(sessionId))) {
+      await chargingTargetService.promptForTarget(session.userWhatsapp, session.stationId, session.meterSource);
+    }
   } catch (error) {
     logger.error('Failed to activate charging', { error, sessionId });
     throw error;
@@ -199,6 +252,15 @@ class SessionService {
         return false;
       }
 
+      // The charger's StopTransaction completes these - its meter is the reading
+      if (session.meterSource === 'ocpp' && session.status === 'active') {
+        const result = await this.requestChargerStop(session.id);
+        if (result.payload?.status === 'Accepted') return true;
+
+        logger.warn('Remote stop failed, falling back to END photo', { sessionId: session.id, result });
+        await this.switchToPhotoMetering(session.id);
+      }
+
       await db
         .update(chargingSessions)
         .set({
@@ -227,6 +289,87 @@ class SessionService {
     }
   }
 
+  /**
+   * Ask the charger to end a charger-metered session - its StopTransaction completes it
+   */
+  async requestChargerStop(sessionId: string): Promise<OcppCallResult<RemoteTransactionResponse>> {
+    const result = await ocppService.remoteStopTransaction(sessionId);
+    if (result.payload?.status === 'Accepted') {
+      await db
+        .update(chargingSessions)
+        .set({ verificationStatus: 'awaiting_charger_stop', updatedAt: new Date() })
+        .where(and(eq(chargingSessions.sessionId, sessionId), eq(chargingSessions.status, 'active')));
+    }
+    return result;
+  }
+
+  /**
+   * The charger can't be driven remotely - readings come from photos from here on.
+   * A late StartTransaction/StopTransaction for the session is refused.
+   */
+  async switchToPhotoMetering(sessionId: string): Promise<boolean> {
+    try {
+      const [switched] = await db
+        .update(chargingSessions)
+        .set({ meterSource: 'photo', verificationStatus: 'pending', updatedAt: new Date() })
+        .where(and(eq(chargingSessions.sessionId, sessionId), eq(chargingSessions.meterSource, 'ocpp')))
+        .returning({ id: chargingSessions.id });
+
+      const cached = this.activeSessions.get(sessionId);
+      if (cached) cached.meterSource = 'photo';
+
+      if (switched) logger.info('📸 Session switched to photo metering', { sessionId });
+      return !!switched;
+    } catch (error) {
+      logger.error('Failed to switch session to photo metering', { sessionId, error });
+      return false;
+    }
+  }
+
+  /**
+   * Remote start failed or never happened - ask for the START photo instead
+   */
+  async fallBackToPhotoStart(sessionId: string): Promise<boolean> {
+    const [session] = await db
+      .select({ userWhatsapp: chargingSessions.userWhatsapp, stationId: chargingSessions.stationId, status: chargingSessions.status })
+      .from(chargingSessions)
+      .where(eq(chargingSessions.sessionId, sessionId))
+      .limit(1);
+
+    if (session?.status !== 'initiated' || !(await this.switchToPhotoMetering(sessionId))) {
+      return false;
+    }
+
+    await photoVerificationService.initiateStartVerification(session.userWhatsapp, sessionId, session.stationId);
+    return true;
+  }
+
+  /**
+   * Chargers that accepted a remote start but never sent StartTransaction - switch to photos
+   */
+  async fallBackStalledRemoteStarts(): Promise<number> {
+    const stalled = await db
+      .select({ sessionId: chargingSessions.sessionId, userWhatsapp: chargingSessions.userWhatsapp })
+      .from(chargingSessions)
+      .where(
+        and(
+          eq(chargingSessions.status, 'initiated'),
+          eq(chargingSessions.meterSource, 'ocpp'),
+          lt(chargingSessions.remoteStartAt, new Date(Date.now() - REMOTE_START_TIMEOUT_MS))
+        )
+      );
+
+    let fellBack = 0;
+    for (const { sessionId, userWhatsapp } of stalled) {
+      if (await this.fallBackToPhotoStart(sessionId)) {
+        fellBack++;
+        logger.warn('Charger accepted remote start but never started', { userWhatsapp, sessionId });
+        await notificationService.sendChargerStartTimeoutNotification(userWhatsapp);
+      }
+    }
+    return fellBack;
+  }
+
   /**
    *  Complete session AFTER END photo verified
    */
@@ -236,24 +379,16 @@ class SessionService {
   consumption: number
 ): Promise<void> {
   try {
-    //  Fetch session WITH station name via JOIN
-    const result = await db
-      .select({
-        session: chargingSessions,
-        station: chargingStations,
-      })
+    const [session] = await db
+      .select()
       .from(chargingSessions)
-      .leftJoin(chargingStations, eq(chargingSessions.stationId, chargingStations.id))
       .where(eq(chargingSessions.sessionId, sessionId))
       .limit(1);
-    
-    if (!result || result.length === 0) {
+
+    if (!session) {
       logger.error('Session not found during completion', { sessionId });
       throw new Error('Session not found');
     }
-    
-    const session = result[0].session;
-    const station = result[0].station;
 
     //  Validate required session data
     if (!session.userWhatsapp) {
@@ -268,29 +403,13 @@ class SessionService {
     const startTime = session.startTime || session.startedAt || session.createdAt || new Date();
     const endTime = new Date();
     const durationMinutes = Math.floor((endTime.getTime() - startTime.getTime()) / (1000 * 60));
+    // Whole-session average, capped at what the port can deliver so a misread photo can't inflate it
+    // Peak is only set from real meter samples - it stays null for sessions without telemetry
+    const averagePowerKw = durationMinutes > 0
+      ? Math.min(consumption / (durationMinutes / 60), session.maxPowerUsed || Infinity)
+      : null;
 
-    //  Calculate costs with validation
-    const ratePerKwh = parseFloat(session.ratePerKwh || '12');
-    if (isNaN(ratePerKwh) || ratePerKwh <= 0) {
-      throw new Error(`Invalid rate per kWh: ${session.ratePerKwh}`);
-    }
-
-    const energyCost = consumption * ratePerKwh;
-    const platformFee = Math.max(5, energyCost * 0.05);
-    const gst = (energyCost + platformFee) * 0.18;
-    const totalCost = energyCost + platformFee + gst;
-
-    logger.info('💰 Calculating session costs', {
-      sessionId,
-      consumption,
-      ratePerKwh,
-      energyCost: energyCost.toFixed(2),
-      platformFee: platformFee.toFixed(2),
-      gst: gst.toFixed(2),
-      totalCost: totalCost.toFixed(2)
-    });
-
-    //  Update session in database
+    //  Update session in database - the bill is priced separately
     await db
       .update(chargingSessions)
       .set({
@@ -301,9 +420,7 @@ class SessionService {
         duration: durationMinutes,
         endMeterReading: endMeterReading.toString(),
         energyDelivered: consumption.toString(),
-        totalCost: totalCost.toFixed(2),
-        baseCharge: platformFee.toFixed(2),
-        taxAmount: gst.toFixed(2),
+        averagePowerKw: averagePowerKw !== null ? averagePowerKw.toFixed(2) : null,
         paymentStatus: 'pending',
         updatedAt: new Date(),
       })
@@ -312,26 +429,144 @@ class SessionService {
     //  Remove from active sessions
     this.activeSessions.delete(sessionId);
 
+    logger.info('✅ Session completed successfully', {
+      sessionId,
+      userWhatsapp: session.userWhatsapp,
+      consumption: consumption.toFixed(2),
+      duration: `${durationMinutes} minutes`
+    });
+
+    //  Stations with an idle fee bill once the vehicle has left the bay - the port stays taken until then
+    const tariff = await tariffService.getStationTariff(session.stationId);
+    if (tariff.idleFeePerMinute > 0 && session.idleStartedAt && !session.idleEndedAt) {
+      await idleFeeService.promptVehicleMove(session.userWhatsapp, sessionId, tariff, session.idleStartedAt);
+      return;
+    }
+
+    await portService.releaseSessionPort(sessionId);
+    await this.finalizeSessionBill(sessionId);
+
+  } catch (error) {
+    logger.error('Failed to complete session', { 
+      error, 
+      sessionId,
+      errorMessage: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined
+    });
+    
+    // Re-throw to be caught by calling function
+    throw error;
+  }
+}
+
+  /**
+   *  Price a completed session and send the bill - runs once per session
+   */
+  async finalizeSessionBill(sessionId: string): Promise<void> {
+    const [result] = await db
+      .select({
+        session: chargingSessions,
+        station: chargingStations,
+      })
+      .from(chargingSessions)
+      .leftJoin(chargingStations, eq(chargingSessions.stationId, chargingStations.id))
+      .where(eq(chargingSessions.sessionId, sessionId))
+      .limit(1);
+
+    if (!result || result.session.status !== 'completed' || result.session.totalCost !== null) {
+      return;
+    }
+
+    const { session, station } = result;
+    const consumption = parseFloat(session.energyDelivered || '0');
+    const startTime = session.startTime || session.startedAt || session.createdAt || new Date();
+    const endTime = session.endTime || new Date();
+
+    //  Price the session with the station tariff
+    const tariff = await tariffService.getStationTariff(session.stationId);
+    const promo = station
+      ? await promoService.getSessionDiscount(session.userWhatsapp, sessionId, station)
+      : null;
+    const priceSession = (discount?: BillDiscount) => tariffService.calculateBill(tariff, {
+      energyKwh: consumption,
+      startTime,
+      endTime,
+      idleMinutes: session.idleMinutes || 0,
+      discount,
+    });
+    let bill = priceSession(promo?.discount);
+
+    //  Bill is stored only while the session is unbilled - concurrent completions bill once
+    const storeBill = (priced: BillBreakdown, applied?: SQL) => db
+      .update(chargingSessions)
+      .set({
+        ratePerKwh: priced.energyRate.toFixed(2),
+        totalCost: priced.total.toFixed(2),
+        baseCharge: priced.sessionFee.toFixed(2),
+        taxAmount: priced.taxAmount.toFixed(2),
+        discountAmount: priced.discountAmount.toFixed(2),
+        billBreakdown: priced,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(chargingSessions.sessionId, sessionId), isNull(chargingSessions.totalCost), applied))
+      .returning({ id: chargingSessions.id });
+
+    let billed: { id: number } | undefined;
+    if (promo && bill.discountAmount > 0) {
+      //  The redemption is consumed under the code lock in the same batch as the bill -
+      //  a code used or released since it was read leaves the bill undiscounted
+      [, , [billed]] = await db.batch([
+        promoService.lockCode(promo.promoCodeId),
+        promoService.settleRedemption(promo, sessionId, bill.discountAmount),
+        storeBill(bill, sql`EXISTS (
+          SELECT 1 FROM promo_redemptions
+          WHERE id = ${promo.redemptionId} AND status = 'applied' AND session_id = ${sessionId}
+        )`),
+      ]);
+
+      if (!billed) {
+        logger.warn('Promo redemption no longer pending, billing without it', { sessionId, code: promo.code });
+        bill = priceSession();
+        [billed] = await storeBill(bill);
+      }
+    } else {
+      [billed] = await storeBill(bill);
+      if (billed && promo) await promoService.keepForNextSession(promo);
+    }
+
+    //  Billed concurrently (e.g. vehicle moved as the next session started)
+    if (!billed) return;
+
+    const ratePerKwh = bill.energyRate;
+    const totalCost = bill.total;
+
+    logger.info('💰 Calculating session costs', {
+      sessionId,
+      consumption,
+      ratePerKwh,
+      energyCost: bill.energyCost.toFixed(2),
+      sessionFee: bill.sessionFee.toFixed(2),
+      idleFee: bill.idleFee.toFixed(2),
+      discount: bill.discountAmount.toFixed(2),
+      tax: bill.taxAmount.toFixed(2),
+      totalCost: totalCost.toFixed(2)
+    });
+
     //  Create session summary
     const summary: SessionSummary = {
       sessionId,
-      duration: this.formatDuration(durationMinutes),
+      duration: this.formatDuration(session.duration || 0),
       energyDelivered: consumption,
       finalBatteryLevel: session.finalBatteryPercent || 80,
       totalCost,
+      discountAmount: bill.discountAmount,
+      idleMinutes: bill.idleMinutes,
+      idleFee: bill.idleFee,
       stationName: station?.name || 'Charging Station',
       startTime,
       endTime,
     };
 
-    logger.info('✅ Session completed successfully', {
-      sessionId,
-      userWhatsapp: session.userWhatsapp,
-      consumption: consumption.toFixed(2),
-      totalCost: totalCost.toFixed(2),
-      duration: `${durationMinutes} minutes`
-    });
-
     //  Create enriched session object for notification
     const enrichedSession = {
       ...session,
@@ -339,13 +574,26 @@ class SessionService {
       stationId: session.stationId,
       pricePerKwh: ratePerKwh,
       startMeterReading: session.startMeterReading,
-      endMeterReading: endMeterReading.toString(),
+      endMeterReading: session.endMeterReading,
       energyDelivered: consumption.toString(),
       totalCost: totalCost.toFixed(2),
     };
 
-    //  Send completion notification (non-blocking to prevent failures from affecting completion)
+    //  Money first - each step stands alone, so a failed message never leaves the session
+    //  without a payment or invoice (the payments sweep also picks up a missing payment)
     setImmediate(async () => {
+      try {
+        await paymentService.requestSessionPayment(sessionId);
+      } catch (paymentError) {
+        logger.error('Failed to request session payment', { sessionId, error: paymentError });
+      }
+
+      try {
+        await invoiceService.sendSessionInvoice(sessionId);
+      } catch (invoiceError) {
+        logger.error('Failed to issue session invoice', { sessionId, error: invoiceError });
+      }
+
       try {
         await notificationService.sendSessionCompletedNotification(
           session.userWhatsapp,
@@ -364,19 +612,9 @@ class SessionService {
 
     //  Update user stats
     await this.updateUserStats(session.userWhatsapp, consumption, totalCost);
-    
-  } catch (error) {
-    logger.error('Failed to complete session', { 
-      error, 
-      sessionId,
-      errorMessage: error instanceof Error ? error.message : String(error),
-      stack: error instanceof Error ? error.stack : undefined
-    });
-    
-    // Re-throw to be caught by calling function
-    throw error;
+    await reliabilityService.recordCompletedSession(session.userWhatsapp, session.sessionId);
   }
-}
+
   // === HELPER METHODS ===
 
   private formatDuration(minutes: number): string {
@@ -421,6 +659,7 @@ class SessionService {
       totalCost: parseFloat(dbSession.totalCost || '0'),
       status: dbSession.status,
       queueId: dbSession.queueId,
+      meterSource: dbSession.meterSource === 'ocpp' ? 'ocpp' : 'photo',
     };
   }
 
@@ -558,6 +797,17 @@ class SessionService {
   getActiveSessions(): Map<string, ChargingSession> {
     return this.activeSessions;
   }
+
+  /**
+   * Keep the cached session in step with the latest meter sample
+   */
+  updateLiveReadings(sessionId: string, energyKwh: number, socPercent: number | null): void {
+    const cached = this.activeSessions.get(sessionId);
+    if (!cached) return;
+
+    cached.energyDelivered = energyKwh;
+    if (socPercent !== null) cached.currentBatteryLevel = socPercent;
+  }
 }
 
 export const sessionService = new SessionService();
\ No newline at end of file
@@ -0,0 +1,742 @@
+// src/services/settlement.ts - OWNER SETTLEMENTS, STATEMENTS & PAYOUT TRACKING
+import crypto from 'crypto';
+import { db } from '../config/database';
+import {
+  settlements,
+  payments,
+  chargingSessions,
+  chargingStations,
+  stationOwners,
+  admins,
+  auditLogs,
+  type Settlement,
+} from '../db/schema';
+import { eq, and, desc, inArray, isNull, lt, sql } from 'drizzle-orm';
+import { getPaymentConfig } from '../config/env';
+import { logger } from '../utils/logger';
+import { SimplePdfDocument } from '../utils/pdf-writer';
+import { whatsappService } from './whatsapp';
+import { subscriptionService } from './subscription';
+
+// ===============================================
+// TYPES & INTERFACES
+// ===============================================
+
+export interface SettlementLineItem {
+  type: 'session' | 'refund' | 'adjustment';
+  reference: string;            // Payment ID, or settlement number for adjustments
+  sessionId?: string;
+  stationName?: string;
+  date: string;
+  energyKwh?: number;
+  amount: number;               // Deductions are negative
+}
+
+export type PayoutStatus = 'processing' | 'paid' | 'failed';
+
+export interface PayoutUpdate {
+  settlementNumber: string;
+  status: PayoutStatus;
+  payoutReference?: string;
+  failureReason?: string;
+  actorWhatsappId: string;
+  ipAddress?: string;
+  userAgent?: string;
+  endpoint?: string;
+}
+
+// Allowed payout transitions - paid is final
+const PAYOUT_TRANSITIONS: Record<string, PayoutStatus[]> = {
+  pending: ['processing', 'paid', 'failed'],
+  processing: ['paid', 'failed'],
+  failed: ['processing', 'paid'],
+};
+
+const STATUS_LABELS: Record<string, string> = {
+  pending: '🟡 Pending',
+  processing: '🔵 Processing',
+  paid: '🟢 Paid',
+  failed: '🔴 Failed',
+  carried_forward: '⚪ Carried forward',
+};
+
+const CAPTURED_STATUSES = ['paid', 'partially_refunded', 'refunded'];
+const PLATFORM_FEE_TAX_RATE = 18;   // GST on the platform commission
+const IST_OFFSET_MS = 5.5 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ===============================================
+// SETTLEMENT SERVICE
+// ===============================================
+
+class SettlementService {
+  /**
+   * Settle one owner for a period. Picks up every captured payment not yet
+   * settled, refunds made since the last statement and carried-forward balances.
+   */
+  async generateSettlement(ownerWhatsappId: string, periodStart: Date, periodEnd: Date): Promise<Settlement | null> {
+    try {
+      const [existing] = await db
+        .select()
+        .from(settlements)
+        .where(and(eq(settlements.ownerWhatsappId, ownerWhatsappId), eq(settlements.periodStart, periodStart)))
+        .limit(1);
+      if (existing) return existing;
+
+      const collected = await db
+        .select({
+          id: payments.id,
+          paymentId: payments.paymentId,
+          sessionId: payments.sessionId,
+          amount: payments.amount,
+          paidAt: payments.paidAt,
+          stationName: chargingStations.name,
+          energyKwh: chargingSessions.energyDelivered,
+        })
+        .from(payments)
+        .innerJoin(chargingStations, eq(payments.stationId, chargingStations.id))
+        .leftJoin(chargingSessions, eq(payments.sessionId, chargingSessions.sessionId))
+        .where(
+          and(
+            eq(chargingStations.ownerWhatsappId, ownerWhatsappId),
+            eq(payments.purpose, 'session'),
+            inArray(payments.status, CAPTURED_STATUSES),
+            isNull(payments.settlementNumber),
+            lt(payments.paidAt, periodEnd)
+          )
+        )
+        .orderBy(payments.paidAt);
+
+      const refunded = await db
+        .select({
+          id: payments.id,
+          paymentId: payments.paymentId,
+          sessionId: payments.sessionId,
+          refundAmount: payments.refundAmount,
+          settledRefundAmount: payments.settledRefundAmount,
+          refundedAt: payments.refundedAt,
+          stationName: chargingStations.name,
+        })
+        .from(payments)
+        .innerJoin(chargingStations, eq(payments.stationId, chargingStations.id))
+        .where(
+          and(
+            eq(chargingStations.ownerWhatsappId, ownerWhatsappId),
+            eq(payments.purpose, 'session'),
+            inArray(payments.status, ['partially_refunded', 'refunded']),
+            sql`${payments.refundAmount} > ${payments.settledRefundAmount}`,
+            lt(payments.refundedAt, periodEnd)
+          )
+        );
+
+      const carried = await db
+        .select()
+        .from(settlements)
+        .where(
+          and(
+            eq(settlements.ownerWhatsappId, ownerWhatsappId),
+            eq(settlements.status, 'carried_forward'),
+            isNull(settlements.carriedForwardTo)
+          )
+        );
+
+      if (collected.length === 0 && refunded.length === 0 && carried.length === 0) {
+        return null;
+      }
+
+      const lineItems: SettlementLineItem[] = [
+        ...collected.map(payment => ({
+          type: 'session' as const,
+          reference: payment.paymentId,
+          sessionId: payment.sessionId || undefined,
+          stationName: payment.stationName,
+          date: (payment.paidAt || periodEnd).toISOString(),
+          energyKwh: payment.energyKwh ? parseFloat(payment.energyKwh) : undefined,
+          amount: parseFloat(payment.amount),
+        })),
+        ...refunded.map(payment => ({
+          type: 'refund' as const,
+          reference: payment.paymentId,
+          sessionId: payment.sessionId || undefined,
+          stationName: payment.stationName,
+          date: (payment.refundedAt || periodEnd).toISOString(),
+          amount: -this.round(parseFloat(payment.refundAmount || '0') - parseFloat(payment.settledRefundAmount)),
+        })),
+        ...carried.map(previous => ({
+          type: 'adjustment' as const,
+          reference: previous.settlementNumber,
+          date: previous.periodEnd.toISOString(),
+          amount: parseFloat(previous.netPayable),
+        })),
+      ];
+
+      const sum = (type: SettlementLineItem['type']) =>
+        this.round(lineItems.filter(item => item.type === type).reduce((total, item) => total + item.amount, 0));
+
+      const grossAmount = sum('session');
+      const refundAmount = -sum('refund');
+      const adjustmentAmount = sum('adjustment');
+      const platformFeeRate = getPaymentConfig().settlementFeePercent;
+      const platformFee = this.round(Math.max(0, grossAmount - refundAmount) * platformFeeRate / 100);
+      const platformFeeTax = this.round(platformFee * PLATFORM_FEE_TAX_RATE / 100);
+      const netPayable = this.round(grossAmount - refundAmount - platformFee - platformFeeTax + adjustmentAmount);
+
+      const [owner] = await db
+        .select({
+          accountHolderName: stationOwners.accountHolderName,
+          bankAccountNumber: stationOwners.bankAccountNumber,
+          ifscCode: stationOwners.ifscCode,
+        })
+        .from(stationOwners)
+        .where(eq(stationOwners.whatsappId, ownerWhatsappId))
+        .limit(1);
+
+      const settlementNumber = this.formatSettlementNumber(periodStart);
+      const claimed = sql`EXISTS (SELECT 1 FROM settlements WHERE settlement_number = ${settlementNumber})`;
+
+      // The owner/period unique constraint makes concurrent runs no-ops;
+      // payments are only claimed when this run's settlement row was inserted
+      await db.batch([
+        db.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`settlement:${ownerWhatsappId}`}))`),
+        db.insert(settlements)
+          .values({
+            settlementNumber,
+            ownerWhatsappId,
+            periodStart,
+            periodEnd,
+            sessionCount: collected.length,
+            grossAmount: grossAmount.toFixed(2),
+            refundAmount: refundAmount.toFixed(2),
+            adjustmentAmount: adjustmentAmount.toFixed(2),
+            platformFeeRate: platformFeeRate.toFixed(2),
+            platformFee: platformFee.toFixed(2),
+            platformFeeTax: platformFeeTax.toFixed(2),
+            netPayable: netPayable.toFixed(2),
+            lineItems,
+            status: netPayable < 0 ? 'carried_forward' : 'pending',
+            accountHolderName: owner?.accountHolderName,
+            bankAccountLast4: owner?.bankAccountNumber?.slice(-4),
+            ifscCode: owner?.ifscCode,
+            accessToken: crypto.randomBytes(24).toString('hex'),
+          })
+          .onConflictDoNothing(),
+        db.update(payments)
+          .set({ settlementNumber, updatedAt: new Date() })
+          .where(
+            and(
+              inArray(payments.id, collected.length > 0 ? collected.map(payment => payment.id) : [-1]),
+              isNull(payments.settlementNumber),
+              claimed
+            )
+          ),
+        db.execute(sql`
+          UPDATE payments SET settled_refund_amount = v.amount, updated_at = NOW()
+          FROM (VALUES ${refunded.length > 0
+            ? sql.join(refunded.map(payment => sql`(${payment.id}::integer, ${payment.refundAmount}::numeric)`), sql`, `)
+            : sql`(-1, 0::numeric)`}) AS v(id, amount)
+          WHERE payments.id = v.id AND ${claimed}
+        `),
+        db.update(settlements)
+          .set({ carriedForwardTo: settlementNumber, updatedAt: new Date() })
+          .where(
+            and(
+              inArray(settlements.settlementNumber, carried.length > 0 ? carried.map(previous => previous.settlementNumber) : ['']),
+              isNull(settlements.carriedForwardTo),
+              claimed
+            )
+          ),
+      ]);
+
+      const [settlement] = await db
+        .select()
+        .from(settlements)
+        .where(eq(settlements.settlementNumber, settlementNumber))
+        .limit(1);
+
+      if (!settlement) {
+        // Another run settled this period first
+        return this.getOwnerSettlementForPeriod(ownerWhatsappId, periodStart);
+      }
+
+      logger.info('🏦 Settlement generated', {
+        settlementNumber,
+        ownerWhatsappId,
+        sessions: collected.length,
+        grossAmount,
+        refundAmount,
+        netPayable,
+      });
+
+      return settlement;
+
+    } catch (error) {
+      logger.error('Failed to generate settlement', { ownerWhatsappId, periodStart, periodEnd, error });
+      return null;
+    }
+  }
+
+  /**
+   * Settle every owner for the last complete week (Monday-Sunday, IST)
+   */
+  async runDueSettlements(now: Date = new Date()): Promise<Settlement[]> {
+    const { periodStart, periodEnd } = this.getLastWeek(now);
+
+    const owners = await db
+      .selectDistinct({ ownerWhatsappId: chargingStations.ownerWhatsappId })
+      .from(chargingStations);
+
+    const generated: Settlement[] = [];
+    for (const { ownerWhatsappId } of owners) {
+      const alreadyDone = await this.getOwnerSettlementForPeriod(ownerWhatsappId, periodStart);
+      if (alreadyDone) continue;
+
+      const settlement = await this.generateSettlement(ownerWhatsappId, periodStart, periodEnd);
+      if (settlement) {
+        generated.push(settlement);
+        await this.notifySettlementReady(settlement);
+      }
+    }
+
+    if (generated.length > 0) {
+      logger.info('🏦 Settlement run completed', { periodStart, periodEnd, generated: generated.length });
+    }
+    return generated;
+  }
+
+  // ===============================================
+  // PAYOUTS
+  // ===============================================
+
+  /**
+   * Record payout progress - finance admins only
+   */
+  async updatePayoutStatus(update: PayoutUpdate): Promise<{ success: boolean; error?: string; settlement?: Settlement }> {
+    try {
+      const [admin] = await db
+        .select({ isActive: admins.isActive, canAccessFinance: admins.canAccessFinance })
+        .from(admins)
+        .where(eq(admins.whatsappId, update.actorWhatsappId))
+        .limit(1);
+      if (!admin?.isActive || !admin?.canAccessFinance) {
+        return { success: false, error: 'You are not allowed to update payouts' };
+      }
+
+      const settlement = await this.getSettlementByNumber(update.settlementNumber);
+      if (!settlement) {
+        return { success: false, error: 'Settlement not found' };
+      }
+
+      if (!(PAYOUT_TRANSITIONS[settlement.status] || []).includes(update.status)) {
+        return { success: false, error: `Settlement is ${settlement.status}, cannot mark as ${update.status}` };
+      }
+
+      if (update.status === 'paid' && !update.payoutReference) {
+        return { success: false, error: 'payoutReference is required to mark a settlement paid' };
+      }
+
+      const now = new Date();
+      const [updated] = await db.batch([
+        db.update(settlements)
+          .set({
+            status: update.status,
+            payoutReference: update.payoutReference ?? settlement.payoutReference,
+            payoutFailureReason: update.status === 'failed' ? update.failureReason || 'Payout failed' : null,
+            paidAt: update.status === 'paid' ? now : null,
+            updatedAt: now,
+          })
+          .where(and(eq(settlements.id, settlement.id), eq(settlements.status, settlement.status)))
+          .returning(),
+        db.insert(auditLogs).values({
+          actorWhatsappId: update.actorWhatsappId,
+          actorType: 'admin',
+          action: `settlement_${update.status}`,
+          resourceType: 'settlement',
+          resourceId: settlement.settlementNumber,
+          oldValues: { status: settlement.status },
+          newValues: { status: update.status, payoutReference: update.payoutReference },
+          metadata: { netPayable: settlement.netPayable, failureReason: update.failureReason },
+          ipAddress: update.ipAddress,
+          userAgent: update.userAgent,
+          endpoint: update.endpoint,
+          createdAt: now,
+        }),
+      ]);
+
+      const result = updated[0];
+      if (!result) {
+        return { success: false, error: 'Settlement was updated concurrently, please retry' };
+      }
+
+      logger.info('🏦 Settlement payout updated', {
+        settlementNumber: result.settlementNumber,
+        status: result.status,
+        actor: update.actorWhatsappId,
+      });
+
+      if (result.status !== 'processing') {
+        setImmediate(() => this.notifyPayoutUpdate(result));
+      }
+
+      return { success: true, settlement: result };
+
+    } catch (error) {
+      logger.error('Failed to update payout status', { update, error });
+      return { success: false, error: 'Payout status could not be updated' };
+    }
+  }
+
+  // ===============================================
+  // LOOKUPS
+  // ===============================================
+
+  async getSettlementByNumber(settlementNumber: string): Promise<Settlement | null> {
+    const [settlement] = await db
+      .select()
+      .from(settlements)
+      .where(sql`UPPER(${settlements.settlementNumber}) = ${settlementNumber.toUpperCase()}`)
+      .limit(1);
+    return settlement || null;
+  }
+
+  async getSettlementByToken(accessToken: string): Promise<Settlement | null> {
+    const [settlement] = await db
+      .select()
+      .from(settlements)
+      .where(eq(settlements.accessToken, accessToken))
+      .limit(1);
+    return settlement || null;
+  }
+
+  async getOwnerSettlements(ownerWhatsappId: string, limit = 6): Promise<Settlement[]> {
+    return db
+      .select()
+      .from(settlements)
+      .where(eq(settlements.ownerWhatsappId, ownerWhatsappId))
+      .orderBy(desc(settlements.periodStart))
+      .limit(limit);
+  }
+
+  private async getOwnerSettlementForPeriod(ownerWhatsappId: string, periodStart: Date): Promise<Settlement | null> {
+    const [settlement] = await db
+      .select()
+      .from(settlements)
+      .where(and(eq(settlements.ownerWhatsappId, ownerWhatsappId), eq(settlements.periodStart, periodStart)))
+      .limit(1);
+    return settlement || null;
+  }
+
+  // ===============================================
+  // OWNER CHAT
+  // ===============================================
+
+  /**
+   * "settlements" - pending and paid statements for the owner
+   */
+  async showOwnerSettlements(ownerWhatsappId: string): Promise<void> {
+    try {
+      const recent = await this.getOwnerSettlements(ownerWhatsappId);
+
+      if (recent.length === 0) {
+        await whatsappService.sendTextMessage(
+          ownerWhatsappId,
+          '🏦 *Settlements*\n\nNo settlements yet.\n\n' +
+          'Statements are generated every Monday for the previous week\'s paid sessions.'
+        );
+        return;
+      }
+
+      const outstanding = recent
+        .filter(item => ['pending', 'processing', 'failed'].includes(item.status))
+        .reduce((total, item) => total + parseFloat(item.netPayable), 0);
+
+      const list = recent.map(item =>
+        `*${item.settlementNumber}*\n` +
+        `📅 ${this.formatPeriod(item)}\n` +
+        `💰 ₹${parseFloat(item.netPayable).toFixed(2)} • ${STATUS_LABELS[item.status] || item.status}` +
+        (item.status === 'paid' && item.payoutReference ? `\n🔖 UTR ${item.payoutReference}` : '')
+      ).join('\n\n');
+
+      await whatsappService.sendTextMessage(
+        ownerWhatsappId,
+        `🏦 *Your Settlements*\n\n` +
+        `⏳ *Awaiting payout:* ₹${outstanding.toFixed(2)}\n\n` +
+        `${list}\n\n` +
+        `Type "settlement <number>" for the full statement (PDF + CSV).`
+      );
+    } catch (error) {
+      logger.error('Failed to show owner settlements', { ownerWhatsappId, error });
+      await whatsappService.sendTextMessage(ownerWhatsappId, '❌ Could not load settlements. Please try again.');
+    }
+  }
+
+  /**
+   * "settlement <number>" - send the statement PDF and CSV link
+   */
+  async handleStatementCommand(ownerWhatsappId: string, text: string): Promise<void> {
+    const [, reference] = text.trim().split(/\s+/);
+    if (!reference) {
+      await this.showOwnerSettlements(ownerWhatsappId);
+      return;
+    }
+
+    const settlement = await this.getSettlementByNumber(reference);
+    if (!settlement || settlement.ownerWhatsappId !== ownerWhatsappId) {
+      await whatsappService.sendTextMessage(
+        ownerWhatsappId,
+        `❌ Settlement "${reference}" not found.\n\nType "settlements" to see your statements.`
+      );
+      return;
+    }
+
+    await this.deliverStatement(settlement);
+  }
+
+  async deliverStatement(settlement: Settlement): Promise<boolean> {
+    const sent = await whatsappService.sendDocumentMessage(
+      settlement.ownerWhatsappId,
+      this.getDownloadUrl(settlement, 'pdf'),
+      this.getFileName(settlement, 'pdf'),
+      `🏦 Settlement ${settlement.settlementNumber} • ₹${parseFloat(settlement.netPayable).toFixed(2)}`
+    );
+
+    // CSV export is a plan feature; the PDF statement is always available
+    if (await subscriptionService.canExport(settlement.ownerWhatsappId, 'csv')) {
+      await whatsappService.sendTextMessage(
+        settlement.ownerWhatsappId,
+        `📊 *CSV for your accounts:*\n${this.getDownloadUrl(settlement, 'csv')}`
+      );
+    }
+
+    return sent;
+  }
+
+  private async notifySettlementReady(settlement: Settlement): Promise<void> {
+    try {
+      const net = parseFloat(settlement.netPayable);
+      await whatsappService.sendTextMessage(
+        settlement.ownerWhatsappId,
+        `🏦 *Settlement Statement Ready*\n\n` +
+        `📅 *Period:* ${this.formatPeriod(settlement)}\n` +
+        `⚡ *Sessions:* ${settlement.sessionCount}\n` +
+        `💵 *Collected:* ₹${parseFloat(settlement.grossAmount).toFixed(2)}\n` +
+        `↩️ *Refunds:* ₹${parseFloat(settlement.refundAmount).toFixed(2)}\n` +
+        `🧾 *Platform fee + GST:* ₹${(parseFloat(settlement.platformFee) + parseFloat(settlement.platformFeeTax)).toFixed(2)}\n` +
+        `💰 *Net ${net < 0 ? 'balance (carried forward)' : 'payable'}:* ₹${net.toFixed(2)}`
+      );
+      await this.deliverStatement(settlement);
+    } catch (error) {
+      logger.error('Failed to notify settlement', { settlementNumber: settlement.settlementNumber, error });
+    }
+  }
+
+  private async notifyPayoutUpdate(settlement: Settlement): Promise<void> {
+    try {
+      const amount = `₹${parseFloat(settlement.netPayable).toFixed(2)}`;
+      const account = settlement.bankAccountLast4 ? ` to A/c ••${settlement.bankAccountLast4}` : '';
+
+      await whatsappService.sendTextMessage(
+        settlement.ownerWhatsappId,
+        settlement.status === 'paid'
+          ? `✅ *Payout Sent*\n\n${amount}${account}\n🏦 ${settlement.settlementNumber}\n🔖 UTR ${settlement.payoutReference}`
+          : `⚠️ *Payout Failed*\n\n${amount} for ${settlement.settlementNumber}\n` +
+            `Reason: ${settlement.payoutFailureReason}\n\nPlease check your bank details - we'll retry the payout.`
+      );
+    } catch (error) {
+      logger.error('Failed to notify payout update', { settlementNumber: settlement.settlementNumber, error });
+    }
+  }
+
+  // ===============================================
+  // STATEMENTS
+  // ===============================================
+
+  renderStatementCsv(settlement: Settlement): string {
+    const lineItems = (settlement.lineItems as SettlementLineItem[]) || [];
+    const rows: Array<Array<string | number>> = [
+      ['Settlement', settlement.settlementNumber],
+      ['Period', this.formatPeriod(settlement)],
+      ['Status', settlement.status],
+      [],
+      ['Type', 'Date', 'Reference', 'Session', 'Station', 'Energy (kWh)', 'Amount (INR)'],
+      ...lineItems.map(item => [
+        item.type,
+        this.formatDate(new Date(item.date)),
+        item.reference,
+        item.sessionId || '',
+        item.stationName || '',
+        item.energyKwh ?? '',
+        item.amount.toFixed(2),
+      ]),
+      [],
+      ['Gross collected', '', '', '', '', '', settlement.grossAmount],
+      ['Refunds', '', '', '', '', '', `-${settlement.refundAmount}`],
+      ['Carried forward', '', '', '', '', '', settlement.adjustmentAmount],
+      [`Platform fee @ ${settlement.platformFeeRate}%`, '', '', '', '', '', `-${settlement.platformFee}`],
+      [`GST on platform fee @ ${PLATFORM_FEE_TAX_RATE}%`, '', '', '', '', '', `-${settlement.platformFeeTax}`],
+      ['Net payable', '', '', '', '', '', settlement.netPayable],
+    ];
+
+    return rows.map(row => row.map(cell => this.csvCell(cell)).join(',')).join('\r\n') + '\r\n';
+  }
+
+  renderStatementPdf(settlement: Settlement): Buffer {
+    const pdf = new SimplePdfDocument();
+    const right = pdf.pageWidth - 50;
+    const bottom = pdf.pageHeight - 60;
+    const lineItems = (settlement.lineItems as SettlementLineItem[]) || [];
+    let y = 60;
+
+    pdf.text(50, y, 'SETTLEMENT STATEMENT', { size: 18, bold: true });
+    pdf.text(right, y, settlement.settlementNumber, { size: 10, bold: true, align: 'right' });
+    y += 24;
+    pdf.text(50, y, `Period: ${this.formatPeriod(settlement)}`, { size: 10 });
+    pdf.text(right, y, `Status: ${settlement.status.replace('_', ' ')}`, { size: 10, align: 'right' });
+    y += 14;
+    pdf.text(50, y, `Payee: ${settlement.accountHolderName || `+${settlement.ownerWhatsappId}`}`, { size: 10 });
+    y += 14;
+    pdf.text(
+      50,
+      y,
+      settlement.bankAccountLast4
+        ? `Bank: A/c ending ${settlement.bankAccountLast4}, IFSC ${settlement.ifscCode || '-'}`
+        : 'Bank: details not on file',
+      { size: 10 }
+    );
+    if (settlement.payoutReference) {
+      pdf.text(right, y, `UTR: ${settlement.payoutReference}`, { size: 10, align: 'right' });
+    }
+    y += 30;
+
+    const header = () => {
+      pdf.line(50, y - 12, right, y - 12);
+      pdf.text(50, y, 'Date', { size: 9, bold: true });
+      pdf.text(120, y, 'Description', { size: 9, bold: true });
+      pdf.text(420, y, 'Energy', { size: 9, bold: true, align: 'right' });
+      pdf.text(right, y, 'Amount', { size: 9, bold: true, align: 'right' });
+      pdf.line(50, y + 6, right, y + 6);
+      y += 22;
+    };
+    header();
+
+    for (const item of lineItems) {
+      if (y > bottom) {
+        pdf.addPage();
+        y = 60;
+        header();
+      }
+      pdf.text(50, y, this.formatDate(new Date(item.date)), { size: 9 });
+      pdf.text(120, y, this.describeLineItem(item), { size: 9 });
+      if (item.energyKwh !== undefined) {
+        pdf.text(420, y, `${item.energyKwh} kWh`, { size: 9, align: 'right' });
+      }
+      pdf.text(right, y, this.money(item.amount), { size: 9, align: 'right' });
+      y += 16;
+    }
+
+    if (y > bottom - 120) {
+      pdf.addPage();
+      y = 60;
+    }
+
+    pdf.line(50, y - 6, right, y - 6);
+    y += 12;
+
+    const totals: Array<[string, number, boolean?]> = [
+      ['Gross collected', parseFloat(settlement.grossAmount)],
+      ['Refunds', -parseFloat(settlement.refundAmount)],
+    ];
+    const adjustment = parseFloat(settlement.adjustmentAmount);
+    if (adjustment !== 0) totals.push(['Carried forward', adjustment]);
+    totals.push([`Platform fee @ ${parseFloat(settlement.platformFeeRate)}%`, -parseFloat(settlement.platformFee)]);
+    totals.push([`GST on platform fee @ ${PLATFORM_FEE_TAX_RATE}%`, -parseFloat(settlement.platformFeeTax)]);
+    totals.push(['Net payable', parseFloat(settlement.netPayable), true]);
+
+    for (const [label, amount, bold] of totals) {
+      pdf.text(420, y, label, { size: bold ? 11 : 9, bold, align: 'right' });
+      pdf.text(right, y, this.money(amount), { size: bold ? 11 : 9, bold, align: 'right' });
+      y += bold ? 20 : 14;
+    }
+
+    y += 20;
+    if (parseFloat(settlement.netPayable) < 0) {
+      pdf.text(50, y, 'Negative balance is carried forward to your next settlement.', { size: 8 });
+      y += 12;
+    }
+    pdf.text(50, y, 'This is a computer generated statement from SharaSpot.', { size: 8 });
+
+    return pdf.toBuffer();
+  }
+
+  getFileName(settlement: Settlement, format: 'pdf' | 'csv'): string {
+    return `${settlement.settlementNumber}.${format}`;
+  }
+
+  // ===============================================
+  // HELPERS
+  // ===============================================
+
+  /**
+   * Monday 00:00 IST to the following Monday for the week before `now`
+   */
+  private getLastWeek(now: Date): { periodStart: Date; periodEnd: Date } {
+    const ist = new Date(now.getTime() + IST_OFFSET_MS);
+    const daysSinceMonday = (ist.getUTCDay() + 6) % 7;
+    const thisMondayIst = Date.UTC(ist.getUTCFullYear(), ist.getUTCMonth(), ist.getUTCDate()) - daysSinceMonday * DAY_MS;
+    const periodEnd = new Date(thisMondayIst - IST_OFFSET_MS);
+    return { periodStart: new Date(periodEnd.getTime() - 7 * DAY_MS), periodEnd };
+  }
+
+  private formatSettlementNumber(periodStart: Date): string {
+    const ist = new Date(periodStart.getTime() + IST_OFFSET_MS);
+    const date = ist.toISOString().slice(0, 10).replace(/-/g, '');
+    return `STL-${date}-${crypto.randomBytes(3).toString('hex').toUpperCase()}`;
+  }
+
+  private getDownloadUrl(settlement: Settlement, format: 'pdf' | 'csv'): string {
+    return `${getPaymentConfig().callbackBaseUrl}/settlements/${settlement.accessToken}.${format}`;
+  }
+
+  private describeLineItem(item: SettlementLineItem): string {
+    switch (item.type) {
+      case 'session':
+        return `Session ${item.sessionId || item.reference} - ${item.stationName || 'Station'}`;
+      case 'refund':
+        return `Refund ${item.reference} - ${item.stationName || 'Station'}`;
+      default:
+        return `Balance carried from ${item.reference}`;
+    }
+  }
+
+  private formatPeriod(settlement: Settlement): string {
+    // periodEnd is exclusive - show the last day of the period
+    return `${this.formatDate(settlement.periodStart)} - ${this.formatDate(new Date(settlement.periodEnd.getTime() - 1))}`;
+  }
+
+  private formatDate(date: Date): string {
+    return date.toLocaleDateString('en-IN', {
+      timeZone: 'Asia/Kolkata',
+      day: '2-digit',
+      month: 'short',
+      year: 'numeric',
+    });
+  }
+
+  private csvCell(value: string | number): string {
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+
+  private money(value: number): string {
+    return `₹${value.toFixed(2)}`;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
+
+// ===============================================
+// SINGLETON EXPORT
+// ===============================================
+
+export const settlementService = new SettlementService();
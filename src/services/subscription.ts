@@ -0,0 +1,472 @@
+// src/services/subscription.ts - OWNER PLAN TIERS, FEATURE GATES, STAFF SEATS & RENEWAL REMINDERS
+import { db } from '../config/database';
+import { stationOwners, ownerStaff, admins, auditLogs, type OwnerStaff } from '../db/schema';
+import { eq, and, asc, ne, isNotNull, isNull, lt, or } from 'drizzle-orm';
+import { logger } from '../utils/logger';
+import { validateWhatsAppId } from '../utils/validation';
+import { whatsappService } from './whatsapp';
+
+// ===============================================
+// TYPES & PLAN DEFINITIONS
+// ===============================================
+
+export type PlanTier = 'basic' | 'pro' | 'enterprise';
+export type ReportFormat = 'pdf' | 'csv';
+
+export interface PlanLimits {
+  tier: PlanTier;
+  label: string;
+  maxStations: number;          // Stations the owner can manage from the portal
+  analyticsDays: number;        // How far back analytics can look
+  reportExports: ReportFormat[];
+  staffSeats: number;
+}
+
+export interface OwnerPlan {
+  subscribedTier: PlanTier;     // What the owner paid for
+  limits: PlanLimits;           // What they get right now - basic once lapsed
+  expiresAt: Date | null;
+  isLapsed: boolean;
+}
+
+export interface SubscriptionRenewal {
+  ownerWhatsappId: string;
+  tier: PlanTier;
+  expiresAt: Date;
+  actorWhatsappId: string;
+  ipAddress?: string;
+  userAgent?: string;
+  endpoint?: string;
+}
+
+export const PLAN_LIMITS: Record<PlanTier, PlanLimits> = {
+  basic: {
+    tier: 'basic',
+    label: 'Basic',
+    maxStations: 1,
+    analyticsDays: 1,
+    reportExports: ['pdf'],
+    staffSeats: 0,
+  },
+  pro: {
+    tier: 'pro',
+    label: 'Pro',
+    maxStations: 5,
+    analyticsDays: 30,
+    reportExports: ['pdf', 'csv'],
+    staffSeats: 3,
+  },
+  enterprise: {
+    tier: 'enterprise',
+    label: 'Enterprise',
+    maxStations: 50,
+    analyticsDays: 365,
+    reportExports: ['pdf', 'csv'],
+    staffSeats: 20,
+  },
+};
+
+// Reminder stages in send order - an owner only ever moves forward until renewal resets it
+type ReminderStage = '7d' | '1d' | 'lapsed';
+const REMINDER_STAGES: ReminderStage[] = ['7d', '1d', 'lapsed'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ===============================================
+// SUBSCRIPTION SERVICE
+// ===============================================
+
+class SubscriptionService {
+  /**
+   * Effective plan for an owner - paid tiers fall back to basic once expired.
+   * A paid tier without an expiry date never lapses (manually granted plans).
+   */
+  async getOwnerPlan(ownerWhatsappId: string): Promise<OwnerPlan> {
+    try {
+      const [owner] = await db
+        .select({
+          subscriptionPlan: stationOwners.subscriptionPlan,
+          subscriptionExpiry: stationOwners.subscriptionExpiry,
+        })
+        .from(stationOwners)
+        .where(eq(stationOwners.whatsappId, ownerWhatsappId))
+        .limit(1);
+
+      return this.resolvePlan(owner?.subscriptionPlan, owner?.subscriptionExpiry ?? null);
+    } catch (error) {
+      logger.error('Failed to load owner plan, using basic', { ownerWhatsappId, error });
+      return this.resolvePlan('basic', null);
+    }
+  }
+
+  async canExport(ownerWhatsappId: string, format: ReportFormat): Promise<boolean> {
+    const plan = await this.getOwnerPlan(ownerWhatsappId);
+    return plan.limits.reportExports.includes(format);
+  }
+
+  /**
+   * Clamp a requested analytics window to what the plan allows
+   */
+  getAnalyticsDays(plan: OwnerPlan, requestedDays: number): number {
+    return Math.max(1, Math.min(Math.floor(requestedDays) || 1, plan.limits.analyticsDays));
+  }
+
+  resolvePlan(subscriptionPlan: string | null | undefined, expiresAt: Date | null): OwnerPlan {
+    const subscribedTier = this.isPlanTier(subscriptionPlan) ? subscriptionPlan : 'basic';
+    const isLapsed = subscribedTier !== 'basic' && !!expiresAt && expiresAt.getTime() <= Date.now();
+
+    return {
+      subscribedTier,
+      limits: PLAN_LIMITS[isLapsed ? 'basic' : subscribedTier],
+      expiresAt,
+      isLapsed,
+    };
+  }
+
+  isPlanTier(value: unknown): value is PlanTier {
+    return typeof value === 'string' && value in PLAN_LIMITS;
+  }
+
+  // ===============================================
+  // RENEWALS
+  // ===============================================
+
+  /**
+   * Set or extend an owner's plan - finance admins only. Resets renewal reminders.
+   */
+  async renewSubscription(renewal: SubscriptionRenewal): Promise<{ success: boolean; error?: string; plan?: OwnerPlan }> {
+    try {
+      const [admin] = await db
+        .select({ isActive: admins.isActive, canAccessFinance: admins.canAccessFinance })
+        .from(admins)
+        .where(eq(admins.whatsappId, renewal.actorWhatsappId))
+        .limit(1);
+      if (!admin?.isActive || !admin?.canAccessFinance) {
+        return { success: false, error: 'You are not allowed to change subscriptions' };
+      }
+
+      if (renewal.expiresAt.getTime() <= Date.now()) {
+        return { success: false, error: 'expiresAt must be in the future' };
+      }
+
+      const [owner] = await db
+        .select({
+          subscriptionPlan: stationOwners.subscriptionPlan,
+          subscriptionExpiry: stationOwners.subscriptionExpiry,
+        })
+        .from(stationOwners)
+        .where(eq(stationOwners.whatsappId, renewal.ownerWhatsappId))
+        .limit(1);
+      if (!owner) {
+        return { success: false, error: 'Owner not found' };
+      }
+
+      const now = new Date();
+      await db.batch([
+        db.update(stationOwners)
+          .set({
+            subscriptionPlan: renewal.tier,
+            subscriptionExpiry: renewal.expiresAt,
+            subscriptionReminderStage: null,
+            updatedAt: now,
+          })
+          .where(eq(stationOwners.whatsappId, renewal.ownerWhatsappId)),
+        db.insert(auditLogs).values({
+          actorWhatsappId: renewal.actorWhatsappId,
+          actorType: 'admin',
+          action: 'subscription_renewed',
+          resourceType: 'station_owner',
+          resourceId: renewal.ownerWhatsappId,
+          oldValues: { plan: owner.subscriptionPlan, expiresAt: owner.subscriptionExpiry },
+          newValues: { plan: renewal.tier, expiresAt: renewal.expiresAt },
+          ipAddress: renewal.ipAddress,
+          userAgent: renewal.userAgent,
+          endpoint: renewal.endpoint,
+          createdAt: now,
+        }),
+      ]);
+
+      const plan = this.resolvePlan(renewal.tier, renewal.expiresAt);
+      logger.info('📅 Subscription renewed', {
+        ownerWhatsappId: renewal.ownerWhatsappId,
+        tier: renewal.tier,
+        expiresAt: renewal.expiresAt,
+      });
+
+      await whatsappService.sendTextMessage(
+        renewal.ownerWhatsappId,
+        `✅ *${plan.limits.label} Plan Active*\n\n` +
+        `📅 Valid until ${this.formatDate(renewal.expiresAt)}\n\n` +
+        this.formatLimits(plan.limits)
+      );
+
+      return { success: true, plan };
+    } catch (error) {
+      logger.error('Subscription renewal failed', { ownerWhatsappId: renewal.ownerWhatsappId, error });
+      return { success: false, error: 'Subscription renewal failed' };
+    }
+  }
+
+  // ===============================================
+  // RENEWAL REMINDERS
+  // ===============================================
+
+  /**
+   * Remind owners 7 days and 1 day before expiry, and once when the plan lapses
+   */
+  async sendRenewalReminders(): Promise<number> {
+    const horizon = new Date(Date.now() + 7 * DAY_MS);
+    const owners = await db
+      .select({
+        whatsappId: stationOwners.whatsappId,
+        subscriptionPlan: stationOwners.subscriptionPlan,
+        subscriptionExpiry: stationOwners.subscriptionExpiry,
+        subscriptionReminderStage: stationOwners.subscriptionReminderStage,
+      })
+      .from(stationOwners)
+      .where(
+        and(
+          ne(stationOwners.subscriptionPlan, 'basic'),
+          isNotNull(stationOwners.subscriptionExpiry),
+          lt(stationOwners.subscriptionExpiry, horizon),
+          or(isNull(stationOwners.subscriptionReminderStage), ne(stationOwners.subscriptionReminderStage, 'lapsed'))
+        )
+      );
+
+    let sent = 0;
+    for (const owner of owners) {
+      const expiresAt = owner.subscriptionExpiry!;
+      const msLeft = expiresAt.getTime() - Date.now();
+      const stage: ReminderStage = msLeft <= 0 ? 'lapsed' : msLeft <= DAY_MS ? '1d' : '7d';
+
+      const previous = owner.subscriptionReminderStage as ReminderStage | null;
+      if (previous && REMINDER_STAGES.indexOf(previous) >= REMINDER_STAGES.indexOf(stage)) continue;
+
+      // Claim the stage first so overlapping runs don't double-send
+      const [claimed] = await db
+        .update(stationOwners)
+        .set({ subscriptionReminderStage: stage })
+        .where(
+          and(
+            eq(stationOwners.whatsappId, owner.whatsappId),
+            previous
+              ? eq(stationOwners.subscriptionReminderStage, previous)
+              : isNull(stationOwners.subscriptionReminderStage)
+          )
+        )
+        .returning({ id: stationOwners.id });
+      if (!claimed) continue;
+
+      const plan = this.resolvePlan(owner.subscriptionPlan, expiresAt);
+      await this.sendReminder(owner.whatsappId, plan, stage);
+      sent++;
+    }
+
+    if (sent > 0) {
+      logger.info('📅 Subscription reminders sent', { sent });
+    }
+    return sent;
+  }
+
+  private async sendReminder(ownerWhatsappId: string, plan: OwnerPlan, stage: ReminderStage): Promise<void> {
+    const subscribed = PLAN_LIMITS[plan.subscribedTier];
+
+    if (stage === 'lapsed') {
+      const basic = PLAN_LIMITS.basic;
+      await whatsappService.sendTextMessage(
+        ownerWhatsappId,
+        `⚠️ *${subscribed.label} Plan Expired*\n\n` +
+        `Your account is now on Basic. Nothing is deleted and your stations stay live for drivers, but:\n\n` +
+        `• Only ${basic.maxStations} station can be managed from the portal\n` +
+        `• Analytics limited to today\n` +
+        `• Statements as PDF only\n` +
+        `• Staff seats suspended\n\n` +
+        `💬 Contact support to renew and restore everything instantly.`
+      );
+      return;
+    }
+
+    await whatsappService.sendTextMessage(
+      ownerWhatsappId,
+      `📅 *Plan Renewal Reminder*\n\n` +
+      `Your ${subscribed.label} plan expires ${stage === '1d' ? '*tomorrow*' : 'in 7 days'} ` +
+      `(${this.formatDate(plan.expiresAt!)}).\n\n` +
+      `After that your account drops to Basic features.\n\n` +
+      `💬 Contact support to renew.`
+    );
+  }
+
+  // ===============================================
+  // STAFF SEATS
+  // ===============================================
+
+  async getStaff(ownerWhatsappId: string): Promise<OwnerStaff[]> {
+    return db
+      .select()
+      .from(ownerStaff)
+      .where(eq(ownerStaff.ownerWhatsappId, ownerWhatsappId))
+      .orderBy(asc(ownerStaff.createdAt), asc(ownerStaff.id));
+  }
+
+  /**
+   * Staff members holding a seat under the current plan - oldest first
+   */
+  async getActiveStaff(ownerWhatsappId: string): Promise<OwnerStaff[]> {
+    const [plan, staff] = await Promise.all([
+      this.getOwnerPlan(ownerWhatsappId),
+      this.getStaff(ownerWhatsappId),
+    ]);
+    return staff.slice(0, plan.limits.staffSeats);
+  }
+
+  async addStaff(ownerWhatsappId: string, staffWhatsappId: string, name?: string): Promise<{ success: boolean; error?: string }> {
+    if (!validateWhatsAppId(staffWhatsappId)) {
+      return { success: false, error: 'Please give a valid WhatsApp number, e.g. 919876543210' };
+    }
+    if (staffWhatsappId === ownerWhatsappId) {
+      return { success: false, error: 'You already have full access' };
+    }
+
+    const [plan, staff] = await Promise.all([
+      this.getOwnerPlan(ownerWhatsappId),
+      this.getStaff(ownerWhatsappId),
+    ]);
+
+    if (staff.some(member => member.staffWhatsappId === staffWhatsappId)) {
+      return { success: false, error: 'This number is already on your staff list' };
+    }
+    if (staff.length >= plan.limits.staffSeats) {
+      return {
+        success: false,
+        error: plan.limits.staffSeats === 0
+          ? `Staff seats are not included in the ${plan.limits.label} plan`
+          : `All ${plan.limits.staffSeats} staff seats on your ${plan.limits.label} plan are taken`,
+      };
+    }
+
+    const [added] = await db
+      .insert(ownerStaff)
+      .values({ ownerWhatsappId, staffWhatsappId, name: name?.slice(0, 100) || null })
+      .onConflictDoNothing()
+      .returning({ id: ownerStaff.id });
+    if (!added) {
+      return { success: false, error: 'This number is already on your staff list' };
+    }
+
+    logger.info('👥 Staff member added', { ownerWhatsappId, staffWhatsappId });
+    return { success: true };
+  }
+
+  async removeStaff(ownerWhatsappId: string, staffWhatsappId: string): Promise<boolean> {
+    const removed = await db
+      .delete(ownerStaff)
+      .where(and(eq(ownerStaff.ownerWhatsappId, ownerWhatsappId), eq(ownerStaff.staffWhatsappId, staffWhatsappId)))
+      .returning({ id: ownerStaff.id });
+
+    if (removed.length > 0) {
+      logger.info('👥 Staff member removed', { ownerWhatsappId, staffWhatsappId });
+    }
+    return removed.length > 0;
+  }
+
+  // ===============================================
+  // OWNER CHAT
+  // ===============================================
+
+  async showPlan(ownerWhatsappId: string): Promise<void> {
+    try {
+      const plan = await this.getOwnerPlan(ownerWhatsappId);
+      const subscribed = PLAN_LIMITS[plan.subscribedTier];
+
+      let status: string;
+      if (plan.isLapsed) {
+        status = `⚠️ ${subscribed.label} expired ${this.formatDate(plan.expiresAt!)} - running on Basic`;
+      } else if (plan.expiresAt && plan.subscribedTier !== 'basic') {
+        status = `🟢 Active until ${this.formatDate(plan.expiresAt)}`;
+      } else {
+        status = '🟢 Active';
+      }
+
+      await whatsappService.sendTextMessage(
+        ownerWhatsappId,
+        `💼 *Your Plan: ${plan.limits.label}*\n\n${status}\n\n${this.formatLimits(plan.limits)}` +
+        (plan.limits.tier === 'enterprise' ? '' : '\n\n💬 Contact support to upgrade or renew.')
+      );
+    } catch (error) {
+      logger.error('Failed to show owner plan', { ownerWhatsappId, error });
+      await whatsappService.sendTextMessage(ownerWhatsappId, '❌ Could not load your plan. Please try again.');
+    }
+  }
+
+  /**
+   * "staff", "staff add <number> [name]", "staff remove <number>"
+   */
+  async handleStaffCommand(ownerWhatsappId: string, text: string): Promise<void> {
+    try {
+      const [, action, number, ...nameParts] = text.trim().split(/\s+/);
+      const staffWhatsappId = number?.replace(/\D/g, '');
+
+      if (action?.toLowerCase() === 'add' && staffWhatsappId) {
+        const result = await this.addStaff(ownerWhatsappId, staffWhatsappId, nameParts.join(' '));
+        await whatsappService.sendTextMessage(
+          ownerWhatsappId,
+          result.success ? `✅ Added ${staffWhatsappId} to your staff.` : `❌ ${result.error}`
+        );
+        return;
+      }
+
+      if (action?.toLowerCase() === 'remove' && staffWhatsappId) {
+        const removed = await this.removeStaff(ownerWhatsappId, staffWhatsappId);
+        await whatsappService.sendTextMessage(
+          ownerWhatsappId,
+          removed ? `✅ Removed ${staffWhatsappId} from your staff.` : '❌ That number is not on your staff list.'
+        );
+        return;
+      }
+
+      const [plan, staff] = await Promise.all([
+        this.getOwnerPlan(ownerWhatsappId),
+        this.getStaff(ownerWhatsappId),
+      ]);
+      const seats = plan.limits.staffSeats;
+
+      const lines = staff.map((member, index) =>
+        `${index < seats ? '🟢' : '⏸️'} ${member.name || 'Staff'} • ${member.staffWhatsappId}`
+      );
+
+      await whatsappService.sendTextMessage(
+        ownerWhatsappId,
+        `👥 *Staff (${Math.min(staff.length, seats)}/${seats} seats)*\n\n` +
+        (lines.length ? lines.join('\n') : 'No staff added yet.') +
+        (staff.length > seats ? `\n\n⏸️ ${staff.length - seats} suspended - not covered by your ${plan.limits.label} plan.` : '') +
+        '\n\n➕ "staff add <number> [name]"\n➖ "staff remove <number>"'
+      );
+    } catch (error) {
+      logger.error('Staff command failed', { ownerWhatsappId, error });
+      await whatsappService.sendTextMessage(ownerWhatsappId, '❌ Could not update staff. Please try again.');
+    }
+  }
+
+  // ===============================================
+  // HELPERS
+  // ===============================================
+
+  private formatLimits(limits: PlanLimits): string {
+    return (
+      `🔌 Stations: up to ${limits.maxStations}\n` +
+      `📊 Analytics: ${limits.analyticsDays === 1 ? 'today only' : `last ${limits.analyticsDays} days`}\n` +
+      `📄 Statements: ${limits.reportExports.map(format => format.toUpperCase()).join(' + ')}\n` +
+      `👥 Staff seats: ${limits.staffSeats}`
+    );
+  }
+
+  private formatDate(date: Date): string {
+    return date.toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric', timeZone: 'Asia/Kolkata' });
+  }
+}
+
+// ===============================================
+// SINGLETON EXPORT
+// ===============================================
+
+export const subscriptionService = new SubscriptionService();
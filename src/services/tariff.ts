@@ -0,0 +1,374 @@
+// src/services/tariff.ts - STATION TARIFFS & THE SINGLE PRICING FUNCTION
+import { db } from '../config/database';
+import { stationTariffs, chargingStations, type StationTariff } from '../db/schema';
+import { eq, and, inArray } from 'drizzle-orm';
+import { logger } from '../utils/logger';
+
+// ===============================================
+// TYPES & INTERFACES
+// ===============================================
+
+export interface TimeOfUseBand {
+  days?: number[];              // 0 = Sunday ... 6 = Saturday, IST; omit for every day
+  startHour: number;            // 0-23, IST
+  endHour: number;              // 1-24, exclusive; wraps past midnight when < startHour
+  pricePerKwh: number;
+  label?: string;
+}
+
+export interface PriceChange {
+  pricePerKwh: number;
+  at: Date;
+  label?: string;
+}
+
+export interface Tariff {
+  stationId: number;
+  energyPricePerKwh: number;
+  timeOfUseBands: TimeOfUseBand[];
+  sessionFee: number;
+  sessionFeePercent: number;
+  idleFeePerMinute: number;
+  idleGraceMinutes: number;
+  minimumBill: number;
+  taxRate: number;
+}
+
+export interface BillInput {
+  energyKwh: number;
+  startTime: Date;
+  endTime: Date;
+  idleMinutes?: number;         // Billable minutes, already net of the grace period
+  discount?: BillDiscount;
+}
+
+export interface BillDiscount {
+  type: 'percentage' | 'flat';
+  value: number;
+  maxDiscount?: number;         // Cap for percentage discounts
+  minAmount?: number;           // Pre-tax amount needed to qualify
+  label?: string;
+}
+
+export interface EnergyCharge {
+  label: string;
+  kwh: number;
+  rate: number;
+  amount: number;
+}
+
+export interface BillBreakdown {
+  energyKwh: number;
+  energyRate: number;           // Blended rate across bands
+  energyCost: number;
+  energyCharges: EnergyCharge[];
+  sessionFee: number;
+  idleMinutes: number;
+  idleFee: number;
+  minimumBillTopUp: number;
+  discountAmount: number;       // Taken off before tax
+  discountLabel?: string;
+  subtotal: number;
+  taxRate: number;
+  taxAmount: number;
+  total: number;
+}
+
+// Matches the platform fee & GST applied before tariffs were configurable
+const DEFAULT_TARIFF: Omit<Tariff, 'stationId' | 'energyPricePerKwh'> = {
+  timeOfUseBands: [],
+  sessionFee: 5,
+  sessionFeePercent: 5,
+  idleFeePerMinute: 0,
+  idleGraceMinutes: 15,
+  minimumBill: 0,
+  taxRate: 18,
+};
+
+const DEFAULT_ENERGY_PRICE = 12;
+const IST_OFFSET_MS = 5.5 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+// ===============================================
+// TARIFF SERVICE
+// ===============================================
+
+class TariffService {
+  /**
+   * Load a station's tariff, falling back to its flat pricePerKwh
+   */
+  async getStationTariff(stationId: number): Promise<Tariff> {
+    try {
+      const [row] = await db
+        .select({
+          tariff: stationTariffs,
+          stationPrice: chargingStations.pricePerKwh,
+        })
+        .from(chargingStations)
+        .leftJoin(
+          stationTariffs,
+          and(eq(stationTariffs.stationId, chargingStations.id), eq(stationTariffs.isActive, true))
+        )
+        .where(eq(chargingStations.id, stationId))
+        .limit(1);
+
+      return this.toTariff(stationId, row?.stationPrice ?? null, row?.tariff);
+    } catch (error) {
+      logger.error('Failed to load station tariff', { stationId, error });
+      return { stationId, energyPricePerKwh: DEFAULT_ENERGY_PRICE, ...DEFAULT_TARIFF };
+    }
+  }
+
+  /**
+   * Load tariffs for many stations in one query (search results)
+   */
+  async getStationTariffs(
+    stations: Array<{ id: number; pricePerKwh: string | number | null }>
+  ): Promise<Map<number, Tariff>> {
+    const tariffs = new Map<number, Tariff>();
+    if (stations.length === 0) return tariffs;
+
+    try {
+      const rows = await db
+        .select()
+        .from(stationTariffs)
+        .where(
+          and(
+            inArray(stationTariffs.stationId, stations.map(station => station.id)),
+            eq(stationTariffs.isActive, true)
+          )
+        );
+      const byStation = new Map(rows.map(row => [row.stationId, row]));
+
+      for (const station of stations) {
+        tariffs.set(station.id, this.toTariff(station.id, station.pricePerKwh, byStation.get(station.id)));
+      }
+    } catch (error) {
+      logger.error('Failed to load station tariffs', { count: stations.length, error });
+      for (const station of stations) {
+        tariffs.set(station.id, this.toTariff(station.id, station.pricePerKwh));
+      }
+    }
+
+    return tariffs;
+  }
+
+  /**
+   * Quote a planned session - same pricing path as the final bill
+   */
+  async quote(stationId: number, energyKwh: number, startTime: Date = new Date()): Promise<BillBreakdown> {
+    const tariff = await this.getStationTariff(stationId);
+
+    const [station] = await db
+      .select({ maxPowerKw: chargingStations.maxPowerKw })
+      .from(chargingStations)
+      .where(eq(chargingStations.id, stationId))
+      .limit(1);
+
+    const powerKw = station?.maxPowerKw || 50;
+    const durationMs = (energyKwh / powerKw) * HOUR_MS;
+
+    return this.calculateBill(tariff, {
+      energyKwh,
+      startTime,
+      endTime: new Date(startTime.getTime() + durationMs),
+    });
+  }
+
+  // ===============================================
+  // PRICING
+  // ===============================================
+
+  /**
+   * The pricing function - every quote and bill goes through here
+   */
+  calculateBill(tariff: Tariff, input: BillInput): BillBreakdown {
+    const energyKwh = Math.max(0, input.energyKwh);
+    const energyCharges = this.priceEnergy(tariff, energyKwh, input.startTime, input.endTime);
+    const energyCost = this.round(energyCharges.reduce((total, charge) => total + charge.amount, 0));
+
+    const sessionFee = this.round(Math.max(tariff.sessionFee, energyCost * tariff.sessionFeePercent / 100));
+    const idleMinutes = Math.max(0, Math.floor(input.idleMinutes || 0));
+    const idleFee = this.round(idleMinutes * tariff.idleFeePerMinute);
+
+    const beforeMinimum = energyCost + sessionFee + idleFee;
+    const minimumBillTopUp = this.round(Math.max(0, tariff.minimumBill - beforeMinimum));
+    const beforeDiscount = this.round(beforeMinimum + minimumBillTopUp);
+    const discountAmount = this.calculateDiscount(input.discount, beforeDiscount);
+    const subtotal = this.round(beforeDiscount - discountAmount);
+
+    const taxAmount = this.round(subtotal * tariff.taxRate / 100);
+
+    return {
+      energyKwh,
+      energyRate: energyKwh > 0 ? this.round(energyCost / energyKwh) : this.getRateAt(tariff, input.startTime),
+      energyCost,
+      energyCharges,
+      sessionFee,
+      idleMinutes,
+      idleFee,
+      minimumBillTopUp,
+      discountAmount,
+      discountLabel: discountAmount > 0 ? input.discount?.label : undefined,
+      subtotal,
+      taxRate: tariff.taxRate,
+      taxAmount,
+      total: this.round(subtotal + taxAmount),
+    };
+  }
+
+  /**
+   * Energy rate in force at a given moment
+   */
+  getRateAt(tariff: Tariff, at: Date): number {
+    return this.findBand(tariff, at)?.pricePerKwh ?? tariff.energyPricePerKwh;
+  }
+
+  /**
+   * Next time the energy rate changes within the look-ahead window
+   */
+  getNextPriceChange(tariff: Tariff, from: Date = new Date(), lookAheadHours = 24): PriceChange | null {
+    if (tariff.timeOfUseBands.length === 0) return null;
+
+    const currentRate = this.getRateAt(tariff, from);
+    const istFrom = from.getTime() + IST_OFFSET_MS;
+    let boundary = Math.floor(istFrom / HOUR_MS) * HOUR_MS + HOUR_MS - IST_OFFSET_MS;
+
+    for (let hour = 0; hour < lookAheadHours; hour++, boundary += HOUR_MS) {
+      const at = new Date(boundary);
+      const band = this.findBand(tariff, at);
+      const rate = band?.pricePerKwh ?? tariff.energyPricePerKwh;
+      if (rate !== currentRate) {
+        return { pricePerKwh: rate, at, label: band?.label };
+      }
+    }
+
+    return null;
+  }
+
+  // ===============================================
+  // HELPERS
+  // ===============================================
+
+  private toTariff(
+    stationId: number,
+    stationPricePerKwh: string | number | null,
+    row?: StationTariff | null
+  ): Tariff {
+    const stationPrice = parseFloat(String(stationPricePerKwh ?? '')) || DEFAULT_ENERGY_PRICE;
+
+    if (!row) {
+      return { stationId, energyPricePerKwh: stationPrice, ...DEFAULT_TARIFF };
+    }
+
+    return {
+      stationId,
+      energyPricePerKwh: parseFloat(row.energyPricePerKwh || '') || stationPrice,
+      timeOfUseBands: (row.timeOfUseBands as TimeOfUseBand[]) || [],
+      sessionFee: parseFloat(row.sessionFee),
+      sessionFeePercent: parseFloat(row.sessionFeePercent),
+      idleFeePerMinute: parseFloat(row.idleFeePerMinute),
+      idleGraceMinutes: row.idleGraceMinutes,
+      minimumBill: parseFloat(row.minimumBill),
+      taxRate: parseFloat(row.taxRate),
+    };
+  }
+
+  /**
+   * Spread energy evenly over the session and price each slice at its band rate
+   */
+  private priceEnergy(tariff: Tariff, energyKwh: number, startTime: Date, endTime: Date): EnergyCharge[] {
+    const start = startTime.getTime();
+    const end = Math.max(start, endTime.getTime());
+    const totalMs = end - start;
+
+    if (tariff.timeOfUseBands.length === 0 || totalMs === 0) {
+      const band = this.findBand(tariff, startTime);
+      const rate = band?.pricePerKwh ?? tariff.energyPricePerKwh;
+      return [{
+        label: band?.label || 'Energy',
+        kwh: this.roundKwh(energyKwh),
+        rate,
+        amount: this.round(energyKwh * rate),
+      }];
+    }
+
+    const slices = new Map<string, { label: string; rate: number; ms: number }>();
+    let cursor = start;
+
+    while (cursor < end) {
+      // Bands are hour-aligned in IST
+      const istCursor = cursor + IST_OFFSET_MS;
+      const nextHour = Math.min(end, Math.floor(istCursor / HOUR_MS) * HOUR_MS + HOUR_MS - IST_OFFSET_MS);
+      const band = this.findBand(tariff, new Date(cursor));
+      const rate = band?.pricePerKwh ?? tariff.energyPricePerKwh;
+      const label = band?.label || 'Energy';
+      const key = `${label}:${rate}`;
+
+      const slice = slices.get(key) || { label, rate, ms: 0 };
+      slice.ms += nextHour - cursor;
+      slices.set(key, slice);
+      cursor = nextHour;
+    }
+
+    return Array.from(slices.values()).map(slice => {
+      const kwh = energyKwh * slice.ms / totalMs;
+      return {
+        label: slice.label,
+        kwh: this.roundKwh(kwh),
+        rate: slice.rate,
+        amount: this.round(kwh * slice.rate),
+      };
+    });
+  }
+
+  /**
+   * Discount on the pre-tax amount, never more than the amount itself
+   */
+  private calculateDiscount(discount: BillDiscount | undefined, amount: number): number {
+    if (!discount || !(discount.value > 0) || amount <= 0) return 0;
+    if (discount.minAmount && amount < discount.minAmount) return 0;
+
+    let value = discount.type === 'percentage'
+      ? amount * Math.min(discount.value, 100) / 100
+      : discount.value;
+
+    if (discount.type === 'percentage' && discount.maxDiscount !== undefined) {
+      value = Math.min(value, discount.maxDiscount);
+    }
+
+    return this.round(Math.min(value, amount));
+  }
+
+  private findBand(tariff: Tariff, at: Date): TimeOfUseBand | undefined {
+    const ist = new Date(at.getTime() + IST_OFFSET_MS);
+    const hour = ist.getUTCHours();
+    const day = ist.getUTCDay();
+    const previousDay = (day + 6) % 7;
+
+    return tariff.timeOfUseBands.find(band => {
+      if (band.startHour === band.endHour) return false;
+      const onDay = (d: number) => !band.days?.length || band.days.includes(d);
+
+      if (band.startHour < band.endHour) {
+        return onDay(day) && hour >= band.startHour && hour < band.endHour;
+      }
+      // Overnight band belongs to the day it starts on
+      return (onDay(day) && hour >= band.startHour) || (onDay(previousDay) && hour < band.endHour);
+    });
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+
+  private roundKwh(value: number): number {
+    return Math.round(value * 1000) / 1000;
+  }
+}
+
+// ===============================================
+// SINGLETON EXPORT
+// ===============================================
+
+export const tariffService = new TariffService();
@@ -0,0 +1,267 @@
+// src/services/wallet.ts - PREPAID WALLET ON A DOUBLE-ENTRY LEDGER
+import { db } from '../config/database';
+import { walletTransactions, walletLedgerEntries, type WalletTransaction } from '../db/schema';
+import { eq, and, desc, sql, type SQL } from 'drizzle-orm';
+import { logger } from '../utils/logger';
+
+// ===============================================
+// TYPES & INTERFACES
+// ===============================================
+
+export type WalletTransactionType =
+  | 'topup'
+  | 'session_payment'
+  | 'refund'
+  | 'deposit_hold'
+  | 'deposit_release'
+  | 'deposit_forfeit';
+
+// Ledger accounts - user_wallet is the balance we owe each user
+type LedgerAccount =
+  | 'user_wallet'
+  | 'gateway_clearing'
+  | 'session_revenue'
+  | 'reservation_deposits'
+  | 'penalty_revenue';
+
+interface Posting {
+  type: WalletTransactionType;
+  userWhatsapp: string;
+  amount: number;
+  reference: string;
+  description: string;
+  debitAccount: LedgerAccount;
+  creditAccount: LedgerAccount;
+  requireBalance?: boolean;
+}
+
+export interface PostingResult {
+  transaction: WalletTransaction | null;
+  created: boolean;
+}
+
+// ===============================================
+// WALLET SERVICE
+// ===============================================
+
+class WalletService {
+  /**
+   * Current balance - sum of the user's wallet account entries
+   */
+  async getBalance(userWhatsapp: string): Promise<number> {
+    const [row] = await db
+      .select({
+        balance: sql<string>`COALESCE(SUM(${walletLedgerEntries.credit} - ${walletLedgerEntries.debit}), 0)`,
+      })
+      .from(walletLedgerEntries)
+      .where(
+        and(
+          eq(walletLedgerEntries.account, 'user_wallet'),
+          eq(walletLedgerEntries.userWhatsapp, userWhatsapp)
+        )
+      );
+
+    return parseFloat(row?.balance || '0');
+  }
+
+  async hasWallet(userWhatsapp: string): Promise<boolean> {
+    const [row] = await db
+      .select({ id: walletTransactions.id })
+      .from(walletTransactions)
+      .where(eq(walletTransactions.userWhatsapp, userWhatsapp))
+      .limit(1);
+    return !!row;
+  }
+
+  async getRecentTransactions(userWhatsapp: string, limit = 5): Promise<WalletTransaction[]> {
+    return db
+      .select()
+      .from(walletTransactions)
+      .where(eq(walletTransactions.userWhatsapp, userWhatsapp))
+      .orderBy(desc(walletTransactions.createdAt))
+      .limit(limit);
+  }
+
+  // ===============================================
+  // POSTINGS
+  // ===============================================
+
+  /**
+   * Credit a gateway top-up - idempotent per payment
+   */
+  async creditTopUp(userWhatsapp: string, amount: number, paymentId: string): Promise<PostingResult> {
+    return this.post({
+      type: 'topup',
+      userWhatsapp,
+      amount,
+      reference: paymentId,
+      description: 'Wallet top-up',
+      debitAccount: 'gateway_clearing',
+      creditAccount: 'user_wallet',
+    });
+  }
+
+  /**
+   * Pay for a session from the balance - fails without posting if funds are short.
+   * `alongside` statements commit in the same transaction as the debit, so whatever
+   * records the payment can't be lost after the money has moved.
+   */
+  async debitForSession(
+    userWhatsapp: string,
+    amount: number,
+    sessionId: string,
+    alongside?: (transactionId: string) => SQL[]
+  ): Promise<PostingResult> {
+    return this.post({
+      type: 'session_payment',
+      userWhatsapp,
+      amount,
+      reference: sessionId,
+      description: 'Charging session',
+      debitAccount: 'user_wallet',
+      creditAccount: 'session_revenue',
+      requireBalance: true,
+    }, alongside);
+  }
+
+  /**
+   * Return a refund to the wallet it was paid from
+   */
+  async creditRefund(userWhatsapp: string, amount: number, refundId: string): Promise<PostingResult> {
+    return this.post({
+      type: 'refund',
+      userWhatsapp,
+      amount,
+      reference: refundId,
+      description: 'Session refund',
+      debitAccount: 'session_revenue',
+      creditAccount: 'user_wallet',
+    });
+  }
+
+  /**
+   * Hold a booking deposit out of the balance - fails without posting if funds are short
+   */
+  async holdDeposit(userWhatsapp: string, amount: number, reservationNumber: string): Promise<PostingResult> {
+    return this.post({
+      type: 'deposit_hold',
+      userWhatsapp,
+      amount,
+      reference: reservationNumber,
+      description: `Booking deposit ${reservationNumber}`,
+      debitAccount: 'user_wallet',
+      creditAccount: 'reservation_deposits',
+      requireBalance: true,
+    });
+  }
+
+  /**
+   * Return a held deposit - the driver showed up or cancelled in time
+   */
+  async releaseDeposit(userWhatsapp: string, amount: number, reservationNumber: string): Promise<PostingResult> {
+    return this.post({
+      type: 'deposit_release',
+      userWhatsapp,
+      amount,
+      reference: reservationNumber,
+      description: `Booking deposit returned ${reservationNumber}`,
+      debitAccount: 'reservation_deposits',
+      creditAccount: 'user_wallet',
+    });
+  }
+
+  /**
+   * Keep a held deposit after a no-show or late cancellation - the balance was already reduced at hold time
+   */
+  async forfeitDeposit(userWhatsapp: string, amount: number, reservationNumber: string): Promise<PostingResult> {
+    return this.post({
+      type: 'deposit_forfeit',
+      userWhatsapp,
+      amount,
+      reference: reservationNumber,
+      description: `Booking deposit kept ${reservationNumber}`,
+      debitAccount: 'reservation_deposits',
+      creditAccount: 'penalty_revenue',
+    });
+  }
+
+  /**
+   * Append one balanced transaction. Entries are never updated or deleted;
+   * corrections are new transactions. The advisory lock serialises postings
+   * per user so concurrent debits cannot overdraw the balance.
+   */
+  private async post(posting: Posting, alongside?: (transactionId: string) => SQL[]): Promise<PostingResult> {
+    const amount = Math.round(posting.amount * 100) / 100;
+    if (!(amount > 0)) {
+      throw new Error(`Wallet posting amount must be positive: ${posting.amount}`);
+    }
+
+    const transactionId = `wtx_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const userAccount = (account: LedgerAccount) => (account === 'user_wallet' ? posting.userWhatsapp : null);
+
+    const balanceGuard = posting.requireBalance
+      ? sql`(
+          SELECT COALESCE(SUM(credit - debit), 0) FROM wallet_ledger_entries
+          WHERE account = 'user_wallet' AND user_whatsapp = ${posting.userWhatsapp}
+        ) >= ${amount}`
+      : sql`TRUE`;
+
+    await db.batch([
+      db.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`wallet:${posting.userWhatsapp}`}))`),
+      db.execute(sql`
+        INSERT INTO wallet_transactions (transaction_id, user_whatsapp, type, amount, reference, description)
+        SELECT ${transactionId}, ${posting.userWhatsapp}, ${posting.type}, ${amount}, ${posting.reference}, ${posting.description}
+        WHERE ${balanceGuard}
+        ON CONFLICT (type, reference) DO NOTHING
+      `),
+      db.execute(sql`
+        INSERT INTO wallet_ledger_entries (transaction_id, account, user_whatsapp, debit, credit)
+        SELECT t.transaction_id, e.account, e.user_whatsapp, e.debit, e.credit
+        FROM wallet_transactions t
+        CROSS JOIN (VALUES
+          (${posting.debitAccount}::varchar, ${userAccount(posting.debitAccount)}::varchar, ${amount}::numeric, 0::numeric),
+          (${posting.creditAccount}::varchar, ${userAccount(posting.creditAccount)}::varchar, 0::numeric, ${amount}::numeric)
+        ) AS e(account, user_whatsapp, debit, credit)
+        WHERE t.transaction_id = ${transactionId}
+      `),
+      ...(alongside?.(transactionId) ?? []).map(statement => db.execute(statement)),
+    ]);
+
+    const [created] = await db
+      .select()
+      .from(walletTransactions)
+      .where(eq(walletTransactions.transactionId, transactionId))
+      .limit(1);
+
+    if (created) {
+      logger.info('👛 Wallet transaction posted', {
+        transactionId,
+        type: posting.type,
+        userWhatsapp: posting.userWhatsapp,
+        amount,
+        reference: posting.reference,
+      });
+      return { transaction: created, created: true };
+    }
+
+    // Either already posted for this reference, or the balance guard refused it
+    const [existing] = await db
+      .select()
+      .from(walletTransactions)
+      .where(
+        and(
+          eq(walletTransactions.type, posting.type),
+          eq(walletTransactions.reference, posting.reference)
+        )
+      )
+      .limit(1);
+
+    return { transaction: existing || null, created: false };
+  }
+}
+
+// ===============================================
+// SINGLETON EXPORT
+// ===============================================
+
+export const walletService = new WalletService();
@@ -313,6 +313,35 @@ class WhatsAppService {
     }
   }
 
+  /**
+   * Re-send an image we received, by its WhatsApp media ID
+   */
+  async sendImageById(to: string, mediaId: string, caption?: string): Promise<boolean> {
+    try {
+      const payload = {
+        messaging_product: 'whatsapp',
+        to,
+        type: 'image',
+        image: {
+          id: mediaId,
+          caption: caption ? this.truncateText(caption, 1024) : undefined,
+        },
+      };
+
+      const response = await this.makeRequest<WhatsAppResponse>(payload);
+      logger.info('✅ Image message sent', { to, messageId: response.messages[0].id });
+      return true;
+
+    } catch (error: any) {
+      logger.error('❌ Image message failed', {
+        to,
+        mediaId,
+        error: error.response?.data || error.message,
+      });
+      return false;
+    }
+  }
+
   /**
    * Send document message
    */
@@ -0,0 +1,88 @@
+// src/testing/charging-target-checks.ts - TARGET ALERTS & AUTO-STOP
+import assert from 'node:assert/strict';
+import { eq } from 'drizzle-orm';
+import { db } from '../config/database';
+import { chargingSessions } from '../db/schema';
+import { chargingTargetService } from '../services/charging-target';
+import { sessionService } from '../services/session';
+import { sessionTelemetryService } from '../services/session-telemetry';
+import { createSession, createStation, createUser, messagesTo } from './fixtures';
+import type { Check } from './test-runner';
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * A photo-metered session charging towards a 20 kWh target
+ */
+async function sessionWithTarget() {
+  const driver = await createUser();
+  const stationId = await createStation(await createUser('Owner'));
+  const sessionId = await createSession(driver, stationId, {
+    status: 'active',
+    endedAt: null,
+    meterSource: 'photo',
+    startMeterReading: '1000.000',
+  });
+
+  const result = await chargingTargetService.setTarget(driver, { type: 'kwh', value: 20 }, stationId);
+  assert.equal(result.success, true);
+  return { driver, sessionId };
+}
+
+async function getSession(sessionId: string) {
+  const [session] = await db.select().from(chargingSessions).where(eq(chargingSessions.sessionId, sessionId));
+  return session;
+}
+
+const reachedMessages = (driver: string) => messagesTo(driver).filter(text => text.includes('Target Reached'));
+
+export const chargingTargetChecks: Check[] = [
+  {
+    name: 'a target warns once near the end and stops the session once when reached',
+    run: async () => {
+      const { driver, sessionId } = await sessionWithTarget();
+
+      const reading = (energyKwh: number, minutesAgo: number) => sessionTelemetryService.recordSample(sessionId, {
+        energyKwh,
+        source: 'photo',
+        sampledAt: new Date(Date.now() - minutesAgo * MINUTE_MS),
+      });
+
+      await reading(18.5, 20);
+      await reading(19, 10);
+      assert.equal(messagesTo(driver).filter(text => text.includes('Almost There')).length, 1);
+
+      await reading(20.4, 0);
+      assert.equal(await chargingTargetService.evaluateSession(sessionId), 'none');
+
+      const session = await getSession(sessionId);
+      assert.ok(session.targetReachedAt);
+      assert.equal(session.verificationStatus, 'awaiting_end_photo');
+      assert.equal(reachedMessages(driver).length, 1);
+    },
+  },
+  {
+    name: 'a stop that fails gives the target back so the next run stops the session',
+    run: async () => {
+      const { driver, sessionId } = await sessionWithTarget();
+      await db.update(chargingSessions).set({ energyDelivered: '21.000' }).where(eq(chargingSessions.sessionId, sessionId));
+
+      const stopSession = sessionService.stopSession;
+      sessionService.stopSession = async () => false;
+      try {
+        assert.equal(await chargingTargetService.evaluateSession(sessionId), 'none');
+      } finally {
+        sessionService.stopSession = stopSession;
+      }
+
+      assert.equal((await getSession(sessionId)).targetReachedAt, null);
+      assert.equal(reachedMessages(driver).length, 0);
+
+      assert.equal(await chargingTargetService.evaluateSession(sessionId), 'reached');
+      const session = await getSession(sessionId);
+      assert.ok(session.targetReachedAt);
+      assert.equal(session.verificationStatus, 'awaiting_end_photo');
+      assert.equal(reachedMessages(driver).length, 1);
+    },
+  },
+];
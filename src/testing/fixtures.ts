@@ -0,0 +1,111 @@
+// src/testing/fixtures.ts - ROWS & CAPTURED MESSAGES FOR DATABASE CHECKS
+import { db } from '../config/database';
+import { chargingSessions, chargingStations, stationPorts, users } from '../db/schema';
+import { whatsappService } from '../services/whatsapp';
+
+type NewStation = typeof chargingStations.$inferInsert;
+type NewSession = typeof chargingSessions.$inferInsert;
+
+// ===============================================
+// OUTGOING WHATSAPP MESSAGES
+// ===============================================
+
+interface SentMessage {
+  to: string;
+  text: string;
+}
+
+const sentMessages: SentMessage[] = [];
+
+/**
+ * Record messages instead of calling the Graph API - checks assert on what drivers were told
+ */
+export function captureWhatsAppMessages(): void {
+  const service = whatsappService as unknown as { makeRequest: (payload: any) => Promise<unknown> };
+  service.makeRequest = async (payload: any) => {
+    sentMessages.push({
+      to: payload.to,
+      text: payload.text?.body ?? payload.interactive?.body?.text ?? payload.document?.caption ?? '',
+    });
+    return { messages: [{ id: `wamid.test_${sentMessages.length}` }] };
+  };
+}
+
+export function clearSentMessages(): void {
+  sentMessages.length = 0;
+}
+
+export function messagesTo(whatsappId: string): string[] {
+  return sentMessages.filter(message => message.to === whatsappId).map(message => message.text);
+}
+
+/**
+ * Let fire-and-forget work (setImmediate notifications) finish before asserting
+ */
+export async function settle(): Promise<void> {
+  for (let i = 0; i < 5; i++) {
+    await new Promise(resolve => setImmediate(resolve));
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+}
+
+// ===============================================
+// ROWS
+// ===============================================
+
+let nextUser = 1;
+
+export async function createUser(name = 'Test Driver'): Promise<string> {
+  const whatsappId = `9190000${String(nextUser++).padStart(5, '0')}`;
+  await db.insert(users).values({ whatsappId, name });
+  return whatsappId;
+}
+
+export async function createStation(ownerWhatsappId: string, values: Partial<NewStation> = {}): Promise<number> {
+  const [station] = await db
+    .insert(chargingStations)
+    .values({
+      name: 'Test Station',
+      address: 'Anna Salai, Chennai',
+      latitude: '13.08270000',
+      longitude: '80.27070000',
+      connectorTypes: ['CCS2'],
+      ownerWhatsappId,
+      isActive: true,
+      isOpen: true,
+      ...values,
+    })
+    .returning({ id: chargingStations.id });
+  return station.id;
+}
+
+/**
+ * One port per connector type given, numbered from 1
+ */
+export async function createPorts(stationId: number, connectorTypes: string[]): Promise<number[]> {
+  const ports = await db
+    .insert(stationPorts)
+    .values(connectorTypes.map((connectorType, i) => ({ stationId, portNumber: i + 1, connectorType })))
+    .returning({ id: stationPorts.id });
+  return ports.map(port => port.id);
+}
+
+let nextSession = 1;
+
+export async function createSession(
+  userWhatsapp: string,
+  stationId: number,
+  values: Partial<NewSession> = {}
+): Promise<string> {
+  const sessionId = `ses_test_${nextSession++}`;
+  await db.insert(chargingSessions).values({
+    sessionId,
+    userWhatsapp,
+    stationId,
+    status: 'completed',
+    startedAt: new Date(Date.now() - 60 * 60 * 1000),
+    endedAt: new Date(Date.now() - 30 * 60 * 1000),
+    ...values,
+  });
+  return sessionId;
+}
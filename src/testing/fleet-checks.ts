@@ -0,0 +1,76 @@
+// src/testing/fleet-checks.ts - FLEET BULK BOOKING & CONSOLIDATED BILLING
+import assert from 'node:assert/strict';
+import { eq } from 'drizzle-orm';
+import { db } from '../config/database';
+import { fleetInvoices, payments } from '../db/schema';
+import { fleetService } from '../services/fleet';
+import { paymentService } from '../services/payment';
+import { createPorts, createSession, createStation, createUser, messagesTo } from './fixtures';
+import type { Check } from './test-runner';
+
+/**
+ * A consolidated-billing fleet with the given number of drivers
+ */
+async function fleetWithDrivers(count: number) {
+  const manager = await createUser('Fleet Manager');
+  const created = await fleetService.createFleet('Check Logistics', manager, await createUser('Admin'));
+  assert.ok(created.fleet);
+
+  const drivers: string[] = [];
+  for (let i = 0; i < count; i++) {
+    const driver = await createUser();
+    assert.equal((await fleetService.addVehicle(manager, driver, `TN01AB${1000 + i}`)).success, true);
+    drivers.push(driver);
+  }
+  return { manager, fleet: created.fleet, drivers };
+}
+
+export const fleetChecks: Check[] = [
+  {
+    name: 'fleet sessions go on one invoice to the manager and never on a second one',
+    run: async () => {
+      const { manager, fleet, drivers } = await fleetWithDrivers(2);
+      const stationId = await createStation(await createUser('Owner'));
+
+      for (const [driver, totalCost] of [[drivers[0], '120.00'], [drivers[1], '80.00']]) {
+        const sessionId = await createSession(driver, stationId, { totalCost, energyDelivered: '8' });
+        await paymentService.requestSessionPayment(sessionId);
+        const [payment] = await db.select().from(payments).where(eq(payments.sessionId, sessionId));
+        assert.equal(payment.status, 'billed_to_fleet');
+        assert.equal(payment.paymentLinkId, null);
+      }
+
+      const invoice = await fleetService.issueInvoice(fleet.id);
+      assert.equal(invoice?.sessionCount, 2);
+      assert.equal(parseFloat(invoice?.totalAmount || '0'), 200);
+      assert.ok(invoice?.paymentId);
+      assert.equal(await fleetService.issueInvoice(fleet.id), null);
+
+      const invoices = await db.select().from(fleetInvoices).where(eq(fleetInvoices.fleetAccountId, fleet.id));
+      assert.equal(invoices.length, 1);
+      assert.ok(messagesTo(manager).length > 0);
+    },
+  },
+  {
+    name: 'bulk booking fills each station in order and stops at the vehicles requested',
+    run: async () => {
+      const { manager, drivers } = await fleetWithDrivers(4);
+      const owner = await createUser('Owner');
+      const small = await createStation(owner, { totalPorts: 1 });
+      const large = await createStation(owner, { totalPorts: 2 });
+      await createPorts(small, ['CCS2']);
+      await createPorts(large, ['CCS2', 'CCS2']);
+
+      const slotStart = new Date(Date.now() + 3 * 60 * 60 * 1000);
+      slotStart.setUTCMinutes(0, 0, 0);
+      const booking = await fleetService.bulkBook(manager, { count: 3, stationIds: [small, large], slotStart });
+
+      assert.equal(booking.success, true);
+      const booked = booking.result!.booked;
+      assert.deepEqual(booked.map(entry => entry.reservation.stationId), [small, large, large]);
+      assert.deepEqual(booked.map(entry => entry.vehicle.driverWhatsapp), drivers.slice(0, 3));
+      assert.equal(booking.result!.shortfall, 0);
+      assert.equal(messagesTo(drivers[3]).some(text => text.includes('Booked by')), false);
+    },
+  },
+];
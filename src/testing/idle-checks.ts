@@ -0,0 +1,74 @@
+// src/testing/idle-checks.ts - IDLE CLOCKS END ONLY FOR THE VEHICLE THAT MADE WAY
+import assert from 'node:assert/strict';
+import { eq } from 'drizzle-orm';
+import { db } from '../config/database';
+import { chargingSessions, stationPorts } from '../db/schema';
+import { sessionService } from '../services/session';
+import { createPorts, createSession, createStation, createUser, settle } from './fixtures';
+import type { Check } from './test-runner';
+
+const IDLE_SINCE = () => new Date(Date.now() - 20 * 60 * 1000);
+
+/**
+ * A vehicle idle on a port it still holds
+ */
+async function idleOnPort(stationId: number, portId: number, status: 'active' | 'completed'): Promise<string> {
+  const sessionId = await createSession(await createUser(), stationId, { status, portId, idleStartedAt: IDLE_SINCE() });
+  await db
+    .update(stationPorts)
+    .set({ status: 'occupied', currentSessionId: sessionId })
+    .where(eq(stationPorts.id, portId));
+  return sessionId;
+}
+
+async function getSession(sessionId: string) {
+  const [session] = await db.select().from(chargingSessions).where(eq(chargingSessions.sessionId, sessionId));
+  return session;
+}
+
+async function getPort(portId: number) {
+  const [port] = await db.select().from(stationPorts).where(eq(stationPorts.id, portId));
+  return port;
+}
+
+export const idleChecks: Check[] = [
+  {
+    name: 'a new session leaves idle vehicles on other ports idle and on their ports',
+    run: async () => {
+      const stationId = await createStation(await createUser('Owner'));
+      const [first, second, free] = await createPorts(stationId, ['CCS2', 'CCS2', 'CCS2']);
+      const parked = await idleOnPort(stationId, first, 'completed');
+      const unplugging = await idleOnPort(stationId, second, 'active');
+
+      const started = await sessionService.startSession(await createUser(), stationId);
+      await settle();
+      assert.ok(started);
+      assert.equal((await getSession(started.id)).portId, free);
+
+      for (const [sessionId, portId] of [[parked, first], [unplugging, second]] as const) {
+        assert.equal((await getSession(sessionId)).idleEndedAt, null);
+        const port = await getPort(portId);
+        assert.equal(port.status, 'occupied');
+        assert.equal(port.currentSessionId, sessionId);
+      }
+    },
+  },
+  {
+    name: 'a new session on a port ends the idle time of the vehicle last recorded there',
+    run: async () => {
+      const stationId = await createStation(await createUser('Owner'));
+      const [portId] = await createPorts(stationId, ['CCS2']);
+      // The charger already saw the vehicle leave and freed the port
+      const left = await createSession(await createUser(), stationId, { portId, idleStartedAt: IDLE_SINCE() });
+
+      const started = await sessionService.startSession(await createUser(), stationId);
+      await settle();
+      assert.ok(started);
+
+      const closed = await getSession(left);
+      assert.ok(closed.idleEndedAt);
+      assert.equal(closed.idleEndReason, 'next_session');
+      assert.equal((await getPort(portId)).currentSessionId, started.id);
+    },
+  },
+];
@@ -0,0 +1,64 @@
+// src/testing/invoice-checks.ts - GST SPLIT & PLACE OF SUPPLY ON SESSION INVOICES
+import assert from 'node:assert/strict';
+import { db } from '../config/database';
+import { stationOwners } from '../db/schema';
+import { invoiceService } from '../services/invoice';
+import { createSession, createStation, createUser } from './fixtures';
+import type { Check } from './test-runner';
+
+/**
+ * Invoice a ₹118 session at a station in Chennai, from an owner with the given GST details
+ */
+async function invoiceFrom(owner: { gstNumber?: string; state: string }) {
+  const ownerWhatsapp = await createUser('Owner');
+  await db.insert(stationOwners).values({ whatsappId: ownerWhatsapp, name: 'Owner', ...owner });
+  const stationId = await createStation(ownerWhatsapp, { address: '12 Anna Salai, Chennai, Tamil Nadu 600002' });
+  const sessionId = await createSession(await createUser(), stationId, {
+    energyDelivered: '5',
+    baseCharge: '100.00',
+    taxAmount: '18.00',
+    totalCost: '118.00',
+  });
+
+  const invoice = await invoiceService.issueSessionInvoice(sessionId);
+  assert.ok(invoice);
+  return { invoice, pdf: invoiceService.renderInvoicePdf(invoice).toString('latin1') };
+}
+
+export const invoiceChecks: Check[] = [
+  {
+    name: 'an owner without a GSTIN gets no CGST/SGST split on the invoice',
+    run: async () => {
+      const { invoice, pdf } = await invoiceFrom({ state: 'Tamil Nadu' });
+
+      assert.equal(parseFloat(invoice.cgstAmount || '0'), 0);
+      assert.equal(parseFloat(invoice.sgstAmount || '0'), 0);
+      assert.equal(parseFloat(invoice.igstAmount || '0'), 0);
+      assert.doesNotMatch(pdf, /CGST|SGST|IGST|TAX INVOICE/);
+    },
+  },
+  {
+    name: 'a station in another state from the GSTIN is charged IGST',
+    run: async () => {
+      const { invoice, pdf } = await invoiceFrom({ gstNumber: '29ABCDE1234F1Z5', state: 'Karnataka' });
+
+      assert.equal(invoice.placeOfSupply, 'Tamil Nadu (33)');
+      assert.equal(parseFloat(invoice.igstAmount || '0'), 18);
+      assert.equal(parseFloat(invoice.cgstAmount || '0') + parseFloat(invoice.sgstAmount || '0'), 0);
+      assert.match(pdf, /IGST @ 18\.0%/);
+      assert.doesNotMatch(pdf, /CGST|SGST/);
+    },
+  },
+  {
+    name: 'a station in the GSTIN state splits the tax into CGST and SGST',
+    run: async () => {
+      const { invoice, pdf } = await invoiceFrom({ gstNumber: '33ABCDE1234F1Z5', state: 'Tamil Nadu' });
+
+      assert.equal(parseFloat(invoice.cgstAmount || '0'), 9);
+      assert.equal(parseFloat(invoice.sgstAmount || '0'), 9);
+      assert.equal(parseFloat(invoice.igstAmount || '0'), 0);
+      assert.match(pdf, /CGST @ 9\.0%/);
+      assert.doesNotMatch(pdf, /IGST/);
+    },
+  },
+];
@@ -0,0 +1,89 @@
+// src/testing/issue-report-checks.ts - TICKETS, OWNER ALERTS & PORT MAINTENANCE
+import assert from 'node:assert/strict';
+import { and, eq } from 'drizzle-orm';
+import { db } from '../config/database';
+import { chargingSessions, stationPorts } from '../db/schema';
+import { issueReportService, type IssueCategory } from '../services/issue-report';
+import { createPorts, createSession, createStation, createUser, messagesTo } from './fixtures';
+import type { Check } from './test-runner';
+
+async function portStatus(stationId: number, portNumber: number) {
+  const [port] = await db
+    .select({ status: stationPorts.status })
+    .from(stationPorts)
+    .where(and(eq(stationPorts.stationId, stationId), eq(stationPorts.portNumber, portNumber)));
+  return port.status;
+}
+
+/**
+ * A new driver reporting trouble on port 1
+ */
+async function reportOnPort(stationId: number, category: IssueCategory) {
+  const outcome = await issueReportService.createReport({
+    userWhatsapp: await createUser(),
+    stationId,
+    category,
+    portNumber: 1,
+  });
+  assert.equal(outcome.success, true);
+  return outcome.report!;
+}
+
+export const issueReportChecks: Check[] = [
+  {
+    name: 'a report opens one ticket on the session and alerts the owner',
+    run: async () => {
+      const owner = await createUser('Owner');
+      const driver = await createUser();
+      const stationId = await createStation(owner);
+      const sessionId = await createSession(driver, stationId, { status: 'active', endedAt: null });
+
+      const context = await issueReportService.findReportContext(driver);
+      assert.equal(context?.sessionId, sessionId);
+
+      const first = await issueReportService.createReport({ userWhatsapp: driver, stationId, category: 'slow_charging', sessionId });
+      assert.equal(first.success, true);
+      assert.equal(messagesTo(owner).filter(text => text.includes(`Issue Reported #${first.report!.id}`)).length, 1);
+
+      const [session] = await db.select().from(chargingSessions).where(eq(chargingSessions.sessionId, sessionId));
+      assert.equal(session.hadIssues, true);
+
+      // The same problem again points back to the open ticket
+      const repeat = await issueReportService.createReport({ userWhatsapp: driver, stationId, category: 'slow_charging', sessionId });
+      assert.equal(repeat.success, false);
+      assert.equal(repeat.report?.id, first.report!.id);
+      assert.equal((await issueReportService.getStationIssues(stationId)).length, 1);
+    },
+  },
+  {
+    name: 'three drivers with hardware trouble take a port out of service until their tickets close',
+    run: async () => {
+      const owner = await createUser('Owner');
+      const stationId = await createStation(owner);
+      await createPorts(stationId, ['CCS2', 'CCS2']);
+
+      // Payment problems say nothing about the hardware
+      await reportOnPort(stationId, 'payment');
+      const reports = [await reportOnPort(stationId, 'charger_not_starting'), await reportOnPort(stationId, 'damaged_cable')];
+      assert.equal(await portStatus(stationId, 1), 'available');
+
+      reports.push(await reportOnPort(stationId, 'charger_not_starting'));
+      assert.equal(await portStatus(stationId, 1), 'maintenance');
+      assert.equal(await portStatus(stationId, 2), 'available');
+
+      const [first, ...rest] = reports;
+      const resolved = await issueReportService.updateStatus(first.id, 'resolved', owner, 'Replaced the RFID reader');
+      assert.equal(resolved.success, true);
+      assert.match(messagesTo(first.userWhatsapp).join('\n'), /Resolved[\s\S]*Replaced the RFID reader/);
+      assert.equal(await portStatus(stationId, 1), 'maintenance');
+
+      for (const report of rest) {
+        assert.equal((await issueReportService.updateStatus(report.id, 'dismissed', owner)).success, true);
+      }
+      assert.equal(await portStatus(stationId, 1), 'available');
+
+      // A closed ticket stays closed
+      assert.equal((await issueReportService.updateStatus(first.id, 'acknowledged', owner)).success, false);
+    },
+  },
+];
@@ -0,0 +1,174 @@
+// src/testing/payment-checks.ts - PAYMENT LINKS, GATEWAY CALLBACKS & PART PAYMENTS
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import { eq } from 'drizzle-orm';
+import { db } from '../config/database';
+import { chargingSessions, invoices, paymentLinks, payments } from '../db/schema';
+import { paymentService, FakePaymentGateway, RazorpayPaymentGateway } from '../services/payment';
+import { notificationService } from '../services/notification';
+import { sessionService } from '../services/session';
+import { createSession, createStation, createUser, messagesTo, settle } from './fixtures';
+import type { Check } from './test-runner';
+
+async function paymentsFor(sessionId: string) {
+  return db.select().from(payments).where(eq(payments.sessionId, sessionId));
+}
+
+async function isCancelled(linkId: string): Promise<boolean> {
+  const [link] = await db.select().from(paymentLinks).where(eq(paymentLinks.linkId, linkId));
+  return !!link?.cancelledAt;
+}
+
+async function billedSession(totalCost: string) {
+  const driver = await createUser();
+  const stationId = await createStation(await createUser('Owner'));
+  const sessionId = await createSession(driver, stationId, { totalCost });
+  return { driver, sessionId };
+}
+
+export const paymentChecks: Check[] = [
+  {
+    name: 'fake gateway callbacks are only accepted with a valid signature',
+    run: () => {
+      const gateway = new FakePaymentGateway({ secret: 'check-secret', upiVpa: 'check@upi', baseUrl: 'http://localhost' });
+      const { rawBody, signature } = gateway.buildCallback('plink_check', 'pay_check', 120, 'paid');
+
+      assert.equal(gateway.verifyCallbackSignature(rawBody, signature), true);
+      assert.equal(gateway.verifyCallbackSignature(rawBody.replace('120', '1'), signature), false);
+      assert.equal(gateway.verifyCallbackSignature(rawBody, ''), false);
+
+      const otherGateway = new FakePaymentGateway({ secret: 'other-secret', upiVpa: 'check@upi', baseUrl: 'http://localhost' });
+      assert.equal(otherGateway.verifyCallbackSignature(rawBody, signature), false);
+
+      const event = gateway.parseCallback(JSON.parse(rawBody));
+      assert.equal(event?.linkId, 'plink_check');
+      assert.equal(event?.referenceId, 'pay_check');
+      assert.equal(event?.amountPaid, 120);
+    },
+  },
+  {
+    name: 'Razorpay webhooks verify and report part payments in rupees',
+    run: () => {
+      const gateway = new RazorpayPaymentGateway({ keyId: 'rzp_test_check', keySecret: 'check', webhookSecret: 'webhook-secret' });
+      const rawBody = JSON.stringify({
+        event: 'payment_link.partially_paid',
+        payload: {
+          payment_link: { entity: { id: 'plink_rzp', reference_id: 'pay_check', amount_paid: 4000 } },
+          payment: { entity: { id: 'pay_rzp', method: 'upi' } },
+        },
+      });
+      const signature = crypto.createHmac('sha256', 'webhook-secret').update(rawBody).digest('hex');
+
+      assert.equal(gateway.verifyCallbackSignature(rawBody, signature), true);
+      assert.equal(gateway.verifyCallbackSignature(rawBody.replace('4000', '9000'), signature), false);
+
+      const event = gateway.parseCallback(JSON.parse(rawBody));
+      assert.equal(event?.status, 'partially_paid');
+      assert.equal(event?.amountPaid, 40);
+      assert.equal(gateway.parseCallback({ event: 'order.paid', payload: {} }), null);
+    },
+  },
+  {
+    name: 'a replaced link that still takes the money settles the payment and closes the newer link',
+    run: async () => {
+      const { sessionId } = await billedSession('200.00');
+
+      const issued = await paymentService.requestSessionPayment(sessionId);
+      const firstLink = issued?.paymentLinkId;
+      assert.ok(firstLink);
+
+      await paymentService.simulateFakePayment(firstLink, 'failed');
+      const reissued = await paymentService.requestSessionPayment(sessionId);
+      const secondLink = reissued?.paymentLinkId;
+      assert.ok(secondLink && secondLink !== firstLink);
+      assert.equal(reissued?.paymentId, issued?.paymentId);
+      assert.equal(await isCancelled(firstLink), true);
+
+      await paymentService.simulateFakePayment(firstLink, 'paid');
+      const [paid] = await paymentsFor(sessionId);
+      assert.equal(paid.status, 'paid');
+      assert.equal(paid.paymentLinkId, firstLink);
+      assert.equal(await isCancelled(secondLink), true);
+
+      const late = await paymentService.simulateFakePayment(secondLink, 'paid');
+      assert.equal(late.message, 'Already processed');
+    },
+  },
+  {
+    name: 'a part payment keeps the payment open on the same link',
+    run: async () => {
+      const { sessionId } = await billedSession('100.00');
+      const issued = await paymentService.requestSessionPayment(sessionId);
+      const gateway = paymentService.getGateway();
+      assert.ok(issued?.paymentLinkId && gateway instanceof FakePaymentGateway);
+
+      const { rawBody, signature } = gateway.buildCallback(issued.paymentLinkId, issued.paymentId, 40, 'paid');
+      await paymentService.handleGatewayCallback(gateway.name, rawBody, signature);
+
+      const again = await paymentService.requestSessionPayment(sessionId);
+      assert.equal(again?.status, 'partially_paid');
+      assert.equal(again?.paymentLinkId, issued.paymentLinkId);
+      assert.equal((await paymentsFor(sessionId)).length, 1);
+    },
+  },
+  {
+    name: 'two paid callbacks arriving together settle the payment once',
+    run: async () => {
+      const { driver, sessionId } = await billedSession('150.00');
+      const issued = await paymentService.requestSessionPayment(sessionId);
+      assert.ok(issued?.paymentLinkId);
+
+      const results = await Promise.all([
+        paymentService.simulateFakePayment(issued.paymentLinkId, 'paid'),
+        paymentService.simulateFakePayment(issued.paymentLinkId, 'paid'),
+      ]);
+
+      assert.deepEqual(results.map(result => result.message).sort(), ['Already processed', 'Payment updated']);
+      assert.equal(messagesTo(driver).filter(text => text.includes('Payment Received')).length, 1);
+    },
+  },
+  {
+    name: 'a failed completion message still leaves the session with a payment and an invoice',
+    run: async () => {
+      const driver = await createUser();
+      const stationId = await createStation(await createUser('Owner'));
+      const sessionId = await createSession(driver, stationId, {
+        energyDelivered: '10',
+        startTime: new Date(Date.now() - 60 * 60 * 1000),
+        endTime: new Date(Date.now() - 5 * 60 * 1000),
+      });
+
+      const sendCompleted = notificationService.sendSessionCompletedNotification;
+      notificationService.sendSessionCompletedNotification = async () => {
+        throw new Error('WhatsApp unavailable');
+      };
+      try {
+        await sessionService.finalizeSessionBill(sessionId);
+        await settle();
+      } finally {
+        notificationService.sendSessionCompletedNotification = sendCompleted;
+      }
+
+      assert.equal((await paymentsFor(sessionId)).length, 1);
+      assert.equal((await db.select().from(invoices).where(eq(invoices.sessionId, sessionId))).length, 1);
+    },
+  },
+  {
+    name: 'the payments sweep asks for payment on billed sessions left without one',
+    run: async () => {
+      const { sessionId: dropped } = await billedSession('90.00');
+      const { sessionId: justBilled } = await billedSession('60.00');
+      await db
+        .update(chargingSessions)
+        .set({ updatedAt: new Date(Date.now() - 30 * 60 * 1000) })
+        .where(eq(chargingSessions.sessionId, dropped));
+
+      assert.equal(await paymentService.requestMissingSessionPayments(), 1);
+      assert.equal((await paymentsFor(dropped))[0]?.status, 'pending');
+      assert.equal((await paymentsFor(justBilled)).length, 0);
+
+      // Nothing left to pick up on the next run
+      assert.equal(await paymentService.requestMissingSessionPayments(), 0);
+    },
+  },
+];
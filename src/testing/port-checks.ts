@@ -0,0 +1,63 @@
+// src/testing/port-checks.ts - PORT ASSIGNMENT: COMPATIBLE CONNECTORS & ABANDONED SESSIONS
+import assert from 'node:assert/strict';
+import { eq } from 'drizzle-orm';
+import { db } from '../config/database';
+import { stationPorts } from '../db/schema';
+import { portService } from '../services/port';
+import { createPorts, createSession, createStation, createUser } from './fixtures';
+import type { Check } from './test-runner';
+
+async function occupy(portId: number, sessionId: string): Promise<void> {
+  await db.update(stationPorts).set({ status: 'occupied', currentSessionId: sessionId }).where(eq(stationPorts.id, portId));
+}
+
+export const portChecks: Check[] = [
+  {
+    name: 'a driver is only given a port they can plug into',
+    run: async () => {
+      const owner = await createUser('Owner');
+      const stationId = await createStation(owner);
+      const [ccs2, type2] = await createPorts(stationId, ['CCS2', 'Type2']);
+      await occupy(ccs2, await createSession(await createUser(), stationId, { status: 'active', portId: ccs2 }));
+
+      assert.equal(await portService.assignPort(stationId, 'ses_check_ccs2', 'CCS-2'), null);
+      assert.equal((await portService.assignPort(stationId, 'ses_check_type2', 'Type 2'))?.id, type2);
+    },
+  },
+  {
+    name: 'a driver whose connector the station lacks can use any free port',
+    run: async () => {
+      const stationId = await createStation(await createUser('Owner'));
+      const [type2] = await createPorts(stationId, ['Type2']);
+
+      assert.equal((await portService.assignPort(stationId, 'ses_check_any', 'CHAdeMO'))?.id, type2);
+    },
+  },
+  {
+    name: 'a port held by an abandoned start is freed for the next driver',
+    run: async () => {
+      const stationId = await createStation(await createUser('Owner'));
+      const [portId] = await createPorts(stationId, ['CCS2']);
+      const abandoned = await createSession(await createUser(), stationId, {
+        status: 'initiated',
+        portId,
+        createdAt: new Date(Date.now() - 45 * 60 * 1000),
+      });
+      await occupy(portId, abandoned);
+
+      const port = await portService.assignPort(stationId, 'ses_check_next', 'CCS2');
+      assert.equal(port?.id, portId);
+      assert.equal(port?.currentSessionId, 'ses_check_next');
+    },
+  },
+  {
+    name: 'a port held by a session still starting is not taken',
+    run: async () => {
+      const stationId = await createStation(await createUser('Owner'));
+      const [portId] = await createPorts(stationId, ['CCS2']);
+      await occupy(portId, await createSession(await createUser(), stationId, { status: 'initiated', portId }));
+
+      assert.equal(await portService.assignPort(stationId, 'ses_check_wait', 'CCS2'), null);
+    },
+  },
+];
@@ -0,0 +1,126 @@
+// src/testing/promo-checks.ts - PROMO CODES ARE CHECKED AGAINST, AND SPENT ON, ONE BILL
+import assert from 'node:assert/strict';
+import { eq } from 'drizzle-orm';
+import { db } from '../config/database';
+import { chargingSessions, promoCodes, promoRedemptions } from '../db/schema';
+import { promoService } from '../services/promo';
+import { sessionService } from '../services/session';
+import { createSession, createStation, createUser, settle } from './fixtures';
+import type { Check } from './test-runner';
+
+type NewPromoCode = typeof promoCodes.$inferInsert;
+
+let nextCode = 1;
+
+/**
+ * A pending redemption of a fresh code, not yet attached to a session
+ */
+async function holdCode(userWhatsapp: string, values: Partial<NewPromoCode> = {}): Promise<number> {
+  const [promo] = await db
+    .insert(promoCodes)
+    .values({ code: `CHECK${nextCode++}`, discountType: 'flat', discountValue: '20', ...values })
+    .returning({ id: promoCodes.id });
+  const [redemption] = await db
+    .insert(promoRedemptions)
+    .values({ promoCodeId: promo.id, userWhatsapp })
+    .returning({ id: promoRedemptions.id });
+  return redemption.id;
+}
+
+async function redemptionStatus(id: number): Promise<string | null | undefined> {
+  const [row] = await db.select({ status: promoRedemptions.status }).from(promoRedemptions).where(eq(promoRedemptions.id, id));
+  return row?.status;
+}
+
+async function discountOn(sessionId: string): Promise<number> {
+  const [session] = await db.select().from(chargingSessions).where(eq(chargingSessions.sessionId, sessionId));
+  assert.ok(session.totalCost, `${sessionId} was not billed`);
+  return parseFloat(session.discountAmount || '0');
+}
+
+/**
+ * A driver with an unbilled session that charged 10 kWh
+ */
+async function unbilledSession() {
+  const owner = await createUser('Owner');
+  const driver = await createUser();
+  const stationId = await createStation(owner);
+  const station = { id: stationId, ownerWhatsappId: owner };
+  const newSession = () => createSession(driver, stationId, { energyDelivered: '10' });
+  return { driver, station, newSession, sessionId: await newSession() };
+}
+
+export const promoChecks: Check[] = [
+  {
+    name: 'a first-session code held by a driver with earlier sessions expires at billing',
+    run: async () => {
+      const { driver, station, newSession } = await unbilledSession();
+      const later = await newSession();
+      const redemptionId = await holdCode(driver, { firstSessionOnly: true });
+
+      assert.equal(await promoService.getSessionDiscount(driver, later, station), null);
+      assert.equal(await redemptionStatus(redemptionId), 'expired');
+    },
+  },
+  {
+    name: 'a code that expired before the session started is not applied',
+    run: async () => {
+      const { driver, station, sessionId } = await unbilledSession();
+      const redemptionId = await holdCode(driver, { validUntil: new Date(Date.now() - 2 * 60 * 60 * 1000) });
+
+      assert.equal(await promoService.getSessionDiscount(driver, sessionId, station), null);
+      assert.equal(await redemptionStatus(redemptionId), 'expired');
+    },
+  },
+  {
+    name: 'an eligible code is offered for the bill and stays pending until it is spent',
+    run: async () => {
+      const { driver, station, sessionId } = await unbilledSession();
+      const redemptionId = await holdCode(driver, { discountType: 'percentage', discountValue: '10', firstSessionOnly: true });
+
+      const discount = await promoService.getSessionDiscount(driver, sessionId, station);
+      assert.equal(discount?.redemptionId, redemptionId);
+      assert.equal(await redemptionStatus(redemptionId), 'pending');
+    },
+  },
+  {
+    name: 'one held code discounts only one of two sessions billed together',
+    run: async () => {
+      const { driver, newSession, sessionId } = await unbilledSession();
+      const other = await newSession();
+      const redemptionId = await holdCode(driver);
+
+      await Promise.all([sessionService.finalizeSessionBill(sessionId), sessionService.finalizeSessionBill(other)]);
+      await settle();
+
+      const discounts = [await discountOn(sessionId), await discountOn(other)];
+      assert.deepEqual(discounts.sort(), [0, 20]);
+      assert.equal(await redemptionStatus(redemptionId), 'applied');
+    },
+  },
+  {
+    name: 'a code released after it was read is not taken off the bill',
+    run: async () => {
+      const { sessionId } = await unbilledSession();
+      const [session] = await db.select().from(chargingSessions).where(eq(chargingSessions.sessionId, sessionId));
+      const redemptionId = await holdCode(session.userWhatsapp);
+
+      const getSessionDiscount = promoService.getSessionDiscount;
+      promoService.getSessionDiscount = async (...args) => {
+        const discount = await getSessionDiscount.apply(promoService, args);
+        // The driver redeems another code while the bill is being priced
+        await db.update(promoRedemptions).set({ status: 'released' }).where(eq(promoRedemptions.id, redemptionId));
+        return discount;
+      };
+      try {
+        await sessionService.finalizeSessionBill(sessionId);
+        await settle();
+      } finally {
+        promoService.getSessionDiscount = getSessionDiscount;
+      }
+
+      assert.equal(await discountOn(sessionId), 0);
+      assert.equal(await redemptionStatus(redemptionId), 'released');
+    },
+  },
+];
@@ -0,0 +1,32 @@
+// src/testing/queue-checks.ts - QUEUE POSITION INVARIANTS UNDER CONCURRENT JOINS & LEAVES
+import assert from 'node:assert/strict';
+import { runQueueConcurrencyCheck } from '../scripts/queue-concurrency-check';
+import { findQueueViolations } from './queue-invariants';
+import type { Check } from './test-runner';
+
+export const queueChecks: Check[] = [
+  {
+    name: 'each connector lane counts from 1 without gaps or duplicates',
+    run: () => {
+      const healthy = [
+        { user: 'a', lane: 'CCS2', position: 1 },
+        { user: 'b', lane: 'CCS2', position: 2 },
+        { user: 'c', lane: 'Type2', position: 1 },
+        { user: 'd', lane: null, position: 1 },
+      ];
+      assert.deepEqual(findQueueViolations(healthy, 4, 'healthy'), []);
+
+      const gap = [{ user: 'a', lane: 'CCS2', position: 1 }, { user: 'b', lane: 'CCS2', position: 3 }];
+      assert.equal(findQueueViolations(gap, 4, 'gap').length, 1);
+
+      const duplicate = [{ user: 'a', lane: 'CCS2', position: 1 }, { user: 'b', lane: 'CCS2', position: 1 }];
+      assert.equal(findQueueViolations(duplicate, 4, 'duplicate').length, 1);
+
+      assert.equal(findQueueViolations(healthy, 3, 'over limit').length, 1);
+    },
+  },
+  {
+    name: 'concurrent joins and leaves admit exactly the limit and keep lanes contiguous',
+    run: runQueueConcurrencyCheck,
+  },
+];
@@ -0,0 +1,99 @@
+// src/testing/queue-history-checks.ts - REPLAYING QUEUE EVENTS REBUILDS THE QUEUE
+import assert from 'node:assert/strict';
+import type { QueueEvent } from '../db/schema';
+import { queueHistoryService, type QueueEventType } from '../services/queue-history';
+import { queueService } from '../services/queue';
+import { createStation, createUser } from './fixtures';
+import { findReplayMismatch } from './queue-invariants';
+import type { Check } from './test-runner';
+
+let nextEventId = 1;
+
+function event(
+  userWhatsapp: string,
+  eventType: QueueEventType,
+  lane: string | null,
+  fromPosition: number | null,
+  toPosition: number | null
+): QueueEvent {
+  const id = nextEventId++;
+  return {
+    id,
+    stationId: 1,
+    queueId: null,
+    userWhatsapp,
+    eventType,
+    lane,
+    fromPosition,
+    toPosition,
+    reason: null,
+    actorType: 'system',
+    actorWhatsappId: null,
+    createdAt: new Date(Date.UTC(2026, 0, 5, 10, id)),
+  };
+}
+
+export const queueHistoryChecks: Check[] = [
+  {
+    name: 'replaying joins, leaves and moves rebuilds the live queue',
+    run: () => {
+      const replayed = queueHistoryService.fold([
+        event('a', 'joined', 'CCS2', null, 1),
+        event('b', 'joined', 'CCS2', null, 2),
+        event('c', 'joined', 'Type2', null, 1),
+        event('a', 'cancelled', 'CCS2', 1, null),
+        event('b', 'moved', 'CCS2', 2, 1),
+        event('d', 'joined', 'CCS2', null, 2),
+        event('b', 'started', 'CCS2', 1, null),
+        event('d', 'moved', 'CCS2', 2, 1),
+      ]);
+
+      const live = [
+        { user: 'c', lane: 'Type2', position: 1 },
+        { user: 'd', lane: 'CCS2', position: 1 },
+      ];
+      assert.deepEqual(findReplayMismatch(live, replayed, 'replay'), []);
+      assert.equal(replayed.find(entry => entry.userWhatsapp === 'b')?.status, 'charging');
+
+      assert.equal(findReplayMismatch([...live, { user: 'e', lane: 'CCS2', position: 2 }], replayed, 'missing').length, 1);
+    },
+  },
+  {
+    name: 'replay keeps reservations and drivers first seen mid-queue',
+    run: () => {
+      const replayed = queueHistoryService.fold([
+        event('a', 'moved', 'CCS2', 3, 2),
+        event('b', 'joined', 'CCS2', null, 1),
+        event('b', 'reserved', 'CCS2', 1, 1),
+        event('c', 'joined', null, null, 1),
+        event('c', 'expired', null, 1, null),
+      ]);
+
+      assert.deepEqual(
+        replayed.map(entry => [entry.userWhatsapp, entry.position, entry.status]),
+        [['b', 1, 'reserved'], ['a', 2, 'waiting']]
+      );
+    },
+  },
+  {
+    name: 'the recorded events replay the queue as it stood before and after a driver left',
+    run: async () => {
+      const owner = await createUser('Owner');
+      const [first, second] = [await createUser(), await createUser()];
+      const stationId = await createStation(owner, { availablePorts: 0, availableSlots: 0 });
+
+      assert.ok(await queueService.joinQueue(first, stationId));
+      assert.ok(await queueService.joinQueue(second, stationId));
+      await new Promise(resolve => setTimeout(resolve, 20));
+      const beforeLeaving = new Date();
+      await new Promise(resolve => setTimeout(resolve, 20));
+      assert.equal(await queueService.leaveQueue(first, stationId), true);
+
+      const before = await queueHistoryService.replay(stationId, beforeLeaving);
+      assert.deepEqual(before?.map(entry => [entry.userWhatsapp, entry.position]), [[first, 1], [second, 2]]);
+
+      const now = await queueHistoryService.replay(stationId);
+      assert.deepEqual(now?.map(entry => [entry.userWhatsapp, entry.position]), [[second, 1]]);
+    },
+  },
+];
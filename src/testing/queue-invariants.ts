@@ -0,0 +1,51 @@
+// src/testing/queue-invariants.ts - QUEUE INVARIANTS SHARED BY THE UNIT CHECKS AND THE CONCURRENCY SCRIPT
+import type { ReplayedEntry } from '../services/queue-history';
+
+export interface QueueSnapshotEntry {
+  user: string;
+  lane: string | null;
+  position: number | null;
+}
+
+/**
+ * Active entries (waiting/reserved) must fit the station limit and every connector
+ * lane must count 1..n with no gaps or duplicates
+ */
+export function findQueueViolations(active: QueueSnapshotEntry[], maxLength: number, label: string): string[] {
+  const failures: string[] = [];
+
+  if (active.length > maxLength) {
+    failures.push(`${label}: ${active.length} active entries exceed the limit of ${maxLength}`);
+  }
+
+  const lanes = new Map<string | null, number[]>();
+  for (const entry of active) {
+    lanes.set(entry.lane, [...(lanes.get(entry.lane) || []), entry.position ?? 0]);
+  }
+
+  for (const [lane, positions] of lanes) {
+    const sorted = [...positions].sort((a, b) => a - b);
+    const expected = sorted.map((_, i) => i + 1);
+    if (sorted.join(',') !== expected.join(',')) {
+      failures.push(`${label}: lane ${lane ?? 'any'} has positions [${sorted.join(', ')}], expected [${expected.join(', ')}]`);
+    }
+  }
+
+  return failures;
+}
+
+/**
+ * The event log alone must rebuild the same queue - drivers already charging are out of line
+ */
+export function findReplayMismatch(active: QueueSnapshotEntry[], replayed: ReplayedEntry[] | null, label: string): string[] {
+  const describe = (entries: QueueSnapshotEntry[]) =>
+    entries.map(entry => `${entry.user}@${entry.lane ?? 'any'}#${entry.position}`).sort().join(',');
+
+  const replayedActive = (replayed ?? [])
+    .filter(entry => entry.status !== 'charging')
+    .map(entry => ({ user: entry.userWhatsapp, lane: entry.lane, position: entry.position }));
+
+  return describe(replayedActive) === describe(active)
+    ? []
+    : [`${label}: replayed queue events do not match the live queue`];
+}
@@ -0,0 +1,62 @@
+// src/testing/queue-overflow-checks.ts - FULL-QUEUE WAITLIST: ONE DRIVER PER OPEN SPOT
+import assert from 'node:assert/strict';
+import { eq } from 'drizzle-orm';
+import { db } from '../config/database';
+import { queues, queueWaitlist } from '../db/schema';
+import { queueOverflowService } from '../services/queue-overflow';
+import { createStation, createUser, messagesTo } from './fixtures';
+import type { Check } from './test-runner';
+
+/**
+ * A station whose two-place queue is full
+ */
+async function fullStation() {
+  const stationId = await createStation(await createUser('Owner'), { maxQueueLength: 2 });
+  const queued = [await createUser(), await createUser()];
+  await db.insert(queues).values(queued.map((userWhatsapp, i) => ({
+    stationId,
+    userWhatsapp,
+    position: i + 1,
+    status: 'waiting',
+  })));
+  return { stationId, queued };
+}
+
+function spotOffers(userWhatsapp: string): number {
+  return messagesTo(userWhatsapp).filter(text => text.includes('A Spot Opened Up')).length;
+}
+
+export const queueOverflowChecks: Check[] = [
+  {
+    name: 'an opened spot is offered to the oldest waitlisted driver only, and held for them',
+    run: async () => {
+      const { stationId, queued } = await fullStation();
+      const [oldest, next] = [await createUser(), await createUser()];
+
+      assert.equal((await queueOverflowService.joinWaitlist(oldest, stationId)).place, 1);
+      assert.equal((await queueOverflowService.joinWaitlist(next, stationId)).place, 2);
+      assert.equal(spotOffers(oldest) + spotOffers(next), 0);
+
+      await db.update(queues).set({ status: 'cancelled' }).where(eq(queues.userWhatsapp, queued[0]));
+      await queueOverflowService.notifyWaitlist(stationId);
+      await queueOverflowService.sweepWaitlist();
+
+      assert.equal(spotOffers(oldest), 1);
+      assert.equal(spotOffers(next), 0);
+    },
+  },
+  {
+    name: 'joining the queue closes the waitlist entry and joining the waitlist twice keeps one place',
+    run: async () => {
+      const { stationId } = await fullStation();
+      const driver = await createUser();
+
+      await queueOverflowService.joinWaitlist(driver, stationId);
+      assert.equal((await queueOverflowService.joinWaitlist(driver, stationId)).place, 1);
+
+      await queueOverflowService.markJoined(driver, stationId);
+      const entries = await db.select().from(queueWaitlist).where(eq(queueWaitlist.userWhatsapp, driver));
+      assert.deepEqual(entries.map(entry => entry.status), ['joined']);
+    },
+  },
+];
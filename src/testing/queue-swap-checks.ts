@@ -0,0 +1,73 @@
+// src/testing/queue-swap-checks.ts - SWAPPING PLACES WITH THE DRIVER BEHIND
+import assert from 'node:assert/strict';
+import { and, eq } from 'drizzle-orm';
+import { db } from '../config/database';
+import { queues } from '../db/schema';
+import { queueSwapService } from '../services/queue-swap';
+import { createStation, createUser } from './fixtures';
+import type { Check } from './test-runner';
+
+/**
+ * Three drivers waiting in the CCS2 lane, in order
+ */
+async function waitingLane() {
+  const stationId = await createStation(await createUser('Owner'));
+  const drivers = [await createUser(), await createUser(), await createUser()];
+  await db.insert(queues).values(drivers.map((userWhatsapp, i) => ({
+    stationId,
+    userWhatsapp,
+    position: i + 1,
+    status: 'waiting',
+    requestedConnectorType: 'CCS2',
+  })));
+  return { stationId, drivers };
+}
+
+async function positionOf(userWhatsapp: string, stationId: number): Promise<number | undefined> {
+  const [entry] = await db
+    .select({ position: queues.position })
+    .from(queues)
+    .where(and(eq(queues.userWhatsapp, userWhatsapp), eq(queues.stationId, stationId)));
+  return entry?.position;
+}
+
+export const queueSwapChecks: Check[] = [
+  {
+    name: 'an accepted offer swaps the two drivers and no one else',
+    run: async () => {
+      const { stationId, drivers: [first, second, third] } = await waitingLane();
+
+      const offered = await queueSwapService.offerSwap(first, stationId);
+      assert.ok(offered.offer);
+      assert.equal(offered.offer.toUserWhatsapp, second);
+      assert.equal((await queueSwapService.acceptSwap(third, offered.offer.id)).success, false);
+
+      const accepted = await queueSwapService.acceptSwap(second, offered.offer.id);
+      assert.equal(accepted.success, true);
+      assert.deepEqual(
+        [await positionOf(first, stationId), await positionOf(second, stationId), await positionOf(third, stationId)],
+        [2, 1, 3]
+      );
+
+      // Answered offers can't be used again
+      assert.equal((await queueSwapService.acceptSwap(second, offered.offer.id)).success, false);
+    },
+  },
+  {
+    name: 'an offer is not applied once the queue has moved',
+    run: async () => {
+      const { stationId, drivers: [first, second] } = await waitingLane();
+      const offered = await queueSwapService.offerSwap(second, stationId);
+      assert.ok(offered.offer);
+
+      // The driver ahead is called to charge - everyone moves up
+      await db.update(queues).set({ status: 'charging', position: 0 }).where(eq(queues.userWhatsapp, first));
+      await db.update(queues).set({ position: 1 }).where(eq(queues.userWhatsapp, second));
+
+      const accepted = await queueSwapService.acceptSwap(offered.offer.toUserWhatsapp, offered.offer.id);
+      assert.equal(accepted.success, false);
+      assert.equal(accepted.offer?.status, 'failed');
+      assert.equal(await positionOf(second, stationId), 1);
+    },
+  },
+];
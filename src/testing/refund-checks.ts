@@ -0,0 +1,128 @@
+// src/testing/refund-checks.ts - FULL & PARTIAL REFUNDS NEVER PAY OUT MORE THAN WAS CAPTURED
+import assert from 'node:assert/strict';
+import { and, eq } from 'drizzle-orm';
+import { db } from '../config/database';
+import { payments, walletTransactions } from '../db/schema';
+import { paymentService, refundService } from '../services/payment';
+import { walletService } from '../services/wallet';
+import { createSession, createStation, createUser } from './fixtures';
+import type { Check } from './test-runner';
+
+/**
+ * A ₹120 session paid from a ₹500 wallet
+ */
+async function walletPaidSession() {
+  const owner = await createUser('Owner');
+  const driver = await createUser();
+  const stationId = await createStation(owner);
+  const sessionId = await createSession(driver, stationId, { totalCost: '120.00' });
+
+  await walletService.creditTopUp(driver, 500, `topup_${sessionId}`);
+  await paymentService.requestSessionPayment(sessionId);
+
+  const refund = (amount: number) => refundService.refundPayment({
+    sessionId,
+    amount,
+    reason: 'Charger stopped early',
+    actorWhatsappId: owner,
+    actorType: 'owner',
+  });
+  return { driver, sessionId, refund };
+}
+
+async function refundCredits(driver: string) {
+  return db
+    .select()
+    .from(walletTransactions)
+    .where(and(eq(walletTransactions.userWhatsapp, driver), eq(walletTransactions.type, 'refund')));
+}
+
+export const refundChecks: Check[] = [
+  {
+    name: 'partial refunds add up to the captured amount and racing refunds never pass it',
+    run: async () => {
+      const { driver, sessionId, refund } = await walletPaidSession();
+      assert.equal(await walletService.getBalance(driver), 380);
+
+      const first = await refund(50);
+      assert.equal(first.status, 'partially_refunded');
+
+      const racing = await Promise.all([refund(70), refund(70)]);
+      assert.equal(racing.filter(outcome => outcome.success).length, 1);
+
+      const [payment] = await db.select().from(payments).where(eq(payments.sessionId, sessionId));
+      assert.equal(payment.status, 'refunded');
+      assert.equal(parseFloat(payment.refundAmount || '0'), 120);
+
+      const credits = await refundCredits(driver);
+      assert.equal(credits.length, 2);
+      assert.equal(new Set(credits.map(credit => credit.reference)).size, 2);
+      assert.equal(await walletService.getBalance(driver), 500);
+    },
+  },
+  {
+    name: 'a wallet credit that posted before an error is kept on the payment and not refunded twice',
+    run: async () => {
+      const { driver, sessionId, refund } = await walletPaidSession();
+
+      const creditRefund = walletService.creditRefund;
+      let failNextCredit = true;
+      walletService.creditRefund = async (...args) => {
+        const posting = await creditRefund.apply(walletService, args);
+        if (failNextCredit) {
+          failNextCredit = false;
+          throw new Error('connection reset after commit');
+        }
+        return posting;
+      };
+
+      try {
+        const outcome = await refund(50);
+        assert.equal(outcome.success, true);
+      } finally {
+        walletService.creditRefund = creditRefund;
+      }
+
+      const [payment] = await db.select().from(payments).where(eq(payments.sessionId, sessionId));
+      assert.equal(parseFloat(payment.refundAmount || '0'), 50);
+      assert.equal((await refundCredits(driver)).length, 1);
+
+      assert.equal((await refund(70)).success, true);
+      assert.equal((await refund(1)).success, false);
+      assert.equal(await walletService.getBalance(driver), 500);
+    },
+  },
+  {
+    name: 'fleet-billed session payments are refused instead of sent to the gateway',
+    run: async () => {
+      const owner = await createUser('Owner');
+      const driver = await createUser();
+      const stationId = await createStation(owner);
+      const sessionId = await createSession(driver, stationId, { totalCost: '150.00', paymentStatus: 'paid' });
+      await db.insert(payments).values({
+        paymentId: `pay_fleet_${sessionId}`,
+        sessionId,
+        userWhatsapp: driver,
+        stationId,
+        amount: '150.00',
+        status: 'paid',
+        method: 'fleet_account',
+        gateway: 'fleet',
+      });
+
+      const outcome = await refundService.refundPayment({
+        sessionId,
+        amount: 50,
+        reason: 'Disputed',
+        actorWhatsappId: owner,
+        actorType: 'owner',
+      });
+
+      assert.equal(outcome.success, false);
+      assert.match(outcome.error || '', /fleet invoice/);
+      const [payment] = await db.select().from(payments).where(eq(payments.sessionId, sessionId));
+      assert.equal(parseFloat(payment.refundAmount || '0'), 0);
+      assert.equal(payment.status, 'paid');
+    },
+  },
+];
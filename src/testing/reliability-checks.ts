@@ -0,0 +1,74 @@
+// src/testing/reliability-checks.ts - NO-SHOW PENALTIES, DEPOSITS & BOOKING COOLDOWNS
+import assert from 'node:assert/strict';
+import { eq } from 'drizzle-orm';
+import { db } from '../config/database';
+import { reservations } from '../db/schema';
+import { getReliabilityConfig } from '../config/env';
+import { reliabilityService } from '../services/reliability';
+import { reservationService } from '../services/reservation';
+import { walletService } from '../services/wallet';
+import { createStation, createUser, messagesTo } from './fixtures';
+import type { Check } from './test-runner';
+
+const MINUTE_MS = 60 * 1000;
+
+export const reliabilityChecks: Check[] = [
+  {
+    name: 'a missed booking is released once and costs the driver one no-show',
+    run: async () => {
+      const driver = await createUser();
+      const stationId = await createStation(await createUser('Owner'));
+      const slotStart = new Date(Date.now() - 30 * MINUTE_MS);
+      await db.insert(reservations).values({
+        reservationNumber: 'RSV-NOSHOW-1',
+        userWhatsapp: driver,
+        stationId,
+        slotStart,
+        slotEnd: new Date(slotStart.getTime() + 45 * MINUTE_MS),
+      });
+
+      await reservationService.sweep();
+      await reservationService.sweep();
+      await reliabilityService.recordNoShow(driver, 'reservation', 'RSV-NOSHOW-1');
+
+      const [booking] = await db.select().from(reservations).where(eq(reservations.reservationNumber, 'RSV-NOSHOW-1'));
+      assert.equal(booking.status, 'no_show');
+
+      const standing = await reliabilityService.getStanding(driver);
+      assert.equal(standing.noShows, 1);
+      assert.equal(standing.score, 100 - getReliabilityConfig().noShowPenalty);
+      assert.equal(messagesTo(driver).filter(text => text.includes('Booking Released')).length, 1);
+    },
+  },
+  {
+    name: 'low scores ask for a booking deposit and a no-show below the floor pauses booking',
+    run: async () => {
+      const config = getReliabilityConfig();
+      const driver = await createUser();
+      const stationId = await createStation(await createUser('Owner'));
+      const slot = new Date(Date.now() + 3 * 60 * MINUTE_MS);
+      slot.setUTCMinutes(0, 0, 0);
+
+      // Late cancels lower the score without a cooldown
+      let cancels = 0;
+      while ((await reliabilityService.getStanding(driver)).score >= config.depositBelow) {
+        await reliabilityService.recordLateCancel(driver, 'queue', `hold_check_${++cancels}`);
+      }
+      assert.equal((await reliabilityService.getStanding(driver)).cooldownUntil, null);
+
+      const unfunded = await reservationService.bookSlot(driver, stationId, slot);
+      assert.match(unfunded.error || '', /deposit/);
+
+      await walletService.creditTopUp(driver, config.depositAmount, 'topup_deposit_check');
+      const booked = await reservationService.bookSlot(driver, stationId, slot);
+      assert.equal(booked.success, true);
+      assert.equal(parseFloat(booked.reservation?.depositAmount || '0'), config.depositAmount);
+      assert.equal(await walletService.getBalance(driver), 0);
+
+      await reliabilityService.recordNoShow(driver, 'queue', 'hold_check_no_show');
+      assert.ok((await reliabilityService.getStanding(driver)).cooldownUntil);
+      const paused = await reservationService.bookSlot(driver, stationId, new Date(slot.getTime() + 60 * MINUTE_MS));
+      assert.match(paused.error || '', /paused/);
+    },
+  },
+];
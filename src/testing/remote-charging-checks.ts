@@ -0,0 +1,68 @@
+// src/testing/remote-charging-checks.ts - REMOTE START/STOP WITH PHOTO FALLBACK
+import assert from 'node:assert/strict';
+import { eq } from 'drizzle-orm';
+import { db } from '../config/database';
+import { chargePoints, chargingSessions, stationPorts } from '../db/schema';
+import { sessionService } from '../services/session';
+import { createPorts, createSession, createStation, createUser, messagesTo } from './fixtures';
+import type { Check } from './test-runner';
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * A station whose only port is on a networked charger that isn't connected
+ */
+async function networkedStation() {
+  const stationId = await createStation(await createUser('Owner'));
+  const [portId] = await createPorts(stationId, ['CCS2']);
+  const chargePointId = `CP-CHECK-${stationId}`;
+  await db.insert(chargePoints).values({ chargePointId, stationId });
+  await db.update(stationPorts).set({ chargePointId, connectorId: 1 }).where(eq(stationPorts.id, portId));
+  return { stationId, portId };
+}
+
+async function getSession(sessionId: string) {
+  const [session] = await db.select().from(chargingSessions).where(eq(chargingSessions.sessionId, sessionId));
+  return session;
+}
+
+export const remoteChargingChecks: Check[] = [
+  {
+    name: 'stopping on a charger that does not answer falls back to the END photo',
+    run: async () => {
+      const { stationId, portId } = await networkedStation();
+      const driver = await createUser();
+      const sessionId = await createSession(driver, stationId, {
+        status: 'active',
+        portId,
+        meterSource: 'ocpp',
+        verificationStatus: 'charger_metered',
+        startMeterReading: '1250.000',
+        endedAt: null,
+      });
+
+      assert.equal(await sessionService.stopSession(driver, stationId), true);
+
+      const session = await getSession(sessionId);
+      assert.equal(session.meterSource, 'photo');
+      assert.equal(session.verificationStatus, 'awaiting_end_photo');
+      assert.ok(messagesTo(driver).length > 0);
+    },
+  },
+  {
+    name: 'a remote start the charger never followed up switches to the START photo',
+    run: async () => {
+      const { stationId, portId } = await networkedStation();
+      const values = { status: 'initiated', portId, meterSource: 'ocpp', verificationStatus: 'awaiting_charger', endedAt: null };
+      const stalled = await createSession(await createUser(), stationId, { ...values, remoteStartAt: new Date(Date.now() - 10 * MINUTE_MS) });
+      const starting = await createSession(await createUser(), stationId, { ...values, remoteStartAt: new Date(Date.now() - MINUTE_MS) });
+
+      assert.equal(await sessionService.fallBackStalledRemoteStarts(), 1);
+      assert.equal((await getSession(stalled)).meterSource, 'photo');
+      assert.equal((await getSession(starting)).meterSource, 'ocpp');
+
+      // Nothing left to fall back on the next run
+      assert.equal(await sessionService.fallBackStalledRemoteStarts(), 0);
+    },
+  },
+];
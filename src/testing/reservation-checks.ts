@@ -0,0 +1,108 @@
+// src/testing/reservation-checks.ts - BOOKINGS: CHARGER CAPACITY & CHECK-IN INTO THE LIVE QUEUE
+import assert from 'node:assert/strict';
+import { and, eq } from 'drizzle-orm';
+import { db } from '../config/database';
+import { queues, reservations, stationPorts, users } from '../db/schema';
+import { queueService } from '../services/queue';
+import { reservationService } from '../services/reservation';
+import { createPorts, createStation, createUser } from './fixtures';
+import type { Check } from './test-runner';
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * A half-hour slot start a few hours out - well past the booking lead time
+ */
+function laterSlot(): Date {
+  const start = new Date(Date.now() + 3 * 60 * MINUTE_MS);
+  start.setUTCMinutes(start.getUTCMinutes() < 30 ? 30 : 60, 0, 0);
+  return start;
+}
+
+async function createDriver(connectorType: string): Promise<string> {
+  const driver = await createUser();
+  await db.update(users).set({ connectorType }).where(eq(users.whatsappId, driver));
+  return driver;
+}
+
+/**
+ * A booking whose check-in window is open now
+ */
+async function bookingStartingSoon(userWhatsapp: string, stationId: number): Promise<string> {
+  const reservationNumber = `RSV-CHECK-${userWhatsapp.slice(-5)}`;
+  const slotStart = new Date(Date.now() + 5 * MINUTE_MS);
+  await db.insert(reservations).values({
+    reservationNumber,
+    userWhatsapp,
+    stationId,
+    slotStart,
+    slotEnd: new Date(slotStart.getTime() + 45 * MINUTE_MS),
+  });
+  return reservationNumber;
+}
+
+async function queueEntry(userWhatsapp: string, stationId: number) {
+  const [entry] = await db
+    .select()
+    .from(queues)
+    .where(and(eq(queues.userWhatsapp, userWhatsapp), eq(queues.stationId, stationId)));
+  return entry;
+}
+
+export const reservationChecks: Check[] = [
+  {
+    name: 'bookings only count chargers the driver can plug into that are not in maintenance',
+    run: async () => {
+      const stationId = await createStation(await createUser('Owner'), { totalPorts: 4 });
+      const [ccs2] = await createPorts(stationId, ['CCS2', 'Type2']);
+      await db.update(stationPorts).set({ status: 'maintenance' }).where(eq(stationPorts.id, ccs2));
+
+      const ccs2Driver = await createDriver('CCS2');
+      const refused = await reservationService.bookSlot(ccs2Driver, stationId, laterSlot());
+      assert.equal(refused.success, false);
+
+      const type2Driver = await createDriver('Type2');
+      assert.equal((await reservationService.bookSlot(type2Driver, stationId, laterSlot())).success, true);
+
+      // The one Type2 charger is now booked for that slot
+      const secondType2 = await createDriver('Type2');
+      assert.equal((await reservationService.bookSlot(secondType2, stationId, laterSlot())).success, false);
+    },
+  },
+  {
+    name: 'checking in while already in the station queue is refused and leaves the queue entry alone',
+    run: async () => {
+      const stationId = await createStation(await createUser('Owner'));
+      await createPorts(stationId, ['CCS2']);
+      const ahead = await createDriver('CCS2');
+      const driver = await createDriver('CCS2');
+      await db.insert(queues).values([
+        { stationId, userWhatsapp: ahead, position: 1, status: 'charging', requestedConnectorType: 'CCS2' },
+        { stationId, userWhatsapp: driver, position: 2, status: 'waiting', requestedConnectorType: 'CCS2' },
+      ]);
+      const reservationNumber = await bookingStartingSoon(driver, stationId);
+
+      const result = await reservationService.checkIn(driver, reservationNumber);
+      assert.equal(result.success, false);
+      assert.match(result.error || '', /already in the queue/);
+
+      const [booking] = await db.select().from(reservations).where(eq(reservations.reservationNumber, reservationNumber));
+      assert.equal(booking.status, 'booked');
+      const entry = await queueEntry(driver, stationId);
+      assert.equal(entry.status, 'waiting');
+      assert.equal(entry.position, 2);
+    },
+  },
+  {
+    name: 'a reservation hold never overwrites a driver who is already charging',
+    run: async () => {
+      const stationId = await createStation(await createUser('Owner'));
+      await createPorts(stationId, ['CCS2', 'CCS2']);
+      const driver = await createDriver('CCS2');
+      await db.insert(queues).values({ stationId, userWhatsapp: driver, position: 1, status: 'charging', requestedConnectorType: 'CCS2' });
+
+      assert.equal(await queueService.admitReservation(driver, stationId, new Date(Date.now() + 15 * MINUTE_MS)), null);
+      assert.equal((await queueEntry(driver, stationId)).status, 'charging');
+    },
+  },
+];
@@ -0,0 +1,102 @@
+// src/testing/tariff-checks.ts - BILL MATH: ENERGY BANDS, FEES, DISCOUNTS & TAX
+import assert from 'node:assert/strict';
+import { tariffService, type Tariff } from '../services/tariff';
+import type { Check } from './test-runner';
+
+const TARIFF: Tariff = {
+  stationId: 1,
+  energyPricePerKwh: 20,
+  timeOfUseBands: [{ startHour: 18, endHour: 22, pricePerKwh: 25, label: 'Evening peak' }],
+  sessionFee: 5,
+  sessionFeePercent: 5,
+  idleFeePerMinute: 2,
+  idleGraceMinutes: 10,
+  minimumBill: 0,
+  taxRate: 18,
+};
+
+// IST wall-clock times on a fixed day
+const ist = (hour: number, minute = 0) => new Date(Date.UTC(2026, 0, 5, hour, minute) - 5.5 * 60 * 60 * 1000);
+
+export const tariffChecks: Check[] = [
+  {
+    name: 'a bill adds up from energy, session fee, idle fee and tax',
+    run: () => {
+      const bill = tariffService.calculateBill(TARIFF, {
+        energyKwh: 10,
+        startTime: ist(14),
+        endTime: ist(15),
+        idleMinutes: 15,
+      });
+
+      assert.equal(bill.energyCost, 200);
+      assert.equal(bill.sessionFee, 10);         // 5% of energy beats the flat ₹5
+      assert.equal(bill.idleFee, 30);
+      assert.equal(bill.subtotal, 240);
+      assert.equal(bill.taxAmount, 43.2);
+      assert.equal(bill.total, 283.2);
+    },
+  },
+  {
+    name: 'energy across a time-of-use boundary is priced per band',
+    run: () => {
+      const bill = tariffService.calculateBill(TARIFF, { energyKwh: 10, startTime: ist(17), endTime: ist(19) });
+
+      assert.deepEqual(
+        bill.energyCharges.map(charge => [charge.kwh, charge.rate]),
+        [[5, 20], [5, 25]]
+      );
+      assert.equal(bill.energyCost, 225);
+      assert.equal(bill.energyRate, 22.5);
+    },
+  },
+  {
+    name: 'a discount never takes the bill below zero and is applied before tax',
+    run: () => {
+      const bill = tariffService.calculateBill(TARIFF, {
+        energyKwh: 2,
+        startTime: ist(10),
+        endTime: ist(11),
+        discount: { type: 'flat', value: 1000 },
+      });
+
+      assert.equal(bill.discountAmount, 45);      // ₹40 energy + ₹5 session fee
+      assert.equal(bill.subtotal, 0);
+      assert.equal(bill.taxAmount, 0);
+      assert.equal(bill.total, 0);
+    },
+  },
+  {
+    name: 'percentage discounts respect their cap and minimum bill',
+    run: () => {
+      const input = { energyKwh: 10, startTime: ist(10), endTime: ist(11) };
+
+      const capped = tariffService.calculateBill(TARIFF, {
+        ...input,
+        discount: { type: 'percentage', value: 50, maxDiscount: 30 },
+      });
+      assert.equal(capped.discountAmount, 30);
+      assert.equal(capped.subtotal, 180);
+
+      const belowMinimum = tariffService.calculateBill(TARIFF, {
+        ...input,
+        discount: { type: 'percentage', value: 50, minAmount: 500 },
+      });
+      assert.equal(belowMinimum.discountAmount, 0);
+    },
+  },
+  {
+    name: 'the minimum bill tops up small sessions',
+    run: () => {
+      const bill = tariffService.calculateBill({ ...TARIFF, minimumBill: 50 }, {
+        energyKwh: 1,
+        startTime: ist(10),
+        endTime: ist(11),
+      });
+
+      assert.equal(bill.minimumBillTopUp, 25);    // ₹20 energy + ₹5 session fee
+      assert.equal(bill.subtotal, 50);
+      assert.equal(bill.total, 59);
+    },
+  },
+];
@@ -0,0 +1,87 @@
+// src/testing/telemetry-checks.ts - METER SAMPLES, POWER STATS & PROGRESS UPDATES
+import assert from 'node:assert/strict';
+import { eq } from 'drizzle-orm';
+import { db } from '../config/database';
+import { chargingSessions } from '../db/schema';
+import { sessionService } from '../services/session';
+import { sessionTelemetryService } from '../services/session-telemetry';
+import { createSession, createStation, createUser, messagesTo } from './fixtures';
+import type { Check } from './test-runner';
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * A photo-metered session that started charging an hour ago
+ */
+async function chargingSession(driver: string) {
+  const stationId = await createStation(await createUser('Owner'));
+  return createSession(driver, stationId, { status: 'active', endedAt: null, startMeterReading: '1000.000' });
+}
+
+async function getSession(sessionId: string) {
+  const [session] = await db.select().from(chargingSessions).where(eq(chargingSessions.sessionId, sessionId));
+  return session;
+}
+
+export const telemetryChecks: Check[] = [
+  {
+    name: 'samples keep the highest power seen and work it out from energy when the charger omits it',
+    run: async () => {
+      const sessionId = await chargingSession(await createUser());
+      const at = (minutesAgo: number) => new Date(Date.now() - minutesAgo * MINUTE_MS);
+
+      assert.equal(await sessionTelemetryService.recordSample(sessionId, { energyKwh: 5, powerKw: 30, source: 'ocpp', sampledAt: at(30) }), true);
+      // 15 kWh in 15 minutes is 60 kW
+      assert.equal(await sessionTelemetryService.recordSample(sessionId, { energyKwh: 20, source: 'ocpp', sampledAt: at(15) }), true);
+      assert.equal(await sessionTelemetryService.recordSample(sessionId, { energyKwh: 25, powerKw: 20, source: 'ocpp', sampledAt: at(0) }), true);
+
+      const session = await getSession(sessionId);
+      assert.equal(parseFloat(session.peakPowerKw || '0'), 60);
+      assert.equal(parseFloat(session.energyDelivered || '0'), 25);
+      assert.equal(parseFloat((await sessionTelemetryService.getLatestSample(sessionId))!.powerKw || '0'), 20);
+    },
+  },
+  {
+    name: 'a session completed from photos has no peak power and samples after completion are refused',
+    run: async () => {
+      const sessionId = await chargingSession(await createUser());
+
+      await sessionService.completeSessionAfterVerification(sessionId, 1020, 20);
+
+      const session = await getSession(sessionId);
+      assert.equal(session.status, 'completed');
+      assert.equal(session.peakPowerKw, null);
+      assert.equal(parseFloat(session.averagePowerKw || '0'), 20);
+
+      assert.equal(await sessionTelemetryService.recordSample(sessionId, { energyKwh: 25, powerKw: 50, source: 'ocpp' }), false);
+      assert.equal((await getSession(sessionId)).peakPowerKw, null);
+    },
+  },
+  {
+    name: 'progress updates follow the driver\'s cadence and only go out with a new reading',
+    run: async () => {
+      const driver = await createUser();
+      const quiet = await createUser();
+      const sessionId = await chargingSession(driver);
+      const quietSessionId = await chargingSession(quiet);
+      await sessionTelemetryService.recordSample(quietSessionId, { energyKwh: 10, powerKw: 22, source: 'ocpp' });
+
+      assert.equal(await sessionTelemetryService.setProgressCadence(driver, 3), false);
+      assert.equal(await sessionTelemetryService.setProgressCadence(driver, 15), true);
+      assert.equal(await sessionTelemetryService.setProgressCadence(quiet, 0), true);
+      assert.equal(await sessionTelemetryService.getProgressCadence(quiet), 0);
+
+      // Nothing to report until the charger sends a reading
+      await sessionTelemetryService.sendDueProgressUpdates();
+      assert.equal(messagesTo(driver).length, 0);
+
+      await sessionTelemetryService.recordSample(sessionId, { energyKwh: 12, powerKw: 22, source: 'ocpp' });
+      await sessionTelemetryService.sendDueProgressUpdates();
+      await sessionTelemetryService.sendDueProgressUpdates();
+
+      assert.equal(messagesTo(driver).length, 1);
+      assert.match(messagesTo(driver)[0], /12\.00/);
+      assert.equal(messagesTo(quiet).length, 0);
+    },
+  },
+];
@@ -0,0 +1,72 @@
+// src/testing/test-database.ts - IN-PROCESS POSTGRES (PGLITE) BEHIND THE NEON HTTP DRIVER
+// The app's own `db` (neon-http) is pointed at an embedded database, so checks run the real
+// queries, batches and migrations without a server.
+import { PGlite, type Transaction } from '@electric-sql/pglite';
+import { neonConfig } from '@neondatabase/serverless';
+import { migrate } from 'drizzle-orm/neon-http/migrator';
+import { sql } from 'drizzle-orm';
+import { db } from '../config/database';
+
+interface NeonQuery {
+  query: string;
+  params: (string | null)[];
+}
+
+let pglite: PGlite | null = null;
+let rawParsers: Record<number, (value: string) => string> = {};
+let tables: string[] = [];
+
+// Neon returns text values and lets the client parse them
+async function runQuery(target: PGlite | Transaction, { query, params }: NeonQuery) {
+  const result = await target.query<unknown[]>(query, params, { rowMode: 'array', parsers: rawParsers });
+  return {
+    fields: result.fields.map(field => ({ name: field.name, dataTypeID: field.dataTypeID })),
+    rows: result.rows,
+    rowCount: result.affectedRows ?? result.rows.length,
+    command: '',
+  };
+}
+
+async function handleNeonRequest(_url: string, init: { body: string }): Promise<Response> {
+  const body = JSON.parse(init.body) as NeonQuery | { queries: NeonQuery[] };
+
+  try {
+    const payload = 'queries' in body
+      // db.batch - one transaction, as on Neon
+      ? { results: await pglite!.transaction(async tx => {
+        const results = [];
+        for (const query of body.queries) results.push(await runQuery(tx, query));
+        return results;
+      }) }
+      : await runQuery(pglite!, body);
+
+    return new Response(JSON.stringify(payload), { status: 200, headers: { 'content-type': 'application/json' } });
+  } catch (error) {
+    const { message, code, detail, constraint } = error as { message: string; code?: string; detail?: string; constraint?: string };
+    return new Response(JSON.stringify({ message, code, detail, constraint }), { status: 400 });
+  }
+}
+
+/**
+ * Boot the embedded database and apply ./migrations through the app's migrator
+ */
+export async function startTestDatabase(): Promise<void> {
+  pglite = new PGlite();
+
+  const types = await pglite.query<{ oid: number }>('SELECT oid::int AS oid FROM pg_type');
+  rawParsers = Object.fromEntries(types.rows.map(row => [row.oid, (value: string) => value]));
+
+  neonConfig.fetchFunction = handleNeonRequest;
+  await migrate(db, { migrationsFolder: './migrations' });
+
+  const rows = await pglite.query<{ tablename: string }>(`SELECT tablename FROM pg_tables WHERE schemaname = 'public'`);
+  tables = rows.rows.map(row => row.tablename);
+}
+
+/**
+ * Empty every table so each check starts from a clean database
+ */
+export async function resetTestDatabase(): Promise<void> {
+  if (tables.length === 0) return;
+  await db.execute(sql.raw(`TRUNCATE ${tables.map(table => `"${table}"`).join(', ')} RESTART IDENTITY CASCADE`));
+}
@@ -0,0 +1,39 @@
+// src/testing/wallet-checks.ts - PREPAID WALLET PAYS EACH SESSION EXACTLY ONCE
+import assert from 'node:assert/strict';
+import { and, eq } from 'drizzle-orm';
+import { db } from '../config/database';
+import { chargingSessions, payments, walletTransactions } from '../db/schema';
+import { paymentService } from '../services/payment';
+import { walletService } from '../services/wallet';
+import { createSession, createStation, createUser } from './fixtures';
+import type { Check } from './test-runner';
+
+export const walletChecks: Check[] = [
+  {
+    name: 'a wallet pays a session once however many payment requests arrive together',
+    run: async () => {
+      const driver = await createUser();
+      const stationId = await createStation(await createUser('Owner'));
+      const sessionId = await createSession(driver, stationId, { totalCost: '120.00' });
+      await walletService.creditTopUp(driver, 500, `topup_${sessionId}`);
+
+      await Promise.all([
+        paymentService.requestSessionPayment(sessionId),
+        paymentService.requestSessionPayment(sessionId),
+      ]);
+
+      const sessionPayments = await db.select().from(payments).where(eq(payments.sessionId, sessionId));
+      assert.deepEqual(sessionPayments.map(payment => [payment.method, payment.status]), [['wallet', 'paid']]);
+
+      const debits = await db
+        .select()
+        .from(walletTransactions)
+        .where(and(eq(walletTransactions.type, 'session_payment'), eq(walletTransactions.reference, sessionId)));
+      assert.equal(debits.length, 1);
+      assert.equal(await walletService.getBalance(driver), 380);
+
+      const [session] = await db.select().from(chargingSessions).where(eq(chargingSessions.sessionId, sessionId));
+      assert.equal(session.paymentStatus, 'paid');
+    },
+  },
+];
@@ -0,0 +1,16 @@
+// src/utils/admin-auth.ts - ADMIN API KEY CHECK SHARED BY EVERY ADMIN ENDPOINT
+import { timingSafeEqual } from 'crypto';
+import type { Request } from 'express';
+import { env } from '../config/env';
+
+/**
+ * True when the request carries the admin API key. Compared in constant time;
+ * no admin endpoint is open when the key isn't configured.
+ */
+export function isAdminRequest(req: Request): boolean {
+  if (!env.ADMIN_API_KEY) return false;
+
+  const expected = Buffer.from(env.ADMIN_API_KEY);
+  const given = Buffer.from(req.get('x-admin-key') ?? '');
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
@@ -0,0 +1,105 @@
+// src/utils/pdf-writer.ts - MINIMAL DEPENDENCY-FREE PDF GENERATION (TEXT & RULES)
+
+// A4 in PDF points
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+
+export interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+  align?: 'left' | 'right';
+}
+
+/**
+ * Tiny PDF builder for invoices and statements.
+ * Uses the built-in Helvetica fonts, so no font embedding is needed.
+ * Coordinates are measured from the top-left corner of the page.
+ */
+export class SimplePdfDocument {
+  private pages: string[][] = [[]];
+
+  get pageWidth(): number {
+    return PAGE_WIDTH;
+  }
+
+  get pageHeight(): number {
+    return PAGE_HEIGHT;
+  }
+
+  addPage(): void {
+    this.pages.push([]);
+  }
+
+  text(x: number, y: number, value: string, options: PdfTextOptions = {}): void {
+    const size = options.size ?? 10;
+    const font = options.bold ? 'F2' : 'F1';
+    const safe = this.toWinAnsi(value);
+    // Right-aligned text uses an approximate Helvetica glyph width
+    const left = options.align === 'right' ? x - safe.length * size * 0.5 : x;
+
+    this.current().push(
+      `BT /${font} ${size} Tf ${left.toFixed(2)} ${(PAGE_HEIGHT - y).toFixed(2)} Td (${this.escape(safe)}) Tj ET`
+    );
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, width = 0.5): void {
+    this.current().push(
+      `${width} w ${x1} ${PAGE_HEIGHT - y1} m ${x2} ${PAGE_HEIGHT - y2} l S`
+    );
+  }
+
+  toBuffer(): Buffer {
+    const objects: string[] = [];
+    const pageCount = this.pages.length;
+
+    // 1: catalog, 2: page tree, 3-4: fonts, then a page + content stream pair per page
+    const pageObjectIds = this.pages.map((_, index) => 5 + index * 2);
+
+    objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+    objects.push(`<< /Type /Pages /Kids [${pageObjectIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageCount} >>`);
+    objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+    objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+
+    this.pages.forEach((operations, index) => {
+      const content = operations.join('\n');
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageObjectIds[index] + 1} 0 R >>`
+      );
+      objects.push(`<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`);
+    });
+
+    let body = '%PDF-1.4\n';
+    const offsets: number[] = [];
+
+    objects.forEach((object, index) => {
+      offsets.push(Buffer.byteLength(body, 'latin1'));
+      body += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    });
+
+    const xrefOffset = Buffer.byteLength(body, 'latin1');
+    body += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    body += offsets.map(offset => `${offset.toString().padStart(10, '0')} 00000 n \n`).join('');
+    body += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return Buffer.from(body, 'latin1');
+  }
+
+  private current(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+
+  private escape(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/\(/g, '\\(').replace(/\)/g, '\\)');
+  }
+
+  /**
+   * Standard fonts only cover WinAnsi - map the rupee sign and drop the rest
+   */
+  private toWinAnsi(value: string): string {
+    return value
+      .replace(/₹/g, 'Rs. ')
+      .replace(/[–—]/g, '-')
+      .replace(/[^\x20-\x7E\xA0-\xFF]/g, '');
+  }
+}
@@ -0,0 +1,10 @@
+// src/utils/queue-lock.ts - PER-STATION QUEUE LOCK SHARED BY EVERY POSITION CHANGE
+import { sql } from 'drizzle-orm';
+
+/**
+ * Transaction-scoped advisory lock on one station's queue. Put it first in a
+ * db.batch - the rest of the batch runs with the lock held, released on commit.
+ */
+export function stationQueueLock(stationId: number) {
+  return sql`SELECT pg_advisory_xact_lock(hashtext(${`queue:${stationId}`}))`;
+}
@@ -5,6 +5,16 @@ import { analyticsService } from '../services/analytics';
 import { notificationService } from '../services/notification';
 import { sessionService } from '../services/session';
 import { photoVerificationService } from '../services/photo-verification';
+import { paymentService } from '../services/payment';
+import { chargingTargetService } from '../services/charging-target';
+import { settlementService } from '../services/settlement';
+import { idleFeeService } from '../services/idle-fee';
+import { subscriptionService } from '../services/subscription';
+import { reservationService } from '../services/reservation';
+import { queueSwapService } from '../services/queue-swap';
+import { queueOverflowService } from '../services/queue-overflow';
+import { fleetService } from '../services/fleet';
+import { sessionTelemetryService } from '../services/session-telemetry';
 import { logger } from '../utils/logger';
 import { db } from '../config/database';
 import { queues, chargingStations, chargingSessions } from '../db/schema';
@@ -18,7 +28,7 @@ import { performance } from 'perf_hooks';
 
 interface ScheduledTask {
   id: string;
-  type: 'cleanup' | 'optimization' | 'notification' | 'analytics' | 'session' | 'alert' | 'performance' | 'verification';
+  type: 'cleanup' | 'optimization' | 'notification' | 'analytics' | 'session' | 'alert' | 'performance' | 'verification' | 'payment';
   scheduledTime: Date;
   retries: number;
   maxRetries: number;
@@ -29,6 +39,7 @@ interface ProcessConfig {
   name: string;
   interval: number;
   handler: () => Promise<void>;
+  initialDelay?: number;
   concurrencyLimit?: number;
   priority: 'high' | 'normal' | 'low';
 }
@@ -52,6 +63,7 @@ class QueueScheduler {
   private isRunning = false;
   private startTime = Date.now();
   private intervals = new Map<string, NodeJS.Timeout>();
+  private initialRuns = new Map<string, NodeJS.Timeout>();
   private tasks = new Map<string, ScheduledTask>();
   private taskLatencies: number[] = [];
   private readonly MAX_LATENCIES = 100;
@@ -66,6 +78,17 @@ class QueueScheduler {
     alerts: pLimit(2),
     performance: pLimit(1),
     verification: pLimit(3),
+    payments: pLimit(1),
+    settlements: pLimit(1),
+    idleFees: pLimit(1),
+    subscriptions: pLimit(1),
+    reservations: pLimit(1),
+    swaps: pLimit(1),
+    waitlist: pLimit(1),
+    fleetBilling: pLimit(1),
+    progress: pLimit(1),
+    targets: pLimit(1),
+    remoteStarts: pLimit(1),
   };
 
   // Adaptive intervals
@@ -78,6 +101,17 @@ class QueueScheduler {
     alerts: 4 * 60 * 1000,            // 4 min - Availability alerts
     performance: 15 * 60 * 1000,      // 15 min - Performance monitoring
     verification: 10 * 60 * 1000,     // 10 min - Verification state cleanup
+    payments: 5 * 60 * 1000,          // 5 min - Missing payment requests, unpaid retries/expiry
+    settlements: 6 * 60 * 60 * 1000,  // 6 h - Weekly owner settlements (idempotent per period)
+    idleFees: 60 * 1000,              // 1 min - Idle fee warnings & billable cap
+    subscriptions: 6 * 60 * 60 * 1000, // 6 h - Plan renewal reminders
+    reservations: 60 * 1000,          // 1 min - Booking reminders & no-show release
+    swaps: 60 * 1000,                 // 1 min - Queue swap offer expiry
+    waitlist: 60 * 1000,              // 1 min - Waitlist holds & offers
+    fleetBilling: 6 * 60 * 60 * 1000, // 6 h - Fleet invoices
+    progress: 60 * 1000,              // 1 min - Charging progress updates
+    targets: 60 * 1000,               // 1 min - Meter photo check-ins for targets
+    remoteStarts: 30 * 1000,          // 30s - Photo fallback for chargers that never started
   };
 
   private readonly processes: ProcessConfig[] = [
@@ -129,6 +163,74 @@ class QueueScheduler {
       handler: this.cleanupVerificationStates.bind(this), 
       priority: 'normal' 
     },
+    { 
+      name: 'payments', 
+      interval: this.baseIntervals.payments, 
+      handler: this.processUnpaidPayments.bind(this), 
+      priority: 'normal' 
+    },
+    { 
+      name: 'settlements', 
+      interval: this.baseIntervals.settlements, 
+      handler: this.runSettlements.bind(this), 
+      initialDelay: 60 * 1000,
+      priority: 'low' 
+    },
+    { 
+      name: 'idleFees', 
+      interval: this.baseIntervals.idleFees, 
+      handler: this.sweepIdleSessions.bind(this), 
+      priority: 'normal' 
+    },
+    { 
+      name: 'subscriptions', 
+      interval: this.baseIntervals.subscriptions, 
+      handler: this.sendRenewalReminders.bind(this), 
+      initialDelay: 90 * 1000,
+      priority: 'low' 
+    },
+    { 
+      name: 'reservations', 
+      interval: this.baseIntervals.reservations, 
+      handler: this.sweepReservations.bind(this), 
+      priority: 'high' 
+    },
+    { 
+      name: 'swaps', 
+      interval: this.baseIntervals.swaps, 
+      handler: this.expireSwapOffers.bind(this), 
+      priority: 'normal' 
+    },
+    { 
+      name: 'waitlist', 
+      interval: this.baseIntervals.waitlist, 
+      handler: this.sweepWaitlist.bind(this), 
+      priority: 'normal' 
+    },
+    { 
+      name: 'fleetBilling', 
+      interval: this.baseIntervals.fleetBilling, 
+      handler: this.invoiceDueFleets.bind(this), 
+      priority: 'low' 
+    },
+    { 
+      name: 'progress', 
+      interval: this.baseIntervals.progress, 
+      handler: this.sendProgressUpdates.bind(this), 
+      priority: 'normal' 
+    },
+    { 
+      name: 'targets', 
+      interval: this.baseIntervals.targets, 
+      handler: this.requestTargetCheckIns.bind(this), 
+      priority: 'normal' 
+    },
+    { 
+      name: 'remoteStarts', 
+      interval: this.baseIntervals.remoteStarts, 
+      handler: this.fallBackStalledRemoteStarts.bind(this), 
+      priority: 'high' 
+    },
   ];
 
   // ===============================================
@@ -147,8 +249,8 @@ class QueueScheduler {
     logger.info('🚀 Starting Queue Scheduler with Photo Verification...');
 
     // Start all processes
-    this.processes.forEach(({ name, interval, handler }) => {
-      this.startProcess(name, interval, handler);
+    this.processes.forEach(({ name, interval, handler, initialDelay }) => {
+      this.startProcess(name, interval, handler, initialDelay);
     });
 
     logger.info(`✅ Queue Scheduler operational with ${this.processes.length} processes`);
@@ -167,6 +269,11 @@ class QueueScheduler {
     }
     this.intervals.clear();
 
+    for (const timer of this.initialRuns.values()) {
+      clearTimeout(timer);
+    }
+    this.initialRuns.clear();
+
     // Cancel pending tasks
     this.tasks.clear();
 
@@ -177,8 +284,8 @@ class QueueScheduler {
   // CORE PROCESS MANAGEMENT
   // ===============================================
 
-  private startProcess(name: string, interval: number, handler: () => Promise<void>): void {
-    const timer = setInterval(async () => {
+  private startProcess(name: string, interval: number, handler: () => Promise<void>, initialDelay?: number): void {
+    const run = async () => {
       if (!this.isRunning) return;
 
       const start = performance.now();
@@ -189,9 +296,14 @@ class QueueScheduler {
       } catch (error) {
         logger.error(`❌ Process ${name} failed`, { error });
       }
-    }, interval);
+    };
 
-    this.intervals.set(name, timer);
+    this.intervals.set(name, setInterval(run, interval));
+
+    // Long-interval jobs also run shortly after boot instead of waiting a full interval
+    if (initialDelay !== undefined) {
+      this.initialRuns.set(name, setTimeout(run, initialDelay));
+    }
     logger.debug(`🔄 Process started: ${name} (${interval / 1000}s)`);
   }
 
@@ -290,38 +402,25 @@ class QueueScheduler {
 
     let optimized = false;
 
-    // Auto-promote if first slot expired >5 min
-    const first = queueData.find(q => q.position === 1 && q.status === 'reserved');
-    if (first?.reservationExpiry && Date.now() - first.reservationExpiry.getTime() > 5 * 60 * 1000) {
-      const next = queueData.find(q => q.position === 2 && q.status === 'waiting');
-      if (next) {
-        const success = await queueService.reserveSlot(next.userWhatsapp, stationId, 15);
-        if (success) {
-          optimized = true;
-          logger.info('🎯 Auto-promoted user', { stationId, user: next.userWhatsapp });
-        }
-      }
-    }
+    // Catch promotions missed while chargers were freed - the service checks capacity per lane
+    const waitingBefore = queueData.filter(q => q.status === 'waiting').length;
+    await queueService.promoteNextInQueue(stationId);
 
-    // Rebalance positions if needed
-    const active = queueData.filter(q => !['cancelled', 'completed'].includes(q.status));
-    const needsRebalance = active.some((q, i) => q.position !== i + 1);
-    
-    if (needsRebalance) {
-      const updates = active
-        .map((q, i) => ({ id: q.id, pos: i + 1 }))
-        .filter(u => queueData.find(q => q.id === u.id)?.position !== u.pos);
+    // Rebalance positions if needed - each connector lane counts from 1, drivers already charging are out of line
+    const rebalanced = await queueService.rebalanceLanes(stationId);
+    if (rebalanced > 0) {
+      optimized = true;
+      logger.info(`⚖️ Rebalanced ${rebalanced} positions`, { stationId });
+    }
 
-      if (updates.length > 0) {
-        await db.transaction(async (tx) => {
-          for (const { id, pos } of updates) {
-            await tx.update(queues)
-              .set({ position: pos, updatedAt: new Date() })
-              .where(eq(queues.id, id));
-          }
-        });
+    if (waitingBefore > 0) {
+      const [{ count }] = await db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(queues)
+        .where(and(eq(queues.stationId, stationId), eq(queues.status, 'waiting')));
+      if (count < waitingBefore) {
         optimized = true;
-        logger.info(`⚖️ Rebalanced ${updates.length} positions`, { stationId });
+        logger.info('🎯 Auto-promoted waiting drivers', { stationId, promoted: waitingBefore - count });
       }
     }
 
@@ -480,7 +579,8 @@ class QueueScheduler {
             return 'verification_pending';
           }
 
-          if (sessionData.verificationStatus === 'awaiting_end_photo') {
+          // End photo requested, or the charger is already stopping remotely
+          if (['awaiting_end_photo', 'awaiting_charger_stop'].includes(sessionData.verificationStatus ?? '')) {
             return 'verification_pending';
           }
 
@@ -489,24 +589,8 @@ class QueueScheduler {
             return 'not_active';
           }
 
-          // ✅ FIX: Get battery data from in-memory session object (not DB)
-          // The DB schema doesn't have currentBatteryLevel/targetBatteryLevel
-          // These are tracked in memory by sessionService
-          const currentBattery = session.currentBatteryLevel || 0;
-          const targetBattery = session.targetBatteryLevel || 80;
-
-          if (currentBattery >= targetBattery) {
-            logger.info('🎉 Session target reached', { 
-              sessionId: session.id, 
-              battery: currentBattery, 
-              target: targetBattery 
-            });
-            
-            await sessionService.stopSession(
-              sessionData.userWhatsapp, 
-              sessionData.stationId
-            );
-            
+          // The driver's own target (kWh, ₹ or battery %) - sessions without one run until stopped
+          if (await chargingTargetService.evaluateSession(session.id) === 'reached') {
             return 'target_reached';
           }
 
@@ -634,6 +718,72 @@ class QueueScheduler {
     }
   }
 
+  // ===============================================
+  // PAYMENT RETRIES & EXPIRY
+  // ===============================================
+
+  /**
+   * Request payment for billed sessions that have none, re-send expired payment links
+   * and expire sessions that stay unpaid
+   */
+  private async processUnpaidPayments(): Promise<void> {
+    const { requested, retried, expired } = await this.concurrencyLimits.payments(async () => ({
+      requested: await paymentService.requestMissingSessionPayments(),
+      ...await paymentService.processUnpaidPayments(),
+    }));
+
+    if (requested > 0 || retried > 0 || expired > 0) {
+      logger.info(`💳 Payment follow-up: ${requested} requested, ${retried} retried, ${expired} expired`);
+    }
+  }
+
+  // ===============================================
+  // SERVICE SWEEPS
+  // ===============================================
+
+  private async runSettlements(): Promise<void> {
+    await this.concurrencyLimits.settlements(() => settlementService.runDueSettlements());
+  }
+
+  private async sweepIdleSessions(): Promise<void> {
+    await this.concurrencyLimits.idleFees(() => idleFeeService.sweepIdleSessions());
+  }
+
+  private async sendRenewalReminders(): Promise<void> {
+    await this.concurrencyLimits.subscriptions(() => subscriptionService.sendRenewalReminders());
+  }
+
+  private async sweepReservations(): Promise<void> {
+    await this.concurrencyLimits.reservations(() => reservationService.sweep());
+  }
+
+  private async expireSwapOffers(): Promise<void> {
+    await this.concurrencyLimits.swaps(() => queueSwapService.expirePendingOffers());
+  }
+
+  private async sweepWaitlist(): Promise<void> {
+    await this.concurrencyLimits.waitlist(() => queueOverflowService.sweepWaitlist());
+  }
+
+  private async invoiceDueFleets(): Promise<void> {
+    await this.concurrencyLimits.fleetBilling(() => fleetService.invoiceDueFleets());
+  }
+
+  private async sendProgressUpdates(): Promise<void> {
+    await this.concurrencyLimits.progress(() => sessionTelemetryService.sendDueProgressUpdates());
+  }
+
+  private async requestTargetCheckIns(): Promise<void> {
+    await this.concurrencyLimits.targets(() => chargingTargetService.requestDueCheckIns());
+  }
+
+  private async fallBackStalledRemoteStarts(): Promise<void> {
+    const fellBack = await this.concurrencyLimits.remoteStarts(() => sessionService.fallBackStalledRemoteStarts());
+    if (fellBack > 0) {
+      logger.info(`📸 ${fellBack} stalled remote starts moved to photo metering`);
+    }
+  }
+
   // ===============================================
   // ALERT HANDLERS
   // ===============================================
@@ -791,6 +941,7 @@ class QueueScheduler {
       alert: this.checkAvailabilityAlerts.bind(this),
       performance: this.monitorPerformance.bind(this),
       verification: this.cleanupVerificationStates.bind(this),
+      payment: this.processUnpaidPayments.bind(this),
     };
 
     const handler = handlers[task.type];